@@ -0,0 +1,193 @@
+-- =============================================
+-- STORE STORAGE KEYS INSTEAD OF ABSOLUTE URLS
+-- =============================================
+-- Content rows now keep the object key (e.g. media_page_content/<user>/<file>)
+-- and the app builds the URL from the configured storage provider at read time.
+-- A storage provider or URL format change no longer needs a data migration
+-- like FIX_B2_URL_FORMAT.sql or FIX_DOUBLE_S3_URLS.sql.
+--
+-- thumbnail_url/content_url stay for external URLs (Mux streams and
+-- thumbnails) and for rows created before this migration.
+
+-- 1. Extract the object key from any B2 URL shape we have stored so far:
+--    https://s3.<region>.backblazeb2.com/<bucket>/<key>            (path-hosted)
+--    https://<bucket>.s3[.s3].<region>.backblazeb2.com/<key>       (virtual-hosted)
+--    https://f003.backblazeb2.com/file/<bucket>/<key>              (friendly URL)
+CREATE OR REPLACE FUNCTION public.storage_key_from_url(url TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  IF url IS NULL OR url NOT LIKE '%backblazeb2.com/%' THEN
+    RETURN NULL;
+  END IF;
+
+  IF url ~ '^https?://s3\.[a-z0-9-]+\.backblazeb2\.com/' THEN
+    RETURN REGEXP_REPLACE(url, '^https?://s3\.[a-z0-9-]+\.backblazeb2\.com/[^/]+/', '');
+  END IF;
+
+  IF url ~ '^https?://f[0-9]+\.backblazeb2\.com/file/' THEN
+    RETURN REGEXP_REPLACE(url, '^https?://f[0-9]+\.backblazeb2\.com/file/[^/]+/', '');
+  END IF;
+
+  RETURN REGEXP_REPLACE(url, '^https?://[^/]+\.backblazeb2\.com/', '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 2. Add key columns to every content table
+ALTER TABLE public.media_page_content
+ADD COLUMN IF NOT EXISTS thumbnail_key TEXT NULL,
+ADD COLUMN IF NOT EXISTS content_key TEXT NULL;
+
+ALTER TABLE public.portfolio_page_content
+ADD COLUMN IF NOT EXISTS thumbnail_key TEXT NULL,
+ADD COLUMN IF NOT EXISTS content_key TEXT NULL;
+
+ALTER TABLE public.masterclass_page_content
+ADD COLUMN IF NOT EXISTS thumbnail_key TEXT NULL,
+ADD COLUMN IF NOT EXISTS content_key TEXT NULL;
+
+-- 3. Rows with a key no longer need a baked URL
+ALTER TABLE public.media_page_content ALTER COLUMN thumbnail_url DROP NOT NULL;
+ALTER TABLE public.portfolio_page_content ALTER COLUMN thumbnail_url DROP NOT NULL;
+ALTER TABLE public.masterclass_page_content ALTER COLUMN thumbnail_url DROP NOT NULL;
+
+-- video_uploads.filename already is the storage key
+ALTER TABLE public.video_uploads ALTER COLUMN b2_url DROP NOT NULL;
+ALTER TABLE public.masterclass_video_uploads ALTER COLUMN b2_url DROP NOT NULL;
+
+-- 4. Backfill keys from existing B2 URLs
+UPDATE public.media_page_content
+SET
+  thumbnail_key = COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url)),
+  content_key = COALESCE(content_key, public.storage_key_from_url(content_url));
+
+UPDATE public.portfolio_page_content
+SET
+  thumbnail_key = COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url)),
+  content_key = COALESCE(content_key, public.storage_key_from_url(content_url));
+
+UPDATE public.masterclass_page_content
+SET
+  thumbnail_key = COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url)),
+  content_key = COALESCE(content_key, public.storage_key_from_url(content_url));
+
+-- 5. Return the keys from get_content_by_destination
+DROP FUNCTION IF EXISTS public.get_content_by_destination(TEXT) CASCADE;
+
+CREATE OR REPLACE FUNCTION public.get_content_by_destination(destination TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  creator TEXT,
+  description TEXT,
+  type TEXT,
+  category TEXT,
+  thumbnail_url TEXT,
+  content_url TEXT,
+  thumbnail_key TEXT,
+  content_key TEXT,
+  duration TEXT,
+  read_time TEXT,
+  views_count INT,
+  like_count INT,
+  is_premium BOOLEAN,
+  status TEXT,
+  level TEXT,
+  features JSONB,
+  lessons_count INT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF destination = 'media' THEN
+    RETURN QUERY
+    SELECT
+      mpc.id,
+      mpc.user_id,
+      mpc.title,
+      mpc.creator,
+      mpc.description,
+      mpc.type,
+      mpc.category,
+      mpc.thumbnail_url,
+      mpc.content_url,
+      mpc.thumbnail_key,
+      mpc.content_key,
+      mpc.duration,
+      mpc.read_time,
+      mpc.views_count,
+      mpc.like_count,
+      mpc.is_premium,
+      mpc.status,
+      'All Levels'::TEXT,
+      '[]'::JSONB,
+      0::INT,
+      mpc.created_at,
+      mpc.updated_at
+    FROM public.media_page_content mpc
+    WHERE mpc.status = 'published'
+    ORDER BY mpc.created_at DESC;
+
+  ELSIF destination = 'masterclass' THEN
+    RETURN QUERY
+    SELECT
+      mcc.id,
+      mcc.user_id,
+      mcc.title,
+      mcc.creator,
+      mcc.description,
+      mcc.type,
+      mcc.category,
+      mcc.thumbnail_url,
+      mcc.content_url,
+      mcc.thumbnail_key,
+      mcc.content_key,
+      mcc.duration,
+      mcc.read_time,
+      mcc.views_count,
+      mcc.like_count,
+      mcc.is_premium,
+      mcc.status,
+      COALESCE(mcc.level, 'All Levels'),
+      COALESCE(mcc.features, '[]'::jsonb),
+      COALESCE(mcc.lessons_count, 0),
+      mcc.created_at,
+      mcc.updated_at
+    FROM public.masterclass_page_content mcc
+    WHERE mcc.status = 'published'
+    ORDER BY mcc.created_at DESC;
+
+  ELSIF destination = 'portfolio' THEN
+    RETURN QUERY
+    SELECT
+      ppc.id,
+      ppc.user_id,
+      ppc.title,
+      ppc.creator,
+      ppc.description,
+      ppc.type,
+      ppc.category,
+      ppc.thumbnail_url,
+      ppc.content_url,
+      ppc.thumbnail_key,
+      ppc.content_key,
+      ppc.duration,
+      ppc.read_time,
+      ppc.views_count,
+      ppc.like_count,
+      ppc.is_premium,
+      ppc.status,
+      'All Levels'::TEXT,
+      '[]'::JSONB,
+      0::INT,
+      ppc.created_at,
+      ppc.updated_at
+    FROM public.portfolio_page_content ppc
+    WHERE ppc.status = 'published'
+    ORDER BY ppc.created_at DESC;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.get_content_by_destination(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_content_by_destination(TEXT) TO anon;
@@ -0,0 +1,225 @@
+-- =============================================
+-- PURGE STORAGE OBJECTS AND MUX ASSETS FOR DELETED CONTENT
+-- =============================================
+-- cleanup_expired_deleted_content() and cleanup_expired_deleted_portfolio_content()
+-- only flip rows to 'permanently_deleted'; the files in storage and the Mux
+-- assets behind them were never removed. This migration queues everything a
+-- row pointed at when it is permanently deleted (or hard-deleted) and the
+-- purge-deleted-media edge function drains that queue.
+--
+-- A daily orphan sweep in the same function removes objects that no row
+-- references at all (abandoned uploads, replaced thumbnails).
+
+-- 1. Extract the playback ID from a Mux stream URL
+--    https://stream.mux.com/<playback_id>.m3u8
+CREATE OR REPLACE FUNCTION public.mux_playback_id_from_url(url TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  IF url IS NULL OR url !~ '^https://stream\.mux\.com/' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN SUBSTRING(url FROM '^https://stream\.mux\.com/([^/.?]+)');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 2. Purge queue
+CREATE TABLE IF NOT EXISTS public.storage_purge_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_table TEXT NOT NULL,
+  content_id UUID NULL,
+  user_id UUID NULL,
+  reason TEXT NOT NULL DEFAULT 'permanently_deleted'
+    CHECK (reason IN ('permanently_deleted', 'deleted', 'orphan_sweep')),
+  storage_keys TEXT[] NOT NULL DEFAULT '{}',
+  mux_asset_ids TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'purged', 'partial', 'failed')),
+  attempts INT NOT NULL DEFAULT 0,
+  last_error TEXT NULL,
+  purged_keys TEXT[] NOT NULL DEFAULT '{}',
+  purged_assets TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE NULL
+);
+
+-- Still referenced by other live rows when the job ran, so left in place
+ALTER TABLE public.storage_purge_jobs
+ADD COLUMN IF NOT EXISTS skipped_keys TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS skipped_assets TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_storage_purge_jobs_status
+ON public.storage_purge_jobs(status, created_at);
+
+-- Only the service role (edge function) touches the queue
+ALTER TABLE public.storage_purge_jobs ENABLE ROW LEVEL SECURITY;
+
+-- 3. Queue the row's objects and Mux assets
+CREATE OR REPLACE FUNCTION public.enqueue_content_purge()
+RETURNS TRIGGER AS $$
+DECLARE
+  row_data JSONB;
+  keys TEXT[] := '{}';
+  assets TEXT[] := '{}';
+  v_playback_id TEXT;
+  v_upload_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status <> 'permanently_deleted' THEN
+      RETURN NEW;
+    END IF;
+    row_data := to_jsonb(NEW);
+  ELSE
+    row_data := to_jsonb(OLD);
+  END IF;
+
+  keys := ARRAY_REMOVE(ARRAY[
+    COALESCE(row_data->>'thumbnail_key', public.storage_key_from_url(row_data->>'thumbnail_url')),
+    COALESCE(row_data->>'content_key', public.storage_key_from_url(row_data->>'content_url'))
+  ], NULL);
+
+  v_playback_id := public.mux_playback_id_from_url(row_data->>'content_url');
+  v_upload_id := NULLIF(row_data->>'video_upload_id', '')::UUID;
+
+  -- The uploaded source file and the Mux asset live on the upload rows
+  IF v_playback_id IS NOT NULL OR v_upload_id IS NOT NULL THEN
+    SELECT
+      keys || COALESCE(ARRAY_AGG(DISTINCT u.filename) FILTER (WHERE u.filename IS NOT NULL), '{}'),
+      COALESCE(ARRAY_AGG(DISTINCT u.asset_id) FILTER (WHERE u.asset_id IS NOT NULL), '{}')
+    INTO keys, assets
+    FROM (
+      SELECT filename, asset_id FROM public.video_uploads
+      WHERE playback_id = v_playback_id
+      UNION ALL
+      SELECT filename, asset_id FROM public.masterclass_video_uploads
+      WHERE playback_id = v_playback_id OR id = v_upload_id
+    ) u;
+  END IF;
+
+  IF CARDINALITY(keys) > 0 OR CARDINALITY(assets) > 0 THEN
+    INSERT INTO public.storage_purge_jobs (source_table, content_id, user_id, reason, storage_keys, mux_asset_ids)
+    VALUES (
+      TG_TABLE_NAME,
+      (row_data->>'id')::UUID,
+      (row_data->>'user_id')::UUID,
+      CASE WHEN TG_OP = 'DELETE' THEN 'deleted' ELSE 'permanently_deleted' END,
+      keys,
+      assets
+    );
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_enqueue_media_content_purge ON public.media_page_content;
+CREATE TRIGGER trigger_enqueue_media_content_purge
+AFTER UPDATE OF status OR DELETE ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_content_purge();
+
+DROP TRIGGER IF EXISTS trigger_enqueue_portfolio_content_purge ON public.portfolio_page_content;
+CREATE TRIGGER trigger_enqueue_portfolio_content_purge
+AFTER UPDATE OF status OR DELETE ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_content_purge();
+
+DROP TRIGGER IF EXISTS trigger_enqueue_masterclass_content_purge ON public.masterclass_page_content;
+CREATE TRIGGER trigger_enqueue_masterclass_content_purge
+AFTER UPDATE OF status OR DELETE ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_content_purge();
+
+-- 4. Every key a live row still points at. The purge function never deletes
+--    a key listed here, so shared files and restored drafts stay safe.
+CREATE OR REPLACE VIEW public.storage_object_references AS
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url)) AS key
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+-- Upload rows outlive their content; once a purge job claims the file it
+-- no longer counts as a reference
+SELECT vu.filename FROM public.video_uploads vu
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.storage_purge_jobs j WHERE vu.filename = ANY(j.storage_keys)
+)
+UNION
+SELECT mvu.filename FROM public.masterclass_video_uploads mvu
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.storage_purge_jobs j WHERE mvu.filename = ANY(j.storage_keys)
+)
+UNION
+SELECT public.storage_key_from_url(thumbnail_url) FROM public.media_items
+UNION
+SELECT public.storage_key_from_url(avatar_url) FROM public.projects_page_providers;
+
+REVOKE ALL ON public.storage_object_references FROM anon, authenticated;
+
+-- Likewise every Mux asset a live row still plays, by playback ID or by
+-- its upload row
+CREATE OR REPLACE VIEW public.mux_asset_references AS
+WITH live_content AS (
+  SELECT public.mux_playback_id_from_url(content_url) AS playback_id,
+         NULLIF(to_jsonb(c)->>'video_upload_id', '')::UUID AS upload_id
+  FROM public.media_page_content c WHERE status <> 'permanently_deleted'
+  UNION ALL
+  SELECT public.mux_playback_id_from_url(content_url),
+         NULLIF(to_jsonb(c)->>'video_upload_id', '')::UUID
+  FROM public.portfolio_page_content c WHERE status <> 'permanently_deleted'
+  UNION ALL
+  SELECT public.mux_playback_id_from_url(content_url),
+         NULLIF(to_jsonb(c)->>'video_upload_id', '')::UUID
+  FROM public.masterclass_page_content c WHERE status <> 'permanently_deleted'
+)
+SELECT vu.asset_id FROM public.video_uploads vu
+JOIN live_content lc ON vu.playback_id = lc.playback_id
+WHERE vu.asset_id IS NOT NULL
+UNION
+SELECT mvu.asset_id FROM public.masterclass_video_uploads mvu
+JOIN live_content lc ON mvu.playback_id = lc.playback_id OR mvu.id = lc.upload_id
+WHERE mvu.asset_id IS NOT NULL;
+
+REVOKE ALL ON public.mux_asset_references FROM anon, authenticated;
+
+-- 5. Drain the queue every 15 minutes and sweep orphans once a day.
+--    Both call the edge function with the service role key kept in Vault:
+--    SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--    SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule('purge-deleted-media', '*/15 * * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-deleted-media',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"mode": "queue"}'::jsonb
+  );
+$$);
+
+SELECT cron.schedule('sweep-orphaned-storage', '30 3 * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-deleted-media',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"mode": "orphans"}'::jsonb
+  );
+$$);
@@ -0,0 +1,58 @@
+-- =============================================
+-- PER-USER RATE LIMITS FOR EDGE FUNCTIONS
+-- =============================================
+-- Edge function isolates don't share memory, so the counters live here.
+-- Each (user, bucket) pair keeps one fixed window; the middleware in
+-- supabase/functions/_shared/middleware.ts calls check_rate_limit() once per
+-- request and answers 429 when it returns allowed = false.
+
+-- 1. Counters
+CREATE TABLE IF NOT EXISTS public.edge_rate_limits (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bucket TEXT NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, bucket)
+);
+
+-- Only the service role (edge functions) reads or writes counters
+ALTER TABLE public.edge_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- 2. Count a request and report whether it is within the limit
+CREATE OR REPLACE FUNCTION public.check_rate_limit(
+  p_user_id UUID,
+  p_bucket TEXT,
+  p_limit INT,
+  p_window_seconds INT
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  remaining INT,
+  reset_at TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+  v_window_start TIMESTAMP WITH TIME ZONE;
+  v_count INT;
+BEGIN
+  v_window_start := TO_TIMESTAMP(FLOOR(EXTRACT(EPOCH FROM NOW()) / p_window_seconds) * p_window_seconds);
+
+  INSERT INTO public.edge_rate_limits (user_id, bucket, window_start, request_count)
+  VALUES (p_user_id, p_bucket, v_window_start, 1)
+  ON CONFLICT (user_id, bucket) DO UPDATE
+  SET
+    request_count = CASE
+      WHEN edge_rate_limits.window_start = EXCLUDED.window_start THEN edge_rate_limits.request_count + 1
+      ELSE 1
+    END,
+    window_start = EXCLUDED.window_start
+  RETURNING edge_rate_limits.request_count INTO v_count;
+
+  RETURN QUERY SELECT
+    v_count <= p_limit,
+    GREATEST(p_limit - v_count, 0),
+    v_window_start + MAKE_INTERVAL(secs => p_window_seconds);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(UUID, TEXT, INT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_rate_limit(UUID, TEXT, INT, INT) TO service_role;
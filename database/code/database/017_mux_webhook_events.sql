@@ -0,0 +1,59 @@
+-- =============================================
+-- VERIFIED, IDEMPOTENT MUX WEBHOOKS FOR BOTH UPLOAD TABLES
+-- =============================================
+-- mux-webhook-handler now records every event it accepts so retries and
+-- duplicate deliveries are processed once, and updates video_uploads or
+-- masterclass_video_uploads depending on where the asset belongs.
+
+-- 1. Event store, keyed by the Mux event ID
+CREATE TABLE IF NOT EXISTS public.mux_webhook_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  object_id TEXT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processed', 'unmatched', 'failed')),
+  upload_table TEXT NULL,
+  error TEXT NULL,
+  attempts INT NOT NULL DEFAULT 0,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_mux_webhook_events_object_id ON public.mux_webhook_events(object_id);
+CREATE INDEX IF NOT EXISTS idx_mux_webhook_events_received_at ON public.mux_webhook_events(received_at DESC);
+
+-- Only the service role (webhook function) touches events
+ALTER TABLE public.mux_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- 2. Asset details persisted from the webhook payloads
+ALTER TABLE public.video_uploads
+ADD COLUMN IF NOT EXISTS mux_upload_id TEXT NULL,
+ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC NULL,
+ADD COLUMN IF NOT EXISTS aspect_ratio TEXT NULL,
+ADD COLUMN IF NOT EXISTS max_resolution TEXT NULL,
+ADD COLUMN IF NOT EXISTS static_renditions JSONB NULL,
+ADD COLUMN IF NOT EXISTS error_message TEXT NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NULL;
+
+ALTER TABLE public.masterclass_video_uploads
+ADD COLUMN IF NOT EXISTS mux_upload_id TEXT NULL,
+ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC NULL,
+ADD COLUMN IF NOT EXISTS aspect_ratio TEXT NULL,
+ADD COLUMN IF NOT EXISTS max_resolution TEXT NULL,
+ADD COLUMN IF NOT EXISTS static_renditions JSONB NULL,
+ADD COLUMN IF NOT EXISTS error_message TEXT NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NULL;
+
+CREATE INDEX IF NOT EXISTS idx_video_uploads_mux_upload_id ON public.video_uploads(mux_upload_id);
+CREATE INDEX IF NOT EXISTS idx_masterclass_video_uploads_asset_id ON public.masterclass_video_uploads(asset_id);
+CREATE INDEX IF NOT EXISTS idx_masterclass_video_uploads_mux_upload_id ON public.masterclass_video_uploads(mux_upload_id);
+
+-- 3. Assets deleted in Mux are no longer playable
+ALTER TABLE public.video_uploads DROP CONSTRAINT IF EXISTS video_uploads_status_check;
+ALTER TABLE public.video_uploads ADD CONSTRAINT video_uploads_status_check
+  CHECK (status IN ('pending', 'processing', 'ready', 'failed', 'deleted'));
+
+ALTER TABLE public.masterclass_video_uploads DROP CONSTRAINT IF EXISTS masterclass_video_uploads_status_check;
+ALTER TABLE public.masterclass_video_uploads ADD CONSTRAINT masterclass_video_uploads_status_check
+  CHECK (status IN ('pending', 'processing', 'ready', 'failed', 'deleted'));
@@ -0,0 +1,102 @@
+-- =============================================
+-- VIDEO PROCESSING JOBS
+-- =============================================
+-- One row per video sent to Mux, pushed to the browser over realtime so the
+-- uploads tray can follow every job across pages and sessions instead of
+-- each upload form polling video_uploads.
+--
+-- State machine:
+--   uploaded   file is in storage, not yet sent to Mux
+--   queued     Mux asset created, waiting for Mux to start
+--   processing Mux is encoding (video.asset.created)
+--   ready      playable (video.asset.ready)             terminal
+--   errored    Mux or the submit step failed            retry -> queued
+--   cancelled  the user gave up on the job              terminal
+
+-- 1. Jobs
+CREATE TABLE IF NOT EXISTS public.video_processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  upload_table TEXT NOT NULL CHECK (upload_table IN ('video_uploads', 'masterclass_video_uploads')),
+  upload_id UUID NULL,
+  storage_key TEXT NOT NULL,
+  title TEXT NULL,
+  asset_id TEXT NULL,
+  playback_id TEXT NULL,
+  state TEXT NOT NULL DEFAULT 'uploaded'
+    CHECK (state IN ('uploaded', 'queued', 'processing', 'ready', 'errored', 'cancelled')),
+  error_message TEXT NULL,
+  attempts INT NOT NULL DEFAULT 0,
+  dismissed_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_processing_jobs_user_id ON public.video_processing_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_video_processing_jobs_asset_id ON public.video_processing_jobs(asset_id);
+
+-- 2. Enforce the state machine. Edge functions (service role) drive it;
+--    users may only cancel a job or dismiss it from the tray.
+CREATE OR REPLACE FUNCTION public.enforce_video_processing_job_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_service BOOLEAN := COALESCE(auth.role(), 'service_role') = 'service_role';
+BEGIN
+  NEW.updated_at := NOW();
+
+  IF NOT is_service AND (
+    NEW.storage_key IS DISTINCT FROM OLD.storage_key OR
+    NEW.upload_table IS DISTINCT FROM OLD.upload_table OR
+    NEW.playback_policy IS DISTINCT FROM OLD.playback_policy OR
+    NEW.attempts IS DISTINCT FROM OLD.attempts
+  ) THEN
+    RAISE EXCEPTION 'Only the server can change a processing job';
+  END IF;
+
+  IF NEW.state = OLD.state THEN
+    IF NOT is_service AND (
+      NEW.asset_id IS DISTINCT FROM OLD.asset_id OR
+      NEW.playback_id IS DISTINCT FROM OLD.playback_id OR
+      NEW.upload_id IS DISTINCT FROM OLD.upload_id OR
+      NEW.error_message IS DISTINCT FROM OLD.error_message
+    ) THEN
+      RAISE EXCEPTION 'Only dismissed_at can be changed on a processing job';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_service AND NEW.state <> 'cancelled' THEN
+    RAISE EXCEPTION 'Processing job state % can only be set by the server', NEW.state;
+  END IF;
+
+  IF NOT (
+    (OLD.state = 'uploaded' AND NEW.state IN ('queued', 'errored', 'cancelled')) OR
+    (OLD.state = 'queued' AND NEW.state IN ('processing', 'ready', 'errored', 'cancelled')) OR
+    (OLD.state = 'processing' AND NEW.state IN ('ready', 'errored', 'cancelled')) OR
+    (OLD.state = 'errored' AND NEW.state IN ('queued', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid processing job transition % -> %', OLD.state, NEW.state;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_video_processing_job_transition ON public.video_processing_jobs;
+CREATE TRIGGER trigger_enforce_video_processing_job_transition
+BEFORE UPDATE ON public.video_processing_jobs
+FOR EACH ROW EXECUTE FUNCTION public.enforce_video_processing_job_transition();
+
+-- 3. RLS
+ALTER TABLE public.video_processing_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own processing jobs" ON public.video_processing_jobs;
+CREATE POLICY "Users can view their own processing jobs" ON public.video_processing_jobs
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can cancel or dismiss their own processing jobs" ON public.video_processing_jobs;
+CREATE POLICY "Users can cancel or dismiss their own processing jobs" ON public.video_processing_jobs
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- 4. Push changes to the uploads tray
+ALTER PUBLICATION supabase_realtime ADD TABLE public.video_processing_jobs;
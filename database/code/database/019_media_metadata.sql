@@ -0,0 +1,405 @@
+-- =============================================
+-- SERVER-SIDE MEDIA METADATA
+-- =============================================
+-- Duration, dimensions, bitrate and codec are captured once on the server
+-- and stored on the content rows as numbers; the browser only formats
+-- them. Mux-backed content copies them from its upload row (filled in by
+-- mux-webhook-handler on video.asset.ready); content stored directly in
+-- B2 is probed by the extract-media-metadata function.
+--
+-- The old free-text `duration` column ('3:45') is no longer written.
+
+-- 1. Metadata columns
+ALTER TABLE public.media_page_content
+ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC NULL,
+ADD COLUMN IF NOT EXISTS width INT NULL,
+ADD COLUMN IF NOT EXISTS height INT NULL,
+ADD COLUMN IF NOT EXISTS bitrate BIGINT NULL,
+ADD COLUMN IF NOT EXISTS codec TEXT NULL,
+ADD COLUMN IF NOT EXISTS metadata_extracted_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS metadata_attempts INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.portfolio_page_content
+ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC NULL,
+ADD COLUMN IF NOT EXISTS width INT NULL,
+ADD COLUMN IF NOT EXISTS height INT NULL,
+ADD COLUMN IF NOT EXISTS bitrate BIGINT NULL,
+ADD COLUMN IF NOT EXISTS codec TEXT NULL,
+ADD COLUMN IF NOT EXISTS metadata_extracted_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS metadata_attempts INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.masterclass_page_content
+ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC NULL,
+ADD COLUMN IF NOT EXISTS width INT NULL,
+ADD COLUMN IF NOT EXISTS height INT NULL,
+ADD COLUMN IF NOT EXISTS bitrate BIGINT NULL,
+ADD COLUMN IF NOT EXISTS codec TEXT NULL,
+ADD COLUMN IF NOT EXISTS metadata_extracted_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS metadata_attempts INT NOT NULL DEFAULT 0;
+
+-- duration_seconds already exists on the upload tables (017)
+ALTER TABLE public.video_uploads
+ADD COLUMN IF NOT EXISTS width INT NULL,
+ADD COLUMN IF NOT EXISTS height INT NULL,
+ADD COLUMN IF NOT EXISTS bitrate BIGINT NULL,
+ADD COLUMN IF NOT EXISTS codec TEXT NULL;
+
+ALTER TABLE public.masterclass_video_uploads
+ADD COLUMN IF NOT EXISTS width INT NULL,
+ADD COLUMN IF NOT EXISTS height INT NULL,
+ADD COLUMN IF NOT EXISTS bitrate BIGINT NULL,
+ADD COLUMN IF NOT EXISTS codec TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_media_page_content_mux_playback_id
+  ON public.media_page_content(public.mux_playback_id_from_url(content_url));
+CREATE INDEX IF NOT EXISTS idx_portfolio_page_content_mux_playback_id
+  ON public.portfolio_page_content(public.mux_playback_id_from_url(content_url));
+CREATE INDEX IF NOT EXISTS idx_masterclass_page_content_mux_playback_id
+  ON public.masterclass_page_content(public.mux_playback_id_from_url(content_url));
+CREATE INDEX IF NOT EXISTS idx_video_uploads_playback_id ON public.video_uploads(playback_id);
+CREATE INDEX IF NOT EXISTS idx_masterclass_video_uploads_playback_id ON public.masterclass_video_uploads(playback_id);
+
+-- 2. Parse the legacy '1:02:03' / '3:45' strings. '0:00' was written when
+--    the browser couldn't read the file, so it means unknown.
+CREATE OR REPLACE FUNCTION public.duration_text_to_seconds(duration TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+  parts TEXT[];
+  total NUMERIC;
+BEGIN
+  IF duration IS NULL OR duration !~ '^\d+(:\d{1,2}){1,2}$' THEN
+    RETURN NULL;
+  END IF;
+
+  parts := STRING_TO_ARRAY(duration, ':');
+  IF CARDINALITY(parts) = 3 THEN
+    total := parts[1]::NUMERIC * 3600 + parts[2]::NUMERIC * 60 + parts[3]::NUMERIC;
+  ELSE
+    total := parts[1]::NUMERIC * 60 + parts[2]::NUMERIC;
+  END IF;
+
+  RETURN NULLIF(total, 0);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE public.media_page_content
+SET duration_seconds = public.duration_text_to_seconds(duration)
+WHERE duration_seconds IS NULL;
+
+UPDATE public.portfolio_page_content
+SET duration_seconds = public.duration_text_to_seconds(duration)
+WHERE duration_seconds IS NULL;
+
+UPDATE public.masterclass_page_content
+SET duration_seconds = public.duration_text_to_seconds(duration)
+WHERE duration_seconds IS NULL;
+
+-- 3. Metadata of the ready upload behind a Mux-backed content row
+CREATE OR REPLACE FUNCTION public.find_upload_metadata(p_playback_id TEXT, p_upload_id UUID)
+RETURNS TABLE (
+  duration_seconds NUMERIC,
+  width INT,
+  height INT,
+  bitrate BIGINT,
+  codec TEXT
+) AS $$
+  SELECT u.duration_seconds, u.width, u.height, u.bitrate, u.codec
+  FROM (
+    SELECT vu.duration_seconds, vu.width, vu.height, vu.bitrate, vu.codec
+    FROM public.video_uploads vu
+    WHERE vu.status = 'ready' AND vu.playback_id = p_playback_id
+    UNION ALL
+    SELECT mvu.duration_seconds, mvu.width, mvu.height, mvu.bitrate, mvu.codec
+    FROM public.masterclass_video_uploads mvu
+    WHERE mvu.status = 'ready' AND (mvu.playback_id = p_playback_id OR mvu.id = p_upload_id)
+  ) u
+  WHERE u.duration_seconds IS NOT NULL
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- 4. New Mux-backed content picks up the metadata on insert
+CREATE OR REPLACE FUNCTION public.apply_upload_metadata()
+RETURNS TRIGGER AS $$
+DECLARE
+  meta RECORD;
+BEGIN
+  IF NEW.metadata_extracted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO meta
+  FROM public.find_upload_metadata(
+    public.mux_playback_id_from_url(NEW.content_url),
+    NULLIF(to_jsonb(NEW)->>'video_upload_id', '')::UUID
+  );
+
+  IF FOUND THEN
+    NEW.duration_seconds := meta.duration_seconds;
+    NEW.width := meta.width;
+    NEW.height := meta.height;
+    NEW.bitrate := meta.bitrate;
+    NEW.codec := meta.codec;
+    NEW.metadata_extracted_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_apply_media_upload_metadata ON public.media_page_content;
+CREATE TRIGGER trigger_apply_media_upload_metadata
+BEFORE INSERT OR UPDATE OF content_url ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.apply_upload_metadata();
+
+DROP TRIGGER IF EXISTS trigger_apply_portfolio_upload_metadata ON public.portfolio_page_content;
+CREATE TRIGGER trigger_apply_portfolio_upload_metadata
+BEFORE INSERT OR UPDATE OF content_url ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.apply_upload_metadata();
+
+DROP TRIGGER IF EXISTS trigger_apply_masterclass_upload_metadata ON public.masterclass_page_content;
+CREATE TRIGGER trigger_apply_masterclass_upload_metadata
+BEFORE INSERT OR UPDATE OF content_url ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.apply_upload_metadata();
+
+-- 5. Content saved before its video finished encoding is filled in when
+--    the webhook marks the upload ready
+CREATE OR REPLACE FUNCTION public.propagate_upload_metadata()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'ready' OR NEW.duration_seconds IS NULL OR NEW.playback_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.media_page_content
+  SET duration_seconds = NEW.duration_seconds, width = NEW.width, height = NEW.height,
+      bitrate = NEW.bitrate, codec = NEW.codec, metadata_extracted_at = NOW()
+  WHERE public.mux_playback_id_from_url(content_url) = NEW.playback_id
+    AND metadata_extracted_at IS NULL;
+
+  UPDATE public.portfolio_page_content
+  SET duration_seconds = NEW.duration_seconds, width = NEW.width, height = NEW.height,
+      bitrate = NEW.bitrate, codec = NEW.codec, metadata_extracted_at = NOW()
+  WHERE public.mux_playback_id_from_url(content_url) = NEW.playback_id
+    AND metadata_extracted_at IS NULL;
+
+  UPDATE public.masterclass_page_content
+  SET duration_seconds = NEW.duration_seconds, width = NEW.width, height = NEW.height,
+      bitrate = NEW.bitrate, codec = NEW.codec, metadata_extracted_at = NOW()
+  WHERE (public.mux_playback_id_from_url(content_url) = NEW.playback_id
+      OR (TG_TABLE_NAME = 'masterclass_video_uploads' AND video_upload_id = NEW.id))
+    AND metadata_extracted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_propagate_video_upload_metadata ON public.video_uploads;
+CREATE TRIGGER trigger_propagate_video_upload_metadata
+AFTER UPDATE OF status, duration_seconds ON public.video_uploads
+FOR EACH ROW EXECUTE FUNCTION public.propagate_upload_metadata();
+
+DROP TRIGGER IF EXISTS trigger_propagate_masterclass_upload_metadata ON public.masterclass_video_uploads;
+CREATE TRIGGER trigger_propagate_masterclass_upload_metadata
+AFTER UPDATE OF status, duration_seconds ON public.masterclass_video_uploads
+FOR EACH ROW EXECUTE FUNCTION public.propagate_upload_metadata();
+
+-- Existing Mux-backed content
+UPDATE public.media_page_content c
+SET duration_seconds = m.duration_seconds, width = m.width, height = m.height,
+    bitrate = m.bitrate, codec = m.codec, metadata_extracted_at = NOW()
+FROM public.media_page_content src
+CROSS JOIN LATERAL public.find_upload_metadata(public.mux_playback_id_from_url(src.content_url), NULL) m
+WHERE c.id = src.id AND c.metadata_extracted_at IS NULL;
+
+UPDATE public.portfolio_page_content c
+SET duration_seconds = m.duration_seconds, width = m.width, height = m.height,
+    bitrate = m.bitrate, codec = m.codec, metadata_extracted_at = NOW()
+FROM public.portfolio_page_content src
+CROSS JOIN LATERAL public.find_upload_metadata(public.mux_playback_id_from_url(src.content_url), NULL) m
+WHERE c.id = src.id AND c.metadata_extracted_at IS NULL;
+
+UPDATE public.masterclass_page_content c
+SET duration_seconds = m.duration_seconds, width = m.width, height = m.height,
+    bitrate = m.bitrate, codec = m.codec, metadata_extracted_at = NOW()
+FROM public.masterclass_page_content src
+CROSS JOIN LATERAL public.find_upload_metadata(public.mux_playback_id_from_url(src.content_url), src.video_upload_id) m
+WHERE c.id = src.id AND c.metadata_extracted_at IS NULL;
+
+-- 6. Content stored directly in B2 is probed by extract-media-metadata,
+--    right after insert and by a sweep that also backfills older rows.
+--    Uses the same Vault secrets as 015_storage_garbage_collection.sql.
+CREATE OR REPLACE FUNCTION public.request_media_metadata()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content_key IS NULL OR NEW.metadata_extracted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/extract-media-metadata',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('table', TG_TABLE_NAME, 'id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_request_media_metadata ON public.media_page_content;
+CREATE TRIGGER trigger_request_media_metadata
+AFTER INSERT OR UPDATE OF content_key ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.request_media_metadata();
+
+DROP TRIGGER IF EXISTS trigger_request_portfolio_metadata ON public.portfolio_page_content;
+CREATE TRIGGER trigger_request_portfolio_metadata
+AFTER INSERT OR UPDATE OF content_key ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.request_media_metadata();
+
+DROP TRIGGER IF EXISTS trigger_request_masterclass_metadata ON public.masterclass_page_content;
+CREATE TRIGGER trigger_request_masterclass_metadata
+AFTER INSERT OR UPDATE OF content_key ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.request_media_metadata();
+
+SELECT cron.schedule('extract-media-metadata', '*/10 * * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/extract-media-metadata',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"mode": "pending"}'::jsonb
+  );
+$$);
+
+-- 7. Return the numeric duration from get_content_by_destination
+DROP FUNCTION IF EXISTS public.get_content_by_destination(TEXT) CASCADE;
+
+CREATE OR REPLACE FUNCTION public.get_content_by_destination(destination TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  creator TEXT,
+  description TEXT,
+  type TEXT,
+  category TEXT,
+  thumbnail_url TEXT,
+  content_url TEXT,
+  thumbnail_key TEXT,
+  content_key TEXT,
+  duration_seconds NUMERIC,
+  width INT,
+  height INT,
+  read_time TEXT,
+  views_count INT,
+  like_count INT,
+  is_premium BOOLEAN,
+  status TEXT,
+  level TEXT,
+  features JSONB,
+  lessons_count INT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF destination = 'media' THEN
+    RETURN QUERY
+    SELECT
+      mpc.id,
+      mpc.user_id,
+      mpc.title,
+      mpc.creator,
+      mpc.description,
+      mpc.type,
+      mpc.category,
+      mpc.thumbnail_url,
+      mpc.content_url,
+      mpc.thumbnail_key,
+      mpc.content_key,
+      mpc.duration_seconds,
+      mpc.width,
+      mpc.height,
+      mpc.read_time,
+      mpc.views_count,
+      mpc.like_count,
+      mpc.is_premium,
+      mpc.status,
+      'All Levels'::TEXT,
+      '[]'::JSONB,
+      0::INT,
+      mpc.created_at,
+      mpc.updated_at
+    FROM public.media_page_content mpc
+    WHERE mpc.status = 'published'
+    ORDER BY mpc.created_at DESC;
+
+  ELSIF destination = 'masterclass' THEN
+    RETURN QUERY
+    SELECT
+      mcc.id,
+      mcc.user_id,
+      mcc.title,
+      mcc.creator,
+      mcc.description,
+      mcc.type,
+      mcc.category,
+      mcc.thumbnail_url,
+      mcc.content_url,
+      mcc.thumbnail_key,
+      mcc.content_key,
+      mcc.duration_seconds,
+      mcc.width,
+      mcc.height,
+      mcc.read_time,
+      mcc.views_count,
+      mcc.like_count,
+      mcc.is_premium,
+      mcc.status,
+      COALESCE(mcc.level, 'All Levels'),
+      COALESCE(mcc.features, '[]'::jsonb),
+      COALESCE(mcc.lessons_count, 0),
+      mcc.created_at,
+      mcc.updated_at
+    FROM public.masterclass_page_content mcc
+    WHERE mcc.status = 'published'
+    ORDER BY mcc.created_at DESC;
+
+  ELSIF destination = 'portfolio' THEN
+    RETURN QUERY
+    SELECT
+      ppc.id,
+      ppc.user_id,
+      ppc.title,
+      ppc.creator,
+      ppc.description,
+      ppc.type,
+      ppc.category,
+      ppc.thumbnail_url,
+      ppc.content_url,
+      ppc.thumbnail_key,
+      ppc.content_key,
+      ppc.duration_seconds,
+      ppc.width,
+      ppc.height,
+      ppc.read_time,
+      ppc.views_count,
+      ppc.like_count,
+      ppc.is_premium,
+      ppc.status,
+      'All Levels'::TEXT,
+      '[]'::JSONB,
+      0::INT,
+      ppc.created_at,
+      ppc.updated_at
+    FROM public.portfolio_page_content ppc
+    WHERE ppc.status = 'published'
+    ORDER BY ppc.created_at DESC;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.get_content_by_destination(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_content_by_destination(TEXT) TO anon;
@@ -0,0 +1,109 @@
+-- =============================================
+-- CAPTIONS AND SUBTITLE TRACKS
+-- =============================================
+-- One row per language of a content item. The manage-captions function
+-- validates uploaded WebVTT/SRT files (or asks the auto-caption provider),
+-- stores them as VTT under captions/<user>/<content>/<language>.vtt and,
+-- for Mux-backed content, registers them as Mux text tracks so they ship
+-- in the HLS manifest. Content that isn't on Mux plays the VTT from storage.
+--
+-- status:
+--   processing  Mux is fetching the track (video.asset.track.ready pending)
+--   ready       playable
+--   failed      Mux rejected the track (video.asset.track.errored)
+
+-- 1. Tracks
+CREATE TABLE IF NOT EXISTS public.content_captions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_table TEXT NOT NULL
+    CHECK (content_table IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content')),
+  content_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  language_code TEXT NOT NULL,
+  label TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'upload' CHECK (source IN ('upload', 'auto')),
+  storage_key TEXT NOT NULL,
+  mux_asset_id TEXT NULL,
+  mux_track_id TEXT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'ready', 'failed')),
+  error_message TEXT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (content_table, content_id, language_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_captions_content ON public.content_captions(content_table, content_id);
+CREATE INDEX IF NOT EXISTS idx_content_captions_mux_track_id ON public.content_captions(mux_track_id);
+
+-- 2. Anyone who can watch can load ready tracks; creators also see tracks
+--    still processing or failed. Writes go through manage-captions.
+ALTER TABLE public.content_captions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Ready captions are public" ON public.content_captions;
+CREATE POLICY "Ready captions are public" ON public.content_captions
+  FOR SELECT USING (status = 'ready');
+
+DROP POLICY IF EXISTS "Creators can view their own captions" ON public.content_captions;
+CREATE POLICY "Creators can view their own captions" ON public.content_captions
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+-- 3. Caption files go with their content. Mux tracks are removed with the
+--    asset, so only the stored VTT files need purging.
+CREATE OR REPLACE FUNCTION public.purge_content_captions()
+RETURNS TRIGGER AS $$
+DECLARE
+  row_data JSONB;
+  keys TEXT[];
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status <> 'permanently_deleted' THEN
+      RETURN NEW;
+    END IF;
+    row_data := to_jsonb(NEW);
+  ELSE
+    row_data := to_jsonb(OLD);
+  END IF;
+
+  WITH removed AS (
+    DELETE FROM public.content_captions
+    WHERE content_table = TG_TABLE_NAME AND content_id = (row_data->>'id')::UUID
+    RETURNING storage_key
+  )
+  SELECT ARRAY_AGG(storage_key) INTO keys FROM removed;
+
+  IF CARDINALITY(keys) > 0 THEN
+    INSERT INTO public.storage_purge_jobs (source_table, content_id, user_id, reason, storage_keys, mux_asset_ids)
+    VALUES (
+      'content_captions',
+      (row_data->>'id')::UUID,
+      (row_data->>'user_id')::UUID,
+      CASE WHEN TG_OP = 'DELETE' THEN 'deleted' ELSE 'permanently_deleted' END,
+      keys,
+      '{}'
+    );
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_purge_media_content_captions ON public.media_page_content;
+CREATE TRIGGER trigger_purge_media_content_captions
+AFTER UPDATE OF status OR DELETE ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.purge_content_captions();
+
+DROP TRIGGER IF EXISTS trigger_purge_portfolio_content_captions ON public.portfolio_page_content;
+CREATE TRIGGER trigger_purge_portfolio_content_captions
+AFTER UPDATE OF status OR DELETE ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.purge_content_captions();
+
+DROP TRIGGER IF EXISTS trigger_purge_masterclass_content_captions ON public.masterclass_page_content;
+CREATE TRIGGER trigger_purge_masterclass_content_captions
+AFTER UPDATE OF status OR DELETE ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.purge_content_captions();
+
+-- Creators watch Mux text track processing live in the captions manager
+ALTER PUBLICATION supabase_realtime ADD TABLE public.content_captions;
@@ -0,0 +1,69 @@
+-- =============================================
+-- MUX LIVE STREAMS FOR EVENTS
+-- =============================================
+-- Organizers create a Mux live stream for an event through the
+-- manage-live-stream function. mux-webhook-handler flips the event between
+-- upcoming, ongoing and completed as the stream goes active and idle, and
+-- publishes Mux's automatic recording as the event's replay.
+
+-- 1. One live stream per event. The stream key lets anyone broadcast to the
+--    event, so it lives here where only the organizer can read it rather
+--    than on the publicly readable events row.
+CREATE TABLE IF NOT EXISTS public.event_live_streams (
+  event_id UUID PRIMARY KEY REFERENCES public.events(id) ON DELETE CASCADE,
+  organizer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mux_live_stream_id TEXT NOT NULL UNIQUE,
+  stream_key TEXT NOT NULL,
+  playback_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'idle'
+    CHECK (status IN ('idle', 'active', 'disconnected', 'disabled')),
+  active_asset_id TEXT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_live_streams_organizer_id ON public.event_live_streams(organizer_id);
+
+DROP TRIGGER IF EXISTS trigger_update_event_live_streams_updated_at ON public.event_live_streams;
+CREATE TRIGGER trigger_update_event_live_streams_updated_at
+  BEFORE UPDATE ON public.event_live_streams
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Written only by the service role (manage-live-stream, webhook)
+ALTER TABLE public.event_live_streams ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Organizers can view their own live streams" ON public.event_live_streams;
+CREATE POLICY "Organizers can view their own live streams" ON public.event_live_streams
+  FOR SELECT TO authenticated USING (auth.uid() = organizer_id);
+
+-- 2. Public live and replay details on the event itself. livestream_url
+--    holds the Mux HLS URL of the live stream once one is created.
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS live_playback_id TEXT NULL,
+ADD COLUMN IF NOT EXISTS live_started_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS live_ended_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS replay_asset_id TEXT NULL,
+ADD COLUMN IF NOT EXISTS replay_playback_id TEXT NULL,
+ADD COLUMN IF NOT EXISTS replay_duration_seconds NUMERIC NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_is_livestream ON public.events(is_livestream) WHERE is_livestream;
+
+-- 3. Push status flips to the Livestream tab
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.events;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'event_live_streams'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.event_live_streams;
+  END IF;
+END;
+$$;
@@ -0,0 +1,91 @@
+-- =============================================
+-- SIGNED PLAYBACK AND PRIVATE STORAGE FOR PREMIUM CONTENT
+-- =============================================
+-- Premium content is no longer reachable through a guessable public URL.
+-- Marking an item premium makes sync-content-access swap its Mux playback
+-- ID for a `signed` one and move its stored files under the private/
+-- prefix; un-marking it reverses both. Viewers get short-lived Mux tokens
+-- or presigned GET URLs from the playback-token function, which checks
+-- their tier first.
+
+-- 1. Which delivery an item currently has. Stays 'public' until
+--    sync-content-access has finished moving it, so playback never points
+--    at an ID or object that does not exist yet.
+ALTER TABLE public.media_page_content
+ADD COLUMN IF NOT EXISTS playback_policy TEXT NOT NULL DEFAULT 'public'
+  CHECK (playback_policy IN ('public', 'signed'));
+
+ALTER TABLE public.portfolio_page_content
+ADD COLUMN IF NOT EXISTS playback_policy TEXT NOT NULL DEFAULT 'public'
+  CHECK (playback_policy IN ('public', 'signed'));
+
+ALTER TABLE public.masterclass_page_content
+ADD COLUMN IF NOT EXISTS playback_policy TEXT NOT NULL DEFAULT 'public'
+  CHECK (playback_policy IN ('public', 'signed'));
+
+CREATE INDEX IF NOT EXISTS idx_media_page_content_access_pending
+  ON public.media_page_content(id)
+  WHERE is_premium <> (playback_policy = 'signed');
+CREATE INDEX IF NOT EXISTS idx_portfolio_page_content_access_pending
+  ON public.portfolio_page_content(id)
+  WHERE is_premium <> (playback_policy = 'signed');
+CREATE INDEX IF NOT EXISTS idx_masterclass_page_content_access_pending
+  ON public.masterclass_page_content(id)
+  WHERE is_premium <> (playback_policy = 'signed');
+
+-- 2. Sync as soon as the premium flag changes. Uses the same Vault secrets
+--    as 015_storage_garbage_collection.sql.
+CREATE OR REPLACE FUNCTION public.request_content_access_sync()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_premium = (NEW.playback_policy = 'signed') THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-content-access',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('table', TG_TABLE_NAME, 'id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_request_media_access_sync ON public.media_page_content;
+CREATE TRIGGER trigger_request_media_access_sync
+AFTER INSERT OR UPDATE OF is_premium ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.request_content_access_sync();
+
+DROP TRIGGER IF EXISTS trigger_request_portfolio_access_sync ON public.portfolio_page_content;
+CREATE TRIGGER trigger_request_portfolio_access_sync
+AFTER INSERT OR UPDATE OF is_premium ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.request_content_access_sync();
+
+DROP TRIGGER IF EXISTS trigger_request_masterclass_access_sync ON public.masterclass_page_content;
+CREATE TRIGGER trigger_request_masterclass_access_sync
+AFTER INSERT OR UPDATE OF is_premium ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.request_content_access_sync();
+
+-- 3. Retry rows whose trigger request failed, and move content that was
+--    already premium before this migration
+SELECT cron.schedule('sync-content-access', '*/10 * * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-content-access',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"mode": "pending"}'::jsonb
+  );
+$$);
+
+-- 4. Videos uploaded as premium go to Mux with a signed playback ID from
+--    the start, so there is never a public ID to revoke. Kept on the job so
+--    a retry creates the asset with the same policy.
+ALTER TABLE public.video_processing_jobs
+ADD COLUMN IF NOT EXISTS playback_policy TEXT NOT NULL DEFAULT 'public'
+  CHECK (playback_policy IN ('public', 'signed'));
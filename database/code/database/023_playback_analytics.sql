@@ -0,0 +1,248 @@
+-- =============================================
+-- WATCH-TIME AND RETENTION ANALYTICS
+-- =============================================
+-- The player reports play, pause, seek, ended and heartbeat events in
+-- batches through record_playback_events(). Each viewing is one
+-- playback_sessions row holding its watched seconds, furthest position and
+-- which of the RETENTION_SEGMENTS (20 equal slices of the video) were
+-- actually played. refresh_playback_rollups() turns the sessions into
+-- per-item watch time, average view duration, completion rate and a
+-- retention curve in content_playback_stats, which creators can read for
+-- their own content.
+
+-- 1. One row per viewing
+CREATE TABLE IF NOT EXISTS public.playback_sessions (
+  id UUID PRIMARY KEY,
+  content_table TEXT NOT NULL
+    CHECK (content_table IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content')),
+  content_id UUID NOT NULL,
+  viewer_id UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  duration_seconds NUMERIC NULL,
+  watched_seconds NUMERIC NOT NULL DEFAULT 0,
+  max_position_seconds NUMERIC NOT NULL DEFAULT 0,
+  watched_segments SMALLINT[] NOT NULL DEFAULT '{}',
+  event_count INT NOT NULL DEFAULT 0,
+  completed BOOLEAN NOT NULL DEFAULT FALSE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_event_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_playback_sessions_content
+  ON public.playback_sessions(content_table, content_id);
+CREATE INDEX IF NOT EXISTS idx_playback_sessions_last_event_at
+  ON public.playback_sessions(last_event_at);
+
+-- Written only through record_playback_events()
+ALTER TABLE public.playback_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 2. Fold a batch of player events into its session.
+--    p_events: [{ "type": "play"|"pause"|"seek"|"ended"|"heartbeat",
+--                 "position": <seconds>, "watched": <seconds played since
+--                 the previous event> }, ...]
+--    A played stretch covers [position - watched, position]. Watched time
+--    can't outrun the wall clock: a batch adds at most the time since the
+--    session's previous batch, and a session at most the time since it
+--    started, at up to 2x playback speed plus some slack. The duration is
+--    fixed by the first batch.
+CREATE OR REPLACE FUNCTION public.record_playback_events(
+  p_session_id UUID,
+  p_content_table TEXT,
+  p_content_id UUID,
+  p_duration_seconds NUMERIC,
+  p_events JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  segment_count CONSTANT INT := 20;
+  max_watched_per_event CONSTANT NUMERIC := 60;
+  max_playback_rate CONSTANT NUMERIC := 2;
+  -- Covers the first flush and network delays between batches
+  slack_seconds CONSTANT NUMERIC := 30;
+  v_content_exists BOOLEAN;
+  v_budget NUMERIC;
+  v_session public.playback_sessions%ROWTYPE;
+  v_event JSONB;
+  v_type TEXT;
+  v_position NUMERIC;
+  v_watched NUMERIC;
+  v_duration NUMERIC;
+  v_segments SMALLINT[];
+  v_first INT;
+  v_last INT;
+BEGIN
+  IF p_content_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content') THEN
+    RAISE EXCEPTION 'Unknown content table %', p_content_table;
+  END IF;
+  IF jsonb_typeof(p_events) <> 'array' OR jsonb_array_length(p_events) > 500 THEN
+    RAISE EXCEPTION 'p_events must be an array of at most 500 events';
+  END IF;
+
+  -- Only content the viewer can see: published, or their own draft
+  EXECUTE format(
+    'SELECT EXISTS (SELECT 1 FROM public.%I WHERE id = $1 AND (status = ''published'' OR user_id = $2))',
+    p_content_table
+  )
+  INTO v_content_exists
+  USING p_content_id, auth.uid();
+
+  IF NOT v_content_exists THEN
+    RAISE EXCEPTION 'Content not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.playback_sessions (id, content_table, content_id, viewer_id, duration_seconds)
+  VALUES (p_session_id, p_content_table, p_content_id, auth.uid(), NULLIF(p_duration_seconds, 0))
+  ON CONFLICT (id) DO NOTHING;
+
+  SELECT * INTO v_session FROM public.playback_sessions WHERE id = p_session_id FOR UPDATE;
+
+  -- Session IDs are random per viewing; never let a batch land on someone
+  -- else's session
+  IF v_session.content_table <> p_content_table OR v_session.content_id <> p_content_id
+     OR v_session.viewer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN;
+  END IF;
+
+  v_duration := COALESCE(v_session.duration_seconds, NULLIF(p_duration_seconds, 0));
+  v_budget := GREATEST(LEAST(
+    EXTRACT(EPOCH FROM NOW() - v_session.last_event_at) * max_playback_rate + slack_seconds,
+    EXTRACT(EPOCH FROM NOW() - v_session.started_at) * max_playback_rate + slack_seconds - v_session.watched_seconds
+  ), 0);
+  v_segments := v_session.watched_segments;
+
+  FOR v_event IN SELECT * FROM jsonb_array_elements(p_events) LOOP
+    v_type := v_event->>'type';
+    CONTINUE WHEN v_type NOT IN ('play', 'pause', 'seek', 'ended', 'heartbeat');
+
+    v_position := GREATEST(COALESCE((v_event->>'position')::NUMERIC, 0), 0);
+    v_watched := LEAST(GREATEST(COALESCE((v_event->>'watched')::NUMERIC, 0), 0), max_watched_per_event, v_position, v_budget);
+    v_budget := v_budget - v_watched;
+
+    v_session.watched_seconds := v_session.watched_seconds + v_watched;
+    v_session.max_position_seconds := GREATEST(v_session.max_position_seconds, v_position);
+    v_session.event_count := v_session.event_count + 1;
+
+    IF v_watched > 0 AND v_duration > 0 THEN
+      v_first := LEAST(FLOOR((v_position - v_watched) / v_duration * segment_count)::INT, segment_count - 1);
+      v_last := LEAST(FLOOR(v_position / v_duration * segment_count)::INT, segment_count - 1);
+      SELECT ARRAY(
+        SELECT DISTINCT s::SMALLINT
+        FROM unnest(v_segments || ARRAY(SELECT generate_series(v_first, v_last))::SMALLINT[]) s
+        ORDER BY 1
+      ) INTO v_segments;
+    END IF;
+
+    IF v_type = 'ended' THEN
+      v_session.completed := TRUE;
+    END IF;
+  END LOOP;
+
+  UPDATE public.playback_sessions
+  SET duration_seconds = v_duration,
+      watched_seconds = v_session.watched_seconds,
+      max_position_seconds = v_session.max_position_seconds,
+      watched_segments = v_segments,
+      event_count = v_session.event_count,
+      completed = v_session.completed
+        OR (v_duration > 0 AND v_session.max_position_seconds >= v_duration * 0.95),
+      last_event_at = NOW()
+  WHERE id = p_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_playback_events(UUID, TEXT, UUID, NUMERIC, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_playback_events(UUID, TEXT, UUID, NUMERIC, JSONB) TO anon;
+
+-- 3. Per-item rollups
+CREATE TABLE IF NOT EXISTS public.content_playback_stats (
+  content_table TEXT NOT NULL,
+  content_id UUID NOT NULL,
+  owner_id UUID NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_count INT NOT NULL DEFAULT 0,
+  total_watch_seconds NUMERIC NOT NULL DEFAULT 0,
+  average_view_seconds NUMERIC NOT NULL DEFAULT 0,
+  completion_rate NUMERIC NOT NULL DEFAULT 0,
+  -- Share of sessions (0-1) that played each of the 20 segments, in order
+  retention NUMERIC[] NOT NULL DEFAULT '{}',
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (content_table, content_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_playback_stats_owner_id ON public.content_playback_stats(owner_id);
+
+ALTER TABLE public.content_playback_stats ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Creators can view stats for their own content" ON public.content_playback_stats;
+CREATE POLICY "Creators can view stats for their own content" ON public.content_playback_stats
+  FOR SELECT TO authenticated USING (auth.uid() = owner_id);
+
+-- 4. Recompute every item with sessions newer than its rollup
+CREATE OR REPLACE FUNCTION public.refresh_playback_rollups()
+RETURNS INT AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  WITH touched AS (
+    SELECT DISTINCT s.content_table, s.content_id
+    FROM public.playback_sessions s
+    LEFT JOIN public.content_playback_stats r
+      ON r.content_table = s.content_table AND r.content_id = s.content_id
+    WHERE r.computed_at IS NULL OR s.last_event_at > r.computed_at
+  ),
+  totals AS (
+    SELECT
+      t.content_table,
+      t.content_id,
+      COUNT(*)::INT AS session_count,
+      COALESCE(SUM(s.watched_seconds), 0) AS total_watch_seconds,
+      COALESCE(ROUND(AVG(s.watched_seconds), 2), 0) AS average_view_seconds,
+      COALESCE(ROUND(AVG(s.completed::INT), 4), 0) AS completion_rate
+    FROM touched t
+    JOIN public.playback_sessions s
+      ON s.content_table = t.content_table AND s.content_id = t.content_id
+    GROUP BY t.content_table, t.content_id
+  )
+  INSERT INTO public.content_playback_stats (
+    content_table, content_id, owner_id, session_count, total_watch_seconds,
+    average_view_seconds, completion_rate, retention, computed_at
+  )
+  SELECT
+    totals.content_table,
+    totals.content_id,
+    CASE totals.content_table
+      WHEN 'media_page_content' THEN (SELECT user_id FROM public.media_page_content WHERE id = totals.content_id)
+      WHEN 'portfolio_page_content' THEN (SELECT user_id FROM public.portfolio_page_content WHERE id = totals.content_id)
+      WHEN 'masterclass_page_content' THEN (SELECT user_id FROM public.masterclass_page_content WHERE id = totals.content_id)
+    END,
+    totals.session_count,
+    totals.total_watch_seconds,
+    totals.average_view_seconds,
+    totals.completion_rate,
+    ARRAY(
+      SELECT ROUND(AVG((seg::SMALLINT = ANY(s.watched_segments))::INT), 4)
+      FROM generate_series(0, 19) seg
+      CROSS JOIN public.playback_sessions s
+      WHERE s.content_table = totals.content_table AND s.content_id = totals.content_id
+      GROUP BY seg
+      ORDER BY seg
+    ),
+    NOW()
+  FROM totals
+  ON CONFLICT (content_table, content_id) DO UPDATE
+  SET owner_id = EXCLUDED.owner_id,
+      session_count = EXCLUDED.session_count,
+      total_watch_seconds = EXCLUDED.total_watch_seconds,
+      average_view_seconds = EXCLUDED.average_view_seconds,
+      completion_rate = EXCLUDED.completion_rate,
+      retention = EXCLUDED.retention,
+      computed_at = EXCLUDED.computed_at;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_playback_rollups() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('refresh-playback-rollups', '*/15 * * * *', $$
+  SELECT public.refresh_playback_rollups();
+$$);
@@ -0,0 +1,146 @@
+-- =============================================
+-- ATOMIC, DEDUPLICATED VIEW COUNTING
+-- =============================================
+-- Views used to be counted by the browser reading views_count and writing
+-- it back plus one: concurrent viewers lost increments, the owner could set
+-- any number and every refresh counted again. record_content_view() now
+-- does the increment in one statement, at most once per viewer per item
+-- every 30 minutes, and skips bots and the owner's own views. Every call
+-- is kept in content_view_events with the reason it did or didn't count.
+
+-- 1. Every content table counts views
+ALTER TABLE public.media_page_content
+ADD COLUMN IF NOT EXISTS views_count INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.portfolio_page_content
+ADD COLUMN IF NOT EXISTS views_count INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.masterclass_page_content
+ADD COLUMN IF NOT EXISTS views_count INT NOT NULL DEFAULT 0;
+
+-- 2. Raw view events for auditing. viewer_key is the signed-in user, or
+--    the browser's anonymous ID, or failing both the client IP.
+CREATE TABLE IF NOT EXISTS public.content_view_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_table TEXT NOT NULL
+    CHECK (content_table IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content')),
+  content_id UUID NOT NULL,
+  viewer_id UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  viewer_key TEXT NOT NULL,
+  user_agent TEXT NULL,
+  outcome TEXT NOT NULL
+    CHECK (outcome IN ('counted', 'duplicate', 'bot', 'owner', 'not_found')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_view_events_dedupe
+  ON public.content_view_events(content_table, content_id, viewer_key, created_at DESC)
+  WHERE outcome = 'counted';
+CREATE INDEX IF NOT EXISTS idx_content_view_events_created_at
+  ON public.content_view_events(created_at);
+
+-- Written only through record_content_view(); read with the service role
+ALTER TABLE public.content_view_events ENABLE ROW LEVEL SECURITY;
+
+-- 3. Count a view
+CREATE OR REPLACE FUNCTION public.record_content_view(
+  p_content_table TEXT,
+  p_content_id UUID,
+  p_viewer_fingerprint TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  dedupe_window CONSTANT INTERVAL := INTERVAL '30 minutes';
+  v_headers JSONB := COALESCE(NULLIF(current_setting('request.headers', true), '')::JSONB, '{}'::JSONB);
+  v_user_agent TEXT := LEFT(v_headers->>'user-agent', 512);
+  v_viewer_id UUID := auth.uid();
+  v_viewer_key TEXT;
+  v_owner_id UUID;
+  v_outcome TEXT;
+  v_views_count INT;
+BEGIN
+  IF p_content_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content') THEN
+    RAISE EXCEPTION 'Unknown content table %', p_content_table;
+  END IF;
+
+  v_viewer_key := COALESCE(
+    'user:' || v_viewer_id::TEXT,
+    'anon:' || NULLIF(LEFT(TRIM(p_viewer_fingerprint), 64), ''),
+    'ip:' || NULLIF(TRIM(SPLIT_PART(v_headers->>'x-forwarded-for', ',', 1)), ''),
+    'unknown'
+  );
+
+  -- Only published items count; drafts and scheduled releases are not_found
+  EXECUTE format('SELECT user_id, views_count FROM public.%I WHERE id = $1 AND status = ''published''', p_content_table)
+  INTO v_owner_id, v_views_count
+  USING p_content_id;
+
+  -- Serialise concurrent calls for the same viewer and item so the
+  -- duplicate check below can't be raced
+  PERFORM pg_advisory_xact_lock(hashtext(p_content_table || ':' || p_content_id::TEXT || ':' || v_viewer_key));
+
+  IF v_views_count IS NULL THEN
+    v_outcome := 'not_found';
+  ELSIF v_user_agent IS NULL
+     OR v_user_agent ~* '(bot|crawl|spider|slurp|headless|lighthouse|curl|wget|python-requests|httpclient|facebookexternalhit|preview)' THEN
+    v_outcome := 'bot';
+  ELSIF v_viewer_id IS NOT NULL AND v_viewer_id = v_owner_id THEN
+    v_outcome := 'owner';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.content_view_events
+    WHERE content_table = p_content_table
+      AND content_id = p_content_id
+      AND viewer_key = v_viewer_key
+      AND outcome = 'counted'
+      AND created_at > NOW() - dedupe_window
+  ) THEN
+    v_outcome := 'duplicate';
+  ELSE
+    v_outcome := 'counted';
+    PERFORM set_config('app.counting_view', 'on', true);
+    EXECUTE format('UPDATE public.%I SET views_count = views_count + 1 WHERE id = $1 RETURNING views_count', p_content_table)
+    INTO v_views_count
+    USING p_content_id;
+    PERFORM set_config('app.counting_view', 'off', true);
+  END IF;
+
+  INSERT INTO public.content_view_events (content_table, content_id, viewer_id, viewer_key, user_agent, outcome)
+  VALUES (p_content_table, p_content_id, v_viewer_id, v_viewer_key, v_user_agent, v_outcome);
+
+  RETURN jsonb_build_object('counted', v_outcome = 'counted', 'outcome', v_outcome, 'views_count', v_views_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_content_view(TEXT, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_content_view(TEXT, UUID, TEXT) TO anon;
+
+-- 4. views_count only changes through record_content_view(). Owners keep
+--    their UPDATE policy for everything else; a client-sent views_count is
+--    ignored rather than rejected so existing edit forms keep working.
+CREATE OR REPLACE FUNCTION public.protect_views_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.views_count IS DISTINCT FROM OLD.views_count
+     AND current_setting('app.counting_view', true) IS DISTINCT FROM 'on'
+     AND auth.role() IN ('anon', 'authenticated') THEN
+    NEW.views_count := OLD.views_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_media_views_count ON public.media_page_content;
+CREATE TRIGGER trigger_protect_media_views_count
+BEFORE UPDATE OF views_count ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.protect_views_count();
+
+DROP TRIGGER IF EXISTS trigger_protect_portfolio_views_count ON public.portfolio_page_content;
+CREATE TRIGGER trigger_protect_portfolio_views_count
+BEFORE UPDATE OF views_count ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.protect_views_count();
+
+DROP TRIGGER IF EXISTS trigger_protect_masterclass_views_count ON public.masterclass_page_content;
+CREATE TRIGGER trigger_protect_masterclass_views_count
+BEFORE UPDATE OF views_count ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.protect_views_count();
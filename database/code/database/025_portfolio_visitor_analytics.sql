@@ -0,0 +1,206 @@
+-- =============================================
+-- UNIQUE-VISITOR PORTFOLIO ANALYTICS
+-- =============================================
+-- portfolio_views used to get a row whenever the owner opened their own
+-- Portfolio page, so profiles.portfolio_views only counted self-views.
+-- Views are now recorded by record_portfolio_view() when someone else
+-- (signed in or not) opens a creator's public portfolio at
+-- /portfolio/<owner id>, or one of its items: once per visitor per day, with
+-- where they came from. Owners read a breakdown by day, source and item
+-- from get_portfolio_view_breakdown().
+
+-- 1. Visitor, day, referrer and item on each view
+ALTER TABLE public.portfolio_views
+ADD COLUMN IF NOT EXISTS visitor_key TEXT NULL,
+ADD COLUMN IF NOT EXISTS visit_date DATE NULL,
+ADD COLUMN IF NOT EXISTS referrer TEXT NULL,
+ADD COLUMN IF NOT EXISTS referrer_source TEXT NULL
+  CHECK (referrer_source IN ('direct', 'internal', 'search', 'social', 'other')),
+ADD COLUMN IF NOT EXISTS content_id UUID NULL REFERENCES public.portfolio_page_content(id) ON DELETE CASCADE;
+
+-- A page view has no content_id; opening an item is recorded separately
+-- so both can be deduplicated on their own
+CREATE UNIQUE INDEX IF NOT EXISTS idx_portfolio_views_unique_visit
+  ON public.portfolio_views(
+    portfolio_owner_id,
+    visitor_key,
+    visit_date,
+    COALESCE(content_id, '00000000-0000-0000-0000-000000000000'::UUID)
+  );
+CREATE INDEX IF NOT EXISTS idx_portfolio_views_content_id ON public.portfolio_views(content_id);
+
+-- 2. Every existing row was the owner viewing their own page
+DELETE FROM public.portfolio_views WHERE visitor_key IS NULL;
+
+ALTER TABLE public.portfolio_views
+ALTER COLUMN visitor_key SET NOT NULL,
+ALTER COLUMN visit_date SET NOT NULL,
+ALTER COLUMN visit_date SET DEFAULT CURRENT_DATE;
+
+-- 3. Only owners read their views; rows are written by the RPC below
+DROP POLICY IF EXISTS "Users can view portfolio_views" ON public.portfolio_views;
+DROP POLICY IF EXISTS "Users can insert portfolio_views" ON public.portfolio_views;
+DROP POLICY IF EXISTS "Owners can view their portfolio_views" ON public.portfolio_views;
+
+CREATE POLICY "Owners can view their portfolio_views" ON public.portfolio_views
+  FOR SELECT TO authenticated USING (auth.uid() = portfolio_owner_id);
+
+-- 4. profiles.portfolio_views counts unique page visits
+DROP FUNCTION IF EXISTS public.update_portfolio_views_count() CASCADE;
+CREATE FUNCTION public.update_portfolio_views_count()
+  RETURNS TRIGGER
+  LANGUAGE plpgsql SECURITY DEFINER AS $$
+  BEGIN
+    IF TG_OP = 'INSERT' AND NEW.content_id IS NULL THEN
+      UPDATE public.profiles SET portfolio_views = portfolio_views + 1 WHERE id = NEW.portfolio_owner_id;
+      RETURN NEW;
+    ELSIF TG_OP = 'DELETE' AND OLD.content_id IS NULL THEN
+      UPDATE public.profiles SET portfolio_views = GREATEST(portfolio_views - 1, 0) WHERE id = OLD.portfolio_owner_id;
+      RETURN OLD;
+    END IF;
+    RETURN NULL;
+  END;
+  $$;
+
+DROP TRIGGER IF EXISTS update_portfolio_views_count ON public.portfolio_views;
+CREATE TRIGGER update_portfolio_views_count
+  AFTER INSERT OR DELETE ON public.portfolio_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_portfolio_views_count();
+
+UPDATE public.profiles p
+SET portfolio_views = (
+  SELECT COUNT(*) FROM public.portfolio_views v
+  WHERE v.portfolio_owner_id = p.id AND v.content_id IS NULL
+);
+
+-- 5. Bucket a referrer URL
+CREATE OR REPLACE FUNCTION public.classify_referrer(p_referrer TEXT, p_own_host TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_host TEXT := LOWER(SUBSTRING(p_referrer FROM '^[a-zA-Z]+://([^/:?#]+)'));
+BEGIN
+  IF v_host IS NULL OR v_host = '' THEN
+    RETURN 'direct';
+  ELSIF v_host = LOWER(p_own_host) THEN
+    RETURN 'internal';
+  ELSIF v_host ~ '(^|\.)(google|bing|duckduckgo|yahoo|yandex|baidu|ecosia)\.' THEN
+    RETURN 'search';
+  ELSIF v_host ~ '(^|\.)(facebook|fb|instagram|twitter|x|t|linkedin|lnkd|tiktok|youtube|reddit|pinterest|whatsapp|telegram)\.' THEN
+    RETURN 'social';
+  END IF;
+  RETURN 'other';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 6. Record a visit. Returns TRUE when it was a new unique view.
+CREATE OR REPLACE FUNCTION public.record_portfolio_view(
+  p_owner_id UUID,
+  p_content_id UUID DEFAULT NULL,
+  p_referrer TEXT DEFAULT NULL,
+  p_visitor_fingerprint TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_headers JSONB := COALESCE(NULLIF(current_setting('request.headers', true), '')::JSONB, '{}'::JSONB);
+  v_user_agent TEXT := LEFT(v_headers->>'user-agent', 512);
+  v_ip TEXT := NULLIF(TRIM(SPLIT_PART(v_headers->>'x-forwarded-for', ',', 1)), '');
+  v_viewer_id UUID := auth.uid();
+  v_visitor_key TEXT;
+  v_referrer TEXT := NULLIF(LEFT(TRIM(p_referrer), 1024), '');
+  v_inserted INT;
+BEGIN
+  IF p_owner_id IS NULL OR v_viewer_id = p_owner_id THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_user_agent IS NULL
+     OR v_user_agent ~* '(bot|crawl|spider|slurp|headless|lighthouse|curl|wget|python-requests|httpclient|facebookexternalhit|preview)' THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_content_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.portfolio_page_content WHERE id = p_content_id AND user_id = p_owner_id
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  v_visitor_key := COALESCE(
+    'user:' || v_viewer_id::TEXT,
+    'anon:' || NULLIF(LEFT(TRIM(p_visitor_fingerprint), 64), ''),
+    'ip:' || v_ip
+  );
+  IF v_visitor_key IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.portfolio_views (
+    portfolio_owner_id, viewed_by_id, visitor_key, visit_date, content_id,
+    referrer, referrer_source, ip_address, user_agent
+  )
+  VALUES (
+    p_owner_id, v_viewer_id, v_visitor_key, CURRENT_DATE, p_content_id,
+    v_referrer, public.classify_referrer(v_referrer, SUBSTRING(v_headers->>'origin' FROM '^[a-zA-Z]+://([^/:?#]+)')),
+    v_ip, v_user_agent
+  )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_portfolio_view(UUID, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_portfolio_view(UUID, UUID, TEXT, TEXT) TO anon;
+
+-- 7. The caller's views over the last p_days days
+CREATE OR REPLACE FUNCTION public.get_portfolio_view_breakdown(p_days INT DEFAULT 30)
+RETURNS JSONB AS $$
+DECLARE
+  v_since DATE := CURRENT_DATE - (LEAST(GREATEST(p_days, 1), 365) - 1);
+BEGIN
+  RETURN jsonb_build_object(
+    'by_day', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('day', d.day, 'views', COALESCE(v.views, 0)) ORDER BY d.day)
+      FROM generate_series(v_since, CURRENT_DATE, INTERVAL '1 day') AS d(day)
+      LEFT JOIN (
+        SELECT visit_date, COUNT(*) AS views
+        FROM public.portfolio_views
+        WHERE portfolio_owner_id = auth.uid() AND content_id IS NULL AND visit_date >= v_since
+        GROUP BY visit_date
+      ) v ON v.visit_date = d.day::DATE
+    ), '[]'::JSONB),
+    'by_source', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('source', source, 'views', views) ORDER BY views DESC)
+      FROM (
+        SELECT COALESCE(referrer_source, 'direct') AS source, COUNT(*) AS views
+        FROM public.portfolio_views
+        WHERE portfolio_owner_id = auth.uid() AND content_id IS NULL AND visit_date >= v_since
+        GROUP BY 1
+      ) s
+    ), '[]'::JSONB),
+    'by_item', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('content_id', content_id, 'title', title, 'views', views) ORDER BY views DESC)
+      FROM (
+        SELECT v.content_id, c.title, COUNT(*) AS views
+        FROM public.portfolio_views v
+        JOIN public.portfolio_page_content c ON c.id = v.content_id
+        WHERE v.portfolio_owner_id = auth.uid() AND v.visit_date >= v_since
+        GROUP BY v.content_id, c.title
+      ) i
+    ), '[]'::JSONB)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_portfolio_view_breakdown(INT) TO authenticated;
+
+-- 8. Name and avatar for the public portfolio header. profiles is only
+--    readable by signed-in users and holds email addresses.
+CREATE OR REPLACE FUNCTION public.get_public_profile(p_user_id UUID)
+RETURNS TABLE (id UUID, name TEXT, avatar_url TEXT, bio TEXT) AS $$
+  SELECT p.id, p.name, p.avatar_url, p.bio FROM public.profiles p WHERE p.id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_public_profile(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_public_profile(UUID) TO anon;
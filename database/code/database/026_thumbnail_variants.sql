@@ -0,0 +1,143 @@
+-- =============================================
+-- THUMBNAIL VARIANTS
+-- =============================================
+-- The thumbnail studio exports each thumbnail as WebP at several widths.
+-- The largest is stored in thumbnail_key as before so existing pages keep
+-- working; every size is listed in thumbnail_variants as
+-- [{ "width": 1280, "height": 720, "key": "thumbnails/...", "format": "webp" }, ...]
+-- Owners change a published thumbnail by updating these two columns, which
+-- their existing UPDATE policies already allow.
+
+-- 1. Variants on every content table
+ALTER TABLE public.media_page_content
+ADD COLUMN IF NOT EXISTS thumbnail_variants JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+ALTER TABLE public.portfolio_page_content
+ADD COLUMN IF NOT EXISTS thumbnail_variants JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+ALTER TABLE public.masterclass_page_content
+ADD COLUMN IF NOT EXISTS thumbnail_variants JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- 2. Storage keys listed in a thumbnail_variants value
+CREATE OR REPLACE FUNCTION public.thumbnail_variant_keys(variants JSONB)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(ARRAY_AGG(v->>'key') FILTER (WHERE v->>'key' IS NOT NULL), '{}')
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(variants) = 'array' THEN variants ELSE '[]'::JSONB END
+  ) AS v;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 3. Purge the variants along with the rest of the row's objects
+--    (same as 015 plus the variant keys)
+CREATE OR REPLACE FUNCTION public.enqueue_content_purge()
+RETURNS TRIGGER AS $$
+DECLARE
+  row_data JSONB;
+  keys TEXT[] := '{}';
+  assets TEXT[] := '{}';
+  v_playback_id TEXT;
+  v_upload_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status <> 'permanently_deleted' THEN
+      RETURN NEW;
+    END IF;
+    row_data := to_jsonb(NEW);
+  ELSE
+    row_data := to_jsonb(OLD);
+  END IF;
+
+  keys := ARRAY_REMOVE(ARRAY[
+    COALESCE(row_data->>'thumbnail_key', public.storage_key_from_url(row_data->>'thumbnail_url')),
+    COALESCE(row_data->>'content_key', public.storage_key_from_url(row_data->>'content_url'))
+  ], NULL);
+
+  keys := ARRAY(
+    SELECT DISTINCT k
+    FROM UNNEST(keys || public.thumbnail_variant_keys(row_data->'thumbnail_variants')) AS k
+  );
+
+  v_playback_id := public.mux_playback_id_from_url(row_data->>'content_url');
+  v_upload_id := NULLIF(row_data->>'video_upload_id', '')::UUID;
+
+  -- The uploaded source file and the Mux asset live on the upload rows
+  IF v_playback_id IS NOT NULL OR v_upload_id IS NOT NULL THEN
+    SELECT
+      keys || COALESCE(ARRAY_AGG(DISTINCT u.filename) FILTER (WHERE u.filename IS NOT NULL), '{}'),
+      COALESCE(ARRAY_AGG(DISTINCT u.asset_id) FILTER (WHERE u.asset_id IS NOT NULL), '{}')
+    INTO keys, assets
+    FROM (
+      SELECT filename, asset_id FROM public.video_uploads
+      WHERE playback_id = v_playback_id
+      UNION ALL
+      SELECT filename, asset_id FROM public.masterclass_video_uploads
+      WHERE playback_id = v_playback_id OR id = v_upload_id
+    ) u;
+  END IF;
+
+  IF CARDINALITY(keys) > 0 OR CARDINALITY(assets) > 0 THEN
+    INSERT INTO public.storage_purge_jobs (source_table, content_id, user_id, reason, storage_keys, mux_asset_ids)
+    VALUES (
+      TG_TABLE_NAME,
+      (row_data->>'id')::UUID,
+      (row_data->>'user_id')::UUID,
+      CASE WHEN TG_OP = 'DELETE' THEN 'deleted' ELSE 'permanently_deleted' END,
+      keys,
+      assets
+    );
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. Variant keys count as references so the orphan sweep keeps them;
+--    a replaced thumbnail's old variants are swept like any other orphan
+CREATE OR REPLACE VIEW public.storage_object_references AS
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url)) AS key
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(thumbnail_variants))
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(thumbnail_variants))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(thumbnail_variants))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+-- Upload rows outlive their content; once a purge job claims the file it
+-- no longer counts as a reference
+SELECT vu.filename FROM public.video_uploads vu
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.storage_purge_jobs j WHERE vu.filename = ANY(j.storage_keys)
+)
+UNION
+SELECT mvu.filename FROM public.masterclass_video_uploads mvu
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.storage_purge_jobs j WHERE mvu.filename = ANY(j.storage_keys)
+)
+UNION
+SELECT public.storage_key_from_url(thumbnail_url) FROM public.media_items
+UNION
+SELECT public.storage_key_from_url(avatar_url) FROM public.projects_page_providers;
+
+REVOKE ALL ON public.storage_object_references FROM anon, authenticated;
@@ -0,0 +1,360 @@
+-- =============================================
+-- RESPONSIVE IMAGE DERIVATIVES
+-- =============================================
+-- Thumbnails, provider avatars and event memory photos used to be served
+-- exactly as uploaded, so grids downloaded full-size phone photos with
+-- their EXIF (including GPS) intact. The process-images function now
+-- rewrites each stored original without metadata and upright, writes AVIF
+-- and WebP copies at fixed widths next to it and records them on the row
+-- with a tiny blurred placeholder:
+--   <prefix>_variants     [{ "width": 640, "height": 360, "key": "...", "format": "avif" }, ...]
+--   <prefix>_placeholder  data: URI of a ~16px wide WebP
+-- where <prefix> is thumbnail, avatar or image. Changing the source image
+-- clears these and queues the row again.
+
+-- 1. Derivative columns (thumbnail_variants exists since 026)
+ALTER TABLE public.media_page_content
+ADD COLUMN IF NOT EXISTS thumbnail_placeholder TEXT NULL,
+ADD COLUMN IF NOT EXISTS thumbnail_processed_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS thumbnail_processing_attempts INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.portfolio_page_content
+ADD COLUMN IF NOT EXISTS thumbnail_placeholder TEXT NULL,
+ADD COLUMN IF NOT EXISTS thumbnail_processed_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS thumbnail_processing_attempts INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.masterclass_page_content
+ADD COLUMN IF NOT EXISTS thumbnail_placeholder TEXT NULL,
+ADD COLUMN IF NOT EXISTS thumbnail_processed_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS thumbnail_processing_attempts INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.projects_page_providers
+ADD COLUMN IF NOT EXISTS avatar_variants JSONB NOT NULL DEFAULT '[]'::JSONB,
+ADD COLUMN IF NOT EXISTS avatar_placeholder TEXT NULL,
+ADD COLUMN IF NOT EXISTS avatar_processed_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS avatar_processing_attempts INT NOT NULL DEFAULT 0;
+
+-- event_memories comes from the Events setup (database/EVENTS_SETUP.md)
+ALTER TABLE public.event_memories
+ADD COLUMN IF NOT EXISTS image_variants JSONB NOT NULL DEFAULT '[]'::JSONB,
+ADD COLUMN IF NOT EXISTS image_placeholder TEXT NULL,
+ADD COLUMN IF NOT EXISTS image_processed_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS image_processing_attempts INT NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_media_page_content_thumbnail_pending
+  ON public.media_page_content(created_at) WHERE thumbnail_processed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_portfolio_page_content_thumbnail_pending
+  ON public.portfolio_page_content(created_at) WHERE thumbnail_processed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_masterclass_page_content_thumbnail_pending
+  ON public.masterclass_page_content(created_at) WHERE thumbnail_processed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_projects_page_providers_avatar_pending
+  ON public.projects_page_providers(created_at) WHERE avatar_processed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_event_memories_image_pending
+  ON public.event_memories(created_at) WHERE image_processed_at IS NULL;
+
+-- 2. A new source image invalidates the old derivatives.
+--    TG_ARGV: source column, column prefix.
+CREATE OR REPLACE FUNCTION public.reset_image_derivatives()
+RETURNS TRIGGER AS $$
+DECLARE
+  source_column TEXT := TG_ARGV[0];
+  prefix TEXT := TG_ARGV[1];
+  new_data JSONB := to_jsonb(NEW);
+  old_data JSONB := to_jsonb(OLD);
+  changes JSONB;
+BEGIN
+  IF new_data->source_column IS NOT DISTINCT FROM old_data->source_column THEN
+    RETURN NEW;
+  END IF;
+
+  changes := jsonb_build_object(
+    prefix || '_placeholder', NULL,
+    prefix || '_processed_at', NULL,
+    prefix || '_processing_attempts', 0
+  );
+
+  -- Variants written in the same statement (the thumbnail studio's WebP
+  -- sizes) keep serving until process-images replaces them
+  IF new_data->(prefix || '_variants') IS NOT DISTINCT FROM old_data->(prefix || '_variants') THEN
+    changes := changes || jsonb_build_object(prefix || '_variants', '[]'::JSONB);
+  END IF;
+
+  NEW := jsonb_populate_record(NEW, changes);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3. Process right after the source image is saved. Uses the same Vault
+--    secrets as 015_storage_garbage_collection.sql. TG_ARGV: column prefix.
+CREATE OR REPLACE FUNCTION public.request_image_processing()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF to_jsonb(NEW)->>(TG_ARGV[0] || '_processed_at') IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-images',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('table', TG_TABLE_NAME, 'id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_reset_media_thumbnail_derivatives ON public.media_page_content;
+CREATE TRIGGER trigger_reset_media_thumbnail_derivatives
+BEFORE UPDATE OF thumbnail_key, thumbnail_url ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.reset_image_derivatives('thumbnail_key', 'thumbnail');
+
+DROP TRIGGER IF EXISTS trigger_reset_portfolio_thumbnail_derivatives ON public.portfolio_page_content;
+CREATE TRIGGER trigger_reset_portfolio_thumbnail_derivatives
+BEFORE UPDATE OF thumbnail_key, thumbnail_url ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.reset_image_derivatives('thumbnail_key', 'thumbnail');
+
+DROP TRIGGER IF EXISTS trigger_reset_masterclass_thumbnail_derivatives ON public.masterclass_page_content;
+CREATE TRIGGER trigger_reset_masterclass_thumbnail_derivatives
+BEFORE UPDATE OF thumbnail_key, thumbnail_url ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.reset_image_derivatives('thumbnail_key', 'thumbnail');
+
+DROP TRIGGER IF EXISTS trigger_reset_provider_avatar_derivatives ON public.projects_page_providers;
+CREATE TRIGGER trigger_reset_provider_avatar_derivatives
+BEFORE UPDATE OF avatar_url ON public.projects_page_providers
+FOR EACH ROW EXECUTE FUNCTION public.reset_image_derivatives('avatar_url', 'avatar');
+
+DROP TRIGGER IF EXISTS trigger_reset_memory_image_derivatives ON public.event_memories;
+CREATE TRIGGER trigger_reset_memory_image_derivatives
+BEFORE UPDATE OF image_url ON public.event_memories
+FOR EACH ROW EXECUTE FUNCTION public.reset_image_derivatives('image_url', 'image');
+
+DROP TRIGGER IF EXISTS trigger_request_media_thumbnail_processing ON public.media_page_content;
+CREATE TRIGGER trigger_request_media_thumbnail_processing
+AFTER INSERT OR UPDATE OF thumbnail_key, thumbnail_url ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.request_image_processing('thumbnail');
+
+DROP TRIGGER IF EXISTS trigger_request_portfolio_thumbnail_processing ON public.portfolio_page_content;
+CREATE TRIGGER trigger_request_portfolio_thumbnail_processing
+AFTER INSERT OR UPDATE OF thumbnail_key, thumbnail_url ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.request_image_processing('thumbnail');
+
+DROP TRIGGER IF EXISTS trigger_request_masterclass_thumbnail_processing ON public.masterclass_page_content;
+CREATE TRIGGER trigger_request_masterclass_thumbnail_processing
+AFTER INSERT OR UPDATE OF thumbnail_key, thumbnail_url ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.request_image_processing('thumbnail');
+
+DROP TRIGGER IF EXISTS trigger_request_provider_avatar_processing ON public.projects_page_providers;
+CREATE TRIGGER trigger_request_provider_avatar_processing
+AFTER INSERT OR UPDATE OF avatar_url ON public.projects_page_providers
+FOR EACH ROW EXECUTE FUNCTION public.request_image_processing('avatar');
+
+DROP TRIGGER IF EXISTS trigger_request_memory_image_processing ON public.event_memories;
+CREATE TRIGGER trigger_request_memory_image_processing
+AFTER INSERT OR UPDATE OF image_url ON public.event_memories
+FOR EACH ROW EXECUTE FUNCTION public.request_image_processing('image');
+
+-- 4. Sweep rows whose request failed and backfill existing images
+SELECT cron.schedule('process-images', '*/10 * * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-images',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"mode": "pending"}'::jsonb
+  );
+$$);
+
+-- 5. Derivatives count as references so the orphan sweep keeps them
+CREATE OR REPLACE VIEW public.storage_object_references AS
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url)) AS key
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(thumbnail_variants))
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(thumbnail_variants))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(thumbnail_variants))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+-- Upload rows outlive their content; once a purge job claims the file it
+-- no longer counts as a reference
+SELECT vu.filename FROM public.video_uploads vu
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.storage_purge_jobs j WHERE vu.filename = ANY(j.storage_keys)
+)
+UNION
+SELECT mvu.filename FROM public.masterclass_video_uploads mvu
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.storage_purge_jobs j WHERE mvu.filename = ANY(j.storage_keys)
+)
+UNION
+SELECT public.storage_key_from_url(thumbnail_url) FROM public.media_items
+UNION
+SELECT public.storage_key_from_url(avatar_url) FROM public.projects_page_providers
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(avatar_variants)) FROM public.projects_page_providers
+UNION
+SELECT public.storage_key_from_url(image_url) FROM public.event_memories
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(image_variants)) FROM public.event_memories;
+
+REVOKE ALL ON public.storage_object_references FROM anon, authenticated;
+
+-- 6. Return the derivatives from get_content_by_destination
+DROP FUNCTION IF EXISTS public.get_content_by_destination(TEXT) CASCADE;
+
+CREATE OR REPLACE FUNCTION public.get_content_by_destination(destination TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  creator TEXT,
+  description TEXT,
+  type TEXT,
+  category TEXT,
+  thumbnail_url TEXT,
+  content_url TEXT,
+  thumbnail_key TEXT,
+  content_key TEXT,
+  thumbnail_variants JSONB,
+  thumbnail_placeholder TEXT,
+  duration_seconds NUMERIC,
+  width INT,
+  height INT,
+  read_time TEXT,
+  views_count INT,
+  like_count INT,
+  is_premium BOOLEAN,
+  status TEXT,
+  level TEXT,
+  features JSONB,
+  lessons_count INT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF destination = 'media' THEN
+    RETURN QUERY
+    SELECT
+      mpc.id,
+      mpc.user_id,
+      mpc.title,
+      mpc.creator,
+      mpc.description,
+      mpc.type,
+      mpc.category,
+      mpc.thumbnail_url,
+      mpc.content_url,
+      mpc.thumbnail_key,
+      mpc.content_key,
+      mpc.thumbnail_variants,
+      mpc.thumbnail_placeholder,
+      mpc.duration_seconds,
+      mpc.width,
+      mpc.height,
+      mpc.read_time,
+      mpc.views_count,
+      mpc.like_count,
+      mpc.is_premium,
+      mpc.status,
+      'All Levels'::TEXT,
+      '[]'::JSONB,
+      0::INT,
+      mpc.created_at,
+      mpc.updated_at
+    FROM public.media_page_content mpc
+    WHERE mpc.status = 'published'
+    ORDER BY mpc.created_at DESC;
+
+  ELSIF destination = 'masterclass' THEN
+    RETURN QUERY
+    SELECT
+      mcc.id,
+      mcc.user_id,
+      mcc.title,
+      mcc.creator,
+      mcc.description,
+      mcc.type,
+      mcc.category,
+      mcc.thumbnail_url,
+      mcc.content_url,
+      mcc.thumbnail_key,
+      mcc.content_key,
+      mcc.thumbnail_variants,
+      mcc.thumbnail_placeholder,
+      mcc.duration_seconds,
+      mcc.width,
+      mcc.height,
+      mcc.read_time,
+      mcc.views_count,
+      mcc.like_count,
+      mcc.is_premium,
+      mcc.status,
+      COALESCE(mcc.level, 'All Levels'),
+      COALESCE(mcc.features, '[]'::jsonb),
+      COALESCE(mcc.lessons_count, 0),
+      mcc.created_at,
+      mcc.updated_at
+    FROM public.masterclass_page_content mcc
+    WHERE mcc.status = 'published'
+    ORDER BY mcc.created_at DESC;
+
+  ELSIF destination = 'portfolio' THEN
+    RETURN QUERY
+    SELECT
+      ppc.id,
+      ppc.user_id,
+      ppc.title,
+      ppc.creator,
+      ppc.description,
+      ppc.type,
+      ppc.category,
+      ppc.thumbnail_url,
+      ppc.content_url,
+      ppc.thumbnail_key,
+      ppc.content_key,
+      ppc.thumbnail_variants,
+      ppc.thumbnail_placeholder,
+      ppc.duration_seconds,
+      ppc.width,
+      ppc.height,
+      ppc.read_time,
+      ppc.views_count,
+      ppc.like_count,
+      ppc.is_premium,
+      ppc.status,
+      'All Levels'::TEXT,
+      '[]'::JSONB,
+      0::INT,
+      ppc.created_at,
+      ppc.updated_at
+    FROM public.portfolio_page_content ppc
+    WHERE ppc.status = 'published'
+    ORDER BY ppc.created_at DESC;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.get_content_by_destination(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_content_by_destination(TEXT) TO anon;
@@ -0,0 +1,142 @@
+-- =============================================
+-- PLAYBACK POSITIONS AND CONTINUE WATCHING
+-- =============================================
+-- Where each signed-in viewer stopped in each content item, saved by the
+-- player every few seconds through save_playback_position(). One row per
+-- viewer and item, so the latest save from any device wins and the next
+-- device resumes from it. get_continue_watching() lists the unfinished
+-- items, most recently watched first.
+
+-- 1. One row per viewer and item
+CREATE TABLE IF NOT EXISTS public.playback_positions (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content_table TEXT NOT NULL
+    CHECK (content_table IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content')),
+  content_id UUID NOT NULL,
+  position_seconds NUMERIC NOT NULL DEFAULT 0,
+  duration_seconds NUMERIC NULL,
+  completed BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, content_table, content_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_playback_positions_recent
+  ON public.playback_positions(user_id, updated_at DESC) WHERE NOT completed;
+
+-- 2. Viewers read and clear their own positions; saves go through
+--    save_playback_position()
+ALTER TABLE public.playback_positions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own playback positions" ON public.playback_positions;
+CREATE POLICY "Users can view their own playback positions" ON public.playback_positions
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own playback positions" ON public.playback_positions;
+CREATE POLICY "Users can delete their own playback positions" ON public.playback_positions
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- 3. Save a position. Within the last 5% of the item it counts as
+--    finished and drops out of Continue watching.
+CREATE OR REPLACE FUNCTION public.save_playback_position(
+  p_content_table TEXT,
+  p_content_id UUID,
+  p_position_seconds NUMERIC,
+  p_duration_seconds NUMERIC
+)
+RETURNS VOID AS $$
+DECLARE
+  v_duration NUMERIC := NULLIF(p_duration_seconds, 0);
+  v_position NUMERIC := GREATEST(COALESCE(p_position_seconds, 0), 0);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+  IF p_content_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content') THEN
+    RAISE EXCEPTION 'Unknown content table %', p_content_table;
+  END IF;
+
+  IF v_duration IS NOT NULL THEN
+    v_position := LEAST(v_position, v_duration);
+  END IF;
+
+  INSERT INTO public.playback_positions (
+    user_id, content_table, content_id, position_seconds, duration_seconds, completed, updated_at
+  )
+  VALUES (
+    auth.uid(), p_content_table, p_content_id, v_position, v_duration,
+    COALESCE(v_position >= v_duration * 0.95, FALSE), NOW()
+  )
+  ON CONFLICT (user_id, content_table, content_id) DO UPDATE
+  SET position_seconds = EXCLUDED.position_seconds,
+      duration_seconds = COALESCE(EXCLUDED.duration_seconds, public.playback_positions.duration_seconds),
+      completed = EXCLUDED.completed,
+      updated_at = EXCLUDED.updated_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_playback_position(TEXT, UUID, NUMERIC, NUMERIC) TO authenticated;
+
+-- 4. Unfinished items of the caller that are still published, with the
+--    content columns the players need. p_content_table narrows the list
+--    to one page (NULL for all).
+CREATE OR REPLACE FUNCTION public.get_continue_watching(
+  p_content_table TEXT DEFAULT NULL,
+  p_limit INT DEFAULT 12
+)
+RETURNS TABLE (
+  content_table TEXT,
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  creator TEXT,
+  description TEXT,
+  type TEXT,
+  thumbnail_url TEXT,
+  content_url TEXT,
+  thumbnail_key TEXT,
+  content_key TEXT,
+  duration_seconds NUMERIC,
+  views_count INT,
+  like_count INT,
+  is_premium BOOLEAN,
+  position_seconds NUMERIC,
+  last_watched_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT *
+  FROM (
+    SELECT
+      pp.content_table, c.id, c.user_id, c.title, c.creator, c.description, c.type,
+      c.thumbnail_url, c.content_url, c.thumbnail_key, c.content_key,
+      COALESCE(c.duration_seconds, pp.duration_seconds), c.views_count, c.like_count, c.is_premium,
+      pp.position_seconds, pp.updated_at
+    FROM public.playback_positions pp
+    JOIN public.media_page_content c ON c.id = pp.content_id
+    WHERE pp.content_table = 'media_page_content' AND c.status = 'published'
+      AND pp.user_id = auth.uid() AND NOT pp.completed
+    UNION ALL
+    SELECT
+      pp.content_table, c.id, c.user_id, c.title, c.creator, c.description, c.type,
+      c.thumbnail_url, c.content_url, c.thumbnail_key, c.content_key,
+      COALESCE(c.duration_seconds, pp.duration_seconds), c.views_count, c.like_count, c.is_premium,
+      pp.position_seconds, pp.updated_at
+    FROM public.playback_positions pp
+    JOIN public.portfolio_page_content c ON c.id = pp.content_id
+    WHERE pp.content_table = 'portfolio_page_content' AND c.status = 'published'
+      AND pp.user_id = auth.uid() AND NOT pp.completed
+    UNION ALL
+    SELECT
+      pp.content_table, c.id, c.user_id, c.title, c.creator, c.description, c.type,
+      c.thumbnail_url, c.content_url, c.thumbnail_key, c.content_key,
+      COALESCE(c.duration_seconds, pp.duration_seconds), c.views_count, c.like_count, c.is_premium,
+      pp.position_seconds, pp.updated_at
+    FROM public.playback_positions pp
+    JOIN public.masterclass_page_content c ON c.id = pp.content_id
+    WHERE pp.content_table = 'masterclass_page_content' AND c.status = 'published'
+      AND pp.user_id = auth.uid() AND NOT pp.completed
+  ) items
+  WHERE p_content_table IS NULL OR items.content_table = p_content_table
+  ORDER BY items.updated_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_continue_watching(TEXT, INT) TO authenticated;
@@ -0,0 +1,140 @@
+-- =============================================
+-- PODCAST RSS FEEDS
+-- =============================================
+-- Published audio (`audio-music` and `podcast` items on the Media page) is
+-- served as an RSS 2.0 feed with the iTunes namespace by the podcast-feed
+-- function, one feed per creator and one per series. Premium episodes are
+-- only listed in private feeds: the same URL with a subscriber's feed
+-- token, which stays valid while the subscriber is on a paid tier and until
+-- they reset it.
+
+-- 1. Series group a creator's episodes under their own title and artwork
+CREATE TABLE IF NOT EXISTS public.podcast_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT NULL,
+  artwork_url TEXT NULL,
+  -- Apple Podcasts category, e.g. 'Arts' or 'Music'
+  category TEXT NULL,
+  language TEXT NOT NULL DEFAULT 'en',
+  is_explicit BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_podcast_series_user_id ON public.podcast_series(user_id);
+
+DROP TRIGGER IF EXISTS trigger_update_podcast_series_updated_at ON public.podcast_series;
+CREATE TRIGGER trigger_update_podcast_series_updated_at
+  BEFORE UPDATE ON public.podcast_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.podcast_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view podcast series" ON public.podcast_series;
+CREATE POLICY "Anyone can view podcast series" ON public.podcast_series
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Creators can manage their own podcast series" ON public.podcast_series;
+CREATE POLICY "Creators can manage their own podcast series" ON public.podcast_series
+  FOR ALL TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- 2. Episode fields. An episode inherits the series' explicit flag when
+--    either is set.
+ALTER TABLE public.media_page_content
+ADD COLUMN IF NOT EXISTS series_id UUID NULL REFERENCES public.podcast_series(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS is_explicit BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_media_page_content_series_id
+  ON public.media_page_content(series_id) WHERE series_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_media_page_content_audio_feed
+  ON public.media_page_content(user_id, created_at DESC)
+  WHERE status = 'published' AND type IN ('audio-music', 'podcast');
+
+-- An episode can only join a series of its own creator's
+CREATE OR REPLACE FUNCTION public.check_episode_series_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.series_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.podcast_series WHERE id = NEW.series_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Episodes can only be added to your own series' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+UPDATE public.media_page_content c
+SET series_id = NULL
+WHERE c.series_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.podcast_series s WHERE s.id = c.series_id AND s.user_id = c.user_id);
+
+DROP TRIGGER IF EXISTS trigger_check_episode_series_owner ON public.media_page_content;
+CREATE TRIGGER trigger_check_episode_series_owner
+  BEFORE INSERT OR UPDATE OF series_id, user_id ON public.media_page_content
+  FOR EACH ROW EXECUTE FUNCTION public.check_episode_series_owner();
+
+-- 3. Private feed tokens. One active token per subscriber; resetting it
+--    revokes every private feed URL handed out so far.
+CREATE TABLE IF NOT EXISTS public.podcast_feed_tokens (
+  token TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_podcast_feed_tokens_active_user
+  ON public.podcast_feed_tokens(user_id) WHERE revoked_at IS NULL;
+
+-- Written through the functions below; read by podcast-feed with the
+-- service role
+ALTER TABLE public.podcast_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own feed tokens" ON public.podcast_feed_tokens;
+CREATE POLICY "Users can view their own feed tokens" ON public.podcast_feed_tokens
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+-- 4. The caller's active token, created on first use
+CREATE OR REPLACE FUNCTION public.get_podcast_feed_token()
+RETURNS TEXT AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT token INTO v_token
+  FROM public.podcast_feed_tokens
+  WHERE user_id = auth.uid() AND revoked_at IS NULL;
+
+  IF v_token IS NULL THEN
+    -- Two random UUIDs: 244 random bits without needing pgcrypto
+    v_token := REPLACE(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+    INSERT INTO public.podcast_feed_tokens (token, user_id) VALUES (v_token, auth.uid());
+  END IF;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reset_podcast_feed_token()
+RETURNS TEXT AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.podcast_feed_tokens
+  SET revoked_at = NOW()
+  WHERE user_id = auth.uid() AND revoked_at IS NULL;
+
+  RETURN public.get_podcast_feed_token();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_podcast_feed_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reset_podcast_feed_token() TO authenticated;
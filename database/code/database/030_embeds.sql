@@ -0,0 +1,178 @@
+-- =============================================
+-- EMBEDDABLE PLAYER AND OEMBED
+-- =============================================
+-- Published items play on other sites through the /embed/:contentId route
+-- in an iframe; the oembed function turns pasted links into that iframe.
+-- Views from embeds go through record_content_view() like any other view
+-- but are tagged with their surface, and also counted in
+-- embed_views_count, so creators can tell them apart.
+
+-- 1. Embed views per item. views_count keeps counting every view.
+ALTER TABLE public.media_page_content
+ADD COLUMN IF NOT EXISTS embed_views_count INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.portfolio_page_content
+ADD COLUMN IF NOT EXISTS embed_views_count INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.masterclass_page_content
+ADD COLUMN IF NOT EXISTS embed_views_count INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.content_view_events
+ADD COLUMN IF NOT EXISTS surface TEXT NOT NULL DEFAULT 'app'
+  CHECK (surface IN ('app', 'embed'));
+
+-- 2. Count a view, now with where it was watched. The old three-argument
+--    version is dropped so calls without p_surface aren't ambiguous.
+DROP FUNCTION IF EXISTS public.record_content_view(TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.record_content_view(
+  p_content_table TEXT,
+  p_content_id UUID,
+  p_viewer_fingerprint TEXT DEFAULT NULL,
+  p_surface TEXT DEFAULT 'app'
+)
+RETURNS JSONB AS $$
+DECLARE
+  dedupe_window CONSTANT INTERVAL := INTERVAL '30 minutes';
+  v_headers JSONB := COALESCE(NULLIF(current_setting('request.headers', true), '')::JSONB, '{}'::JSONB);
+  v_user_agent TEXT := LEFT(v_headers->>'user-agent', 512);
+  v_viewer_id UUID := auth.uid();
+  v_viewer_key TEXT;
+  v_owner_id UUID;
+  v_outcome TEXT;
+  v_views_count INT;
+BEGIN
+  IF p_content_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content') THEN
+    RAISE EXCEPTION 'Unknown content table %', p_content_table;
+  END IF;
+  IF p_surface NOT IN ('app', 'embed') THEN
+    RAISE EXCEPTION 'Unknown surface %', p_surface;
+  END IF;
+
+  v_viewer_key := COALESCE(
+    'user:' || v_viewer_id::TEXT,
+    'anon:' || NULLIF(LEFT(TRIM(p_viewer_fingerprint), 64), ''),
+    'ip:' || NULLIF(TRIM(SPLIT_PART(v_headers->>'x-forwarded-for', ',', 1)), ''),
+    'unknown'
+  );
+
+  -- Only published items count; drafts and scheduled releases are not_found
+  EXECUTE format('SELECT user_id, views_count FROM public.%I WHERE id = $1 AND status = ''published''', p_content_table)
+  INTO v_owner_id, v_views_count
+  USING p_content_id;
+
+  -- Serialise concurrent calls for the same viewer and item so the
+  -- duplicate check below can't be raced
+  PERFORM pg_advisory_xact_lock(hashtext(p_content_table || ':' || p_content_id::TEXT || ':' || v_viewer_key));
+
+  IF v_views_count IS NULL THEN
+    v_outcome := 'not_found';
+  ELSIF v_user_agent IS NULL
+     OR v_user_agent ~* '(bot|crawl|spider|slurp|headless|lighthouse|curl|wget|python-requests|httpclient|facebookexternalhit|preview)' THEN
+    v_outcome := 'bot';
+  ELSIF v_viewer_id IS NOT NULL AND v_viewer_id = v_owner_id THEN
+    v_outcome := 'owner';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.content_view_events
+    WHERE content_table = p_content_table
+      AND content_id = p_content_id
+      AND viewer_key = v_viewer_key
+      AND outcome = 'counted'
+      AND created_at > NOW() - dedupe_window
+  ) THEN
+    v_outcome := 'duplicate';
+  ELSE
+    v_outcome := 'counted';
+    PERFORM set_config('app.counting_view', 'on', true);
+    EXECUTE format(
+      'UPDATE public.%I
+       SET views_count = views_count + 1,
+           embed_views_count = embed_views_count + CASE WHEN $2 = ''embed'' THEN 1 ELSE 0 END
+       WHERE id = $1
+       RETURNING views_count',
+      p_content_table
+    )
+    INTO v_views_count
+    USING p_content_id, p_surface;
+    PERFORM set_config('app.counting_view', 'off', true);
+  END IF;
+
+  INSERT INTO public.content_view_events (content_table, content_id, viewer_id, viewer_key, user_agent, outcome, surface)
+  VALUES (p_content_table, p_content_id, v_viewer_id, v_viewer_key, v_user_agent, v_outcome, p_surface);
+
+  RETURN jsonb_build_object('counted', v_outcome = 'counted', 'outcome', v_outcome, 'views_count', v_views_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_content_view(TEXT, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_content_view(TEXT, UUID, TEXT, TEXT) TO anon;
+
+-- 3. embed_views_count is protected like views_count (024)
+CREATE OR REPLACE FUNCTION public.protect_views_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.counting_view', true) IS DISTINCT FROM 'on'
+     AND auth.role() IN ('anon', 'authenticated') THEN
+    NEW.views_count := OLD.views_count;
+    NEW.embed_views_count := OLD.embed_views_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_media_views_count ON public.media_page_content;
+CREATE TRIGGER trigger_protect_media_views_count
+BEFORE UPDATE OF views_count, embed_views_count ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.protect_views_count();
+
+DROP TRIGGER IF EXISTS trigger_protect_portfolio_views_count ON public.portfolio_page_content;
+CREATE TRIGGER trigger_protect_portfolio_views_count
+BEFORE UPDATE OF views_count, embed_views_count ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.protect_views_count();
+
+DROP TRIGGER IF EXISTS trigger_protect_masterclass_views_count ON public.masterclass_page_content;
+CREATE TRIGGER trigger_protect_masterclass_views_count
+BEFORE UPDATE OF views_count, embed_views_count ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.protect_views_count();
+
+-- 4. One published item by ID, whichever page it is on, for the embed
+--    route and the oembed function
+CREATE OR REPLACE FUNCTION public.get_embed_content(p_content_id UUID)
+RETURNS TABLE (
+  content_table TEXT,
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  creator TEXT,
+  type TEXT,
+  thumbnail_url TEXT,
+  content_url TEXT,
+  thumbnail_key TEXT,
+  content_key TEXT,
+  duration_seconds NUMERIC,
+  width INT,
+  height INT,
+  is_premium BOOLEAN
+) AS $$
+  SELECT 'media_page_content', c.id, c.user_id, c.title, c.creator, c.type,
+    c.thumbnail_url, c.content_url, c.thumbnail_key, c.content_key,
+    c.duration_seconds, c.width, c.height, c.is_premium
+  FROM public.media_page_content c
+  WHERE c.id = p_content_id AND c.status = 'published'
+  UNION ALL
+  SELECT 'portfolio_page_content', c.id, c.user_id, c.title, c.creator, c.type,
+    c.thumbnail_url, c.content_url, c.thumbnail_key, c.content_key,
+    c.duration_seconds, c.width, c.height, c.is_premium
+  FROM public.portfolio_page_content c
+  WHERE c.id = p_content_id AND c.status = 'published'
+  UNION ALL
+  SELECT 'masterclass_page_content', c.id, c.user_id, c.title, c.creator, c.type,
+    c.thumbnail_url, c.content_url, c.thumbnail_key, c.content_key,
+    c.duration_seconds, c.width, c.height, c.is_premium
+  FROM public.masterclass_page_content c
+  WHERE c.id = p_content_id AND c.status = 'published'
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_embed_content(UUID) TO anon, authenticated;
@@ -0,0 +1,304 @@
+-- =============================================
+-- CONTENT LIFECYCLE TRANSITIONS AND AUDIT TRAIL
+-- =============================================
+-- Publishing, unpublishing, restoring and archiving used to read
+-- published_to in the browser and write a modified copy back, so two tabs
+-- (or two destinations) racing each other lost updates, and each hook set
+-- status strings its own way. Every transition now goes through one
+-- function that locks the row, checks the move is allowed and writes a
+-- content_events row. The allowed moves:
+--
+--   publish    draft/published -> published (adds a destination)
+--   unpublish  published -> published, or pending_deletion once no
+--              destination is left (deleted for good after 3 days)
+--   restore    pending_deletion -> draft
+--   archive    anything not yet deleted -> archived
+--
+-- Clients can no longer change status, published_to or saved directly.
+
+-- 1. Masterclass items are published and deleted like the other pages
+ALTER TABLE public.masterclass_page_content
+ADD COLUMN IF NOT EXISTS publication_destination TEXT DEFAULT 'masterclass',
+ADD COLUMN IF NOT EXISTS published_to JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS auto_delete_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS saved BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS is_deleted_pending BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_masterclass_page_content_auto_delete_at
+  ON public.masterclass_page_content(auto_delete_at) WHERE auto_delete_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.cleanup_expired_deleted_masterclass_content()
+RETURNS void AS $$
+BEGIN
+  UPDATE public.masterclass_page_content
+  SET status = 'permanently_deleted'
+  WHERE
+    auto_delete_at IS NOT NULL
+    AND auto_delete_at < NOW()
+    AND saved = FALSE
+    AND status = 'pending_deletion';
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT cron.schedule('cleanup-expired-masterclass-content', '0 * * * *', 'SELECT public.cleanup_expired_deleted_masterclass_content()');
+
+-- 2. One row per transition. actor_id is NULL for scheduled jobs.
+CREATE TABLE IF NOT EXISTS public.content_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_table TEXT NOT NULL
+    CHECK (content_table IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content')),
+  content_id UUID NOT NULL,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_id UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL
+    CHECK (event_type IN (
+      'created', 'published', 'unpublished', 'pending_deletion',
+      'restored', 'archived', 'permanently_deleted'
+    )),
+  from_status TEXT NULL,
+  to_status TEXT NOT NULL,
+  destination TEXT NULL,
+  published_to JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_events_item
+  ON public.content_events(content_table, content_id, created_at DESC);
+
+-- Creators read the history of their own items; rows are only written by
+-- the functions below
+ALTER TABLE public.content_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view their content events" ON public.content_events;
+CREATE POLICY "Owners can view their content events" ON public.content_events
+  FOR SELECT TO authenticated USING (auth.uid() = owner_id);
+
+-- 3. Apply one transition to one item
+CREATE OR REPLACE FUNCTION public.apply_content_transition(
+  p_content_table TEXT,
+  p_content_id UUID,
+  p_action TEXT,
+  p_destination TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_owner_id UUID;
+  v_status TEXT;
+  v_published_to JSONB;
+  v_new_status TEXT;
+  v_new_published_to JSONB;
+  v_event_type TEXT;
+  v_result JSONB;
+BEGIN
+  IF p_content_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content') THEN
+    RAISE EXCEPTION 'Unknown content table %', p_content_table;
+  END IF;
+  IF p_action IN ('publish', 'unpublish') AND (p_destination IS NULL OR p_destination NOT IN ('media', 'portfolio', 'masterclass')) THEN
+    RAISE EXCEPTION 'Unknown destination %', p_destination;
+  END IF;
+
+  -- The row lock makes concurrent transitions on the same item queue up
+  -- instead of overwriting each other's published_to
+  EXECUTE format(
+    'SELECT user_id, status, COALESCE(published_to, ''[]''::JSONB) FROM public.%I WHERE id = $1 FOR UPDATE',
+    p_content_table
+  )
+  INTO v_owner_id, v_status, v_published_to
+  USING p_content_id;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Content not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only change your own content' USING ERRCODE = '42501';
+  END IF;
+
+  CASE p_action
+    WHEN 'publish' THEN
+      IF v_status NOT IN ('draft', 'published') THEN
+        RAISE EXCEPTION 'Content that is % cannot be published; restore it first', v_status;
+      END IF;
+      v_new_published_to := CASE
+        WHEN v_published_to ? p_destination THEN v_published_to
+        ELSE v_published_to || to_jsonb(p_destination)
+      END;
+      v_new_status := 'published';
+      v_event_type := 'published';
+    WHEN 'unpublish' THEN
+      IF v_status <> 'published' THEN
+        RAISE EXCEPTION 'Content that is % is not published', v_status;
+      END IF;
+      v_new_published_to := v_published_to - p_destination;
+      IF jsonb_array_length(v_new_published_to) = 0 THEN
+        v_new_status := 'pending_deletion';
+        v_event_type := 'pending_deletion';
+      ELSE
+        v_new_status := 'published';
+        v_event_type := 'unpublished';
+      END IF;
+    WHEN 'restore' THEN
+      IF v_status <> 'pending_deletion' THEN
+        RAISE EXCEPTION 'Only content pending deletion can be restored';
+      END IF;
+      v_new_published_to := '[]'::JSONB;
+      v_new_status := 'draft';
+      v_event_type := 'restored';
+    WHEN 'archive' THEN
+      IF v_status IN ('archived', 'permanently_deleted') THEN
+        RAISE EXCEPTION 'Content is already %', v_status;
+      END IF;
+      v_new_published_to := '[]'::JSONB;
+      v_new_status := 'archived';
+      v_event_type := 'archived';
+    ELSE
+      RAISE EXCEPTION 'Unknown transition %', p_action;
+  END CASE;
+
+  PERFORM set_config('app.content_transition', 'on', true);
+  EXECUTE format(
+    'UPDATE public.%I
+     SET status = $2,
+         published_to = $3,
+         publication_destination = CASE WHEN $4 = ''publish'' THEN $5 ELSE publication_destination END,
+         deleted_at = CASE WHEN $2 = ''pending_deletion'' THEN NOW() WHEN $2 = ''draft'' THEN NULL ELSE deleted_at END,
+         auto_delete_at = CASE WHEN $2 = ''pending_deletion'' THEN NOW() + INTERVAL ''3 days'' WHEN $2 = ''draft'' THEN NULL ELSE auto_delete_at END,
+         is_deleted_pending = ($2 = ''pending_deletion''),
+         saved = FALSE
+     WHERE id = $1
+     RETURNING jsonb_build_object(
+       ''status'', status,
+       ''published_to'', published_to,
+       ''publication_destination'', publication_destination,
+       ''deleted_at'', deleted_at,
+       ''auto_delete_at'', auto_delete_at,
+       ''is_deleted_pending'', is_deleted_pending,
+       ''saved'', saved
+     )',
+    p_content_table
+  )
+  INTO v_result
+  USING p_content_id, v_new_status, v_new_published_to, p_action, p_destination;
+  PERFORM set_config('app.content_transition', 'off', true);
+
+  INSERT INTO public.content_events (
+    content_table, content_id, owner_id, actor_id, event_type, from_status, to_status, destination, published_to
+  )
+  VALUES (
+    p_content_table, p_content_id, v_owner_id, auth.uid(), v_event_type, v_status, v_new_status,
+    p_destination, v_new_published_to
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_content_transition(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 4. One function per transition for the app. Each returns the item's new
+--    lifecycle columns.
+CREATE OR REPLACE FUNCTION public.publish_content(p_content_table TEXT, p_content_id UUID, p_destination TEXT)
+RETURNS JSONB AS $$
+  SELECT public.apply_content_transition(p_content_table, p_content_id, 'publish', p_destination);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.unpublish_content(p_content_table TEXT, p_content_id UUID, p_destination TEXT)
+RETURNS JSONB AS $$
+  SELECT public.apply_content_transition(p_content_table, p_content_id, 'unpublish', p_destination);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_content(p_content_table TEXT, p_content_id UUID)
+RETURNS JSONB AS $$
+  SELECT public.apply_content_transition(p_content_table, p_content_id, 'restore');
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.archive_content(p_content_table TEXT, p_content_id UUID)
+RETURNS JSONB AS $$
+  SELECT public.apply_content_transition(p_content_table, p_content_id, 'archive');
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.publish_content(TEXT, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unpublish_content(TEXT, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_content(TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.archive_content(TEXT, UUID) TO authenticated;
+
+-- 5. Clients can't bypass the transitions. Edits to other columns (title,
+--    thumbnails, ...) are unaffected; the service role and scheduled jobs
+--    still update rows directly.
+CREATE OR REPLACE FUNCTION public.guard_content_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.content_transition', true) IS DISTINCT FROM 'on'
+     AND auth.role() IN ('anon', 'authenticated')
+     AND (
+       NEW.status IS DISTINCT FROM OLD.status
+       OR NEW.published_to IS DISTINCT FROM OLD.published_to
+       OR NEW.saved IS DISTINCT FROM OLD.saved
+     ) THEN
+    RAISE EXCEPTION 'Publication status can only be changed through the content lifecycle functions'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_guard_media_content_lifecycle ON public.media_page_content;
+CREATE TRIGGER trigger_guard_media_content_lifecycle
+BEFORE UPDATE OF status, published_to, saved ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.guard_content_lifecycle();
+
+DROP TRIGGER IF EXISTS trigger_guard_portfolio_content_lifecycle ON public.portfolio_page_content;
+CREATE TRIGGER trigger_guard_portfolio_content_lifecycle
+BEFORE UPDATE OF status, published_to, saved ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.guard_content_lifecycle();
+
+DROP TRIGGER IF EXISTS trigger_guard_masterclass_content_lifecycle ON public.masterclass_page_content;
+CREATE TRIGGER trigger_guard_masterclass_content_lifecycle
+BEFORE UPDATE OF status, published_to, saved ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.guard_content_lifecycle();
+
+-- 6. Record uploads and status changes made outside the transition
+--    functions (the cleanup jobs moving items to permanently_deleted)
+CREATE OR REPLACE FUNCTION public.log_content_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.content_events (
+      content_table, content_id, owner_id, actor_id, event_type, to_status, destination, published_to
+    )
+    VALUES (
+      TG_TABLE_NAME, NEW.id, NEW.user_id, auth.uid(), 'created', NEW.status,
+      NEW.publication_destination, COALESCE(NEW.published_to, '[]'::JSONB)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+     AND current_setting('app.content_transition', true) IS DISTINCT FROM 'on'
+     AND NEW.status IN ('published', 'pending_deletion', 'draft', 'archived', 'permanently_deleted') THEN
+    INSERT INTO public.content_events (
+      content_table, content_id, owner_id, actor_id, event_type, from_status, to_status, published_to
+    )
+    VALUES (
+      TG_TABLE_NAME, NEW.id, NEW.user_id, auth.uid(),
+      CASE NEW.status WHEN 'draft' THEN 'restored' ELSE NEW.status END,
+      OLD.status, NEW.status, COALESCE(NEW.published_to, '[]'::JSONB)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_log_media_content_event ON public.media_page_content;
+CREATE TRIGGER trigger_log_media_content_event
+AFTER INSERT OR UPDATE OF status ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.log_content_event();
+
+DROP TRIGGER IF EXISTS trigger_log_portfolio_content_event ON public.portfolio_page_content;
+CREATE TRIGGER trigger_log_portfolio_content_event
+AFTER INSERT OR UPDATE OF status ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.log_content_event();
+
+DROP TRIGGER IF EXISTS trigger_log_masterclass_content_event ON public.masterclass_page_content;
+CREATE TRIGGER trigger_log_masterclass_content_event
+AFTER INSERT OR UPDATE OF status ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.log_content_event();
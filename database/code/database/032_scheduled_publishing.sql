@@ -0,0 +1,419 @@
+-- =============================================
+-- SCHEDULED PUBLISHING AND EMBARGOED RELEASES
+-- =============================================
+-- A draft can carry a release time (publish_at) and the destinations it
+-- goes to then (scheduled_destinations). A job running every minute
+-- publishes due drafts through apply_content_transition, so a scheduled
+-- release is recorded like any other publish, with a NULL actor.
+--
+-- Until then the item stays a draft: get_content_by_destination doesn't
+-- list it and its files aren't handed out. Followers of the creator only
+-- see a teaser (title, thumbnail, release time) from
+-- get_upcoming_releases.
+--
+-- Scheduling goes through schedule_content; like status and published_to
+-- the columns can't be changed directly by clients.
+
+-- 1. Release time and destinations on every page-content table
+ALTER TABLE public.media_page_content
+ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS scheduled_destinations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.portfolio_page_content
+ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS scheduled_destinations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.masterclass_page_content
+ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS scheduled_destinations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_media_page_content_publish_at
+  ON public.media_page_content(publish_at) WHERE publish_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_portfolio_page_content_publish_at
+  ON public.portfolio_page_content(publish_at) WHERE publish_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_masterclass_page_content_publish_at
+  ON public.masterclass_page_content(publish_at) WHERE publish_at IS NOT NULL;
+
+-- 2. Scheduling shows up in an item's history
+ALTER TABLE public.content_events
+ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS scheduled_destinations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.content_events DROP CONSTRAINT IF EXISTS content_events_event_type_check;
+ALTER TABLE public.content_events ADD CONSTRAINT content_events_event_type_check
+  CHECK (event_type IN (
+    'created', 'published', 'unpublished', 'pending_deletion',
+    'restored', 'archived', 'permanently_deleted', 'scheduled', 'unscheduled'
+  ));
+
+-- 3. Transitions may now also run from the scheduled job, which has no
+--    auth.uid(); any transition clears a pending schedule
+CREATE OR REPLACE FUNCTION public.apply_content_transition(
+  p_content_table TEXT,
+  p_content_id UUID,
+  p_action TEXT,
+  p_destination TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_owner_id UUID;
+  v_status TEXT;
+  v_published_to JSONB;
+  v_new_status TEXT;
+  v_new_published_to JSONB;
+  v_event_type TEXT;
+  v_result JSONB;
+BEGIN
+  IF p_content_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content') THEN
+    RAISE EXCEPTION 'Unknown content table %', p_content_table;
+  END IF;
+  IF p_action IN ('publish', 'unpublish') AND (p_destination IS NULL OR p_destination NOT IN ('media', 'portfolio', 'masterclass')) THEN
+    RAISE EXCEPTION 'Unknown destination %', p_destination;
+  END IF;
+
+  -- The row lock makes concurrent transitions on the same item queue up
+  -- instead of overwriting each other's published_to
+  EXECUTE format(
+    'SELECT user_id, status, COALESCE(published_to, ''[]''::JSONB) FROM public.%I WHERE id = $1 FOR UPDATE',
+    p_content_table
+  )
+  INTO v_owner_id, v_status, v_published_to
+  USING p_content_id;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Content not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF auth.role() IN ('anon', 'authenticated') AND v_owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only change your own content' USING ERRCODE = '42501';
+  END IF;
+
+  CASE p_action
+    WHEN 'publish' THEN
+      IF v_status NOT IN ('draft', 'published') THEN
+        RAISE EXCEPTION 'Content that is % cannot be published; restore it first', v_status;
+      END IF;
+      v_new_published_to := CASE
+        WHEN v_published_to ? p_destination THEN v_published_to
+        ELSE v_published_to || to_jsonb(p_destination)
+      END;
+      v_new_status := 'published';
+      v_event_type := 'published';
+    WHEN 'unpublish' THEN
+      IF v_status <> 'published' THEN
+        RAISE EXCEPTION 'Content that is % is not published', v_status;
+      END IF;
+      v_new_published_to := v_published_to - p_destination;
+      IF jsonb_array_length(v_new_published_to) = 0 THEN
+        v_new_status := 'pending_deletion';
+        v_event_type := 'pending_deletion';
+      ELSE
+        v_new_status := 'published';
+        v_event_type := 'unpublished';
+      END IF;
+    WHEN 'restore' THEN
+      IF v_status <> 'pending_deletion' THEN
+        RAISE EXCEPTION 'Only content pending deletion can be restored';
+      END IF;
+      v_new_published_to := '[]'::JSONB;
+      v_new_status := 'draft';
+      v_event_type := 'restored';
+    WHEN 'archive' THEN
+      IF v_status IN ('archived', 'permanently_deleted') THEN
+        RAISE EXCEPTION 'Content is already %', v_status;
+      END IF;
+      v_new_published_to := '[]'::JSONB;
+      v_new_status := 'archived';
+      v_event_type := 'archived';
+    ELSE
+      RAISE EXCEPTION 'Unknown transition %', p_action;
+  END CASE;
+
+  PERFORM set_config('app.content_transition', 'on', true);
+  EXECUTE format(
+    'UPDATE public.%I
+     SET status = $2,
+         published_to = $3,
+         publication_destination = CASE WHEN $4 = ''publish'' THEN $5 ELSE publication_destination END,
+         deleted_at = CASE WHEN $2 = ''pending_deletion'' THEN NOW() WHEN $2 = ''draft'' THEN NULL ELSE deleted_at END,
+         auto_delete_at = CASE WHEN $2 = ''pending_deletion'' THEN NOW() + INTERVAL ''3 days'' WHEN $2 = ''draft'' THEN NULL ELSE auto_delete_at END,
+         is_deleted_pending = ($2 = ''pending_deletion''),
+         saved = FALSE,
+         publish_at = NULL,
+         scheduled_destinations = ''[]''::JSONB
+     WHERE id = $1
+     RETURNING jsonb_build_object(
+       ''status'', status,
+       ''published_to'', published_to,
+       ''publication_destination'', publication_destination,
+       ''deleted_at'', deleted_at,
+       ''auto_delete_at'', auto_delete_at,
+       ''is_deleted_pending'', is_deleted_pending,
+       ''saved'', saved,
+       ''publish_at'', publish_at,
+       ''scheduled_destinations'', scheduled_destinations
+     )',
+    p_content_table
+  )
+  INTO v_result
+  USING p_content_id, v_new_status, v_new_published_to, p_action, p_destination;
+  PERFORM set_config('app.content_transition', 'off', true);
+
+  INSERT INTO public.content_events (
+    content_table, content_id, owner_id, actor_id, event_type, from_status, to_status, destination, published_to
+  )
+  VALUES (
+    p_content_table, p_content_id, v_owner_id, auth.uid(), v_event_type, v_status, v_new_status,
+    p_destination, v_new_published_to
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_content_transition(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 4. Set or clear a draft's release. A NULL p_publish_at clears it.
+--    Returns the item's lifecycle columns like the transitions do.
+CREATE OR REPLACE FUNCTION public.schedule_content(
+  p_content_table TEXT,
+  p_content_id UUID,
+  p_publish_at TIMESTAMP WITH TIME ZONE,
+  p_destinations TEXT[] DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_owner_id UUID;
+  v_status TEXT;
+  v_had_schedule BOOLEAN;
+  v_destinations JSONB;
+  v_result JSONB;
+BEGIN
+  IF p_content_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content') THEN
+    RAISE EXCEPTION 'Unknown content table %', p_content_table;
+  END IF;
+
+  EXECUTE format(
+    'SELECT user_id, status, publish_at IS NOT NULL FROM public.%I WHERE id = $1 FOR UPDATE',
+    p_content_table
+  )
+  INTO v_owner_id, v_status, v_had_schedule
+  USING p_content_id;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Content not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only change your own content' USING ERRCODE = '42501';
+  END IF;
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Only drafts can be scheduled; this content is %', v_status;
+  END IF;
+
+  IF p_publish_at IS NULL THEN
+    IF NOT v_had_schedule THEN
+      RAISE EXCEPTION 'This content has no scheduled release';
+    END IF;
+    v_destinations := '[]'::JSONB;
+  ELSE
+    IF p_publish_at <= NOW() THEN
+      RAISE EXCEPTION 'The release time must be in the future';
+    END IF;
+    IF COALESCE(array_length(p_destinations, 1), 0) = 0 THEN
+      RAISE EXCEPTION 'Choose at least one destination for the release';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM unnest(p_destinations) d WHERE d IS NULL OR d NOT IN ('media', 'portfolio', 'masterclass')
+    ) THEN
+      RAISE EXCEPTION 'Unknown destination in %', p_destinations;
+    END IF;
+    SELECT jsonb_agg(DISTINCT d) INTO v_destinations FROM unnest(p_destinations) d;
+  END IF;
+
+  PERFORM set_config('app.content_transition', 'on', true);
+  EXECUTE format(
+    'UPDATE public.%I
+     SET publish_at = $2,
+         scheduled_destinations = $3
+     WHERE id = $1
+     RETURNING jsonb_build_object(
+       ''status'', status,
+       ''published_to'', published_to,
+       ''publication_destination'', publication_destination,
+       ''deleted_at'', deleted_at,
+       ''auto_delete_at'', auto_delete_at,
+       ''is_deleted_pending'', is_deleted_pending,
+       ''saved'', saved,
+       ''publish_at'', publish_at,
+       ''scheduled_destinations'', scheduled_destinations
+     )',
+    p_content_table
+  )
+  INTO v_result
+  USING p_content_id, p_publish_at, v_destinations;
+  PERFORM set_config('app.content_transition', 'off', true);
+
+  INSERT INTO public.content_events (
+    content_table, content_id, owner_id, actor_id, event_type, from_status, to_status,
+    published_to, publish_at, scheduled_destinations
+  )
+  VALUES (
+    p_content_table, p_content_id, v_owner_id, auth.uid(),
+    CASE WHEN p_publish_at IS NULL THEN 'unscheduled' ELSE 'scheduled' END,
+    v_status, v_status, COALESCE(v_result->'published_to', '[]'::JSONB), p_publish_at, v_destinations
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.schedule_content(TEXT, UUID, TIMESTAMP WITH TIME ZONE, TEXT[]) TO authenticated;
+
+-- 5. The guard also covers the schedule columns
+CREATE OR REPLACE FUNCTION public.guard_content_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.content_transition', true) IS DISTINCT FROM 'on'
+     AND auth.role() IN ('anon', 'authenticated')
+     AND (
+       NEW.status IS DISTINCT FROM OLD.status
+       OR NEW.published_to IS DISTINCT FROM OLD.published_to
+       OR NEW.saved IS DISTINCT FROM OLD.saved
+       OR NEW.publish_at IS DISTINCT FROM OLD.publish_at
+       OR NEW.scheduled_destinations IS DISTINCT FROM OLD.scheduled_destinations
+     ) THEN
+    RAISE EXCEPTION 'Publication status can only be changed through the content lifecycle functions'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_guard_media_content_lifecycle ON public.media_page_content;
+CREATE TRIGGER trigger_guard_media_content_lifecycle
+BEFORE UPDATE OF status, published_to, saved, publish_at, scheduled_destinations ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.guard_content_lifecycle();
+
+DROP TRIGGER IF EXISTS trigger_guard_portfolio_content_lifecycle ON public.portfolio_page_content;
+CREATE TRIGGER trigger_guard_portfolio_content_lifecycle
+BEFORE UPDATE OF status, published_to, saved, publish_at, scheduled_destinations ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.guard_content_lifecycle();
+
+DROP TRIGGER IF EXISTS trigger_guard_masterclass_content_lifecycle ON public.masterclass_page_content;
+CREATE TRIGGER trigger_guard_masterclass_content_lifecycle
+BEFORE UPDATE OF status, published_to, saved, publish_at, scheduled_destinations ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.guard_content_lifecycle();
+
+-- 6. Publish every due draft to each of its destinations. An item that
+--    fails (say, deleted in the meantime) is skipped with a warning and
+--    doesn't hold up the others; SKIP LOCKED leaves rows a creator is
+--    changing right now for the next run.
+CREATE OR REPLACE FUNCTION public.publish_scheduled_content()
+RETURNS INT AS $$
+DECLARE
+  v_table TEXT;
+  v_item RECORD;
+  v_destination TEXT;
+  v_published INT := 0;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['media_page_content', 'portfolio_page_content', 'masterclass_page_content'] LOOP
+    FOR v_item IN EXECUTE format(
+      'SELECT id, scheduled_destinations FROM public.%I
+       WHERE status = ''draft'' AND publish_at IS NOT NULL AND publish_at <= NOW()
+       ORDER BY publish_at
+       FOR UPDATE SKIP LOCKED',
+      v_table
+    ) LOOP
+      BEGIN
+        FOR v_destination IN SELECT jsonb_array_elements_text(v_item.scheduled_destinations) LOOP
+          PERFORM public.apply_content_transition(v_table, v_item.id, 'publish', v_destination);
+        END LOOP;
+        v_published := v_published + 1;
+      EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'Scheduled publish of %.% failed: %', v_table, v_item.id, SQLERRM;
+      END;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.publish_scheduled_content() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('publish-scheduled-content', '* * * * *', 'SELECT public.publish_scheduled_content()');
+
+-- 7. Scheduled releases for one destination from creators the caller
+--    follows, soonest first. Only teaser columns: the files stay
+--    embargoed until the release.
+CREATE OR REPLACE FUNCTION public.get_upcoming_releases(p_destination TEXT, p_limit INT DEFAULT 12)
+RETURNS TABLE (
+  content_table TEXT,
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  creator TEXT,
+  type TEXT,
+  category TEXT,
+  thumbnail_url TEXT,
+  thumbnail_key TEXT,
+  thumbnail_variants JSONB,
+  thumbnail_placeholder TEXT,
+  is_premium BOOLEAN,
+  publish_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT *
+  FROM (
+    SELECT
+      'media_page_content'::TEXT, c.id, c.user_id, c.title, c.creator, c.type, c.category,
+      c.thumbnail_url, c.thumbnail_key, c.thumbnail_variants, c.thumbnail_placeholder, c.is_premium, c.publish_at
+    FROM public.media_page_content c
+    WHERE c.status = 'draft' AND c.publish_at > NOW() AND c.scheduled_destinations ? p_destination
+    UNION ALL
+    SELECT
+      'portfolio_page_content'::TEXT, c.id, c.user_id, c.title, c.creator, c.type, c.category,
+      c.thumbnail_url, c.thumbnail_key, c.thumbnail_variants, c.thumbnail_placeholder, c.is_premium, c.publish_at
+    FROM public.portfolio_page_content c
+    WHERE c.status = 'draft' AND c.publish_at > NOW() AND c.scheduled_destinations ? p_destination
+    UNION ALL
+    SELECT
+      'masterclass_page_content'::TEXT, c.id, c.user_id, c.title, c.creator, c.type, c.category,
+      c.thumbnail_url, c.thumbnail_key, c.thumbnail_variants, c.thumbnail_placeholder, c.is_premium, c.publish_at
+    FROM public.masterclass_page_content c
+    WHERE c.status = 'draft' AND c.publish_at > NOW() AND c.scheduled_destinations ? p_destination
+  ) releases
+  WHERE releases.creator IN (
+    SELECT f.creator_name FROM public.media_page_follows f WHERE f.follower_id = auth.uid()
+  )
+  ORDER BY releases.publish_at
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_upcoming_releases(TEXT, INT) TO authenticated;
+
+-- 8. The embargo holds for direct reads too: others only see published
+--    rows, so a scheduled draft's content_url/content_key stay private.
+--    Replaces every earlier SELECT policy on the page-content tables.
+DO $$
+DECLARE
+  v_table TEXT;
+  v_policy TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['media_page_content', 'portfolio_page_content', 'masterclass_page_content'] LOOP
+    FOR v_policy IN
+      SELECT policyname FROM pg_policies
+      WHERE schemaname = 'public' AND tablename = v_table AND cmd = 'SELECT'
+    LOOP
+      EXECUTE format('DROP POLICY %I ON public.%I', v_policy, v_table);
+    END LOOP;
+
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', v_table);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR SELECT TO anon, authenticated
+       USING (status = ''published'' OR auth.uid() = user_id)',
+      'View published or own ' || v_table,
+      v_table
+    );
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,252 @@
+-- =============================================
+-- CONTENT REVISIONS AND ROLLBACK
+-- =============================================
+-- Edits overwrote title, description, category, masterclass details and
+-- thumbnails in place, so a bad edit couldn't be undone. Every edit to
+-- those fields now writes a content_revisions row holding only the fields
+-- that changed, each as { "from": ..., "to": ... }, with the editor and
+-- time. A trigger records them, so the edit modals, the thumbnail editor
+-- and anything else writing the row are all covered.
+--
+-- restore_content_revision puts an item back the way it was after a
+-- revision (0 for as uploaded). The restore is itself an edit, so it is
+-- recorded as a new revision with restored_from set; nothing is lost.
+--
+-- Thumbnails are tracked by thumbnail_key/thumbnail_url. Restoring one
+-- clears its derivatives and queues process-images like any new
+-- thumbnail (027_responsive_images.sql).
+
+-- 1. One row per edit. editor_id is NULL for the service role.
+CREATE TABLE IF NOT EXISTS public.content_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_table TEXT NOT NULL
+    CHECK (content_table IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content', 'media_items')),
+  content_id UUID NOT NULL,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  editor_id UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  revision_number INT NOT NULL,
+  changes JSONB NOT NULL,
+  restored_from INT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (content_table, content_id, revision_number)
+);
+
+ALTER TABLE public.content_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view their content revisions" ON public.content_revisions;
+CREATE POLICY "Owners can view their content revisions" ON public.content_revisions
+  FOR SELECT TO authenticated USING (auth.uid() = owner_id);
+
+-- 2. Record the tracked fields (TG_ARGV) that an update changed. Revisions
+--    go with the item once it is deleted for good.
+CREATE OR REPLACE FUNCTION public.record_content_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_field TEXT;
+  v_changes JSONB := '{}'::JSONB;
+  v_revision_number INT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.content_revisions WHERE content_table = TG_TABLE_NAME AND content_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  v_old := to_jsonb(OLD);
+  v_new := to_jsonb(NEW);
+
+  IF v_new->>'status' = 'permanently_deleted' THEN
+    DELETE FROM public.content_revisions WHERE content_table = TG_TABLE_NAME AND content_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  FOREACH v_field IN ARRAY TG_ARGV LOOP
+    IF v_new->v_field IS DISTINCT FROM v_old->v_field THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_field, jsonb_build_object('from', v_old->v_field, 'to', v_new->v_field)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_changes = '{}'::JSONB THEN
+    RETURN NEW;
+  END IF;
+
+  -- The update holds the item's row lock, so numbers can't collide
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO v_revision_number
+  FROM public.content_revisions
+  WHERE content_table = TG_TABLE_NAME AND content_id = NEW.id;
+
+  INSERT INTO public.content_revisions (
+    content_table, content_id, owner_id, editor_id, revision_number, changes, restored_from
+  )
+  VALUES (
+    TG_TABLE_NAME, NEW.id, NEW.user_id, auth.uid(), v_revision_number, v_changes,
+    NULLIF(current_setting('app.restoring_revision', true), '')::INT
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_record_media_content_revision ON public.media_page_content;
+CREATE TRIGGER trigger_record_media_content_revision
+AFTER UPDATE OR DELETE ON public.media_page_content
+FOR EACH ROW EXECUTE FUNCTION public.record_content_revision(
+  'title', 'description', 'category', 'is_premium', 'thumbnail_key', 'thumbnail_url'
+);
+
+DROP TRIGGER IF EXISTS trigger_record_portfolio_content_revision ON public.portfolio_page_content;
+CREATE TRIGGER trigger_record_portfolio_content_revision
+AFTER UPDATE OR DELETE ON public.portfolio_page_content
+FOR EACH ROW EXECUTE FUNCTION public.record_content_revision(
+  'title', 'description', 'category', 'is_premium', 'thumbnail_key', 'thumbnail_url'
+);
+
+DROP TRIGGER IF EXISTS trigger_record_masterclass_content_revision ON public.masterclass_page_content;
+CREATE TRIGGER trigger_record_masterclass_content_revision
+AFTER UPDATE OR DELETE ON public.masterclass_page_content
+FOR EACH ROW EXECUTE FUNCTION public.record_content_revision(
+  'title', 'description', 'category', 'is_premium', 'level', 'features', 'lessons_count',
+  'thumbnail_key', 'thumbnail_url'
+);
+
+DROP TRIGGER IF EXISTS trigger_record_media_item_revision ON public.media_items;
+CREATE TRIGGER trigger_record_media_item_revision
+AFTER UPDATE OR DELETE ON public.media_items
+FOR EACH ROW EXECUTE FUNCTION public.record_content_revision(
+  'title', 'description', 'category', 'thumbnail_url'
+);
+
+-- 3. Put an item back the way it was after p_revision_number. Each field
+--    changed since then gets the "from" of its first later change; the
+--    others already have that value. Returns the item's row afterwards.
+CREATE OR REPLACE FUNCTION public.restore_content_revision(
+  p_content_table TEXT,
+  p_content_id UUID,
+  p_revision_number INT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_owner_id UUID;
+  v_fields JSONB;
+  v_assignments TEXT;
+  v_row JSONB;
+BEGIN
+  IF p_content_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content', 'media_items') THEN
+    RAISE EXCEPTION 'Unknown content table %', p_content_table;
+  END IF;
+
+  EXECUTE format('SELECT user_id FROM public.%I WHERE id = $1 FOR UPDATE', p_content_table)
+  INTO v_owner_id
+  USING p_content_id;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Content not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only change your own content' USING ERRCODE = '42501';
+  END IF;
+  IF p_revision_number < 0 OR (
+    p_revision_number > 0 AND NOT EXISTS (
+      SELECT 1 FROM public.content_revisions
+      WHERE content_table = p_content_table AND content_id = p_content_id AND revision_number = p_revision_number
+    )
+  ) THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_number USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT jsonb_object_agg(field, value) INTO v_fields
+  FROM (
+    SELECT DISTINCT ON (change.key) change.key AS field, change.value->'from' AS value
+    FROM public.content_revisions r, jsonb_each(r.changes) AS change
+    WHERE r.content_table = p_content_table
+      AND r.content_id = p_content_id
+      AND r.revision_number > p_revision_number
+    ORDER BY change.key, r.revision_number
+  ) earliest_changes;
+
+  IF v_fields IS NULL THEN
+    RAISE EXCEPTION 'This is already the current version';
+  END IF;
+
+  SELECT string_agg(format('%I = restored.%I', field, field), ', ')
+  INTO v_assignments
+  FROM jsonb_object_keys(v_fields) AS field;
+
+  -- record_content_revision notes which revision this restores
+  PERFORM set_config('app.restoring_revision', p_revision_number::TEXT, true);
+  EXECUTE format(
+    'UPDATE public.%I AS t SET %s FROM jsonb_populate_record(NULL::public.%I, $2) AS restored
+     WHERE t.id = $1
+     RETURNING to_jsonb(t.*)',
+    p_content_table, v_assignments, p_content_table
+  )
+  INTO v_row
+  USING p_content_id, v_fields;
+  PERFORM set_config('app.restoring_revision', '', true);
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.restore_content_revision(TEXT, UUID, INT) TO authenticated;
+
+-- 4. Thumbnails an item had before keep their storage objects while a
+--    revision can bring them back (same as 027 plus the revisions)
+CREATE OR REPLACE VIEW public.storage_object_references AS
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url)) AS key
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(thumbnail_variants))
+FROM public.media_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(thumbnail_variants))
+FROM public.portfolio_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(thumbnail_key, public.storage_key_from_url(thumbnail_url))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT COALESCE(content_key, public.storage_key_from_url(content_url))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(thumbnail_variants))
+FROM public.masterclass_page_content WHERE status <> 'permanently_deleted'
+UNION
+-- Upload rows outlive their content; once a purge job claims the file it
+-- no longer counts as a reference
+SELECT vu.filename FROM public.video_uploads vu
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.storage_purge_jobs j WHERE vu.filename = ANY(j.storage_keys)
+)
+UNION
+SELECT mvu.filename FROM public.masterclass_video_uploads mvu
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.storage_purge_jobs j WHERE mvu.filename = ANY(j.storage_keys)
+)
+UNION
+SELECT public.storage_key_from_url(thumbnail_url) FROM public.media_items
+UNION
+SELECT public.storage_key_from_url(avatar_url) FROM public.projects_page_providers
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(avatar_variants)) FROM public.projects_page_providers
+UNION
+SELECT public.storage_key_from_url(image_url) FROM public.event_memories
+UNION
+SELECT UNNEST(public.thumbnail_variant_keys(image_variants)) FROM public.event_memories
+UNION
+SELECT COALESCE(changes->'thumbnail_key'->>'from', public.storage_key_from_url(changes->'thumbnail_url'->>'from'))
+FROM public.content_revisions
+WHERE changes ? 'thumbnail_key' OR changes ? 'thumbnail_url';
+
+REVOKE ALL ON public.storage_object_references FROM anon, authenticated;
@@ -0,0 +1,424 @@
+-- =============================================
+-- BULK CONTENT ACTIONS
+-- =============================================
+-- The Content page changed one item per request. bulk_content_action
+-- applies one action to up to 500 of the caller's items in a single call:
+--
+--   publish       add a destination (params.destination)
+--   unpublish     remove a destination (params.destination)
+--   set_category  params.category, '' for none
+--   set_premium   params.is_premium
+--   trash         draft/published -> pending_deletion (deleted for good
+--                 after 3 days unless restored)
+--   restore       pending_deletion -> draft
+--
+-- Each item runs on its own: one that fails (not the caller's, or an
+-- invalid move) is reported with its error and the rest still go through.
+-- Lifecycle actions use apply_content_transition, so they are locked and
+-- recorded in content_events as usual.
+--
+-- The batch keeps each item's columns before and after, and
+-- undo_content_batch puts back the "before" of every item that hasn't
+-- changed since.
+
+-- 1. Lifecycle transitions gain "trash" (same as 032 plus that move)
+CREATE OR REPLACE FUNCTION public.apply_content_transition(
+  p_content_table TEXT,
+  p_content_id UUID,
+  p_action TEXT,
+  p_destination TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_owner_id UUID;
+  v_status TEXT;
+  v_published_to JSONB;
+  v_new_status TEXT;
+  v_new_published_to JSONB;
+  v_event_type TEXT;
+  v_result JSONB;
+BEGIN
+  IF p_content_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content') THEN
+    RAISE EXCEPTION 'Unknown content table %', p_content_table;
+  END IF;
+  IF p_action IN ('publish', 'unpublish') AND (p_destination IS NULL OR p_destination NOT IN ('media', 'portfolio', 'masterclass')) THEN
+    RAISE EXCEPTION 'Unknown destination %', p_destination;
+  END IF;
+
+  -- The row lock makes concurrent transitions on the same item queue up
+  -- instead of overwriting each other's published_to
+  EXECUTE format(
+    'SELECT user_id, status, COALESCE(published_to, ''[]''::JSONB) FROM public.%I WHERE id = $1 FOR UPDATE',
+    p_content_table
+  )
+  INTO v_owner_id, v_status, v_published_to
+  USING p_content_id;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Content not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF auth.role() IN ('anon', 'authenticated') AND v_owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only change your own content' USING ERRCODE = '42501';
+  END IF;
+
+  CASE p_action
+    WHEN 'publish' THEN
+      IF v_status NOT IN ('draft', 'published') THEN
+        RAISE EXCEPTION 'Content that is % cannot be published; restore it first', v_status;
+      END IF;
+      v_new_published_to := CASE
+        WHEN v_published_to ? p_destination THEN v_published_to
+        ELSE v_published_to || to_jsonb(p_destination)
+      END;
+      v_new_status := 'published';
+      v_event_type := 'published';
+    WHEN 'unpublish' THEN
+      IF v_status <> 'published' THEN
+        RAISE EXCEPTION 'Content that is % is not published', v_status;
+      END IF;
+      v_new_published_to := v_published_to - p_destination;
+      IF jsonb_array_length(v_new_published_to) = 0 THEN
+        v_new_status := 'pending_deletion';
+        v_event_type := 'pending_deletion';
+      ELSE
+        v_new_status := 'published';
+        v_event_type := 'unpublished';
+      END IF;
+    WHEN 'restore' THEN
+      IF v_status <> 'pending_deletion' THEN
+        RAISE EXCEPTION 'Only content pending deletion can be restored';
+      END IF;
+      v_new_published_to := '[]'::JSONB;
+      v_new_status := 'draft';
+      v_event_type := 'restored';
+    WHEN 'trash' THEN
+      IF v_status NOT IN ('draft', 'published') THEN
+        RAISE EXCEPTION 'Content that is % cannot be moved to trash', v_status;
+      END IF;
+      v_new_published_to := '[]'::JSONB;
+      v_new_status := 'pending_deletion';
+      v_event_type := 'pending_deletion';
+    WHEN 'archive' THEN
+      IF v_status IN ('archived', 'permanently_deleted') THEN
+        RAISE EXCEPTION 'Content is already %', v_status;
+      END IF;
+      v_new_published_to := '[]'::JSONB;
+      v_new_status := 'archived';
+      v_event_type := 'archived';
+    ELSE
+      RAISE EXCEPTION 'Unknown transition %', p_action;
+  END CASE;
+
+  PERFORM set_config('app.content_transition', 'on', true);
+  EXECUTE format(
+    'UPDATE public.%I
+     SET status = $2,
+         published_to = $3,
+         publication_destination = CASE WHEN $4 = ''publish'' THEN $5 ELSE publication_destination END,
+         deleted_at = CASE WHEN $2 = ''pending_deletion'' THEN NOW() WHEN $2 = ''draft'' THEN NULL ELSE deleted_at END,
+         auto_delete_at = CASE WHEN $2 = ''pending_deletion'' THEN NOW() + INTERVAL ''3 days'' WHEN $2 = ''draft'' THEN NULL ELSE auto_delete_at END,
+         is_deleted_pending = ($2 = ''pending_deletion''),
+         saved = FALSE,
+         publish_at = NULL,
+         scheduled_destinations = ''[]''::JSONB
+     WHERE id = $1
+     RETURNING jsonb_build_object(
+       ''status'', status,
+       ''published_to'', published_to,
+       ''publication_destination'', publication_destination,
+       ''deleted_at'', deleted_at,
+       ''auto_delete_at'', auto_delete_at,
+       ''is_deleted_pending'', is_deleted_pending,
+       ''saved'', saved,
+       ''publish_at'', publish_at,
+       ''scheduled_destinations'', scheduled_destinations
+     )',
+    p_content_table
+  )
+  INTO v_result
+  USING p_content_id, v_new_status, v_new_published_to, p_action, p_destination;
+  PERFORM set_config('app.content_transition', 'off', true);
+
+  INSERT INTO public.content_events (
+    content_table, content_id, owner_id, actor_id, event_type, from_status, to_status, destination, published_to
+  )
+  VALUES (
+    p_content_table, p_content_id, v_owner_id, auth.uid(), v_event_type, v_status, v_new_status,
+    p_destination, v_new_published_to
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_content_transition(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 2. Batches, kept a week for undo
+CREATE TABLE IF NOT EXISTS public.content_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL
+    CHECK (action IN ('publish', 'unpublish', 'set_category', 'set_premium', 'trash', 'restore')),
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- [{ content_table, content_id, success, error?, before?, after? }]
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  undone_at TIMESTAMP WITH TIME ZONE NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_batches_created_at ON public.content_batches(created_at);
+
+ALTER TABLE public.content_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view their content batches" ON public.content_batches;
+CREATE POLICY "Owners can view their content batches" ON public.content_batches
+  FOR SELECT TO authenticated USING (auth.uid() = owner_id);
+
+CREATE OR REPLACE FUNCTION public.cleanup_old_content_batches()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM public.content_batches WHERE created_at < NOW() - INTERVAL '7 days';
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT cron.schedule('cleanup-old-content-batches', '30 3 * * *', 'SELECT public.cleanup_old_content_batches()');
+
+-- 3. The columns a bulk action can change, as undo restores them
+CREATE OR REPLACE FUNCTION public.content_batch_snapshot(p_content_table TEXT, p_content_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_snapshot JSONB;
+BEGIN
+  EXECUTE format(
+    'SELECT jsonb_build_object(
+       ''status'', status,
+       ''published_to'', published_to,
+       ''publication_destination'', publication_destination,
+       ''deleted_at'', deleted_at,
+       ''auto_delete_at'', auto_delete_at,
+       ''is_deleted_pending'', is_deleted_pending,
+       ''saved'', saved,
+       ''publish_at'', publish_at,
+       ''scheduled_destinations'', scheduled_destinations,
+       ''category'', category,
+       ''is_premium'', is_premium
+     )
+     FROM public.%I WHERE id = $1',
+    p_content_table
+  )
+  INTO v_snapshot
+  USING p_content_id;
+
+  RETURN v_snapshot;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.content_batch_snapshot(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 4. Run one action over p_items ([{ content_table, content_id }]).
+--    Returns { batch_id, results } with each item's columns afterwards.
+CREATE OR REPLACE FUNCTION public.bulk_content_action(
+  p_items JSONB,
+  p_action TEXT,
+  p_params JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_item JSONB;
+  v_table TEXT;
+  v_id UUID;
+  v_owner_id UUID;
+  v_before JSONB;
+  v_destination TEXT := p_params->>'destination';
+  v_results JSONB := '[]'::JSONB;
+  v_batch_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to change your content' USING ERRCODE = '42501';
+  END IF;
+  IF p_action NOT IN ('publish', 'unpublish', 'set_category', 'set_premium', 'trash', 'restore') THEN
+    RAISE EXCEPTION 'Unknown bulk action %', p_action;
+  END IF;
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item';
+  END IF;
+  IF jsonb_array_length(p_items) > 500 THEN
+    RAISE EXCEPTION 'Bulk actions are limited to 500 items at a time';
+  END IF;
+  IF p_action IN ('publish', 'unpublish') AND (v_destination IS NULL OR v_destination NOT IN ('media', 'portfolio', 'masterclass')) THEN
+    RAISE EXCEPTION 'Unknown destination %', v_destination;
+  END IF;
+  IF p_action = 'set_category' AND NOT p_params ? 'category' THEN
+    RAISE EXCEPTION 'Choose a category';
+  END IF;
+  IF p_action = 'set_premium' AND jsonb_typeof(p_params->'is_premium') IS DISTINCT FROM 'boolean' THEN
+    RAISE EXCEPTION 'Choose premium or free';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+    v_table := v_item->>'content_table';
+
+    BEGIN
+      IF v_table NOT IN ('media_page_content', 'portfolio_page_content', 'masterclass_page_content') THEN
+        RAISE EXCEPTION 'Unknown content table %', v_table;
+      END IF;
+      v_id := (v_item->>'content_id')::UUID;
+
+      EXECUTE format('SELECT user_id FROM public.%I WHERE id = $1 FOR UPDATE', v_table)
+      INTO v_owner_id
+      USING v_id;
+
+      IF v_owner_id IS NULL THEN
+        RAISE EXCEPTION 'Content not found';
+      END IF;
+      IF v_owner_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'You can only change your own content';
+      END IF;
+
+      v_before := public.content_batch_snapshot(v_table, v_id);
+
+      CASE p_action
+        WHEN 'set_category' THEN
+          EXECUTE format('UPDATE public.%I SET category = $2 WHERE id = $1', v_table)
+          USING v_id, NULLIF(p_params->>'category', '');
+        WHEN 'set_premium' THEN
+          EXECUTE format('UPDATE public.%I SET is_premium = $2 WHERE id = $1', v_table)
+          USING v_id, (p_params->>'is_premium')::BOOLEAN;
+        ELSE
+          PERFORM public.apply_content_transition(
+            v_table, v_id, p_action,
+            CASE WHEN p_action IN ('publish', 'unpublish') THEN v_destination END
+          );
+      END CASE;
+
+      v_results := v_results || jsonb_build_object(
+        'content_table', v_table,
+        'content_id', v_id,
+        'success', TRUE,
+        'before', v_before,
+        'after', public.content_batch_snapshot(v_table, v_id)
+      );
+    EXCEPTION WHEN OTHERS THEN
+      v_results := v_results || jsonb_build_object(
+        'content_table', v_table,
+        'content_id', v_item->>'content_id',
+        'success', FALSE,
+        'error', SQLERRM
+      );
+    END;
+  END LOOP;
+
+  INSERT INTO public.content_batches (owner_id, action, params, results)
+  VALUES (auth.uid(), p_action, p_params, v_results)
+  RETURNING id INTO v_batch_id;
+
+  RETURN jsonb_build_object('batch_id', v_batch_id, 'results', v_results);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.bulk_content_action(JSONB, TEXT, JSONB) TO authenticated;
+
+-- 5. Put back every item of a batch that still looks the way the batch
+--    left it; items changed since are reported and left alone. Lifecycle
+--    changes are recorded in content_events. An item sent back to the trash
+--    gets a fresh 3-day window, since its old deadline may have passed.
+CREATE OR REPLACE FUNCTION public.undo_content_batch(p_batch_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_batch public.content_batches%ROWTYPE;
+  v_result JSONB;
+  v_table TEXT;
+  v_id UUID;
+  v_current JSONB;
+  v_before JSONB;
+  v_results JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_batch FROM public.content_batches WHERE id = p_batch_id FOR UPDATE;
+
+  IF NOT FOUND OR v_batch.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Bulk action not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_batch.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This bulk action was already undone';
+  END IF;
+
+  FOR v_result IN
+    SELECT value FROM jsonb_array_elements(v_batch.results) WHERE (value->>'success')::BOOLEAN
+  LOOP
+    v_table := v_result->>'content_table';
+    v_id := (v_result->>'content_id')::UUID;
+    v_before := v_result->'before';
+
+    BEGIN
+      EXECUTE format('SELECT 1 FROM public.%I WHERE id = $1 FOR UPDATE', v_table) USING v_id;
+      v_current := public.content_batch_snapshot(v_table, v_id);
+
+      IF v_current IS NULL THEN
+        RAISE EXCEPTION 'Content not found';
+      END IF;
+      IF v_current IS DISTINCT FROM v_result->'after' THEN
+        RAISE EXCEPTION 'Changed since the bulk action';
+      END IF;
+
+      PERFORM set_config('app.content_transition', 'on', true);
+      EXECUTE format(
+        'UPDATE public.%I AS t
+         SET status = b.status,
+             published_to = b.published_to,
+             publication_destination = b.publication_destination,
+             deleted_at = CASE WHEN b.status = ''pending_deletion'' THEN NOW() ELSE b.deleted_at END,
+             auto_delete_at = CASE WHEN b.status = ''pending_deletion'' THEN NOW() + INTERVAL ''3 days'' ELSE b.auto_delete_at END,
+             is_deleted_pending = b.is_deleted_pending,
+             saved = b.saved,
+             publish_at = b.publish_at,
+             scheduled_destinations = b.scheduled_destinations,
+             category = b.category,
+             is_premium = b.is_premium
+         FROM jsonb_populate_record(NULL::public.%I, $2) AS b
+         WHERE t.id = $1',
+        v_table, v_table
+      )
+      USING v_id, v_before;
+      PERFORM set_config('app.content_transition', 'off', true);
+
+      IF v_before->>'status' IS DISTINCT FROM v_current->>'status'
+         OR v_before->'published_to' IS DISTINCT FROM v_current->'published_to' THEN
+        INSERT INTO public.content_events (
+          content_table, content_id, owner_id, actor_id, event_type, from_status, to_status, published_to
+        )
+        VALUES (
+          v_table, v_id, v_batch.owner_id, auth.uid(),
+          -- Named after what the undo does to the item's destinations
+          CASE
+            WHEN v_before->>'status' = 'pending_deletion' THEN 'pending_deletion'
+            WHEN NOT (COALESCE(v_before->'published_to', '[]'::JSONB) <@ COALESCE(v_current->'published_to', '[]'::JSONB)) THEN 'published'
+            WHEN NOT (COALESCE(v_current->'published_to', '[]'::JSONB) <@ COALESCE(v_before->'published_to', '[]'::JSONB)) THEN 'unpublished'
+            ELSE 'restored'
+          END,
+          v_current->>'status', v_before->>'status', COALESCE(v_before->'published_to', '[]'::JSONB)
+        );
+      END IF;
+
+      v_results := v_results || jsonb_build_object(
+        'content_table', v_table,
+        'content_id', v_id,
+        'success', TRUE,
+        'after', v_before
+      );
+    EXCEPTION WHEN OTHERS THEN
+      v_results := v_results || jsonb_build_object(
+        'content_table', v_table,
+        'content_id', v_id,
+        'success', FALSE,
+        'error', SQLERRM
+      );
+    END;
+  END LOOP;
+
+  UPDATE public.content_batches SET undone_at = NOW() WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object('batch_id', p_batch_id, 'results', v_results);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.undo_content_batch(UUID) TO authenticated;
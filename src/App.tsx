@@ -1,7 +1,9 @@
 import { useEffect } from 'react';
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from './context/AuthContext';
+import { PlayerProvider } from './context/PlayerContext';
 import Navbar from './components/Navbar';
+import MiniPlayer from './components/MiniPlayer';
 import LandingPage from './pages/LandingPage';
 import SignUp from './pages/SignUp';
 import SignIn from './pages/SignIn';
@@ -13,8 +15,10 @@ import Masterclass from './pages/Masterclass';
 import Content from './pages/Content';
 import Events from './pages/Events';
 import Portfolio from './pages/Portfolio';
+import PublicPortfolio from './pages/PublicPortfolio';
 import Projects from './pages/Projects';
 import HelpCenter from './pages/HelpCenter';
+import Embed from './pages/Embed';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -36,6 +40,7 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
 
 function App() {
   const { loading } = useAuth();
+  const location = useLocation();
 
   useEffect(() => {
     // Pre-load Mux Player script for seamless video playback
@@ -53,8 +58,17 @@ function App() {
     );
   }
 
+  // Embeds run in iframes on other sites: just the player, no app chrome
+  if (location.pathname.startsWith('/embed/')) {
+    return (
+      <Routes>
+        <Route path="/embed/:contentId" element={<Embed />} />
+      </Routes>
+    );
+  }
+
   return (
-    <>
+    <PlayerProvider>
       <Navbar />
       <Routes>
         <Route path="/" element={<LandingPage />} />
@@ -109,6 +123,7 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route path="/portfolio/:userId" element={<PublicPortfolio />} />
         <Route path="/projects" element={<Projects />} />
         <Route path="/settings" element={<LandingPage />} />
         <Route path="/account" element={<LandingPage />} />
@@ -118,7 +133,8 @@ function App() {
         <Route path="/profile" element={<LandingPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
-    </>
+      <MiniPlayer />
+    </PlayerProvider>
   );
 }
 
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Crown, Loader2, RotateCcw, Tag, Trash2, Upload, X } from 'lucide-react';
+import { BulkContentAction, BulkContentParams, ContentSource } from '../lib/contentRepository';
+
+export interface BulkActionFailure {
+  key: string;
+  title: string;
+  error: string;
+}
+
+interface BulkActionsBarProps {
+  selectedCount: number;
+  totalCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onAction: (action: BulkContentAction, params?: BulkContentParams) => void;
+  // Destinations and categories that fit the selected items
+  destinations: ContentSource[];
+  categories: string[];
+  running?: boolean;
+  // Outcome of the last bulk action or undo
+  report?: { summary: string; failures: BulkActionFailure[] } | null;
+  onDismissReport?: () => void;
+}
+
+const DESTINATION_LABELS: Record<ContentSource, string> = {
+  media: 'Media',
+  portfolio: 'Portfolio',
+  masterclass: 'Masterclass',
+};
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const selectClass =
+  'px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all';
+
+/**
+ * Actions on every selected item of the content list at once. Items that
+ * can't take an action (publishing one in the trash, say) are listed in the
+ * report; the rest still go through.
+ */
+export default function BulkActionsBar({
+  selectedCount,
+  totalCount,
+  onSelectAll,
+  onClear,
+  onAction,
+  destinations,
+  categories,
+  running = false,
+  report,
+  onDismissReport,
+}: BulkActionsBarProps) {
+  const [destination, setDestination] = useState<ContentSource | ''>('');
+  const [category, setCategory] = useState('');
+
+  // The first fitting destination until the creator picks one
+  const selectedDestination = destination && destinations.includes(destination) ? destination : destinations[0];
+  // A category the new selection doesn't allow falls back to none
+  const selectedCategory = categories.includes(category) ? category : '';
+  const disabled = running || selectedCount === 0;
+
+  return (
+    <div className="mb-6 bg-slate-800 p-4 rounded-lg border border-slate-700 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <p className="text-sm font-medium text-white">
+          {selectedCount} of {totalCount} selected
+        </p>
+        {selectedCount < totalCount && (
+          <button onClick={onSelectAll} className="text-sm text-rose-400 hover:text-rose-300 transition-colors">
+            Select all
+          </button>
+        )}
+        {selectedCount > 0 && (
+          <button onClick={onClear} className="text-sm text-gray-400 hover:text-white transition-colors">
+            Clear
+          </button>
+        )}
+        {running && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+        <p className="text-xs text-gray-500 ml-auto hidden md:block">Shift-click to select a range</p>
+      </div>
+
+      {selectedCount > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {destinations.length > 0 && selectedDestination && (
+            <>
+              <select
+                value={selectedDestination}
+                onChange={(e) => setDestination(e.target.value as ContentSource)}
+                className={selectClass}
+                disabled={running}
+              >
+                {destinations.map((d) => (
+                  <option key={d} value={d}>
+                    {DESTINATION_LABELS[d]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => onAction('publish', { destination: selectedDestination })}
+                disabled={disabled}
+                className={`${buttonClass} bg-green-500 hover:bg-green-600 text-white`}
+              >
+                <Upload className="w-4 h-4" />
+                Publish
+              </button>
+              <button
+                onClick={() => onAction('unpublish', { destination: selectedDestination })}
+                disabled={disabled}
+                className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-white`}
+              >
+                <X className="w-4 h-4" />
+                Unpublish
+              </button>
+            </>
+          )}
+
+          <select value={selectedCategory} onChange={(e) => setCategory(e.target.value)} className={selectClass} disabled={running}>
+            <option value="">No category</option>
+            {categories.map((cat) => (
+              <option key={cat} value={cat}>
+                {cat}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onAction('set_category', { category: selectedCategory })}
+            disabled={disabled}
+            className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-white`}
+          >
+            <Tag className="w-4 h-4" />
+            Set category
+          </button>
+
+          <button
+            onClick={() => onAction('set_premium', { is_premium: true })}
+            disabled={disabled}
+            className={`${buttonClass} bg-yellow-400/20 hover:bg-yellow-400/30 text-yellow-400`}
+          >
+            <Crown className="w-4 h-4" />
+            Premium
+          </button>
+          <button
+            onClick={() => onAction('set_premium', { is_premium: false })}
+            disabled={disabled}
+            className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-white`}
+          >
+            Free
+          </button>
+
+          <button
+            onClick={() => onAction('trash')}
+            disabled={disabled}
+            className={`${buttonClass} bg-red-500/20 hover:bg-red-500/30 text-red-400`}
+            title="Unpublished and deleted for good after 3 days unless restored"
+          >
+            <Trash2 className="w-4 h-4" />
+            Move to trash
+          </button>
+          <button
+            onClick={() => onAction('restore')}
+            disabled={disabled}
+            className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-white`}
+            title="Bring items pending deletion back as drafts"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Restore
+          </button>
+        </div>
+      )}
+
+      {report && (
+        <div
+          className={`p-3 rounded-lg border ${
+            report.failures.length > 0 ? 'bg-red-500/10 border-red-500/20' : 'bg-green-500/10 border-green-500/20'
+          }`}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <p className={`text-sm ${report.failures.length > 0 ? 'text-red-400' : 'text-green-400'}`}>{report.summary}</p>
+            {onDismissReport && (
+              <button onClick={onDismissReport} className="text-gray-400 hover:text-white transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {report.failures.length > 0 && (
+            <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+              {report.failures.map((failure) => (
+                <li key={failure.key} className="text-xs text-gray-300">
+                  <span className="font-medium text-white">{failure.title}</span>: {failure.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import React, { useRef, useState } from 'react';
+import { Captions, Loader2, Trash2, Upload, Wand2 } from 'lucide-react';
+import { useCaptionTracks } from '../hooks/useCaptionTracks';
+import {
+  CAPTION_FILE_ACCEPT,
+  CAPTION_LANGUAGES,
+  CaptionTrack,
+  deleteCaptionTrack,
+  generateAutoCaptions,
+  uploadCaptionFile,
+} from '../lib/captions';
+import { ContentSource } from '../lib/contentRepository';
+
+interface CaptionsManagerProps {
+  source: ContentSource;
+  contentId: string;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<CaptionTrack['status'], string> = {
+  processing: 'bg-yellow-500/10 text-yellow-400',
+  ready: 'bg-green-500/10 text-green-400',
+  failed: 'bg-red-500/10 text-red-400',
+};
+
+/**
+ * Caption tracks section of the edit modals. Rendered inside their form,
+ * so every button here is type="button".
+ */
+export default function CaptionsManager({ source, contentId, disabled = false }: CaptionsManagerProps) {
+  const { tracks, loading, error: loadError, refresh } = useCaptionTracks(source, contentId);
+  const [language, setLanguage] = useState('en');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (key: string, action: () => Promise<unknown>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Caption request failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run('upload', () => uploadCaptionFile(source, contentId, file, language));
+  };
+
+  const isDisabled = disabled || busy !== null;
+
+  return (
+    <div className="pt-4 border-t border-gray-800 space-y-3">
+      <div className="flex items-center gap-2">
+        <Captions className="w-4 h-4 text-gray-400" />
+        <span className="text-sm font-medium text-white">Captions</span>
+      </div>
+
+      {loading && tracks.length === 0 ? (
+        <p className="text-sm text-gray-400">Loading captions...</p>
+      ) : tracks.length === 0 ? (
+        <p className="text-sm text-gray-400">No caption tracks yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {tracks.map((track) => (
+            <li
+              key={track.id}
+              className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-800 rounded-lg"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">{track.label}</p>
+                {track.status === 'failed' && track.error_message && (
+                  <p className="text-xs text-red-400 truncate">{track.error_message}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[track.status]}`}>
+                  {track.status}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => run(track.id, () => deleteCaptionTrack(track.id))}
+                  disabled={isDisabled}
+                  className="text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                  title="Delete caption track"
+                >
+                  {busy === track.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          disabled={isDisabled}
+          className="flex-1 min-w-0 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
+        >
+          {CAPTION_LANGUAGES.map((option) => (
+            <option key={option.code} value={option.code}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isDisabled}
+          className="flex items-center gap-1 px-3 py-2 border border-gray-700 text-gray-300 text-sm rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          {busy === 'upload' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Upload
+        </button>
+        <button
+          type="button"
+          onClick={() => run('auto', () => generateAutoCaptions(source, contentId, language))}
+          disabled={isDisabled}
+          className="flex items-center gap-1 px-3 py-2 border border-gray-700 text-gray-300 text-sm rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+          title="Generate captions automatically"
+        >
+          {busy === 'auto' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+          Auto
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={CAPTION_FILE_ACCEPT}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      <p className="text-xs text-gray-500">WebVTT or SRT, up to 1MB. Uploading a language again replaces it.</p>
+
+      {(error || loadError) && (
+        <p className="text-red-400 text-sm">{error || loadError}</p>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,27 @@
-import React, { useState, useEffect } from 'react';
-import { AlertTriangle, Undo2 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { AlertTriangle, CalendarClock, Undo2 } from 'lucide-react';
 
 interface ContentCountdownTimerProps {
-  autoDeleteAt: string;
-  onSave: () => void;
+  // Counts down to permanent deletion, with a button to keep the content
+  autoDeleteAt?: string;
+  onSave?: () => void;
   isSaving?: boolean;
+  // Counts down to a scheduled release instead
+  releaseAt?: string;
+  // Called once when the release time is reached
+  onReleased?: () => void;
 }
 
 export default function ContentCountdownTimer({
   autoDeleteAt,
   onSave,
   isSaving = false,
+  releaseAt,
+  onReleased,
 }: ContentCountdownTimerProps) {
+  const targetAt = releaseAt ?? autoDeleteAt;
+  const onReleasedRef = useRef(onReleased);
+  onReleasedRef.current = onReleased;
   const [timeRemaining, setTimeRemaining] = useState<{
     days: number;
     hours: number;
@@ -20,12 +30,19 @@ export default function ContentCountdownTimer({
   } | null>(null);
 
   useEffect(() => {
+    if (!targetAt) return;
+    let released = false;
+
     const updateCountdown = () => {
       const now = new Date();
-      const deleteDate = new Date(autoDeleteAt);
-      const diffTime = deleteDate.getTime() - now.getTime();
+      const targetDate = new Date(targetAt);
+      const diffTime = targetDate.getTime() - now.getTime();
 
       if (diffTime <= 0) {
+        if (!released) {
+          released = true;
+          onReleasedRef.current?.();
+        }
         setTimeRemaining({
           days: 0,
           hours: 0,
@@ -52,10 +69,31 @@ export default function ContentCountdownTimer({
     const interval = setInterval(updateCountdown, 1000);
 
     return () => clearInterval(interval);
-  }, [autoDeleteAt]);
+  }, [targetAt]);
 
   if (!timeRemaining) return null;
 
+  const countdown = (
+    <>
+      {timeRemaining.days}d {String(timeRemaining.hours).padStart(2, '0')}h{' '}
+      {String(timeRemaining.minutes).padStart(2, '0')}m {String(timeRemaining.seconds).padStart(2, '0')}s
+    </>
+  );
+
+  if (releaseAt) {
+    return (
+      <div className="p-3 bg-purple-500/10 border border-purple-500/30 rounded-lg flex items-center gap-3">
+        <CalendarClock className="w-5 h-5 text-purple-400 flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-xs text-purple-300">
+            Releases {new Date(releaseAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })} in
+          </p>
+          <div className="text-sm font-mono text-purple-300">{countdown}</div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
       <div className="flex items-start gap-3 mb-3">
@@ -65,10 +103,7 @@ export default function ContentCountdownTimer({
           <p className="text-xs text-red-300 mb-2">
             Your content will be automatically deleted in:
           </p>
-          <div className="text-sm font-mono text-red-400 mb-3">
-            {timeRemaining.days}d {String(timeRemaining.hours).padStart(2, '0')}h{' '}
-            {String(timeRemaining.minutes).padStart(2, '0')}m {String(timeRemaining.seconds).padStart(2, '0')}s
-          </div>
+          <div className="text-sm font-mono text-red-400 mb-3">{countdown}</div>
           <p className="text-xs text-red-300 mb-3">
             Click "Save Content" below to keep it in your content library and prevent permanent deletion.
           </p>
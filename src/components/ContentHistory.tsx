@@ -0,0 +1,93 @@
+import { Archive, CalendarClock, CalendarX, Clock, EyeOff, Loader2, PlusCircle, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { useContentEvents } from '../hooks/useContentEvents';
+import { ContentEvent, ContentEventType, ContentSource } from '../lib/contentRepository';
+
+interface ContentHistoryProps {
+  source: ContentSource;
+  contentId: string;
+}
+
+const EVENT_STYLES: Record<ContentEventType, { icon: typeof Upload; color: string }> = {
+  created: { icon: PlusCircle, color: 'text-gray-300' },
+  published: { icon: Upload, color: 'text-green-400' },
+  unpublished: { icon: EyeOff, color: 'text-gray-300' },
+  pending_deletion: { icon: Clock, color: 'text-red-400' },
+  restored: { icon: RotateCcw, color: 'text-blue-400' },
+  archived: { icon: Archive, color: 'text-gray-400' },
+  permanently_deleted: { icon: Trash2, color: 'text-red-400' },
+  scheduled: { icon: CalendarClock, color: 'text-purple-400' },
+  unscheduled: { icon: CalendarX, color: 'text-gray-300' },
+};
+
+const formatDestination = (destination: string) => destination.charAt(0).toUpperCase() + destination.slice(1);
+
+const describeEvent = ({ event_type, destination, publish_at, scheduled_destinations }: ContentEvent) => {
+  const where = destination ? formatDestination(destination) : null;
+
+  switch (event_type) {
+    case 'created':
+      return 'Uploaded';
+    case 'published':
+      return where ? `Published to ${where}` : 'Published';
+    case 'unpublished':
+      return where ? `Removed from ${where}` : 'Removed from a page';
+    case 'pending_deletion':
+      return where ? `Removed from ${where}, deletion scheduled` : 'Deletion scheduled';
+    case 'restored':
+      return 'Kept as a draft';
+    case 'archived':
+      return 'Archived';
+    case 'permanently_deleted':
+      return 'Deleted permanently';
+    case 'scheduled':
+      return `Scheduled for ${publish_at ? new Date(publish_at).toLocaleString() : 'release'}${
+        scheduled_destinations.length > 0 ? ` on ${scheduled_destinations.map(formatDestination).join(', ')}` : ''
+      }`;
+    case 'unscheduled':
+      return 'Scheduled release cancelled';
+  }
+};
+
+export default function ContentHistory({ source, contentId }: ContentHistoryProps) {
+  const { events, loading, error } = useContentEvents(source, contentId);
+
+  if (loading && events.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-400">No history yet</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {events.map((event) => {
+        const { icon: Icon, color } = EVENT_STYLES[event.event_type];
+
+        return (
+          <li key={event.id} className="flex items-start gap-3 text-sm">
+            <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+            <div className="flex-1 min-w-0">
+              <p className="text-white">
+                {describeEvent(event)}
+                {!event.actor_id && event.event_type !== 'created' && (
+                  <span className="text-gray-500"> (automatic)</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500">{new Date(event.created_at).toLocaleString()}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useContentRevisions } from '../hooks/useContentRevisions';
+import { ContentRevision, FieldChange, RestoredContent, RevisionSource } from '../lib/contentRepository';
+import { resolveStorageUrl } from '../lib/storage';
+
+interface ContentRevisionHistoryProps {
+  source: RevisionSource;
+  contentId: string;
+  // Called with the item's row after a restore, to update the form and lists
+  onRestored?: (row: RestoredContent) => void;
+  disabled?: boolean;
+  // For the light feed modal
+  theme?: 'dark' | 'light';
+}
+
+const THEMES = {
+  dark: {
+    card: 'bg-gray-800/50 border-gray-700',
+    heading: 'text-white',
+    text: 'text-gray-300',
+    muted: 'text-gray-500',
+    button: 'text-rose-400 hover:text-rose-300',
+  },
+  light: {
+    card: 'bg-slate-50 border-slate-200',
+    heading: 'text-slate-800',
+    text: 'text-slate-700',
+    muted: 'text-slate-500',
+    button: 'text-blue-600 hover:text-blue-700',
+  },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  category: 'Category',
+  is_premium: 'Premium',
+  level: 'Level',
+  features: 'Features',
+  lessons_count: 'Lessons',
+};
+
+// Shown as one "Thumbnail" change
+const THUMBNAIL_FIELDS = ['thumbnail_key', 'thumbnail_url'];
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+function thumbnailAt(changes: ContentRevision['changes'], side: keyof FieldChange): string | null {
+  const key = changes.thumbnail_key?.[side];
+  const url = changes.thumbnail_url?.[side];
+  return (
+    resolveStorageUrl(typeof key === 'string' ? key : null, typeof url === 'string' ? url : null) || null
+  );
+}
+
+function FieldDiff({ field, change, theme }: { field: string; change: FieldChange; theme: typeof THEMES.dark }) {
+  if (Array.isArray(change.from) || Array.isArray(change.to)) {
+    const from = (Array.isArray(change.from) ? change.from : []).map(String);
+    const to = (Array.isArray(change.to) ? change.to : []).map(String);
+    const removed = from.filter((item) => !to.includes(item));
+    const added = to.filter((item) => !from.includes(item));
+
+    return (
+      <div className="text-xs">
+        <span className={theme.muted}>{FIELD_LABELS[field] ?? field}: </span>
+        {removed.map((item) => (
+          <span key={`-${item}`} className="mr-2 text-red-400 line-through">{item}</span>
+        ))}
+        {added.map((item) => (
+          <span key={`+${item}`} className="mr-2 text-green-500">{item}</span>
+        ))}
+        {removed.length === 0 && added.length === 0 && <span className={theme.text}>reordered</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-xs break-words">
+      <span className={theme.muted}>{FIELD_LABELS[field] ?? field}: </span>
+      <span className="text-red-400 line-through">{formatValue(change.from)}</span>
+      <span className={theme.muted}> → </span>
+      <span className="text-green-500">{formatValue(change.to)}</span>
+    </div>
+  );
+}
+
+/**
+ * Field-level changes of each edit to an item, newest first. Any earlier
+ * revision, or the item as uploaded, can be restored; the restore shows up
+ * as a new revision.
+ */
+export default function ContentRevisionHistory({
+  source,
+  contentId,
+  onRestored,
+  disabled = false,
+  theme: themeName = 'dark',
+}: ContentRevisionHistoryProps) {
+  const { user } = useAuth();
+  const { revisions, loading, error, restore, restoringRevision } = useContentRevisions(source, contentId);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const theme = THEMES[themeName];
+
+  const handleRestore = async (revisionNumber: number) => {
+    setRestoreError(null);
+    const result = await restore(revisionNumber);
+    if (result.success && result.row) {
+      onRestored?.(result.row);
+    } else if (!result.success) {
+      setRestoreError(result.error || 'Failed to restore revision');
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return (
+      <div className={`flex items-center gap-2 text-sm ${theme.muted}`}>
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading revisions...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className={`text-sm ${theme.muted}`}>{error ?? 'No edits yet'}</p>;
+  }
+
+  const latest = revisions[0].revision_number;
+
+  const restoreButton = (revisionNumber: number) => (
+    <button
+      type="button"
+      onClick={() => handleRestore(revisionNumber)}
+      disabled={disabled || restoringRevision !== null}
+      className={`flex items-center gap-1 text-xs font-medium transition-colors disabled:opacity-50 ${theme.button}`}
+    >
+      {restoringRevision === revisionNumber ? (
+        <Loader2 className="w-3 h-3 animate-spin" />
+      ) : (
+        <RotateCcw className="w-3 h-3" />
+      )}
+      Restore
+    </button>
+  );
+
+  return (
+    <div className="space-y-2">
+      {(restoreError || error) && <p className="text-sm text-red-400">{restoreError || error}</p>}
+      <ol className="space-y-2">
+        {revisions.map((revision) => {
+          const fields = Object.keys(revision.changes);
+          const thumbnailChanged = fields.some((field) => THUMBNAIL_FIELDS.includes(field));
+          const before = thumbnailAt(revision.changes, 'from');
+          const after = thumbnailAt(revision.changes, 'to');
+
+          return (
+            <li key={revision.id} className={`p-3 border rounded-lg space-y-1 ${theme.card}`}>
+              <div className="flex items-center justify-between gap-2">
+                <p className={`text-sm font-medium ${theme.heading}`}>
+                  Revision {revision.revision_number}
+                  {revision.restored_from !== null && (
+                    <span className={`font-normal ${theme.muted}`}>
+                      {' '}
+                      (restored {revision.restored_from === 0 ? 'the original' : `revision ${revision.restored_from}`})
+                    </span>
+                  )}
+                </p>
+                {revision.revision_number === latest ? (
+                  <span className={`text-xs ${theme.muted}`}>Current</span>
+                ) : (
+                  restoreButton(revision.revision_number)
+                )}
+              </div>
+              <p className={`text-xs ${theme.muted}`}>
+                {revision.editor_id === user?.id ? 'You' : revision.editor_id ? 'Another account' : 'Automatic'}
+                {' · '}
+                {new Date(revision.created_at).toLocaleString()}
+              </p>
+
+              {fields
+                .filter((field) => !THUMBNAIL_FIELDS.includes(field))
+                .map((field) => (
+                  <FieldDiff key={field} field={field} change={revision.changes[field]} theme={theme} />
+                ))}
+
+              {thumbnailChanged && (
+                <div className="flex items-center gap-2 text-xs">
+                  <span className={theme.muted}>Thumbnail:</span>
+                  {before ? (
+                    <img src={before} alt="Previous thumbnail" className="w-16 h-9 object-cover rounded opacity-60" />
+                  ) : (
+                    <span className={theme.muted}>(none)</span>
+                  )}
+                  <span className={theme.muted}>→</span>
+                  {after ? (
+                    <img src={after} alt="New thumbnail" className="w-16 h-9 object-cover rounded" />
+                  ) : (
+                    <span className={theme.muted}>(none)</span>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className={`flex items-center justify-between p-3 border rounded-lg ${theme.card}`}>
+        <p className={`text-sm ${theme.text}`}>As uploaded</p>
+        {restoreButton(0)}
+      </div>
+    </div>
+  );
+}
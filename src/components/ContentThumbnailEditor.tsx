@@ -0,0 +1,85 @@
+import { useMemo, useState } from 'react';
+import { ImageIcon, Loader2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import ThumbnailStudio, { ThumbnailStudioResult } from './ThumbnailStudio';
+import { ContentSource } from '../lib/contentRepository';
+import { ThumbnailColumns, frameSourceForContent, updateContentThumbnail, uploadThumbnailVariants } from '../lib/thumbnails';
+
+interface ContentThumbnailEditorProps {
+  source: ContentSource;
+  contentId: string;
+  thumbnailUrl?: string | null;
+  contentUrl?: string | null;
+  durationSeconds?: number | null;
+  disabled?: boolean;
+  onChange?: (columns: ThumbnailColumns) => void;
+}
+
+/**
+ * Thumbnail section of the edit modals. Replaces the thumbnail of a saved
+ * item straight away; the video is never re-uploaded.
+ */
+export default function ContentThumbnailEditor({
+  source,
+  contentId,
+  thumbnailUrl,
+  contentUrl,
+  durationSeconds,
+  disabled = false,
+  onChange,
+}: ContentThumbnailEditorProps) {
+  const { user } = useAuth();
+  const [studioOpen, setStudioOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [currentUrl, setCurrentUrl] = useState(thumbnailUrl || null);
+
+  const frameSource = useMemo(() => frameSourceForContent(contentUrl, durationSeconds), [contentUrl, durationSeconds]);
+
+  const handleExport = async ({ exports, previewUrl }: ThumbnailStudioResult) => {
+    if (!user) throw new Error('You must be logged in to change the thumbnail');
+
+    // Failures are shown by the studio, which stays open
+    setSaving(true);
+    try {
+      const variants = await uploadThumbnailVariants(exports, user.id);
+      const columns = await updateContentThumbnail(source, contentId, variants);
+      setCurrentUrl(previewUrl);
+      setStudioOpen(false);
+      onChange?.(columns);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="pt-4 border-t border-gray-800 space-y-3">
+      <div className="flex items-center gap-2">
+        <ImageIcon className="w-4 h-4 text-gray-400" />
+        <span className="text-sm font-medium text-white">Thumbnail</span>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="w-28 aspect-video bg-gray-800 rounded-lg overflow-hidden flex-shrink-0">
+          {currentUrl && <img src={currentUrl} alt="Current thumbnail" className="w-full h-full object-cover" />}
+        </div>
+        <button
+          type="button"
+          onClick={() => setStudioOpen(true)}
+          disabled={disabled || saving}
+          className="flex items-center gap-2 px-3 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors text-sm disabled:opacity-50"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Change thumbnail
+        </button>
+      </div>
+
+      <ThumbnailStudio
+        isOpen={studioOpen}
+        frameSource={frameSource}
+        initialImageUrl={frameSource ? null : currentUrl}
+        onClose={() => setStudioOpen(false)}
+        onExport={handleExport}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { Link } from 'react-router-dom';
+import { Play } from 'lucide-react';
+import { ContentSource } from '../lib/contentRepository';
+import { formatDuration } from '../lib/formatDuration';
+import { PLAYER_PAGE_BY_SOURCE } from '../lib/playbackPositions';
+import { useContinueWatching } from '../hooks/useContinueWatching';
+import ResponsiveImage from './ResponsiveImage';
+
+interface ContinueWatchingRowProps {
+  // Only this page's content; all pages when omitted
+  source?: ContentSource;
+  title?: string;
+  className?: string;
+}
+
+/**
+ * The viewer's unfinished items with their progress. Each opens the page
+ * that plays it (`?play=<id>`), where the player resumes from the saved
+ * position. Renders nothing when signed out or when there is nothing to
+ * continue.
+ */
+export default function ContinueWatchingRow({
+  source,
+  title = 'Continue watching',
+  className = 'mb-8',
+}: ContinueWatchingRowProps) {
+  const { items } = useContinueWatching(source);
+  const playable = items.filter((item) => PLAYER_PAGE_BY_SOURCE[item.source]);
+
+  if (playable.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <h2 className="text-xl font-semibold text-white mb-4">{title}</h2>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {playable.map((item) => {
+          const remaining = item.duration_seconds ? item.duration_seconds - item.position_seconds : null;
+          const progress = item.duration_seconds
+            ? Math.min((item.position_seconds / item.duration_seconds) * 100, 100)
+            : 0;
+
+          return (
+            <Link
+              key={`${item.source}-${item.id}`}
+              to={`${PLAYER_PAGE_BY_SOURCE[item.source]}?play=${item.id}`}
+              className="flex-shrink-0 w-64 bg-slate-800 rounded-lg overflow-hidden hover:bg-slate-700 transition-colors group"
+            >
+              <div className="relative aspect-video bg-gray-800">
+                <ResponsiveImage
+                  src={item.thumbnail_url}
+                  sizes="256px"
+                  alt={item.title}
+                  className="w-full h-full object-cover"
+                />
+                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                  <Play className="w-10 h-10 text-white" />
+                </div>
+                <div className="absolute bottom-0 inset-x-0 h-1 bg-white/20">
+                  <div className="h-full bg-rose-500" style={{ width: `${progress}%` }} />
+                </div>
+              </div>
+              <div className="p-3">
+                <p className="text-white text-sm font-semibold truncate">{item.title}</p>
+                <p className="text-gray-400 text-xs truncate">
+                  {item.creator}
+                  {remaining !== null && remaining > 0 && ` · ${formatDuration(remaining)} left`}
+                </p>
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,11 @@
 import React, { useState } from 'react';
-import { X, Trash2 } from 'lucide-react';
+import { X, Trash2, History } from 'lucide-react';
+import CaptionsManager from './CaptionsManager';
+import ContentRevisionHistory from './ContentRevisionHistory';
+import ContentThumbnailEditor from './ContentThumbnailEditor';
+import ReleaseScheduleFields from './ReleaseScheduleFields';
+import { ContentSource, ReleaseSchedule, RestoredContent, sameSchedule } from '../lib/contentRepository';
+import { ThumbnailColumns } from '../lib/thumbnails';
 
 interface EditContentModalProps {
   isOpen: boolean;
@@ -14,12 +20,27 @@ interface EditContentModalProps {
     description?: string;
     category?: string;
     is_premium?: boolean;
+    // Only when the draft's release was changed
+    schedule?: ReleaseSchedule;
   }) => void;
   onDelete?: () => void;
   onClose: () => void;
   isSaving?: boolean;
   isDeleting?: boolean;
   error?: string;
+  // Both required to show the captions and thumbnail sections
+  contentId?: string;
+  source?: ContentSource;
+  thumbnailUrl?: string | null;
+  contentUrl?: string | null;
+  durationSeconds?: number | null;
+  onThumbnailChange?: (columns: ThumbnailColumns) => void;
+  // The item's row after restoring a revision
+  onRevisionRestored?: (row: RestoredContent) => void;
+  // Required to show the release schedule for drafts
+  releaseDestinations?: ContentSource[];
+  publishAt?: string | null;
+  scheduledDestinations?: ContentSource[];
 }
 
 export default function EditContentModal({
@@ -36,30 +57,57 @@ export default function EditContentModal({
   isSaving = false,
   isDeleting = false,
   error,
+  contentId,
+  source,
+  thumbnailUrl,
+  contentUrl,
+  durationSeconds,
+  onThumbnailChange,
+  onRevisionRestored,
+  releaseDestinations,
+  publishAt = null,
+  scheduledDestinations = [],
 }: EditContentModalProps) {
   const [title, setTitle] = useState(initialTitle);
   const [description, setDescription] = useState(initialDescription || '');
   const [category, setCategory] = useState(initialCategory || '');
   const [isPremium, setIsPremium] = useState(initialPremium || false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const initialSchedule: ReleaseSchedule = {
+    publishAt,
+    destinations: scheduledDestinations.length > 0 ? scheduledDestinations : (releaseDestinations ?? []).slice(0, 1),
+  };
+  const [schedule, setSchedule] = useState<ReleaseSchedule>(initialSchedule);
 
   const isPublished = publishedTo && publishedTo.length > 0;
   const isPendingDeletion = status === 'pending_deletion';
+  const canSchedule = status === 'draft' && !!releaseDestinations?.length;
+  const scheduleIncomplete = canSchedule && !!schedule.publishAt && schedule.destinations.length === 0;
 
   if (!isOpen) return null;
 
+  const handleRevisionRestored = (row: RestoredContent) => {
+    setTitle(String(row.title ?? ''));
+    setDescription(String(row.description ?? ''));
+    setCategory(String(row.category ?? ''));
+    setIsPremium(!!row.is_premium);
+    onRevisionRestored?.(row);
+  };
+
   const handleSave = () => {
     onSave({
       title,
       description: description || undefined,
       category: category || undefined,
       is_premium: isPremium,
+      schedule: canSchedule && !sameSchedule(schedule, initialSchedule) ? schedule : undefined,
     });
   };
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
-      <div className="bg-gray-900 rounded-2xl shadow-xl max-w-md w-full border border-gray-800">
+      <div className="bg-gray-900 rounded-2xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto border border-gray-800">
         <div className="flex items-center justify-between p-6 border-b border-gray-800">
           <h3 className="text-xl font-bold text-white">Edit Content</h3>
           <button
@@ -147,6 +195,15 @@ export default function EditContentModal({
             </label>
           </div>
 
+          {canSchedule && (
+            <ReleaseScheduleFields
+              value={schedule}
+              options={releaseDestinations!}
+              onChange={setSchedule}
+              disabled={isSaving || isDeleting}
+            />
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
@@ -154,6 +211,45 @@ export default function EditContentModal({
             </div>
           )}
 
+          {contentId && source && (
+            <ContentThumbnailEditor
+              source={source}
+              contentId={contentId}
+              thumbnailUrl={thumbnailUrl}
+              contentUrl={contentUrl}
+              durationSeconds={durationSeconds}
+              disabled={isSaving || isDeleting}
+              onChange={onThumbnailChange}
+            />
+          )}
+
+          {contentId && source && (
+            <CaptionsManager source={source} contentId={contentId} disabled={isSaving || isDeleting} />
+          )}
+
+          {contentId && source && (
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowRevisions(!showRevisions)}
+                className="flex items-center gap-2 text-sm font-medium text-white hover:text-rose-300 transition-colors"
+              >
+                <History className="w-4 h-4" />
+                {showRevisions ? 'Hide revision history' : 'Revision history'}
+              </button>
+              {showRevisions && (
+                <div className="mt-3">
+                  <ContentRevisionHistory
+                    source={source}
+                    contentId={contentId}
+                    onRestored={handleRevisionRestored}
+                    disabled={isSaving || isDeleting}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Buttons */}
           <div className="flex gap-3 pt-4">
             <button
@@ -166,7 +262,7 @@ export default function EditContentModal({
             </button>
             <button
               type="submit"
-              disabled={isSaving || isDeleting || !title}
+              disabled={isSaving || isDeleting || !title || scheduleIncomplete}
               className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isSaving ? 'Saving...' : 'Save'}
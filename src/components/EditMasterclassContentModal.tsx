@@ -1,5 +1,11 @@
 import React, { useState } from 'react';
-import { X, Trash2 } from 'lucide-react';
+import { X, Trash2, History } from 'lucide-react';
+import CaptionsManager from './CaptionsManager';
+import ContentRevisionHistory from './ContentRevisionHistory';
+import ContentThumbnailEditor from './ContentThumbnailEditor';
+import ReleaseScheduleFields from './ReleaseScheduleFields';
+import { ContentSource, ReleaseSchedule, RestoredContent, sameSchedule } from '../lib/contentRepository';
+import { ThumbnailColumns } from '../lib/thumbnails';
 
 interface EditMasterclassContentModalProps {
   isOpen: boolean;
@@ -19,12 +25,25 @@ interface EditMasterclassContentModalProps {
     features?: string[];
     lessons_count?: number;
     is_premium?: boolean;
+    // Only when the draft's release was changed
+    schedule?: ReleaseSchedule;
   }) => void;
   onDelete?: () => void;
   onClose: () => void;
   isSaving?: boolean;
   isDeleting?: boolean;
   error?: string;
+  // Both required to show the captions and thumbnail sections
+  contentId?: string;
+  source?: ContentSource;
+  thumbnailUrl?: string | null;
+  contentUrl?: string | null;
+  durationSeconds?: number | null;
+  onThumbnailChange?: (columns: ThumbnailColumns) => void;
+  // The item's row after restoring a revision
+  onRevisionRestored?: (row: RestoredContent) => void;
+  // Drafts can be scheduled to release on the Masterclass page
+  publishAt?: string | null;
 }
 
 export default function EditMasterclassContentModal({
@@ -43,6 +62,14 @@ export default function EditMasterclassContentModal({
   isSaving = false,
   isDeleting = false,
   error,
+  contentId,
+  source,
+  thumbnailUrl,
+  contentUrl,
+  durationSeconds,
+  onThumbnailChange,
+  onRevisionRestored,
+  publishAt = null,
 }: EditMasterclassContentModalProps) {
   const [title, setTitle] = useState(initialTitle);
   const [description, setDescription] = useState(initialDescription || '');
@@ -53,8 +80,12 @@ export default function EditMasterclassContentModal({
   const [lessonsCount, setLessonsCount] = useState(initialLessonsCount || 0);
   const [isPremium, setIsPremium] = useState(initialPremium || false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const initialSchedule: ReleaseSchedule = { publishAt, destinations: ['masterclass'] };
+  const [schedule, setSchedule] = useState<ReleaseSchedule>(initialSchedule);
 
   const isPendingDeletion = status === 'pending_deletion';
+  const canSchedule = status === 'draft';
 
   if (!isOpen) return null;
 
@@ -69,6 +100,17 @@ export default function EditMasterclassContentModal({
     setFeatures(features.filter((_, i) => i !== index));
   };
 
+  const handleRevisionRestored = (row: RestoredContent) => {
+    setTitle(String(row.title ?? ''));
+    setDescription(String(row.description ?? ''));
+    setCategory(String(row.category ?? ''));
+    setLevel(String(row.level ?? 'All Levels'));
+    setFeatures(Array.isArray(row.features) ? row.features.map(String) : []);
+    setLessonsCount(Number(row.lessons_count) || 0);
+    setIsPremium(!!row.is_premium);
+    onRevisionRestored?.(row);
+  };
+
   const handleSave = () => {
     onSave({
       title,
@@ -78,6 +120,7 @@ export default function EditMasterclassContentModal({
       features: features.length > 0 ? features : undefined,
       lessons_count: lessonsCount || undefined,
       is_premium: isPremium,
+      schedule: canSchedule && !sameSchedule(schedule, initialSchedule) ? schedule : undefined,
     });
   };
 
@@ -288,6 +331,15 @@ export default function EditMasterclassContentModal({
             </label>
           </div>
 
+          {canSchedule && (
+            <ReleaseScheduleFields
+              value={schedule}
+              options={['masterclass']}
+              onChange={setSchedule}
+              disabled={isSaving || isDeleting}
+            />
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
@@ -295,6 +347,45 @@ export default function EditMasterclassContentModal({
             </div>
           )}
 
+          {contentId && source && (
+            <ContentThumbnailEditor
+              source={source}
+              contentId={contentId}
+              thumbnailUrl={thumbnailUrl}
+              contentUrl={contentUrl}
+              durationSeconds={durationSeconds}
+              disabled={isSaving || isDeleting}
+              onChange={onThumbnailChange}
+            />
+          )}
+
+          {contentId && source && (
+            <CaptionsManager source={source} contentId={contentId} disabled={isSaving || isDeleting} />
+          )}
+
+          {contentId && source && (
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowRevisions(!showRevisions)}
+                className="flex items-center gap-2 text-sm font-medium text-white hover:text-rose-300 transition-colors"
+              >
+                <History className="w-4 h-4" />
+                {showRevisions ? 'Hide revision history' : 'Revision history'}
+              </button>
+              {showRevisions && (
+                <div className="mt-3">
+                  <ContentRevisionHistory
+                    source={source}
+                    contentId={contentId}
+                    onRestored={handleRevisionRestored}
+                    disabled={isSaving || isDeleting}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Buttons */}
           <div className="flex gap-3 pt-4">
             <button
@@ -1,5 +1,7 @@
 import { useState } from 'react';
-import { X, Trash2 } from 'lucide-react';
+import { X, Trash2, History } from 'lucide-react';
+import ContentRevisionHistory from './ContentRevisionHistory';
+import { RestoredContent } from '../lib/contentRepository';
 
 interface EditMediaModalProps {
   isOpen: boolean;
@@ -12,6 +14,10 @@ interface EditMediaModalProps {
   isSaving: boolean;
   isDeleting: boolean;
   error?: string;
+  // Required to show the revision history
+  mediaId?: string;
+  // The item's row after restoring a revision
+  onRevisionRestored?: (row: RestoredContent) => void;
 }
 
 export default function EditMediaModal({
@@ -25,12 +31,22 @@ export default function EditMediaModal({
   isSaving,
   isDeleting,
   error,
+  mediaId,
+  onRevisionRestored,
 }: EditMediaModalProps) {
   const [title, setTitle] = useState(initialTitle);
   const [description, setDescription] = useState(initialDescription || '');
   const [category, setCategory] = useState(initialCategory || '');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+
+  const handleRevisionRestored = (row: RestoredContent) => {
+    setTitle(String(row.title ?? ''));
+    setDescription(String(row.description ?? ''));
+    setCategory(String(row.category ?? ''));
+    onRevisionRestored?.(row);
+  };
 
   const handleSave = () => {
     if (!title.trim()) {
@@ -126,6 +142,30 @@ export default function EditMediaModal({
               </select>
             </div>
 
+            {mediaId && (
+              <div>
+                <button
+                  type="button"
+                  onClick={() => setShowRevisions(!showRevisions)}
+                  className="flex items-center gap-2 text-sm font-medium text-slate-700 hover:text-blue-600 transition"
+                >
+                  <History className="w-4 h-4" />
+                  {showRevisions ? 'Hide revision history' : 'Revision history'}
+                </button>
+                {showRevisions && (
+                  <div className="mt-3 max-h-64 overflow-y-auto">
+                    <ContentRevisionHistory
+                      source="feed"
+                      contentId={mediaId}
+                      onRestored={handleRevisionRestored}
+                      disabled={isSaving || isDeleting}
+                      theme="light"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             {(error || localError) && (
               <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
                 <p className="text-sm text-red-700">{error || localError}</p>
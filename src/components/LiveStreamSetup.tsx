@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Check, Copy, Eye, EyeOff, Loader2, Radio, RefreshCw, Trash2 } from 'lucide-react';
+import { useOrganizerLiveStreams } from '../hooks/useOrganizerLiveStreams';
+import type { EventLiveStream } from '../lib/liveStreams';
+
+const STREAM_STATUS: Record<EventLiveStream['status'], { label: string; className: string }> = {
+  idle: { label: 'Waiting for encoder', className: 'bg-gray-500/20 text-gray-300' },
+  active: { label: 'Live', className: 'bg-red-500 text-white animate-pulse' },
+  disconnected: { label: 'Reconnecting', className: 'bg-yellow-500/20 text-yellow-300' },
+  disabled: { label: 'Disabled', className: 'bg-gray-500/20 text-gray-400' },
+};
+
+function CopyField({ label, value, secret = false }: { label: string; value: string; secret?: boolean }) {
+  const [revealed, setRevealed] = useState(!secret);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(value);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div>
+      <p className="text-gray-400 text-xs mb-1">{label}</p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 min-w-0 px-3 py-2 bg-black/40 rounded-lg text-sm text-white truncate">
+          {revealed ? value : '•'.repeat(24)}
+        </code>
+        {secret && (
+          <button
+            onClick={() => setRevealed(!revealed)}
+            className="p-2 glass-effect text-gray-400 hover:text-white rounded-lg transition-all"
+            title={revealed ? 'Hide' : 'Show'}
+          >
+            {revealed ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          </button>
+        )}
+        <button
+          onClick={handleCopy}
+          className="p-2 glass-effect text-gray-400 hover:text-white rounded-lg transition-all"
+          title={`Copy ${label.toLowerCase()}`}
+        >
+          {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Organizer view of the Livestream tab: create a Mux live stream for an
+ * event and get the RTMP URL and stream key for the encoder
+ */
+export default function LiveStreamSetup() {
+  const { events, streams, loading, error, createStream, resetKey, removeStream } = useOrganizerLiveStreams();
+  const [busyEventId, setBusyEventId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  if (loading || events.length === 0) return null;
+
+  const run = async (eventId: string, action: (eventId: string) => Promise<void>) => {
+    setBusyEventId(eventId);
+    setActionError(null);
+    try {
+      await action(eventId);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Live stream request failed');
+    } finally {
+      setBusyEventId(null);
+    }
+  };
+
+  return (
+    <div className="glass-effect p-6 rounded-2xl space-y-4">
+      <div>
+        <h3 className="text-white font-bold text-lg">Your Livestreams</h3>
+        <p className="text-gray-400 text-sm">
+          Point OBS or any RTMP encoder at the URL below. Your event goes live as soon as the stream starts, and the
+          recording is published as a replay when it ends.
+        </p>
+      </div>
+
+      {(error || actionError) && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{actionError || error}</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {events.map((event) => {
+          const stream = streams[event.id];
+          const isBusy = busyEventId === event.id;
+          const status = stream ? STREAM_STATUS[stream.status] : null;
+
+          return (
+            <div key={event.id} className="p-4 bg-white/5 rounded-xl space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-white font-medium truncate">{event.title}</p>
+                  <p className="text-gray-400 text-xs">
+                    {event.date} · {event.time}
+                  </p>
+                </div>
+                {status ? (
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium flex-shrink-0 ${status.className}`}>
+                    {status.label}
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => run(event.id, createStream)}
+                    disabled={isBusy}
+                    className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg text-sm font-medium hover:shadow-lg transition-all disabled:opacity-50 flex-shrink-0"
+                  >
+                    {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Radio className="w-4 h-4" />}
+                    Set up livestream
+                  </button>
+                )}
+              </div>
+
+              {stream && (
+                <>
+                  <CopyField label="RTMP URL" value={stream.rtmpUrl} />
+                  <CopyField label="Stream key" value={stream.streamKey} secret />
+                  {stream.status !== 'active' && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => run(event.id, resetKey)}
+                        disabled={isBusy}
+                        className="flex items-center gap-2 px-3 py-2 glass-effect text-gray-300 hover:text-white rounded-lg text-sm transition-all disabled:opacity-50"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${isBusy ? 'animate-spin' : ''}`} />
+                        Reset key
+                      </button>
+                      <button
+                        onClick={() => run(event.id, removeStream)}
+                        disabled={isBusy}
+                        className="flex items-center gap-2 px-3 py-2 text-red-400 hover:bg-red-500/10 rounded-lg text-sm transition-colors disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Remove
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
-import React, { useState, useEffect } from 'react';
-import { Search, Filter, Radio, Zap, Users, Clock, MapPin, Share2, Heart } from 'lucide-react';
+import React, { useState } from 'react';
+import { Search, Filter, Radio, Zap, Users, Clock, MapPin, Share2, Heart, PlayCircle, Calendar } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { useLiveEvents } from '../hooks/useLiveEvents';
+import MuxPlayer from './MuxPlayer';
+import LiveStreamSetup from './LiveStreamSetup';
+import { formatDuration } from '../lib/formatDuration';
 import type { Event } from '../types/events';
 
 interface LivestreamTabProps {
@@ -10,87 +14,6 @@ interface LivestreamTabProps {
   onCategoryChange: (category: string) => void;
 }
 
-const mockLivestreams: Event[] = [
-  {
-    id: 'live-1',
-    title: 'Live Concert: Dawn Fever',
-    description: 'Experience the electrifying performance of award-winning artist Dawn Fever. Stream from the comfort of your home or join us live at the venue.',
-    category: 'entertainment',
-    date: new Date().toISOString().split('T')[0],
-    time: '7:00 PM - 10:00 PM EAT',
-    location: 'Main Auditorium, Kampala',
-    organizer_id: 'org-1',
-    organizer_name: 'LiveEvents Ltd',
-    organizer_avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=liveevents',
-    image_url: 'https://images.pexels.com/photos/1190299/pexels-photo-1190299.jpeg?auto=compress&cs=tinysrgb&w=800',
-    price: 150000,
-    currency: 'UGX',
-    capacity: 500,
-    attendees_count: 312,
-    rating: 4.9,
-    reviews_count: 127,
-    features: ['Live Performance', 'Interactive Chat', 'HD Quality', 'Meet & Greet'],
-    speakers: ['Dawn Fever', 'Guest DJ'],
-    status: 'happening',
-    is_livestream: true,
-    livestream_url: 'https://stream.example.com/dawn-fever',
-    created_at: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-  },
-  {
-    id: 'live-2',
-    title: 'Technova',
-    description: 'Join industry leaders as they discuss the latest AI breakthroughs, applications, and future trends. Interactive Q&A session included.',
-    category: 'business',
-    date: new Date().toISOString().split('T')[0],
-    time: '3:00 PM - 5:00 PM EAT',
-    location: 'Virtual Event',
-    organizer_id: 'org-2',
-    organizer_name: 'Tech Institute Uganda',
-    organizer_avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=techinst',
-    image_url: 'https://www.eventbookings.com/upload/orgs/65afe26ccc1988265a9b37ce59b86a56/bb22883b1923b0ffc60271687e15c640/events/9b1330c7-720e-4342-a32d-1823d7b71cdd.png?q=100&s=e49c594f423d5c234b124b3ff0272d23',
-    price: 0,
-    currency: 'UGX',
-    capacity: 1000,
-    attendees_count: 756,
-    rating: 4.7,
-    reviews_count: 89,
-    features: ['Expert Speakers', 'Q&A Session', 'Recording Available', 'Certificate'],
-    speakers: ['Dr. Sarah Chen', 'Prof. James Okonkwo', 'Maya Rodriguez'],
-    status: 'happening',
-    is_livestream: true,
-    livestream_url: 'https://stream.example.com/ai-talk',
-    created_at: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-  },
-  {
-    id: 'live-3',
-    title: 'Live Concert: Dawn Fever',
-    description: 'Experience the electrifying performance of award-winning artist Dawn Fever. Stream from the comfort of your home or join us live at the venue.',
-    category: 'social',
-    date: new Date().toISOString().split('T')[0],
-    time: '5:30 PM - 7:00 PM EAT',
-    location: 'Sports Complex, Kampala',
-    organizer_id: 'org-3',
-    organizer_name: 'Fitness Uganda',
-    organizer_avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=fitness',
-    image_url: 'https://images.pexels.com/photos/1190299/pexels-photo-1190299.jpeg?auto=compress&cs=tinysrgb&w=800',
-    price: 50000,
-    currency: 'UGX',
-    capacity: 300,
-    attendees_count: 187,
-    rating: 4.8,
-    reviews_count: 56,
-    features: ['Live Performance', 'Interactive Chat', 'HD Quality', 'Meet & Greet'],
-    speakers: ['Dawn Fever', 'Guest DJ'],
-    status: 'happening',
-    is_livestream: true,
-    livestream_url: 'https://stream.example.com/fitness-challenge',
-    created_at: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-  },
-];
-
 export default function LivestreamTab({
   searchQuery,
   selectedCategory,
@@ -98,19 +21,24 @@ export default function LivestreamTab({
   onCategoryChange,
 }: LivestreamTabProps) {
   const { user } = useAuth();
+  const { live, upcoming, replays, loading, error } = useLiveEvents();
   const [userLiked, setUserLiked] = useState<Set<string>>(new Set());
   const [viewingLivestream, setViewingLivestream] = useState<string | null>(null);
 
   const categories = ['all', 'social', 'business', 'entertainment', 'workshop'];
 
-  const filteredLivestreams = mockLivestreams.filter((event) => {
+  const matchesFilters = (event: Event) => {
     const matchesCategory = selectedCategory === 'all' || event.category === selectedCategory;
     const matchesSearch =
       event.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       event.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
       event.organizer_name.toLowerCase().includes(searchQuery.toLowerCase());
     return matchesCategory && matchesSearch;
-  });
+  };
+
+  const filteredLivestreams = live.filter(matchesFilters);
+  const filteredUpcoming = upcoming.filter(matchesFilters);
+  const filteredReplays = replays.filter(matchesFilters);
 
   const handleToggleLike = (eventId: string) => {
     setUserLiked((prev) => {
@@ -132,8 +60,133 @@ export default function LivestreamTab({
     setViewingLivestream(event.id);
   };
 
+  const renderCard = (event: Event, kind: 'live' | 'upcoming' | 'replay') => (
+    <div key={event.id} className="glass-effect rounded-2xl overflow-hidden hover:shadow-xl transition-all duration-300">
+      <div className="relative aspect-video bg-gradient-to-br from-gray-800 to-black overflow-hidden group">
+        <img
+          src={event.image_url}
+          alt={event.title}
+          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+        />
+
+        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+          <button
+            onClick={() => handleWatchLive(event)}
+            className="px-6 py-3 bg-red-500 hover:bg-red-600 text-white rounded-full font-semibold flex items-center space-x-2 transition-all transform -translate-y-2 group-hover:translate-y-0"
+          >
+            {kind === 'replay' ? <PlayCircle className="w-5 h-5" /> : <Radio className="w-5 h-5" />}
+            <span>{kind === 'live' ? 'Watch Live' : kind === 'replay' ? 'Watch Replay' : 'View Event'}</span>
+          </button>
+        </div>
+
+        {kind === 'live' ? (
+          <div className="absolute top-3 right-3 flex items-center space-x-1 bg-red-500 text-white px-3 py-1 rounded-full text-xs font-bold animate-pulse">
+            <span className="w-2 h-2 bg-white rounded-full animate-pulse"></span>
+            LIVE
+          </div>
+        ) : (
+          <div className="absolute top-3 right-3 bg-black/70 text-white px-3 py-1 rounded-full text-xs font-bold">
+            {kind === 'replay' ? 'REPLAY' : 'SOON'}
+          </div>
+        )}
+
+        <div className="absolute bottom-3 left-3 right-3">
+          <div className="bg-black/70 px-3 py-2 rounded-lg">
+            <div className="flex items-center space-x-4 text-xs text-white">
+              <div className="flex items-center space-x-1">
+                <Users className="w-3.5 h-3.5" />
+                <span>
+                  {event.attendees_count} {kind === 'live' ? 'watching' : 'attending'}
+                </span>
+              </div>
+              {kind === 'live' ? (
+                <div className="flex items-center space-x-1">
+                  <Zap className="w-3.5 h-3.5 text-yellow-400" />
+                  <span>Live</span>
+                </div>
+              ) : kind === 'upcoming' ? (
+                <div className="flex items-center space-x-1">
+                  <Calendar className="w-3.5 h-3.5" />
+                  <span>
+                    {event.date} · {event.time}
+                  </span>
+                </div>
+              ) : (
+                formatDuration(event.replay_duration_seconds) && (
+                  <div className="flex items-center space-x-1">
+                    <PlayCircle className="w-3.5 h-3.5" />
+                    <span>{formatDuration(event.replay_duration_seconds)}</span>
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-4">
+        <div>
+          <h3 className="text-lg font-bold text-white mb-1 line-clamp-2 hover:text-rose-400 transition-colors">
+            {event.title}
+          </h3>
+          <p className="text-sm text-gray-400 mb-2">{event.organizer_name}</p>
+          <p className="text-xs text-gray-500 line-clamp-2">{event.description}</p>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {event.features.slice(0, 2).map((feature, idx) => (
+            <span key={idx} className="px-2 py-1 bg-blue-500/20 text-blue-300 text-xs rounded">
+              {feature}
+            </span>
+          ))}
+          {event.features.length > 2 && (
+            <span className="px-2 py-1 bg-blue-500/20 text-blue-300 text-xs rounded">
+              +{event.features.length - 2}
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-gray-400 pt-3 border-t border-white/10">
+          <div className="flex items-center space-x-3">
+            <span>⭐ {event.rating.toFixed(1)}</span>
+            <span>({event.reviews_count} reviews)</span>
+          </div>
+          {event.price > 0 && <span className="text-white font-semibold">UGX {event.price.toLocaleString()}</span>}
+        </div>
+
+        <div className="flex gap-2 pt-4">
+          <button
+            onClick={() => handleWatchLive(event)}
+            className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium text-sm"
+          >
+            {kind === 'upcoming' ? 'Details' : 'Watch Now'}
+          </button>
+          <button
+            onClick={() => handleToggleLike(event.id)}
+            className={`p-2 rounded-lg transition-all ${
+              userLiked.has(event.id)
+                ? 'bg-rose-500/20 text-rose-400'
+                : 'glass-effect text-gray-400 hover:text-rose-400'
+            }`}
+            title="Add to favorites"
+          >
+            <Heart className="w-4 h-4" fill={userLiked.has(event.id) ? 'currentColor' : 'none'} />
+          </button>
+          <button
+            className="p-2 glass-effect text-gray-400 hover:text-white rounded-lg transition-all"
+            title="Share livestream"
+          >
+            <Share2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
   if (viewingLivestream) {
-    const stream = mockLivestreams.find((e) => e.id === viewingLivestream);
+    const stream = [...live, ...upcoming, ...replays].find((e) => e.id === viewingLivestream);
+    const isLive = stream?.status === 'happening' && !!stream.live_playback_id;
+    const replayDuration = formatDuration(stream?.replay_duration_seconds);
     return (
       <div className="space-y-6">
         <button
@@ -144,31 +197,53 @@ export default function LivestreamTab({
         </button>
 
         <div className="glass-effect rounded-2xl overflow-hidden">
-          <div className="aspect-video bg-black relative">
-            <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-gray-900 to-black">
-              <div className="text-center">
-                <div className="inline-block p-4 bg-red-500/20 rounded-full mb-4">
-                  <Radio className="w-12 h-12 text-red-500 animate-pulse" />
-                </div>
-                <h3 className="text-white text-xl font-semibold">{stream?.title}</h3>
-                <p className="text-gray-400 text-sm mt-2">Stream player would load here</p>
-                <div className="mt-6 flex items-center justify-center space-x-4 text-sm text-gray-400">
-                  <div className="flex items-center space-x-1">
-                    <Users className="w-4 h-4" />
-                    <span>{stream?.attendees_count} watching</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
-                    <span>LIVE</span>
+          {isLive && stream?.live_playback_id ? (
+            <MuxPlayer
+              playbackId={stream.live_playback_id}
+              thumbnailUrl={stream.image_url}
+              title={stream.title}
+              streamType="live"
+            />
+          ) : stream?.replay_playback_id ? (
+            <MuxPlayer playbackId={stream.replay_playback_id} thumbnailUrl={stream.image_url} title={stream.title} />
+          ) : (
+            <div className="aspect-video bg-black relative">
+              <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-gray-900 to-black">
+                <div className="text-center">
+                  <div className="inline-block p-4 bg-red-500/20 rounded-full mb-4">
+                    <Radio className="w-12 h-12 text-red-500" />
                   </div>
+                  <h3 className="text-white text-xl font-semibold">{stream?.title}</h3>
+                  <p className="text-gray-400 text-sm mt-2">
+                    {stream?.status === 'past'
+                      ? 'The replay will appear here once the recording is ready'
+                      : `The stream starts ${stream?.date} at ${stream?.time}`}
+                  </p>
                 </div>
               </div>
             </div>
-          </div>
+          )}
 
           <div className="p-6 space-y-6">
             <div>
               <h2 className="text-2xl font-bold text-white mb-2">{stream?.title}</h2>
+              <div className="flex items-center space-x-4 text-sm text-gray-400 mb-4">
+                {isLive ? (
+                  <div className="flex items-center space-x-1">
+                    <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
+                    <span>LIVE</span>
+                  </div>
+                ) : stream?.replay_playback_id ? (
+                  <div className="flex items-center space-x-1">
+                    <PlayCircle className="w-4 h-4" />
+                    <span>Replay{replayDuration ? ` · ${replayDuration}` : ''}</span>
+                  </div>
+                ) : null}
+                <div className="flex items-center space-x-1">
+                  <Users className="w-4 h-4" />
+                  <span>{stream?.attendees_count} attending</span>
+                </div>
+              </div>
               <p className="text-gray-300 mb-4">{stream?.description}</p>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
@@ -280,106 +355,17 @@ export default function LivestreamTab({
         </div>
       </div>
 
-      {filteredLivestreams.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredLivestreams.map((event) => (
-            <div key={event.id} className="glass-effect rounded-2xl overflow-hidden hover:shadow-xl transition-all duration-300">
-              <div className="relative aspect-video bg-gradient-to-br from-gray-800 to-black overflow-hidden group">
-                <img
-                  src={event.image_url}
-                  alt={event.title}
-                  className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                />
-
-                <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                  <button
-                    onClick={() => handleWatchLive(event)}
-                    className="px-6 py-3 bg-red-500 hover:bg-red-600 text-white rounded-full font-semibold flex items-center space-x-2 transition-all transform -translate-y-2 group-hover:translate-y-0"
-                  >
-                    <Radio className="w-5 h-5" />
-                    <span>Watch Live</span>
-                  </button>
-                </div>
-
-                <div className="absolute top-3 right-3 flex items-center space-x-1 bg-red-500 text-white px-3 py-1 rounded-full text-xs font-bold animate-pulse">
-                  <span className="w-2 h-2 bg-white rounded-full animate-pulse"></span>
-                  LIVE
-                </div>
-
-                <div className="absolute bottom-3 left-3 right-3">
-                  <div className="bg-black/70 px-3 py-2 rounded-lg">
-                    <div className="flex items-center space-x-4 text-xs text-white">
-                      <div className="flex items-center space-x-1">
-                        <Users className="w-3.5 h-3.5" />
-                        <span>{event.attendees_count} watching</span>
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <Zap className="w-3.5 h-3.5 text-yellow-400" />
-                        <span>Live</span>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-
-              <div className="p-5 space-y-4">
-                <div>
-                  <h3 className="text-lg font-bold text-white mb-1 line-clamp-2 hover:text-rose-400 transition-colors">
-                    {event.title}
-                  </h3>
-                  <p className="text-sm text-gray-400 mb-2">{event.organizer_name}</p>
-                  <p className="text-xs text-gray-500 line-clamp-2">{event.description}</p>
-                </div>
-
-                <div className="flex flex-wrap gap-1">
-                  {event.features.slice(0, 2).map((feature, idx) => (
-                    <span key={idx} className="px-2 py-1 bg-blue-500/20 text-blue-300 text-xs rounded">
-                      {feature}
-                    </span>
-                  ))}
-                  {event.features.length > 2 && (
-                    <span className="px-2 py-1 bg-blue-500/20 text-blue-300 text-xs rounded">
-                      +{event.features.length - 2}
-                    </span>
-                  )}
-                </div>
-
-                <div className="flex items-center justify-between text-xs text-gray-400 pt-3 border-t border-white/10">
-                  <div className="flex items-center space-x-3">
-                    <span>⭐ {event.rating.toFixed(1)}</span>
-                    <span>({event.reviews_count} reviews)</span>
-                  </div>
-                  {event.price > 0 && <span className="text-white font-semibold">UGX {event.price.toLocaleString()}</span>}
-                </div>
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
 
-                <div className="flex gap-2 pt-4">
-                  <button
-                    onClick={() => handleWatchLive(event)}
-                    className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium text-sm"
-                  >
-                    Watch Now
-                  </button>
-                  <button
-                    onClick={() => handleToggleLike(event.id)}
-                    className={`p-2 rounded-lg transition-all ${
-                      userLiked.has(event.id)
-                        ? 'bg-rose-500/20 text-rose-400'
-                        : 'glass-effect text-gray-400 hover:text-rose-400'
-                    }`}
-                    title="Add to favorites"
-                  >
-                    <Heart className="w-4 h-4" fill={userLiked.has(event.id) ? 'currentColor' : 'none'} />
-                  </button>
-                  <button
-                    className="p-2 glass-effect text-gray-400 hover:text-white rounded-lg transition-all"
-                    title="Share livestream"
-                  >
-                    <Share2 className="w-4 h-4" />
-                  </button>
-                </div>
-              </div>
-            </div>
-          ))}
+      {loading ? (
+        <div className="text-center py-16 text-gray-400">Loading livestreams...</div>
+      ) : filteredLivestreams.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredLivestreams.map((event) => renderCard(event, 'live'))}
         </div>
       ) : (
         <div className="text-center py-16 glass-effect rounded-2xl">
@@ -394,6 +380,26 @@ export default function LivestreamTab({
           </button>
         </div>
       )}
+
+      {filteredUpcoming.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-white font-bold text-lg">Starting Soon</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredUpcoming.map((event) => renderCard(event, 'upcoming'))}
+          </div>
+        </div>
+      )}
+
+      {filteredReplays.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-white font-bold text-lg">Replays</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredReplays.map((event) => renderCard(event, 'replay'))}
+          </div>
+        </div>
+      )}
+
+      {user && <LiveStreamSetup />}
     </div>
   );
 }
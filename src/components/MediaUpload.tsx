@@ -10,7 +10,7 @@ interface MediaUploadProps {
 }
 
 const ALLOWED_TYPES = {
-  image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'],
+  image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
   video: ['video/mp4', 'video/webm', 'video/quicktime', 'video/x-msvideo'],
   audio: ['audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/webm', 'audio/aac'],
   document: ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
@@ -146,7 +146,7 @@ export default function MediaUpload({ userId, userName, onSuccess }: MediaUpload
           `media/${userId}`
         );
 
-        if (uploadError) throw uploadError;
+        if (uploadError) throw new Error(uploadError);
 
         finalImageUrl = publicUrl;
       }
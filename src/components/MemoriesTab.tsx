@@ -16,6 +16,7 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import type { EventMemory, EventComment } from '../types/events';
+import ResponsiveImage from './ResponsiveImage';
 
 const mockMemories: EventMemory[] = [
   {
@@ -298,8 +299,11 @@ export default function MemoriesTab() {
 
           <div className="p-6 space-y-6">
             <div className="aspect-video rounded-xl overflow-hidden">
-              <img
+              <ResponsiveImage
                 src={selectedMemory.image_url}
+                variants={selectedMemory.image_variants}
+                placeholder={selectedMemory.image_placeholder}
+                sizes="(min-width: 768px) 672px, 100vw"
                 alt={selectedMemory.caption}
                 className="w-full h-full object-cover"
               />
@@ -598,8 +602,11 @@ export default function MemoriesTab() {
                 className="glass-effect rounded-2xl overflow-hidden hover:shadow-xl transition-all cursor-pointer group"
               >
                 <div className="relative aspect-square bg-gradient-to-br from-gray-800 to-black overflow-hidden">
-                  <img
+                  <ResponsiveImage
                     src={memory.image_url}
+                    variants={memory.image_variants}
+                    placeholder={memory.image_placeholder}
+                    sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                     alt={memory.caption}
                     className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                   />
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { ListMusic, Loader2, Lock, Pause, Play, Repeat, Repeat1, Shuffle, SkipBack, SkipForward, X } from 'lucide-react';
+import { usePlayer } from '../hooks/usePlayer';
+import { usePlaybackAccess } from '../hooks/usePlaybackAccess';
+import { formatDuration } from '../lib/formatDuration';
+import { AUDIO_CONTENT_TYPES, muxPlaybackId } from '../lib/playerQueue';
+
+// Our controls replace the player's own
+const HIDDEN_CONTROLS = { '--controls': 'none', width: '100%', height: '100%' } as React.CSSProperties;
+
+/**
+ * Player docked at the bottom of every page while something is queued.
+ * Video items play in the small frame on the left; audio shows its artwork.
+ */
+export default function MiniPlayer() {
+  const {
+    queue,
+    current,
+    isPlaying,
+    duration,
+    media,
+    attachMedia,
+    togglePlay,
+    next,
+    previous,
+    seek,
+    jumpTo,
+    remove,
+    toggleShuffle,
+    cycleRepeat,
+    stop,
+  } = usePlayer();
+  const { access, error, premiumRequired } = usePlaybackAccess(current?.source, current?.id, current?.is_premium);
+  const [position, setPosition] = useState(0);
+  const [showQueue, setShowQueue] = useState(false);
+
+  useEffect(() => {
+    if (!media) return;
+
+    const handleTimeUpdate = () => setPosition(media.currentTime ?? 0);
+    handleTimeUpdate();
+    media.addEventListener('timeupdate', handleTimeUpdate);
+    return () => media.removeEventListener('timeupdate', handleTimeUpdate);
+  }, [media]);
+
+  if (!current) return null;
+
+  const isAudio = AUDIO_CONTENT_TYPES.includes(current.type);
+  // Signed content plays from the playback ID the token was issued for
+  const playbackId = access && 'playbackId' in access ? access.playbackId : muxPlaybackId(current.content_url);
+  const tokens = access && 'tokens' in access ? access.tokens : undefined;
+  const signedUrl = access && 'url' in access ? access.url : undefined;
+  const totalSeconds = duration || current.duration_seconds || 0;
+
+  return (
+    <>
+      {/* Keeps page content clear of the docked bar */}
+      <div className="h-24" aria-hidden="true" />
+
+      <div className="fixed bottom-0 inset-x-0 z-40 bg-gray-900/95 backdrop-blur-sm border-t border-white/10">
+        {showQueue && (
+          <div className="absolute bottom-full right-4 mb-2 w-80 max-h-96 overflow-y-auto glass-effect rounded-xl p-2 space-y-1">
+            <p className="px-2 py-1 text-sm font-semibold text-white">Up next</p>
+            {queue.order.map((itemIndex, orderIndex) => {
+              const item = queue.items[itemIndex];
+              const isCurrent = orderIndex === queue.cursor;
+              return (
+                <div
+                  key={item.id}
+                  className={`flex items-center gap-2 p-2 rounded-lg ${isCurrent ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                >
+                  <button type="button" onClick={() => jumpTo(itemIndex)} className="flex-1 min-w-0 text-left">
+                    <p className={`text-sm truncate ${isCurrent ? 'text-rose-400' : 'text-white'}`}>{item.title}</p>
+                    <p className="text-xs text-gray-400 truncate">{item.creator}</p>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(itemIndex)}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title="Remove from queue"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center gap-4">
+          <div className="relative w-28 aspect-video bg-gray-800 rounded-lg overflow-hidden flex-shrink-0">
+            {(isAudio || !access) && current.thumbnail_url && (
+              <img src={current.thumbnail_url} alt={current.title} className="w-full h-full object-cover" />
+            )}
+            {premiumRequired || error ? (
+              <div className="absolute inset-0 bg-black/70 flex items-center justify-center" title={error ?? undefined}>
+                <Lock className="w-5 h-5 text-amber-400" />
+              </div>
+            ) : !access ? (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <Loader2 className="w-5 h-5 text-gray-300 animate-spin" />
+              </div>
+            ) : (
+              <div className={isAudio ? 'hidden' : 'w-full h-full'}>
+                <mux-player
+                  ref={attachMedia}
+                  playback-id={signedUrl ? undefined : playbackId ?? undefined}
+                  src={signedUrl ?? (playbackId ? undefined : current.content_url)}
+                  poster={current.thumbnail_url}
+                  metadata-video-title={current.title}
+                  stream-type="on-demand"
+                  playback-token={tokens?.playback}
+                  thumbnail-token={tokens?.thumbnail}
+                  storyboard-token={tokens?.storyboard}
+                  style={HIDDEN_CONTROLS}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="w-40 min-w-0 hidden sm:block">
+            <p className="text-white text-sm font-semibold truncate">{current.title}</p>
+            <p className="text-gray-400 text-xs truncate">{current.creator}</p>
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col items-center gap-1">
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={toggleShuffle}
+                className={`p-1 transition-colors ${queue.shuffle ? 'text-rose-400' : 'text-gray-400 hover:text-white'}`}
+                title={queue.shuffle ? 'Shuffle on' : 'Shuffle off'}
+              >
+                <Shuffle className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={previous} className="p-1 text-gray-300 hover:text-white" title="Previous">
+                <SkipBack className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={togglePlay}
+                disabled={!media}
+                className="p-2 bg-white text-black rounded-full hover:scale-105 transition-transform disabled:opacity-50"
+                title={isPlaying ? 'Pause' : 'Play'}
+              >
+                {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+              </button>
+              <button type="button" onClick={next} className="p-1 text-gray-300 hover:text-white" title="Next">
+                <SkipForward className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={cycleRepeat}
+                className={`p-1 transition-colors ${queue.repeat === 'off' ? 'text-gray-400 hover:text-white' : 'text-rose-400'}`}
+                title={queue.repeat === 'one' ? 'Repeat one' : queue.repeat === 'all' ? 'Repeat all' : 'Repeat off'}
+              >
+                {queue.repeat === 'one' ? <Repeat1 className="w-4 h-4" /> : <Repeat className="w-4 h-4" />}
+              </button>
+            </div>
+            <div className="w-full max-w-xl flex items-center gap-2 text-xs text-gray-400">
+              <span className="w-10 text-right">{formatDuration(position)}</span>
+              <input
+                type="range"
+                min={0}
+                max={totalSeconds || 0}
+                step={1}
+                value={Math.min(position, totalSeconds)}
+                onChange={(e) => seek(Number(e.target.value))}
+                disabled={!media || !totalSeconds}
+                className="flex-1 accent-rose-500"
+                aria-label="Seek"
+              />
+              <span className="w-10">{formatDuration(totalSeconds)}</span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => setShowQueue((open) => !open)}
+              className={`p-2 rounded-lg transition-colors ${showQueue ? 'text-rose-400' : 'text-gray-400 hover:text-white'}`}
+              title="Queue"
+            >
+              <ListMusic className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={stop}
+              className="p-2 text-gray-400 hover:text-white rounded-lg transition-colors"
+              title="Close player"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,4 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { Captions } from 'lucide-react';
+import { CaptionTrack, captionFileUrl } from '../lib/captions';
+import type { PlayerEvent } from '../lib/playbackAnalytics';
 
 interface MuxPlayerProps {
   playbackId: string;
@@ -6,6 +9,18 @@ interface MuxPlayerProps {
   title?: string;
   onDurationChange?: (duration: number) => void;
   onViewTracked?: () => void;
+  // Play, pause, seek, ended and periodic heartbeats for watch-time analytics
+  onPlaybackEvent?: (event: PlayerEvent) => void;
+  // Ready caption tracks; Mux text tracks arrive with the stream, the rest
+  // are loaded from storage
+  captions?: CaptionTrack[];
+  streamType?: 'on-demand' | 'live';
+  // JWTs from the playback-token function for `signed` playback IDs
+  playbackToken?: string;
+  thumbnailToken?: string;
+  storyboardToken?: string;
+  // Saved position to resume from, applied once the stream has loaded
+  startTime?: number | null;
 }
 
 declare global {
@@ -18,24 +33,68 @@ declare global {
 
 interface MuxPlayerElement extends React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement> {
   'playback-id'?: string;
+  // Plays a file URL instead of a Mux playback ID
+  'src'?: string;
   'poster'?: string;
   'metadata-video-title'?: string;
   'stream-type'?: string;
+  'playback-token'?: string;
+  'thumbnail-token'?: string;
+  'storyboard-token'?: string;
   'controls'?: boolean;
   ref?: React.Ref<HTMLElement>;
 }
 
+// While playing, report the position at least this often
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+// A start time that arrives later doesn't override a viewer who has
+// already started watching or seeking
+const RESUME_GRACE_SECONDS = 5;
+
+interface TextTrackHost {
+  textTracks?: TextTrackList;
+  media?: { textTracks?: TextTrackList };
+}
+
+function playerTextTracks(player: HTMLElement): TextTrack[] {
+  const host = player as HTMLElement & TextTrackHost;
+  const list = host.textTracks ?? host.media?.textTracks;
+  if (!list) return [];
+
+  const tracks: TextTrack[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const track = list[i];
+    if (track.kind === 'subtitles' || track.kind === 'captions') tracks.push(track);
+  }
+  return tracks;
+}
+
 export default function MuxPlayer({
   playbackId,
   thumbnailUrl,
   title,
   onDurationChange,
   onViewTracked,
+  onPlaybackEvent,
+  captions = [],
+  streamType = 'on-demand',
+  playbackToken,
+  thumbnailToken,
+  storyboardToken,
+  startTime,
 }: MuxPlayerProps) {
   const playerRef = useRef<HTMLElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [hasTrackedView, setHasTrackedView] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [captionLanguage, setCaptionLanguage] = useState('');
+
+  const playbackEventRef = useRef(onPlaybackEvent);
+  playbackEventRef.current = onPlaybackEvent;
+
+  const startTimeAppliedRef = useRef(false);
+
+  const readyCaptions = captions.filter((track) => track.status === 'ready');
 
   useEffect(() => {
     // Player script is pre-loaded in App.tsx, just check if it's ready
@@ -94,6 +153,86 @@ export default function MuxPlayer({
     };
   }, [onDurationChange, onViewTracked, hasTrackedView]);
 
+  useEffect(() => {
+    if (!playerRef.current) return;
+
+    const player = playerRef.current as HTMLElement & { currentTime?: number; duration?: number };
+    let lastHeartbeatAt = 0;
+
+    const emit = (type: PlayerEvent['type']) => {
+      lastHeartbeatAt = Date.now();
+      playbackEventRef.current?.({
+        type,
+        position: player.currentTime ?? 0,
+        duration: player.duration,
+      });
+    };
+
+    const handlers: Record<string, () => void> = {
+      play: () => emit('play'),
+      pause: () => emit('pause'),
+      seeked: () => emit('seek'),
+      ended: () => emit('ended'),
+      timeupdate: () => {
+        if (Date.now() - lastHeartbeatAt >= HEARTBEAT_INTERVAL_MS) emit('heartbeat');
+      },
+    };
+
+    for (const [name, handler] of Object.entries(handlers)) {
+      player.addEventListener(name, handler);
+    }
+    return () => {
+      for (const [name, handler] of Object.entries(handlers)) {
+        player.removeEventListener(name, handler);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    startTimeAppliedRef.current = false;
+  }, [playbackId]);
+
+  useEffect(() => {
+    if (!playerRef.current || !startTime || startTimeAppliedRef.current) return;
+
+    const player = playerRef.current as HTMLElement & { currentTime?: number; duration?: number };
+    const applyStartTime = () => {
+      startTimeAppliedRef.current = true;
+      const duration = player.duration ?? 0;
+      if ((player.currentTime ?? 0) < RESUME_GRACE_SECONDS && startTime < duration - 1) {
+        player.currentTime = startTime;
+      }
+    };
+
+    // The duration is NaN until the stream's metadata has loaded
+    if (player.duration) {
+      applyStartTime();
+      return;
+    }
+    player.addEventListener('loadedmetadata', applyStartTime, { once: true });
+    return () => {
+      player.removeEventListener('loadedmetadata', applyStartTime);
+    };
+  }, [startTime, playbackId]);
+
+  useEffect(() => {
+    if (!playerRef.current) return;
+
+    const player = playerRef.current;
+    const applyCaptionLanguage = () => {
+      for (const track of playerTextTracks(player)) {
+        track.mode = captionLanguage && track.language === captionLanguage ? 'showing' : 'disabled';
+      }
+    };
+
+    applyCaptionLanguage();
+    // Mux text tracks are only known once the stream manifest has loaded
+    player.addEventListener('loadedmetadata', applyCaptionLanguage);
+    return () => {
+      player.removeEventListener('loadedmetadata', applyCaptionLanguage);
+    };
+  }, [captionLanguage, captions]);
+
   if (error) {
     return (
       <div className="w-full bg-black rounded-lg flex items-center justify-center" style={{ aspectRatio: '16/9' }}>
@@ -106,16 +245,51 @@ export default function MuxPlayer({
   }
 
   return (
-    <div className="w-full bg-black rounded-lg overflow-hidden" style={{ aspectRatio: '16/9' }}>
-      <mux-player
-        ref={playerRef}
-        playback-id={playbackId}
-        poster={thumbnailUrl}
-        metadata-video-title={title || 'Video'}
-        stream-type="on-demand"
-        controls="true"
-        style={{ width: '100%', height: '100%' }}
-      />
+    <div className="w-full">
+      <div className="w-full bg-black rounded-lg overflow-hidden" style={{ aspectRatio: '16/9' }}>
+        <mux-player
+          ref={playerRef}
+          playback-id={playbackId}
+          poster={thumbnailUrl}
+          metadata-video-title={title || 'Video'}
+          stream-type={streamType}
+          playback-token={playbackToken}
+          thumbnail-token={thumbnailToken}
+          storyboard-token={storyboardToken}
+          controls="true"
+          style={{ width: '100%', height: '100%' }}
+        >
+          {readyCaptions
+            .filter((track) => !track.mux_track_id)
+            .map((track) => (
+              <track
+                key={track.id}
+                kind="subtitles"
+                src={captionFileUrl(track)}
+                srcLang={track.language_code}
+                label={track.label}
+              />
+            ))}
+        </mux-player>
+      </div>
+      {readyCaptions.length > 0 && (
+        <div className="flex items-center justify-end gap-2 mt-2">
+          <Captions className="w-4 h-4 text-gray-400" />
+          <select
+            value={captionLanguage}
+            onChange={(e) => setCaptionLanguage(e.target.value)}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+            aria-label="Captions language"
+          >
+            <option value="">Captions off</option>
+            {readyCaptions.map((track) => (
+              <option key={track.id} value={track.language_code}>
+                {track.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
     </div>
   );
 }
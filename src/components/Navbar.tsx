@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Menu, X, Crown, User, LogOut, Settings, Bell, Star, UserPlus } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import UploadsTray from './UploadsTray';
 
 export default function Navbar() {
   const [isOpen, setIsOpen] = useState(false);
@@ -103,6 +104,7 @@ export default function Navbar() {
                   <button className="p-2 rounded-full text-white hover:bg-white/10 transition-colors">
                     <Bell className="w-5 h-5" />
                   </button>
+                  <UploadsTray />
                   <div className="relative">
                     <button
                       onClick={() => setShowUserMenu(!showUserMenu)}
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { Loader2, Rss } from 'lucide-react';
+import { resetPodcastFeedToken } from '../lib/podcastFeeds';
+
+/**
+ * Lets a viewer revoke the private podcast feed links they copied from
+ * the Media page, e.g. after sharing one by mistake
+ */
+export default function PodcastFeedSettings() {
+  const [resetting, setResetting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleReset = async () => {
+    setResetting(true);
+    setMessage(null);
+    try {
+      await resetPodcastFeedToken();
+      setMessage('Old feed links no longer work. Copy the feeds again from the Media page.');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to reset feed links');
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  return (
+    <div className="glass-effect p-6 rounded-2xl">
+      <h2 className="text-2xl font-semibold text-white mb-2 flex items-center gap-2">
+        <Rss className="w-5 h-5 text-rose-400" />
+        Podcast Feeds
+      </h2>
+      <p className="text-gray-300 text-sm mb-4">
+        Feed links copied while on a paid plan are private and include premium episodes. Keep them to yourself.
+      </p>
+      <button
+        onClick={handleReset}
+        disabled={resetting}
+        className="w-full flex items-center justify-center gap-2 py-2 glass-effect text-gray-300 hover:text-white hover:bg-white/10 rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+      >
+        {resetting && <Loader2 className="w-4 h-4 animate-spin" />}
+        Reset private feed links
+      </button>
+      {message && <p className="text-gray-400 text-xs mt-3">{message}</p>}
+    </div>
+  );
+}
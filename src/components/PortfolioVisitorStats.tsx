@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Check, Copy, ExternalLink } from 'lucide-react';
+import { ReferrerSource, usePortfolioAnalytics } from '../hooks/usePortfolioAnalytics';
+
+const SOURCE_LABELS: Record<ReferrerSource, string> = {
+  direct: 'Direct',
+  internal: 'From this site',
+  search: 'Search engines',
+  social: 'Social media',
+  other: 'Other websites',
+};
+
+/**
+ * Owner panel on the Portfolio page: the public portfolio link and unique
+ * visitors over the last 30 days by day, source and item
+ */
+export default function PortfolioVisitorStats({ ownerId }: { ownerId: string }) {
+  const { breakdown, loading, error } = usePortfolioAnalytics(30);
+  const [copied, setCopied] = useState(false);
+
+  const publicUrl = `${window.location.origin}/portfolio/${ownerId}`;
+  const days = breakdown?.by_day ?? [];
+  const total = days.reduce((sum, day) => sum + day.views, 0);
+  const peak = Math.max(1, ...days.map((day) => day.views));
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(publicUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="glass-effect p-6 rounded-2xl space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-white">Visitors</h3>
+          <p className="text-gray-400 text-sm">Unique visitors in the last 30 days. Your own visits aren't counted.</p>
+        </div>
+        <p className="text-3xl font-bold text-white">{total.toLocaleString()}</p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <code className="flex-1 min-w-0 px-3 py-2 bg-black/40 rounded-lg text-sm text-white truncate">{publicUrl}</code>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="p-2 glass-effect text-gray-400 hover:text-white rounded-lg transition-all"
+          title="Copy public link"
+        >
+          {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+        </button>
+        <a
+          href={publicUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="p-2 glass-effect text-gray-400 hover:text-white rounded-lg transition-all"
+          title="Open public portfolio"
+        >
+          <ExternalLink className="w-4 h-4" />
+        </a>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Loading visitors...</p>
+      ) : (
+        <>
+          <div className="flex items-end gap-1 h-24" aria-label="Visitors per day">
+            {days.map((day) => (
+              <div
+                key={day.day}
+                className="flex-1 bg-gradient-to-t from-rose-500 to-purple-600 rounded-t"
+                style={{ height: `${Math.max((day.views / peak) * 100, day.views > 0 ? 4 : 1)}%` }}
+                title={`${new Date(day.day).toLocaleDateString()}: ${day.views} visitor(s)`}
+              />
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-white font-medium mb-2">Sources</h4>
+              {breakdown?.by_source.length ? (
+                <ul className="space-y-1">
+                  {breakdown.by_source.map((row) => (
+                    <li key={row.source} className="flex justify-between text-sm">
+                      <span className="text-gray-300">{SOURCE_LABELS[row.source] ?? row.source}</span>
+                      <span className="text-white">{row.views.toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-400 text-sm">No visits yet.</p>
+              )}
+            </div>
+            <div>
+              <h4 className="text-white font-medium mb-2">Most opened items</h4>
+              {breakdown?.by_item.length ? (
+                <ul className="space-y-1">
+                  {breakdown.by_item.slice(0, 5).map((row) => (
+                    <li key={row.content_id} className="flex justify-between gap-3 text-sm">
+                      <span className="text-gray-300 truncate">{row.title}</span>
+                      <span className="text-white flex-shrink-0">{row.views.toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-400 text-sm">No items opened yet.</p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Clock, AlertCircle } from 'lucide-react';
+import { Clock, AlertCircle, CalendarClock } from 'lucide-react';
 
 interface PublicationStatusBadgeProps {
   status: string;
@@ -7,6 +7,8 @@ interface PublicationStatusBadgeProps {
   isDeletedPending?: boolean;
   daysUntilDeletion?: number | null;
   saved?: boolean;
+  // Scheduled release of a draft
+  publishAt?: string | null;
 }
 
 export default function PublicationStatusBadge({
@@ -15,6 +17,7 @@ export default function PublicationStatusBadge({
   isDeletedPending = false,
   daysUntilDeletion,
   saved = false,
+  publishAt,
 }: PublicationStatusBadgeProps) {
   // Determine publication status label
   const getPublicationLabel = (): { label: string; color: string; icon?: React.ReactNode } => {
@@ -26,6 +29,19 @@ export default function PublicationStatusBadge({
       };
     }
 
+    if (status === 'draft' && publishAt) {
+      return {
+        label: `Scheduled for ${new Date(publishAt).toLocaleString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+        })}`,
+        color: 'bg-purple-500/20 text-purple-400 border border-purple-500/30',
+        icon: <CalendarClock className="w-3 h-3" />,
+      };
+    }
+
     if (!publishedTo || publishedTo.length === 0) {
       return {
         label: 'Not Published',
@@ -0,0 +1,91 @@
+import { CalendarClock, X } from 'lucide-react';
+import { ContentSource, ReleaseSchedule } from '../lib/contentRepository';
+
+interface ReleaseScheduleFieldsProps {
+  value: ReleaseSchedule;
+  // Destinations the creator can release to
+  options: ContentSource[];
+  onChange: (value: ReleaseSchedule) => void;
+  disabled?: boolean;
+}
+
+const DESTINATION_LABELS: Record<ContentSource, string> = {
+  media: 'Media',
+  portfolio: 'Portfolio',
+  masterclass: 'Masterclass',
+};
+
+// datetime-local inputs work in the viewer's time zone without an offset
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+/**
+ * Release time and destinations for a draft. The item stays a draft until
+ * then and is published automatically; followers see a countdown.
+ */
+export default function ReleaseScheduleFields({ value, options, onChange, disabled = false }: ReleaseScheduleFieldsProps) {
+  const toggleDestination = (destination: ContentSource) => {
+    const destinations = value.destinations.includes(destination)
+      ? value.destinations.filter((d) => d !== destination)
+      : [...value.destinations, destination];
+    onChange({ ...value, destinations });
+  };
+
+  return (
+    <div className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="w-4 h-4 text-purple-400" />
+        <h4 className="text-sm font-medium text-white">Schedule release</h4>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="datetime-local"
+          value={value.publishAt ? toLocalInput(value.publishAt) : ''}
+          min={toLocalInput(new Date().toISOString())}
+          onChange={(e) =>
+            onChange({ ...value, publishAt: e.target.value ? new Date(e.target.value).toISOString() : null })
+          }
+          className="flex-1 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
+          disabled={disabled}
+        />
+        {value.publishAt && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, publishAt: null })}
+            disabled={disabled}
+            className="px-3 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+            title="Don't release automatically"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {value.publishAt && options.length > 1 && (
+        <div className="flex flex-wrap gap-4">
+          {options.map((destination) => (
+            <label key={destination} className="flex items-center gap-2 text-sm text-white">
+              <input
+                type="checkbox"
+                checked={value.destinations.includes(destination)}
+                onChange={() => toggleDestination(destination)}
+                className="w-4 h-4 text-rose-400 bg-gray-800 border-gray-700 rounded focus:ring-2 focus:ring-rose-400"
+                disabled={disabled}
+              />
+              {DESTINATION_LABELS[destination]}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-400">
+        {value.publishAt
+          ? 'Stays a draft until then and is published automatically. Your followers see a countdown.'
+          : 'Pick a time to publish this draft automatically.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { ImgHTMLAttributes, useEffect, useState } from 'react';
+import { ImageVariant, buildSrcSet } from '../lib/responsiveImages';
+
+interface ResponsiveImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'placeholder'> {
+  // The original, used by browsers without AVIF/WebP and before processing
+  src?: string | null;
+  variants?: ImageVariant[] | null;
+  // Blurred data: URI shown behind the image until it has loaded
+  placeholder?: string | null;
+  // Rendered width of the image, e.g. "(min-width: 1024px) 33vw, 100vw"
+  sizes?: string;
+}
+
+/**
+ * <img> with AVIF and WebP srcsets from the process-images derivatives.
+ * The <picture> wrapper is display: contents, so classes on the image size
+ * it against its parent exactly like a plain <img>.
+ */
+export default function ResponsiveImage({
+  src,
+  variants,
+  placeholder,
+  sizes = '100vw',
+  alt = '',
+  style,
+  onLoad,
+  ...imgProps
+}: ResponsiveImageProps) {
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setLoaded(false);
+  }, [src]);
+
+  const avifSrcSet = buildSrcSet(variants, 'avif');
+  const webpSrcSet = buildSrcSet(variants, 'webp');
+  const placeholderStyle = placeholder && !loaded
+    ? { backgroundImage: `url("${placeholder}")`, backgroundSize: 'cover', backgroundPosition: 'center' }
+    : undefined;
+
+  return (
+    <picture className="contents">
+      {avifSrcSet && <source type="image/avif" srcSet={avifSrcSet} sizes={sizes} />}
+      {webpSrcSet && <source type="image/webp" srcSet={webpSrcSet} sizes={sizes} />}
+      <img
+        src={src || undefined}
+        alt={alt}
+        loading="lazy"
+        decoding="async"
+        {...imgProps}
+        style={{ ...placeholderStyle, ...style }}
+        onLoad={(event) => {
+          setLoaded(true);
+          onLoad?.(event);
+        }}
+      />
+    </picture>
+  );
+}
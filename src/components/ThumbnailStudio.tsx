@@ -0,0 +1,382 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageIcon, Loader2, Sparkles, Upload, X } from 'lucide-react';
+import { formatDuration } from '../lib/formatDuration';
+import {
+  ASPECT_PRESETS,
+  DEFAULT_THUMBNAIL_EDIT,
+  ExportedThumbnail,
+  FrameSource,
+  ThumbnailAspect,
+  ThumbnailCandidate,
+  ThumbnailEdit,
+  extractCandidateFrames,
+  loadImage,
+  renderThumbnail,
+  exportThumbnail,
+} from '../lib/thumbnails';
+
+export interface ThumbnailStudioResult {
+  exports: ExportedThumbnail[];
+  // Small data URL of the finished thumbnail for previews in the form
+  previewUrl: string;
+}
+
+interface ThumbnailStudioProps {
+  isOpen: boolean;
+  // Video to pick candidate frames from; without one only a custom image
+  // (or the current thumbnail) can be edited
+  frameSource?: FrameSource | null;
+  initialImageUrl?: string | null;
+  onClose: () => void;
+  onExport: (result: ThumbnailStudioResult) => void | Promise<void>;
+}
+
+const PREVIEW_LONG_EDGE = 640;
+
+/**
+ * Thumbnail editor: pick one of the auto-selected frames or an image of
+ * your own, crop it to a preset, adjust brightness, add a caption and
+ * export WebP at every thumbnail size. Rendered on top of upload and edit
+ * forms, so every button here is type="button".
+ */
+export default function ThumbnailStudio({
+  isOpen,
+  frameSource,
+  initialImageUrl,
+  onClose,
+  onExport,
+}: ThumbnailStudioProps) {
+  const [candidates, setCandidates] = useState<ThumbnailCandidate[]>([]);
+  const [candidatesLoading, setCandidatesLoading] = useState(false);
+  const [imageSrc, setImageSrc] = useState<string | null>(initialImageUrl ?? null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [edit, setEdit] = useState<ThumbnailEdit>(DEFAULT_THUMBNAIL_EDIT);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const customUrlRef = useRef<string | null>(null);
+  const scannedSourceRef = useRef<FrameSource | null>(null);
+  const candidateUrlsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (initialImageUrl) setImageSrc(initialImageUrl);
+  }, [initialImageUrl]);
+
+  // Pick candidate frames the first time the studio opens on a video
+  useEffect(() => {
+    if (!isOpen || !frameSource || scannedSourceRef.current === frameSource) return;
+
+    let cancelled = false;
+    setCandidates([]);
+    setCandidatesLoading(true);
+    setError(null);
+
+    extractCandidateFrames(frameSource)
+      .then((frames) => {
+        if (cancelled) return;
+        scannedSourceRef.current = frameSource;
+        setCandidates(frames);
+        // Keep a custom or current image; replace frames of an earlier video
+        const previous = candidateUrlsRef.current;
+        candidateUrlsRef.current = new Set(frames.map((frame) => frame.dataUrl));
+        setImageSrc((current) => (current && !previous.has(current) ? current : frames[0]?.dataUrl ?? null));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read frames from the video');
+      })
+      .finally(() => {
+        if (!cancelled) setCandidatesLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, frameSource]);
+
+  useEffect(() => {
+    if (!imageSrc) {
+      setImage(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadImage(imageSrc)
+      .then((loaded) => {
+        if (!cancelled) setImage(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setError('This image could not be loaded for editing');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc]);
+
+  useEffect(() => {
+    if (image && previewRef.current) {
+      renderThumbnail(previewRef.current, image, edit, PREVIEW_LONG_EDGE);
+    }
+  }, [image, edit]);
+
+  useEffect(() => () => {
+    if (customUrlRef.current) URL.revokeObjectURL(customUrlRef.current);
+  }, []);
+
+  if (!isOpen) return null;
+
+  const updateEdit = (changes: Partial<ThumbnailEdit>) => setEdit((current) => ({ ...current, ...changes }));
+
+  const handleCustomImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Please choose an image file');
+      return;
+    }
+
+    if (customUrlRef.current) URL.revokeObjectURL(customUrlRef.current);
+    customUrlRef.current = URL.createObjectURL(file);
+    setError(null);
+    setImageSrc(customUrlRef.current);
+    updateEdit({ zoom: 1, offsetX: 0, offsetY: 0 });
+  };
+
+  const handleExport = async () => {
+    if (!image || !previewRef.current) return;
+
+    setExporting(true);
+    setError(null);
+    try {
+      const exports = await exportThumbnail(image, edit);
+      await onExport({ exports, previewUrl: previewRef.current.toDataURL('image/webp', 0.8) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export thumbnail');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-gray-900 rounded-2xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto border border-gray-800">
+        <div className="flex items-center justify-between p-6 border-b border-gray-800">
+          <h3 className="text-xl font-bold text-white">Thumbnail Studio</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={exporting}
+            className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 grid md:grid-cols-[1fr_280px] gap-6">
+          <div className="space-y-4">
+            <div className="bg-black rounded-lg overflow-hidden flex items-center justify-center min-h-[240px]">
+              {image ? (
+                <canvas ref={previewRef} className="max-w-full max-h-[50vh] h-auto" />
+              ) : (
+                <div className="flex flex-col items-center gap-2 text-gray-500 py-12">
+                  {candidatesLoading ? (
+                    <>
+                      <Loader2 className="w-8 h-8 animate-spin" />
+                      <span className="text-sm">Finding the best frames...</span>
+                    </>
+                  ) : (
+                    <>
+                      <ImageIcon className="w-8 h-8" />
+                      <span className="text-sm">Pick a frame or upload an image</span>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {frameSource && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <Sparkles className="w-4 h-4 text-rose-400" />
+                  <span className="text-sm font-medium text-white">Suggested frames</span>
+                </div>
+                {candidatesLoading ? (
+                  <p className="text-sm text-gray-400">Scanning the video...</p>
+                ) : (
+                  <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+                    {candidates.map((candidate) => (
+                      <button
+                        key={candidate.time}
+                        type="button"
+                        onClick={() => setImageSrc(candidate.dataUrl)}
+                        className={`relative aspect-video rounded overflow-hidden border-2 transition-colors ${
+                          imageSrc === candidate.dataUrl ? 'border-rose-400' : 'border-transparent hover:border-gray-600'
+                        }`}
+                      >
+                        <img src={candidate.dataUrl} alt={`Frame at ${formatDuration(candidate.time)}`} className="w-full h-full object-cover" />
+                        <span className="absolute bottom-0 right-0 px-1 text-[10px] bg-black/70 text-white">
+                          {formatDuration(candidate.time)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <input ref={fileInputRef} type="file" accept="image/*" onChange={handleCustomImage} className="hidden" />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={exporting}
+              className="flex items-center gap-2 px-3 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors text-sm disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4" />
+              Use my own image
+            </button>
+          </div>
+
+          <div className="space-y-5">
+            <div>
+              <span className="block text-sm font-medium text-white mb-2">Crop</span>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(ASPECT_PRESETS) as ThumbnailAspect[]).map((aspect) => (
+                  <button
+                    key={aspect}
+                    type="button"
+                    onClick={() => updateEdit({ aspect })}
+                    className={`px-2 py-2 rounded-lg text-xs transition-colors ${
+                      edit.aspect === aspect
+                        ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
+                        : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    <span className="block font-semibold">{aspect}</span>
+                    <span className="block">{ASPECT_PRESETS[aspect].label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="block">
+              <span className="block text-sm font-medium text-white mb-1">Zoom</span>
+              <input
+                type="range"
+                min={1}
+                max={3}
+                step={0.05}
+                value={edit.zoom}
+                onChange={(e) => updateEdit({ zoom: parseFloat(e.target.value) })}
+                className="w-full accent-rose-400"
+              />
+            </label>
+
+            <label className="block">
+              <span className="block text-sm font-medium text-white mb-1">Horizontal position</span>
+              <input
+                type="range"
+                min={-1}
+                max={1}
+                step={0.01}
+                value={edit.offsetX}
+                onChange={(e) => updateEdit({ offsetX: parseFloat(e.target.value) })}
+                className="w-full accent-rose-400"
+              />
+            </label>
+
+            <label className="block">
+              <span className="block text-sm font-medium text-white mb-1">Vertical position</span>
+              <input
+                type="range"
+                min={-1}
+                max={1}
+                step={0.01}
+                value={edit.offsetY}
+                onChange={(e) => updateEdit({ offsetY: parseFloat(e.target.value) })}
+                className="w-full accent-rose-400"
+              />
+            </label>
+
+            <label className="block">
+              <span className="block text-sm font-medium text-white mb-1">
+                Brightness ({Math.round(edit.brightness * 100)}%)
+              </span>
+              <input
+                type="range"
+                min={0.5}
+                max={1.5}
+                step={0.05}
+                value={edit.brightness}
+                onChange={(e) => updateEdit({ brightness: parseFloat(e.target.value) })}
+                className="w-full accent-rose-400"
+              />
+            </label>
+
+            <div>
+              <span className="block text-sm font-medium text-white mb-1">Text</span>
+              <input
+                type="text"
+                value={edit.text}
+                maxLength={60}
+                onChange={(e) => updateEdit({ text: e.target.value })}
+                placeholder="Optional caption"
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 text-sm focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+              />
+              <div className="flex gap-2 mt-2">
+                {(['top', 'bottom'] as const).map((position) => (
+                  <button
+                    key={position}
+                    type="button"
+                    onClick={() => updateEdit({ textPosition: position })}
+                    className={`flex-1 px-2 py-1 rounded text-xs capitalize transition-colors ${
+                      edit.textPosition === position ? 'bg-gray-700 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {position}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              type="button"
+              onClick={() => setEdit({ ...DEFAULT_THUMBNAIL_EDIT, aspect: edit.aspect })}
+              className="text-xs text-gray-400 hover:text-white"
+            >
+              Reset adjustments
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-6 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-3 p-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={exporting}
+            className="flex-1 px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!image || exporting}
+            className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {exporting && <Loader2 className="w-4 h-4 animate-spin" />}
+            {exporting ? 'Exporting...' : 'Use thumbnail'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,11 @@ export interface Toast {
   type: ToastType;
   message: string;
   duration?: number;
+  // A button next to the message, e.g. Undo; clicking it closes the toast
+  action?: {
+    label: string;
+    onClick: () => void;
+  };
 }
 
 interface ToastProps {
@@ -51,6 +56,17 @@ function ToastItem({ toast, onClose }: ToastProps) {
     <div className={`${bgColor} border ${borderColor} rounded-lg p-4 flex items-center gap-3 mb-3 animate-in fade-in slide-in-from-top duration-300`}>
       <Icon className={`w-5 h-5 ${textColor} flex-shrink-0`} />
       <p className={`text-sm font-medium ${textColor} flex-1`}>{toast.message}</p>
+      {toast.action && (
+        <button
+          onClick={() => {
+            toast.action?.onClick();
+            onClose();
+          }}
+          className={`text-sm font-semibold underline ${textColor} hover:opacity-80`}
+        >
+          {toast.action.label}
+        </button>
+      )}
       <button
         onClick={onClose}
         className={`text-${toast.type === 'success' ? 'green' : toast.type === 'error' ? 'red' : 'blue'}-400 hover:text-${toast.type === 'success' ? 'green' : toast.type === 'error' ? 'red' : 'blue'}-600`}
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import { Crown } from 'lucide-react';
+import { ContentSource } from '../lib/contentRepository';
+import { useUpcomingReleases } from '../hooks/useUpcomingReleases';
+import ContentCountdownTimer from './ContentCountdownTimer';
+import ResponsiveImage from './ResponsiveImage';
+
+interface UpcomingReleasesRowProps {
+  destination: ContentSource;
+  // Called when one of the releases goes out, to reload the page's content
+  onReleased?: () => void;
+  title?: string;
+  className?: string;
+}
+
+/**
+ * Scheduled releases from creators the viewer follows, each with a
+ * countdown. Only the teaser is shown; the item appears on the page once
+ * the scheduled job publishes it. Renders nothing when signed out or when
+ * nothing is scheduled.
+ */
+export default function UpcomingReleasesRow({
+  destination,
+  onReleased,
+  title = 'Coming soon',
+  className = 'mb-8',
+}: UpcomingReleasesRowProps) {
+  const { releases, refresh } = useUpcomingReleases(destination);
+  // Releases due together share one reload
+  const [reloadPending, setReloadPending] = useState(false);
+  const onReleasedRef = useRef(onReleased);
+
+  useEffect(() => {
+    onReleasedRef.current = onReleased;
+  }, [onReleased]);
+
+  // The job runs every minute, so give it a moment before reloading
+  useEffect(() => {
+    if (!reloadPending) return;
+
+    const timer = setTimeout(() => {
+      setReloadPending(false);
+      refresh();
+      onReleasedRef.current?.();
+    }, 60000);
+    return () => clearTimeout(timer);
+  }, [reloadPending, refresh]);
+
+  if (releases.length === 0) return null;
+
+  const handleReleased = () => setReloadPending(true);
+
+  return (
+    <div className={className}>
+      <h2 className="text-xl font-semibold text-white mb-4">{title}</h2>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {releases.map((release) => (
+          <div
+            key={`${release.source}-${release.id}`}
+            className="flex-shrink-0 w-64 bg-slate-800 rounded-lg overflow-hidden"
+          >
+            <div className="relative aspect-video bg-gray-800">
+              <ResponsiveImage
+                src={release.thumbnail_url}
+                variants={release.thumbnail_variants}
+                placeholder={release.thumbnail_placeholder}
+                sizes="256px"
+                alt={release.title}
+                className="w-full h-full object-cover"
+              />
+              {release.is_premium && (
+                <span className="absolute top-2 left-2 flex items-center gap-1 px-2 py-1 bg-yellow-400/90 text-black text-xs font-bold rounded">
+                  <Crown className="w-3 h-3" />
+                  PREMIUM
+                </span>
+              )}
+            </div>
+            <div className="p-3 space-y-2">
+              <div>
+                <p className="text-white text-sm font-semibold truncate">{release.title}</p>
+                <p className="text-gray-400 text-xs truncate">{release.creator}</p>
+              </div>
+              <ContentCountdownTimer releaseAt={release.publish_at} onReleased={handleReleased} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Upload, Loader2, CheckCircle, AlertCircle, XCircle, RotateCcw, X } from 'lucide-react';
+import { useProcessingJobs } from '../hooks/useProcessingJobs';
+import { JOB_STATE_LABELS, ProcessingJob, isActiveJob } from '../lib/processingJobs';
+
+function JobStateIcon({ job }: { job: ProcessingJob }) {
+  switch (job.state) {
+    case 'ready':
+      return <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0" />;
+    case 'errored':
+      return <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />;
+    case 'cancelled':
+      return <XCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />;
+    default:
+      return <Loader2 className="w-4 h-4 text-rose-400 animate-spin flex-shrink-0" />;
+  }
+}
+
+function jobTitle(job: ProcessingJob) {
+  return job.title || job.storage_key.split('/').pop() || 'Untitled video';
+}
+
+/**
+ * Navbar dropdown listing the user's video processing jobs. Jobs update
+ * live, so an upload can be followed from any page.
+ */
+export default function UploadsTray() {
+  const { jobs, activeCount, error, retry, cancel, dismiss } = useProcessingJobs();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-full text-white hover:bg-white/10 transition-colors"
+        title="Video uploads"
+      >
+        <Upload className="w-5 h-5" />
+        {activeCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-rose-500 text-[10px] font-bold leading-[1.1rem] text-center">
+            {activeCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-gray-800 rounded-lg shadow-xl border border-gray-700 z-50">
+          <div className="px-4 py-3 border-b border-gray-700 text-sm font-medium text-white">
+            Video uploads
+          </div>
+          {error && (
+            <div className="px-4 py-2 text-xs text-red-400 border-b border-gray-700">{error}</div>
+          )}
+          <ul className="max-h-80 overflow-y-auto py-1">
+            {jobs.map(job => (
+              <li key={job.id} className="flex items-start gap-3 px-4 py-2">
+                <JobStateIcon job={job} />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white truncate">{jobTitle(job)}</div>
+                  <div className="text-xs text-gray-400">{JOB_STATE_LABELS[job.state]}</div>
+                  {job.state === 'errored' && job.error_message && (
+                    <div className="text-xs text-red-400 mt-0.5 break-words">{job.error_message}</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  {job.state === 'errored' && (
+                    <button
+                      onClick={() => retry(job)}
+                      className="p-1 rounded text-gray-300 hover:text-white hover:bg-white/10"
+                      title="Retry"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  {isActiveJob(job) ? (
+                    <button
+                      onClick={() => cancel(job.id)}
+                      className="p-1 rounded text-gray-300 hover:text-white hover:bg-white/10"
+                      title="Cancel"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => dismiss(job.id)}
+                      className="p-1 rounded text-gray-300 hover:text-white hover:bg-white/10"
+                      title="Dismiss"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
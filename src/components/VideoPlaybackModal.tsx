@@ -1,6 +1,15 @@
-import React, { useState } from 'react';
-import { X, Heart, Share2, Eye } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { X, Heart, Share2, Eye, Loader2, Lock, PictureInPicture2 } from 'lucide-react';
 import MuxPlayer from './MuxPlayer';
+import { formatDuration } from '../lib/formatDuration';
+import { ContentSource } from '../lib/contentRepository';
+import { useCaptionTracks } from '../hooks/useCaptionTracks';
+import { usePlaybackAccess } from '../hooks/usePlaybackAccess';
+import { usePlaybackAnalytics } from '../hooks/usePlaybackAnalytics';
+import { usePlaybackPosition } from '../hooks/usePlaybackPosition';
+import { usePlayer } from '../hooks/usePlayer';
+import type { PlayerEvent } from '../lib/playbackAnalytics';
+import { toPlayerItem } from '../lib/playerQueue';
 
 interface ContentItem {
   id: string;
@@ -10,10 +19,11 @@ interface ContentItem {
   description?: string;
   thumbnail_url: string;
   content_url: string;
-  duration?: string;
+  duration_seconds?: number | null;
   like_count: number;
   views_count?: number;
   type: string;
+  is_premium?: boolean;
 }
 
 interface VideoPlaybackModalProps {
@@ -24,6 +34,9 @@ interface VideoPlaybackModalProps {
   onLikeToggle: (contentId: string) => void;
   onFollowToggle?: (creator: string) => void;
   isFollowing?: boolean;
+  // Content table the item comes from, used to load its caption tracks
+  // and premium playback credentials, and to attribute watch time
+  source?: ContentSource;
 }
 
 export default function VideoPlaybackModal({
@@ -34,11 +47,56 @@ export default function VideoPlaybackModal({
   onLikeToggle,
   onFollowToggle,
   isFollowing,
+  source,
 }: VideoPlaybackModalProps) {
   const [duration, setDuration] = useState<number | null>(null);
+  const { tracks: captions } = useCaptionTracks(isOpen ? source : undefined, content?.id);
+  const { access, error: accessError, premiumRequired } = usePlaybackAccess(
+    isOpen ? source : undefined,
+    content?.id,
+    content?.is_premium
+  );
+  const trackPlayback = usePlaybackAnalytics(isOpen ? source : undefined, content?.id);
+  const { resumeAt, record: recordPosition } = usePlaybackPosition(isOpen ? source : undefined, content?.id);
+  const { play: playInMiniPlayer, pause: pauseMiniPlayer } = usePlayer();
+  const positionRef = useRef(0);
+
+  // One thing plays at a time
+  useEffect(() => {
+    if (isOpen) pauseMiniPlayer();
+    positionRef.current = 0;
+  }, [isOpen, content?.id, pauseMiniPlayer]);
+
+  const handlePlaybackEvent = useCallback((event: PlayerEvent) => {
+    positionRef.current = event.position;
+    trackPlayback(event);
+    recordPosition(event);
+  }, [trackPlayback, recordPosition]);
+
+  // Signed files play in a plain <video>; its events only feed the saved
+  // position
+  const handleVideoEvent = (type: PlayerEvent['type']) => (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    positionRef.current = video.currentTime;
+    recordPosition({ type, position: video.currentTime, duration: video.duration });
+  };
+
+  const handleVideoLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    setDuration(video.duration);
+    if (resumeAt && resumeAt < video.duration - 1) video.currentTime = resumeAt;
+  };
 
   if (!isOpen || !content) return null;
 
+  // Carry on from the same position in the mini-player, which keeps
+  // playing after the modal closes and across pages
+  const handleMinimize = () => {
+    if (!source) return;
+    playInMiniPlayer(toPlayerItem(content, source), { startAt: positionRef.current });
+    onClose();
+  };
+
   // Extract playback ID from Mux stream URL or use it directly
   const getPlaybackId = () => {
     if (!content.content_url) return '';
@@ -57,18 +115,12 @@ export default function VideoPlaybackModal({
     return '';
   };
 
-  const playbackId = getPlaybackId();
-
-  const formatDuration = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-
-    if (hours > 0) {
-      return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
-    }
-    return `${minutes}:${String(secs).padStart(2, '0')}`;
-  };
+  // Signed content plays from the playback ID the token was issued for
+  const playbackId = access && 'playbackId' in access ? access.playbackId : getPlaybackId();
+  const tokens = access && 'tokens' in access ? access.tokens : undefined;
+  const signedUrl = access && 'url' in access ? access.url : undefined;
+  // The stored duration shows before the player has loaded the stream
+  const durationLabel = formatDuration(content.duration_seconds ?? duration);
 
   return (
     <div
@@ -83,12 +135,23 @@ export default function VideoPlaybackModal({
         {/* Close Button */}
         <div className="sticky top-0 flex justify-between items-center p-4 border-b border-white/10 bg-gray-900/80 backdrop-blur z-10">
           <h2 className="text-xl font-bold text-white">{content.title}</h2>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
-          >
-            <X className="w-6 h-6 text-gray-400 hover:text-white" />
-          </button>
+          <div className="flex items-center gap-1">
+            {source && !premiumRequired && (
+              <button
+                onClick={handleMinimize}
+                className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                title="Keep playing in the mini-player"
+              >
+                <PictureInPicture2 className="w-6 h-6 text-gray-400 hover:text-white" />
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6 text-gray-400 hover:text-white" />
+            </button>
+          </div>
         </div>
 
         {/* Scrollable Content Wrapper */}
@@ -96,12 +159,45 @@ export default function VideoPlaybackModal({
           {/* Video Player Section */}
           <div className="bg-black p-6 flex justify-center">
             <div className="w-full max-w-4xl">
-              {playbackId ? (
+              {premiumRequired ? (
+                <div className="w-full bg-gray-800 rounded-lg flex flex-col items-center justify-center gap-3 text-center p-6" style={{ aspectRatio: '16/9' }}>
+                  <Lock className="w-10 h-10 text-amber-400" />
+                  <p className="text-white font-semibold">Premium content</p>
+                  <p className="text-gray-400 text-sm max-w-sm">Upgrade your plan to watch this video.</p>
+                </div>
+              ) : accessError ? (
+                <div className="w-full bg-gray-800 rounded-lg flex items-center justify-center" style={{ aspectRatio: '16/9' }}>
+                  <p className="text-red-400">{accessError}</p>
+                </div>
+              ) : !access ? (
+                <div className="w-full bg-gray-800 rounded-lg flex items-center justify-center" style={{ aspectRatio: '16/9' }}>
+                  <Loader2 className="w-8 h-8 text-gray-400 animate-spin" />
+                </div>
+              ) : signedUrl ? (
+                <video
+                  src={signedUrl}
+                  poster={content.thumbnail_url}
+                  controls
+                  className="w-full bg-black rounded-lg"
+                  style={{ aspectRatio: '16/9' }}
+                  onLoadedMetadata={handleVideoLoadedMetadata}
+                  onTimeUpdate={handleVideoEvent('heartbeat')}
+                  onPause={handleVideoEvent('pause')}
+                  onSeeked={handleVideoEvent('seek')}
+                  onEnded={handleVideoEvent('ended')}
+                />
+              ) : playbackId ? (
                 <MuxPlayer
                   playbackId={playbackId}
                   thumbnailUrl={content.thumbnail_url}
                   title={content.title}
                   onDurationChange={(seconds) => setDuration(seconds)}
+                  captions={captions}
+                  onPlaybackEvent={handlePlaybackEvent}
+                  startTime={resumeAt}
+                  playbackToken={tokens?.playback}
+                  thumbnailToken={tokens?.thumbnail}
+                  storyboardToken={tokens?.storyboard}
                 />
               ) : (
                 <div className="w-full bg-gray-800 rounded-lg flex items-center justify-center" style={{ aspectRatio: '16/9' }}>
@@ -123,9 +219,9 @@ export default function VideoPlaybackModal({
                     <span>{content.views_count.toLocaleString()} views</span>
                   </div>
                 )}
-                {duration && (
+                {durationLabel && (
                   <div className="flex items-center space-x-2">
-                    <span>Duration: {formatDuration(duration)}</span>
+                    <span>Duration: {durationLabel}</span>
                   </div>
                 )}
                 <div className="flex items-center space-x-2">
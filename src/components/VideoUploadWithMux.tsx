@@ -1,8 +1,9 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { useVideoUpload } from '../hooks/useVideoUpload';
-import { supabase } from '../lib/supabase';
-import { Upload, X, Film, Loader, Check, AlertCircle } from 'lucide-react';
-import VideoFrameSelector from './VideoFrameSelector';
+import { createContent } from '../lib/contentRepository';
+import { FrameSource, thumbnailColumns, uploadThumbnailVariants } from '../lib/thumbnails';
+import { Upload, X, Film, Loader, Check, AlertCircle, Wand2 } from 'lucide-react';
+import ThumbnailStudio, { ThumbnailStudioResult } from './ThumbnailStudio';
 
 interface VideoUploadWithMuxProps {
   userId: string;
@@ -19,8 +20,8 @@ export default function VideoUploadWithMux({ userId, userName, onSuccess }: Vide
   const [dragActive, setDragActive] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
   const [isSavingContent, setIsSavingContent] = useState(false);
-  const [selectedFrameDataUrl, setSelectedFrameDataUrl] = useState<string | null>(null);
-  const [selectedFrameTimestamp, setSelectedFrameTimestamp] = useState<number | null>(null);
+  const [editedThumbnail, setEditedThumbnail] = useState<ThumbnailStudioResult | null>(null);
+  const [thumbnailStudioOpen, setThumbnailStudioOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const {
@@ -32,9 +33,15 @@ export default function VideoUploadWithMux({ userId, userName, onSuccess }: Vide
     playbackId,
     uploadId,
     uploadVideo,
+    cancelUpload,
     resetState,
   } = useVideoUpload();
 
+  const thumbnailFrameSource = useMemo<FrameSource | null>(
+    () => (videoFile ? { kind: 'file', file: videoFile } : null),
+    [videoFile]
+  );
+
   const ALLOWED_VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/quicktime', 'video/x-msvideo'];
 
   const isValidVideoFile = (file: File): boolean => {
@@ -98,37 +105,6 @@ export default function VideoUploadWithMux({ userId, userName, onSuccess }: Vide
     await uploadVideo(videoFile, userId);
   };
 
-  const uploadCustomThumbnail = async (frameDataUrl: string): Promise<string> => {
-    try {
-      // Convert data URL to blob
-      const response = await fetch(frameDataUrl);
-      const blob = await response.blob();
-
-      // Create unique filename
-      const timestamp = Date.now();
-      const filename = `thumbnails/${userId}/${timestamp}-thumbnail.jpg`;
-
-      // Upload to Supabase storage
-      const { data, error } = await supabase.storage
-        .from('media_page_content')
-        .upload(filename, blob, {
-          contentType: 'image/jpeg',
-          upsert: false,
-        });
-
-      if (error) throw error;
-
-      // Get public URL
-      const { data: publicUrlData } = supabase.storage
-        .from('media_page_content')
-        .getPublicUrl(filename);
-
-      return publicUrlData.publicUrl;
-    } catch (err) {
-      throw new Error(`Failed to upload thumbnail: ${err instanceof Error ? err.message : 'Unknown error'}`);
-    }
-  };
-
   const handleSaveContent = async () => {
     if (!title || !playbackId) {
       setLocalError('Missing required information');
@@ -139,41 +115,34 @@ export default function VideoUploadWithMux({ userId, userName, onSuccess }: Vide
     setLocalError(null);
 
     try {
-      // Use selected frame thumbnail if available, otherwise use Mux default
-      let thumbnailUrl = `https://image.mux.com/${playbackId}/thumbnail.jpg`;
-
-      if (selectedFrameDataUrl) {
-        thumbnailUrl = await uploadCustomThumbnail(selectedFrameDataUrl);
-      }
-
-      const { error } = await supabase.from('media_page_content').insert([
-        {
-          user_id: userId,
-          title: title.trim(),
-          creator: userName,
-          description: description.trim() || null,
-          type: 'music-video',
-          category: category || null,
-          thumbnail_url: thumbnailUrl,
-          content_url: `https://stream.mux.com/${playbackId}.m3u8`,
-          status: 'published',
-          publication_destination: 'media',
-          published_to: ['media'],
-          views_count: 0,
-          like_count: 0,
-          is_premium: false,
-        },
-      ]);
-
-      if (error) throw error;
+      // Use the studio's thumbnail if one was made, otherwise the Mux default
+      const thumbnailFields = editedThumbnail
+        ? thumbnailColumns(await uploadThumbnailVariants(editedThumbnail.exports, userId))
+        : { thumbnail_url: `https://image.mux.com/${playbackId}/thumbnail.jpg` };
+
+      await createContent('media', {
+        user_id: userId,
+        title: title.trim(),
+        creator: userName,
+        description: description.trim() || null,
+        type: 'music-video',
+        category: category || null,
+        ...thumbnailFields,
+        content_url: `https://stream.mux.com/${playbackId}.m3u8`,
+        status: 'published',
+        publication_destination: 'media',
+        published_to: ['media'],
+        views_count: 0,
+        like_count: 0,
+        is_premium: false,
+      });
 
       // Reset form
       setTitle('');
       setDescription('');
       setCategory('');
       setVideoFile(null);
-      setSelectedFrameDataUrl(null);
-      setSelectedFrameTimestamp(null);
+      setEditedThumbnail(null);
       resetState();
       setIsOpen(false);
       onSuccess();
@@ -185,14 +154,14 @@ export default function VideoUploadWithMux({ userId, userName, onSuccess }: Vide
   };
 
   const handleClose = () => {
+    cancelUpload();
     setIsOpen(false);
     setVideoFile(null);
     setTitle('');
     setDescription('');
     setCategory('');
     setLocalError(null);
-    setSelectedFrameDataUrl(null);
-    setSelectedFrameTimestamp(null);
+    setEditedThumbnail(null);
     resetState();
   };
 
@@ -260,6 +229,18 @@ export default function VideoUploadWithMux({ userId, userName, onSuccess }: Vide
                         {isUploading ? 'Uploading...' : 'Processing video...'}
                       </span>
                       <span className="text-sm text-slate-500">{Math.round(progress)}%</span>
+                      {isUploading && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            cancelUpload();
+                          }}
+                          className="text-sm text-red-600 hover:text-red-700 font-medium"
+                        >
+                          Cancel upload
+                        </button>
+                      )}
                     </>
                   ) : (
                     <>
@@ -334,15 +315,29 @@ export default function VideoUploadWithMux({ userId, userName, onSuccess }: Vide
               </div>
 
               {videoFile && (
-                <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
-                  <VideoFrameSelector
-                    videoFile={videoFile}
-                    onFrameSelect={(frameDataUrl, timestamp) => {
-                      setSelectedFrameDataUrl(frameDataUrl);
-                      setSelectedFrameTimestamp(timestamp);
-                    }}
-                    selectedTimestamp={selectedFrameTimestamp ?? undefined}
-                  />
+                <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                  <div>
+                    <p className="text-sm font-medium text-slate-700">Thumbnail</p>
+                    <p className="text-xs text-slate-500">
+                      Pick one of the best frames from your video, crop it and add text. Without one, Mux picks a frame.
+                    </p>
+                  </div>
+                  {editedThumbnail && (
+                    <img
+                      src={editedThumbnail.previewUrl}
+                      alt="Selected thumbnail"
+                      className="w-full h-auto rounded-lg border border-slate-200 object-contain bg-black"
+                      style={{ maxHeight: '200px' }}
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setThumbnailStudioOpen(true)}
+                    className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 text-sm font-medium transition"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                    {editedThumbnail ? 'Edit thumbnail' : 'Open Thumbnail Studio'}
+                  </button>
                 </div>
               )}
             </>
@@ -361,11 +356,11 @@ export default function VideoUploadWithMux({ userId, userName, onSuccess }: Vide
                 </div>
               </div>
 
-              {selectedFrameDataUrl && (
+              {editedThumbnail && (
                 <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
                   <p className="text-sm font-medium text-slate-700 mb-3">Your Selected Thumbnail</p>
                   <img
-                    src={selectedFrameDataUrl}
+                    src={editedThumbnail.previewUrl}
                     alt="Selected thumbnail"
                     className="w-full h-auto rounded-lg border border-slate-200 object-cover"
                     style={{ maxHeight: '200px' }}
@@ -456,6 +451,16 @@ export default function VideoUploadWithMux({ userId, userName, onSuccess }: Vide
           </div>
         </form>
       </div>
+
+      <ThumbnailStudio
+        isOpen={thumbnailStudioOpen}
+        frameSource={thumbnailFrameSource}
+        onClose={() => setThumbnailStudioOpen(false)}
+        onExport={(result) => {
+          setEditedThumbnail(result);
+          setThumbnailStudioOpen(false);
+        }}
+      />
     </div>
   );
 }
@@ -1,25 +1,30 @@
 import { useState, useRef } from 'react';
 import { X, Film, Loader, Check, AlertCircle, Upload } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { extractDuration } from '../lib/getDuration';
+import { uploadToB2 } from '../lib/b2Upload';
+import { submitVideoForProcessing, waitForProcessingJob } from '../lib/processingJobs';
 
 interface VideoUploadWithMuxForMasterclassProps {
   userId: string;
-  onVideoSelected: (playbackId: string, videoUploadId: string, duration?: string) => void;
+  // Premium videos are created with a signed playback ID
+  premium?: boolean;
+  // The local file is passed along so thumbnail frames can be picked
+  // without waiting on Mux; `premium` is the policy the video was created with
+  onVideoSelected: (playbackId: string, videoUploadId: string, videoFile: File, premium: boolean) => void;
 }
 
 export default function VideoUploadWithMuxForMasterclass({
   userId,
+  premium = false,
   onVideoSelected
 }: VideoUploadWithMuxForMasterclassProps) {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [playbackId, setPlaybackId] = useState<string | null>(null);
   const [videoUploadId, setVideoUploadId] = useState<string | null>(null);
-  const [videoDuration, setVideoDuration] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const ALLOWED_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
@@ -49,65 +54,43 @@ export default function VideoUploadWithMuxForMasterclass({
     }
 
     setIsUploading(true);
+    setUploadProgress(0);
     setError(null);
 
     try {
-      // 0️⃣ EXTRACT VIDEO DURATION
-      let extractedDuration: string | null = null;
-      try {
-        extractedDuration = await extractDuration(videoFile);
-        setVideoDuration(extractedDuration);
-      } catch (durationError) {
-        extractedDuration = null;
-      }
-      // 1️⃣ UPLOAD TO B2 USING SERVER-SIDE FUNCTION (NO CORS)
-      const filename = `masterclass_videos/${userId}/${Date.now()}-${videoFile.name}`;
-
-      const formData = new FormData();
-      formData.append("file", videoFile);
-      formData.append("filename", filename);
-      formData.append("contentType", videoFile.type);
-
-      const uploadRes = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/upload-to-b2`,
+      // 1️⃣ UPLOAD STRAIGHT TO B2 IN RESUMABLE CHUNKS
+      const { key: filename, error: uploadError } = await uploadToB2(
+        videoFile,
+        `masterclass_videos/${userId}`,
         {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          },
-          body: formData,
+          contentType: videoFile.type,
+          onProgress: ({ percent }) => setUploadProgress(percent),
         }
       );
 
-      if (!uploadRes.ok) throw new Error("Upload to storage failed");
+      if (uploadError || !filename) throw new Error(uploadError || "Upload to storage failed");
       setIsUploading(false);
       setIsProcessing(true);
 
       // 2️⃣ PROCESS WITH EM
-      const processRes = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-masterclass-video`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          },
-          body: JSON.stringify({
-            filename,
-            userId
-          }),
-        }
+      // Sent with the user's session; the function attributes the upload
+      // to the token's user, not to anything in the body
+      const { jobId } = await submitVideoForProcessing(
+        "masterclass_video_uploads",
+        filename,
+        videoFile.name,
+        premium
       );
 
-      if (!processRes.ok) throw new Error("Failed to process with em");
+      // 3️⃣ WAIT FOR THE PROCESSING JOB TO BECOME READY
+      const job = await waitForProcessingJob(jobId);
 
-      const muxData = await processRes.json();
-      const assetId = muxData.data?.id;
+      if (!job.playback_id || !job.upload_id) throw new Error("em playback ID missing");
 
-      if (!assetId) throw new Error("em asset ID missing");
-
-      // 3️⃣ POLL masterclass_video_uploads FOR playback_id
-      await pollMuxStatus(assetId, extractedDuration);
+      setPlaybackId(job.playback_id);
+      setVideoUploadId(job.upload_id);
+      onVideoSelected(job.playback_id, job.upload_id, videoFile, job.playback_policy === 'signed');
+      setIsProcessing(false);
 
     } catch (err: any) {
       setError(err.message || "Upload failed");
@@ -116,36 +99,13 @@ export default function VideoUploadWithMuxForMasterclass({
     }
   }
 
-  async function pollMuxStatus(assetId: string, duration: string | null = null, tries = 0): Promise<void> {
-    const { data, error } = await supabase
-      .from("masterclass_video_uploads")
-      .select("id, playback_id, status")
-      .eq("asset_id", assetId)
-      .single();
-
-    if (error) throw new Error("Failed to check video status");
-
-    if (data.playback_id && data.status === "ready") {
-      setPlaybackId(data.playback_id);
-      setVideoUploadId(data.id);
-      onVideoSelected(data.playback_id, data.id, duration || undefined);
-      setIsProcessing(false);
-      return;
-    }
-
-    if (tries > 120) throw new Error("em took too long");
-
-    await new Promise(r => setTimeout(r, 1000));
-    return pollMuxStatus(assetId, duration, tries + 1);
-  }
-
   function reset() {
     setVideoFile(null);
     setPlaybackId(null);
     setVideoUploadId(null);
-    setVideoDuration(null);
     setError(null);
     setIsUploading(false);
+    setUploadProgress(0);
     setIsProcessing(false);
   }
 
@@ -185,7 +145,20 @@ export default function VideoUploadWithMuxForMasterclass({
         onClick={() => fileInputRef.current?.click()}
       >
         {isUploading || isProcessing ? (
-          <Loader className="w-6 h-6 animate-spin mx-auto text-purple-600" />
+          <>
+            <Loader className="w-6 h-6 animate-spin mx-auto text-purple-600" />
+            <p className="mt-2 text-gray-700">
+              {isUploading ? `Uploading... ${Math.round(uploadProgress)}%` : 'Processing video...'}
+            </p>
+            {isUploading && (
+              <div className="mt-3 w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-purple-600 transition-all"
+                  style={{ width: `${uploadProgress}%` }}
+                />
+              </div>
+            )}
+          </>
         ) : (
           <>
             <Film className="w-6 h-6 mx-auto text-gray-600" />
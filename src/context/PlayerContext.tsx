@@ -0,0 +1,349 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { usePlaybackAnalytics } from '../hooks/usePlaybackAnalytics';
+import { usePlaybackPosition } from '../hooks/usePlaybackPosition';
+import type { PlayerEvent } from '../lib/playbackAnalytics';
+import {
+  EMPTY_QUEUE,
+  PlayerItem,
+  PlayerQueue,
+  appendToQueue,
+  createQueue,
+  currentItem,
+  jumpTo as jumpToIndex,
+  loadPlayerState,
+  nextRepeatMode,
+  removeFromQueue,
+  savePlayerState,
+  setShuffle,
+  stepQueue,
+} from '../lib/playerQueue';
+import { PlayOptions, PlayerContext, PlayerMediaElement } from './PlayerContextValue';
+
+// While playing, report the position at least this often (as MuxPlayer does)
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const SAVE_INTERVAL_MS = 5 * 1000;
+// "Previous" restarts the current item once it has played this long
+const RESTART_THRESHOLD_SECONDS = 3;
+// A saved position that loads after playback started only applies this early
+const RESUME_GRACE_SECONDS = 5;
+
+/**
+ * App-level player. Owns the queue and drives the media element rendered by
+ * MiniPlayer, so playback carries on across routes. Reports watch time like
+ * the modal players, publishes the current item to the Media Session API
+ * (lock screen and hardware keys) and keeps the queue and position in
+ * localStorage to resume, paused, after a reload.
+ */
+export function PlayerProvider({ children }: { children: React.ReactNode }) {
+  const [initial] = useState(loadPlayerState);
+  const [queue, setQueue] = useState<PlayerQueue>(initial.queue);
+  const [media, setMedia] = useState<PlayerMediaElement | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [duration, setDuration] = useState(0);
+
+  const queueRef = useRef(queue);
+  const mediaRef = useRef<PlayerMediaElement | null>(null);
+  const positionRef = useRef(initial.position);
+  // Applied when the next item's metadata has loaded
+  const pendingRef = useRef({ startAt: initial.position, autoplay: false });
+
+  const current = currentItem(queue);
+  const trackPlayback = usePlaybackAnalytics(current?.source, current?.id);
+  const trackRef = useRef(trackPlayback);
+  trackRef.current = trackPlayback;
+  const { resumeAt, record: recordPosition } = usePlaybackPosition(current?.source, current?.id);
+  const recordRef = useRef(recordPosition);
+  recordRef.current = recordPosition;
+
+  const attachMedia = useCallback((element: HTMLElement | null) => {
+    mediaRef.current = element as PlayerMediaElement | null;
+    setMedia(element as PlayerMediaElement | null);
+  }, []);
+
+  const changeQueue = useCallback((nextQueue: PlayerQueue, startAt: number, autoplay: boolean) => {
+    const sameItem = currentItem(nextQueue)?.id === currentItem(queueRef.current)?.id;
+    queueRef.current = nextQueue;
+    positionRef.current = startAt;
+    setQueue(nextQueue);
+
+    // The element only reloads when the item changes
+    const element = mediaRef.current;
+    if (sameItem && element) {
+      element.currentTime = startAt;
+      if (autoplay) element.play().catch(() => setIsPlaying(false));
+      return;
+    }
+    pendingRef.current = { startAt, autoplay };
+  }, []);
+
+  const play = useCallback((item: PlayerItem, options: PlayOptions = {}) => {
+    const queueIndex = options.queue?.findIndex((queued) => queued.id === item.id) ?? -1;
+    const items = queueIndex === -1 ? [item] : options.queue!;
+    changeQueue(createQueue(items, Math.max(queueIndex, 0), queueRef.current), options.startAt ?? 0, true);
+  }, [changeQueue]);
+
+  const enqueue = useCallback((item: PlayerItem) => {
+    const nextQueue = appendToQueue(queueRef.current, item);
+    if (queueRef.current.items.length === 0) {
+      changeQueue(nextQueue, 0, true);
+    } else {
+      queueRef.current = nextQueue;
+      setQueue(nextQueue);
+    }
+  }, [changeQueue]);
+
+  const pause = useCallback(() => {
+    mediaRef.current?.pause();
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    const element = mediaRef.current;
+    if (!element) return;
+    if (element.paused) {
+      element.play().catch(() => setIsPlaying(false));
+    } else {
+      element.pause();
+    }
+  }, []);
+
+  const seek = useCallback((seconds: number) => {
+    if (mediaRef.current) mediaRef.current.currentTime = seconds;
+    positionRef.current = seconds;
+  }, []);
+
+  const next = useCallback(() => {
+    const nextQueue = stepQueue(queueRef.current, 1);
+    if (nextQueue) changeQueue(nextQueue, 0, true);
+  }, [changeQueue]);
+
+  const previous = useCallback(() => {
+    const previousQueue = positionRef.current < RESTART_THRESHOLD_SECONDS ? stepQueue(queueRef.current, -1) : null;
+    if (previousQueue) {
+      changeQueue(previousQueue, 0, true);
+    } else {
+      seek(0);
+    }
+  }, [changeQueue, seek]);
+
+  const jumpTo = useCallback((itemIndex: number) => {
+    changeQueue(jumpToIndex(queueRef.current, itemIndex), 0, true);
+  }, [changeQueue]);
+
+  const stop = useCallback(() => {
+    mediaRef.current?.pause();
+    changeQueue(EMPTY_QUEUE, 0, false);
+  }, [changeQueue]);
+
+  const remove = useCallback((itemIndex: number) => {
+    const currentQueue = queueRef.current;
+    const nextQueue = removeFromQueue(currentQueue, itemIndex);
+    if (nextQueue.items.length === 0) {
+      stop();
+    } else if (currentQueue.order[currentQueue.cursor] === itemIndex) {
+      changeQueue(nextQueue, 0, isPlaying);
+    } else {
+      queueRef.current = nextQueue;
+      setQueue(nextQueue);
+    }
+  }, [changeQueue, stop, isPlaying]);
+
+  const toggleShuffle = useCallback(() => {
+    const nextQueue = setShuffle(queueRef.current, !queueRef.current.shuffle);
+    queueRef.current = nextQueue;
+    setQueue(nextQueue);
+  }, []);
+
+  const cycleRepeat = useCallback(() => {
+    const nextQueue = { ...queueRef.current, repeat: nextRepeatMode(queueRef.current.repeat) };
+    queueRef.current = nextQueue;
+    setQueue(nextQueue);
+  }, []);
+
+  // Element events: analytics, position, queue advance and persistence
+  useEffect(() => {
+    if (!media) return;
+
+    let lastHeartbeatAt = 0;
+    let lastSavedAt = 0;
+
+    const emit = (type: PlayerEvent['type']) => {
+      lastHeartbeatAt = Date.now();
+      const event = { type, position: media.currentTime ?? 0, duration: media.duration };
+      trackRef.current(event);
+      recordRef.current(event);
+    };
+
+    const updatePositionState = () => {
+      if (!('mediaSession' in navigator) || !media.duration || !isFinite(media.duration)) return;
+      try {
+        navigator.mediaSession.setPositionState({
+          duration: media.duration,
+          position: Math.min(media.currentTime ?? 0, media.duration),
+        });
+      } catch {
+        // Not supported by this browser
+      }
+    };
+
+    const save = () => {
+      lastSavedAt = Date.now();
+      savePlayerState(queueRef.current, positionRef.current);
+    };
+
+    const handlers: Record<string, () => void> = {
+      loadedmetadata: () => {
+        setDuration(media.duration || 0);
+        const { startAt, autoplay } = pendingRef.current;
+        pendingRef.current = { startAt: 0, autoplay: false };
+        if (startAt > 0 && (!media.duration || startAt < media.duration - 1)) media.currentTime = startAt;
+        if (autoplay) media.play().catch(() => setIsPlaying(false));
+        updatePositionState();
+      },
+      durationchange: () => setDuration(media.duration || 0),
+      play: () => {
+        setIsPlaying(true);
+        emit('play');
+        updatePositionState();
+      },
+      pause: () => {
+        setIsPlaying(false);
+        emit('pause');
+        save();
+      },
+      seeked: () => {
+        emit('seek');
+        updatePositionState();
+      },
+      timeupdate: () => {
+        positionRef.current = media.currentTime ?? 0;
+        if (Date.now() - lastHeartbeatAt >= HEARTBEAT_INTERVAL_MS) emit('heartbeat');
+        if (Date.now() - lastSavedAt >= SAVE_INTERVAL_MS) save();
+      },
+      ended: () => {
+        emit('ended');
+        if (queueRef.current.repeat === 'one') {
+          media.currentTime = 0;
+          media.play().catch(() => setIsPlaying(false));
+          return;
+        }
+        const nextQueue = stepQueue(queueRef.current, 1);
+        if (nextQueue) {
+          changeQueue(nextQueue, 0, true);
+        } else {
+          positionRef.current = 0;
+          save();
+        }
+      },
+    };
+
+    for (const [name, handler] of Object.entries(handlers)) {
+      media.addEventListener(name, handler);
+    }
+    window.addEventListener('pagehide', save);
+    return () => {
+      for (const [name, handler] of Object.entries(handlers)) {
+        media.removeEventListener(name, handler);
+      }
+      window.removeEventListener('pagehide', save);
+    };
+  }, [media, changeQueue]);
+
+  useEffect(() => {
+    savePlayerState(queue, positionRef.current);
+  }, [queue]);
+
+  // Items started from the top pick up where the viewer left off, here or
+  // on another device
+  useEffect(() => {
+    if (!resumeAt) return;
+
+    const element = mediaRef.current;
+    if (element?.duration) {
+      if (element.currentTime < RESUME_GRACE_SECONDS && resumeAt < element.duration - 1) {
+        element.currentTime = resumeAt;
+      }
+    } else if (pendingRef.current.startAt === 0) {
+      pendingRef.current = { ...pendingRef.current, startAt: resumeAt };
+    }
+  }, [resumeAt]);
+
+  // Media Session: lock screen metadata and hardware media keys
+  const actionsRef = useRef({ togglePlay, next, previous, seek, stop });
+  actionsRef.current = { togglePlay, next, previous, seek, stop };
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    const handlers: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+      ['play', () => actionsRef.current.togglePlay()],
+      ['pause', () => actionsRef.current.togglePlay()],
+      ['nexttrack', () => actionsRef.current.next()],
+      ['previoustrack', () => actionsRef.current.previous()],
+      ['stop', () => actionsRef.current.stop()],
+      ['seekto', (details) => actionsRef.current.seek(details.seekTime ?? 0)],
+      ['seekbackward', (details) => actionsRef.current.seek(Math.max(positionRef.current - (details.seekOffset ?? 10), 0))],
+      ['seekforward', (details) => actionsRef.current.seek(positionRef.current + (details.seekOffset ?? 10))],
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Action not supported by this browser
+      }
+    }
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // Action not supported by this browser
+        }
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    navigator.mediaSession.metadata = current
+      ? new MediaMetadata({
+          title: current.title,
+          artist: current.creator,
+          artwork: current.thumbnail_url ? [{ src: current.thumbnail_url }] : [],
+        })
+      : null;
+  }, [current]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.playbackState = current ? (isPlaying ? 'playing' : 'paused') : 'none';
+  }, [current, isPlaying]);
+
+  return (
+    <PlayerContext.Provider
+      value={{
+        queue,
+        current,
+        isPlaying,
+        duration,
+        media,
+        play,
+        enqueue,
+        togglePlay,
+        pause,
+        next,
+        previous,
+        seek,
+        jumpTo,
+        remove,
+        toggleShuffle,
+        cycleRepeat,
+        stop,
+        attachMedia,
+      }}
+    >
+      {children}
+    </PlayerContext.Provider>
+  );
+}
@@ -0,0 +1,39 @@
+import { createContext } from 'react';
+import type { PlayerItem, PlayerQueue } from '../lib/playerQueue';
+
+// <mux-player> exposes the HTMLMediaElement playback API
+export type PlayerMediaElement = HTMLElement &
+  Pick<HTMLMediaElement, 'play' | 'pause' | 'paused' | 'currentTime' | 'duration'>;
+
+export interface PlayOptions {
+  // Items to queue around `item`; defaults to just the item
+  queue?: PlayerItem[];
+  startAt?: number;
+}
+
+export interface PlayerContextType {
+  queue: PlayerQueue;
+  current: PlayerItem | null;
+  isPlaying: boolean;
+  duration: number;
+  // For the mini-player's progress bar; the position is not kept in state
+  // here so pages using the player don't re-render on every timeupdate
+  media: PlayerMediaElement | null;
+  play: (item: PlayerItem, options?: PlayOptions) => void;
+  enqueue: (item: PlayerItem) => void;
+  togglePlay: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  seek: (seconds: number) => void;
+  jumpTo: (itemIndex: number) => void;
+  remove: (itemIndex: number) => void;
+  toggleShuffle: () => void;
+  cycleRepeat: () => void;
+  stop: () => void;
+  // Callback ref for the media element the mini-player renders
+  attachMedia: (element: HTMLElement | null) => void;
+}
+
+// Kept apart from PlayerProvider so that file only exports components
+export const PlayerContext = createContext<PlayerContextType | undefined>(undefined);
@@ -0,0 +1,61 @@
+import { useCallback, useState } from 'react';
+import {
+  BulkContentAction,
+  BulkContentParams,
+  BulkContentReport,
+  ContentSource,
+  runBulkContentAction,
+  undoBulkContentAction,
+} from '../lib/contentRepository';
+
+export interface BulkActionResult {
+  success: boolean;
+  error?: string;
+  // Per-item outcome; a successful call can still have failed items
+  report?: BulkContentReport;
+}
+
+export function useBulkContentActions() {
+  const [running, setRunning] = useState(false);
+
+  const runBulkAction = useCallback(
+    async (
+      items: Array<{ source: ContentSource; id: string }>,
+      action: BulkContentAction,
+      params: BulkContentParams = {}
+    ): Promise<BulkActionResult> => {
+      setRunning(true);
+      try {
+        const report = await runBulkContentAction(items, action, params);
+        return { success: true, report };
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to update content';
+        console.error('Error running bulk content action:', err);
+        return { success: false, error: errorMessage };
+      } finally {
+        setRunning(false);
+      }
+    },
+    []
+  );
+
+  const undoBulkAction = useCallback(async (batchId: string): Promise<BulkActionResult> => {
+    setRunning(true);
+    try {
+      const report = await undoBulkContentAction(batchId);
+      return { success: true, report };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to undo';
+      console.error('Error undoing bulk content action:', err);
+      return { success: false, error: errorMessage };
+    } finally {
+      setRunning(false);
+    }
+  }, []);
+
+  return {
+    running,
+    runBulkAction,
+    undoBulkAction,
+  };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { CaptionTrack, fetchCaptionTracks } from '../lib/captions';
+import { CONTENT_TABLE_BY_SOURCE, ContentSource } from '../lib/contentRepository';
+
+/**
+ * Caption tracks of one content item. Viewers get the ready tracks;
+ * creators also see their tracks while Mux is processing them, updated
+ * over realtime.
+ */
+export function useCaptionTracks(source: ContentSource | undefined, contentId: string | undefined) {
+  const [tracks, setTracks] = useState<CaptionTrack[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!source || !contentId) {
+      setTracks([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setTracks(await fetchCaptionTracks(source, contentId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load captions');
+    } finally {
+      setLoading(false);
+    }
+  }, [source, contentId]);
+
+  useEffect(() => {
+    refresh();
+
+    if (!source || !contentId) return;
+
+    const subscription = supabase
+      .channel(`public:content_captions:content_id=eq.${contentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'content_captions',
+          filter: `content_id=eq.${contentId}`,
+        },
+        (payload) => {
+          const changed = (payload.new || payload.old) as Partial<CaptionTrack>;
+          if (changed.content_table && changed.content_table !== CONTENT_TABLE_BY_SOURCE[source]) return;
+          refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [source, contentId, refresh]);
+
+  return { tracks, loading, error, refresh };
+}
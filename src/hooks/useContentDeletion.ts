@@ -1,9 +1,16 @@
 import { useCallback } from 'react';
-import { supabase } from '../lib/supabase';
+import {
+  ContentLifecycleState,
+  ContentSource,
+  restoreContent as restoreContentRecord,
+  unpublishContent,
+} from '../lib/contentRepository';
 
 export interface DeletionResult {
   success: boolean;
   error?: string;
+  // The item's lifecycle columns after the change
+  state?: ContentLifecycleState;
 }
 
 export interface ContentDeletionInfo {
@@ -16,54 +23,11 @@ export interface ContentDeletionInfo {
 
 export function useContentDeletion() {
   const deleteFromDestination = useCallback(
-    async (contentId: string, destination: 'media' | 'masterclass' | 'portfolio', source?: 'media' | 'portfolio' | 'masterclass'): Promise<DeletionResult> => {
+    async (contentId: string, destination: ContentSource, source: ContentSource = 'media'): Promise<DeletionResult> => {
       try {
-        // Determine which table to use
-        let tableName = 'media_page_content';
-        if (source === 'portfolio') {
-          tableName = 'portfolio_page_content';
-        } else if (source === 'masterclass') {
-          tableName = 'masterclass_page_content';
-        }
-
-        // Fetch current content
-        const { data: currentContent, error: fetchError } = await supabase
-          .from(tableName)
-          .select('published_to')
-          .eq('id', contentId)
-          .single();
-
-        if (fetchError) throw fetchError;
-        if (!currentContent) {
-          return { success: false, error: 'Content not found' };
-        }
-
-        // Remove destination from published_to array
-        const publishedTo = (currentContent.published_to || []) as string[];
-        const updatedPublishedTo = publishedTo.filter((d) => d !== destination);
-
-        // If no destinations left, mark as pending deletion with 3-day countdown
-        const updatePayload: any = {
-          published_to: updatedPublishedTo,
-        };
-
-        if (updatedPublishedTo.length === 0) {
-          updatePayload.status = 'pending_deletion';
-          updatePayload.is_deleted_pending = true;
-          // The trigger will automatically set deleted_at and auto_delete_at
-        } else {
-          updatePayload.status = 'published';
-        }
-
-        // Update content
-        const { error: updateError } = await supabase
-          .from(tableName)
-          .update(updatePayload)
-          .eq('id', contentId);
-
-        if (updateError) throw updateError;
-
-        return { success: true };
+        // With no destinations left the item goes into pending deletion
+        const state = await unpublishContent(source, contentId, destination);
+        return { success: true, state };
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to delete content from destination';
         console.error('Error deleting content:', err);
@@ -74,28 +38,11 @@ export function useContentDeletion() {
   );
 
   const saveContent = useCallback(
-    async (contentId: string, source?: 'media' | 'portfolio' | 'masterclass'): Promise<DeletionResult> => {
+    async (contentId: string, source: ContentSource = 'media'): Promise<DeletionResult> => {
       try {
-        // Determine which table to use
-        let tableName = 'media_page_content';
-        if (source === 'portfolio') {
-          tableName = 'portfolio_page_content';
-        } else if (source === 'masterclass') {
-          tableName = 'masterclass_page_content';
-        }
-
-        // Update content to mark as saved (prevents auto-deletion)
-        // The trigger will reset deleted_at, auto_delete_at, and status
-        const { error: updateError } = await supabase
-          .from(tableName)
-          .update({
-            saved: true,
-          })
-          .eq('id', contentId);
-
-        if (updateError) throw updateError;
-
-        return { success: true };
+        // Keeping an item pending deletion restores it as a draft
+        const state = await restoreContentRecord(source, contentId);
+        return { success: true, state };
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to save content';
         console.error('Error saving content:', err);
@@ -106,32 +53,10 @@ export function useContentDeletion() {
   );
 
   const restoreContent = useCallback(
-    async (contentId: string, source?: 'media' | 'portfolio' | 'masterclass'): Promise<DeletionResult> => {
+    async (contentId: string, source: ContentSource = 'media'): Promise<DeletionResult> => {
       try {
-        // Determine which table to use
-        let tableName = 'media_page_content';
-        if (source === 'portfolio') {
-          tableName = 'portfolio_page_content';
-        } else if (source === 'masterclass') {
-          tableName = 'masterclass_page_content';
-        }
-
-        // Restore content by unsaving it (but keep it in draft state)
-        const { error: updateError } = await supabase
-          .from(tableName)
-          .update({
-            saved: false,
-            status: 'draft',
-            deleted_at: null,
-            auto_delete_at: null,
-            is_deleted_pending: false,
-            published_to: [],
-          })
-          .eq('id', contentId);
-
-        if (updateError) throw updateError;
-
-        return { success: true };
+        const state = await restoreContentRecord(source, contentId);
+        return { success: true, state };
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to restore content';
         console.error('Error restoring content:', err);
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ContentEvent, ContentSource, fetchContentEvents } from '../lib/contentRepository';
+
+/**
+ * Lifecycle history of one of the creator's items, newest first
+ */
+export function useContentEvents(source: ContentSource | undefined, contentId: string | undefined) {
+  const [events, setEvents] = useState<ContentEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!source || !contentId) return;
+
+    setLoading(true);
+    try {
+      setEvents(await fetchContentEvents(source, contentId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [source, contentId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { events, loading, error, refresh };
+}
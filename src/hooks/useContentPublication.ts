@@ -1,47 +1,25 @@
 import { useCallback } from 'react';
-import { supabase } from '../lib/supabase';
+import {
+  ContentLifecycleState,
+  ContentSource,
+  publishContent,
+  scheduleContent,
+  unpublishContent,
+} from '../lib/contentRepository';
 
 export interface PublicationResult {
   success: boolean;
   error?: string;
+  // The item's lifecycle columns after the change
+  state?: ContentLifecycleState;
 }
 
 export function useContentPublication() {
   const publishToDestination = useCallback(
-    async (contentId: string, destination: 'media' | 'masterclass' | 'portfolio', source?: 'media' | 'portfolio'): Promise<PublicationResult> => {
+    async (contentId: string, destination: ContentSource, source: ContentSource = 'media'): Promise<PublicationResult> => {
       try {
-        // Determine which table to use based on source or content being published
-        const tableName = source === 'portfolio' ? 'portfolio_page_content' : 'media_page_content';
-
-        // Fetch current content to get published_to array
-        const { data: currentContent, error: fetchError } = await supabase
-          .from(tableName)
-          .select('published_to, status')
-          .eq('id', contentId)
-          .single();
-
-        if (fetchError) throw fetchError;
-        if (!currentContent) {
-          return { success: false, error: 'Content not found' };
-        }
-
-        // Add destination to published_to array if not already there
-        const publishedTo = (currentContent.published_to || []) as string[];
-        const updatedPublishedTo = [...new Set([...publishedTo, destination])]; // Remove duplicates
-
-        // Update content
-        const { error: updateError } = await supabase
-          .from(tableName)
-          .update({
-            published_to: updatedPublishedTo,
-            status: 'published',
-            publication_destination: destination,
-          })
-          .eq('id', contentId);
-
-        if (updateError) throw updateError;
-
-        return { success: true };
+        const state = await publishContent(source, contentId, destination);
+        return { success: true, state };
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to publish content';
         console.error('Error publishing content:', err);
@@ -52,42 +30,11 @@ export function useContentPublication() {
   );
 
   const unpublishFromDestination = useCallback(
-    async (contentId: string, destination: 'media' | 'masterclass' | 'portfolio', source?: 'media' | 'portfolio'): Promise<PublicationResult> => {
+    async (contentId: string, destination: ContentSource, source: ContentSource = 'media'): Promise<PublicationResult> => {
       try {
-        // Determine which table to use based on source or content being unpublished
-        const tableName = source === 'portfolio' ? 'portfolio_page_content' : 'media_page_content';
-
-        // Fetch current content
-        const { data: currentContent, error: fetchError } = await supabase
-          .from(tableName)
-          .select('published_to')
-          .eq('id', contentId)
-          .single();
-
-        if (fetchError) throw fetchError;
-        if (!currentContent) {
-          return { success: false, error: 'Content not found' };
-        }
-
-        // Remove destination from published_to array
-        const publishedTo = (currentContent.published_to || []) as string[];
-        const updatedPublishedTo = publishedTo.filter((d) => d !== destination);
-
-        // If no destinations left, mark as pending deletion
-        const newStatus = updatedPublishedTo.length === 0 ? 'pending_deletion' : 'published';
-
-        // Update content
-        const { error: updateError } = await supabase
-          .from(tableName)
-          .update({
-            published_to: updatedPublishedTo,
-            status: newStatus,
-          })
-          .eq('id', contentId);
-
-        if (updateError) throw updateError;
-
-        return { success: true };
+        // With no destinations left the item goes into pending deletion
+        const state = await unpublishContent(source, contentId, destination);
+        return { success: true, state };
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to unpublish content';
         console.error('Error unpublishing content:', err);
@@ -97,8 +44,29 @@ export function useContentPublication() {
     []
   );
 
+  // publishAt null cancels the scheduled release
+  const scheduleRelease = useCallback(
+    async (
+      contentId: string,
+      publishAt: string | null,
+      destinations: ContentSource[],
+      source: ContentSource = 'media'
+    ): Promise<PublicationResult> => {
+      try {
+        const state = await scheduleContent(source, contentId, publishAt, destinations);
+        return { success: true, state };
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to schedule content';
+        console.error('Error scheduling content:', err);
+        return { success: false, error: errorMessage };
+      }
+    },
+    []
+  );
+
   return {
     publishToDestination,
     unpublishFromDestination,
+    scheduleRelease,
   };
 }
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ContentRevision,
+  RestoredContent,
+  RevisionSource,
+  fetchContentRevisions,
+  restoreContentRevision,
+} from '../lib/contentRepository';
+
+export interface RestoreRevisionResult {
+  success: boolean;
+  error?: string;
+  // The item's row after the restore
+  row?: RestoredContent;
+}
+
+/**
+ * Edit history of one of the creator's items, newest first, and restoring
+ * an earlier revision
+ */
+export function useContentRevisions(source: RevisionSource | undefined, contentId: string | undefined) {
+  const [revisions, setRevisions] = useState<ContentRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringRevision, setRestoringRevision] = useState<number | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!source || !contentId) return;
+
+    setLoading(true);
+    try {
+      setRevisions(await fetchContentRevisions(source, contentId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revisions');
+    } finally {
+      setLoading(false);
+    }
+  }, [source, contentId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const restore = useCallback(
+    async (revisionNumber: number): Promise<RestoreRevisionResult> => {
+      if (!source || !contentId) return { success: false, error: 'No content selected' };
+
+      setRestoringRevision(revisionNumber);
+      try {
+        const row = await restoreContentRevision(source, contentId, revisionNumber);
+        await refresh();
+        return { success: true, row };
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to restore revision';
+        console.error('Error restoring revision:', err);
+        return { success: false, error: errorMessage };
+      } finally {
+        setRestoringRevision(null);
+      }
+    },
+    [source, contentId, refresh]
+  );
+
+  return { revisions, loading, error, refresh, restore, restoringRevision };
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { ContentSource } from '../lib/contentRepository';
+import { ContinueWatchingItem, fetchContinueWatching } from '../lib/playbackPositions';
+
+/**
+ * The signed-in viewer's unfinished items, most recently watched first.
+ * Narrowed to one page's content when `source` is given.
+ */
+export function useContinueWatching(source?: ContentSource, limit = 12) {
+  const { user } = useAuth();
+  const [items, setItems] = useState<ContinueWatchingItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setItems([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setItems(await fetchContinueWatching(source, limit));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load continue watching');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, source, limit]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { items, loading, error, refresh };
+}
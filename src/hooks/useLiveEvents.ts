@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { EventRow, toEvent } from '../lib/liveStreams';
+import type { Event } from '../types/events';
+
+/**
+ * Livestreamed events for the Livestream tab: on air, starting soon and
+ * replays. Status flips from the Mux webhook arrive over realtime.
+ */
+export function useLiveEvents() {
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      const { data, error: err } = await supabase
+        .from('events')
+        .select('*')
+        .eq('is_livestream', true)
+        .in('status', ['upcoming', 'ongoing', 'completed'])
+        .order('event_date', { ascending: true });
+
+      if (err) throw err;
+
+      setEvents(((data as EventRow[]) || []).map(toEvent));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load livestreams');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEvents();
+
+    const subscription = supabase
+      .channel('public:events:is_livestream=eq.true')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'events',
+          filter: 'is_livestream=eq.true',
+        },
+        () => {
+          fetchEvents();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [fetchEvents]);
+
+  return {
+    live: events.filter((event) => event.status === 'happening'),
+    upcoming: events.filter((event) => event.status === 'upcoming'),
+    replays: events.filter((event) => event.status === 'past' && event.replay_playback_id),
+    loading,
+    error,
+  };
+}
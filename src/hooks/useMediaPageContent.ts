@@ -1,27 +1,12 @@
 import { useState, useCallback } from 'react';
-import { supabase } from '../lib/supabase';
+import {
+  ContentRecord,
+  deleteContent as deleteContentRecord,
+  fetchContent as fetchContentRecords,
+  updateContent as updateContentRecord,
+} from '../lib/contentRepository';
 
-interface MediaPageContent {
-  id: string;
-  user_id: string;
-  title: string;
-  creator: string;
-  description: string | null;
-  type: string;
-  category: string | null;
-  thumbnail_url: string;
-  content_url: string | null;
-  duration: string | null;
-  read_time: string | null;
-  views_count: number;
-  like_count: number;
-  is_premium: boolean;
-  status: string;
-  created_at: string;
-  updated_at: string;
-  publication_destination: string;
-  published_to: string[];
-}
+type MediaPageContent = ContentRecord;
 
 export function useMediaPageContent() {
   const [content, setContent] = useState<MediaPageContent[]>([]);
@@ -37,27 +22,7 @@ export function useMediaPageContent() {
     setError(null);
 
     try {
-      let query = supabase
-        .from('media_page_content')
-        .select('*');
-
-      if (filters?.userId) {
-        query = query.eq('user_id', filters.userId);
-      }
-
-      if (filters?.category) {
-        query = query.eq('category', filters.category);
-      }
-
-      if (filters?.status) {
-        query = query.eq('status', filters.status);
-      }
-
-      const { data, error: fetchError } = await query.order('created_at', { ascending: false });
-
-      if (fetchError) throw fetchError;
-
-      setContent(data || []);
+      setContent(await fetchContentRecords('media', filters));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch content';
       setError(errorMessage);
@@ -71,12 +36,7 @@ export function useMediaPageContent() {
     updates: Partial<MediaPageContent>
   ) => {
     try {
-      const { error: updateError } = await supabase
-        .from('media_page_content')
-        .update(updates)
-        .eq('id', contentId);
-
-      if (updateError) throw updateError;
+      await updateContentRecord('media', contentId, updates);
 
       setContent(prev =>
         prev.map(item =>
@@ -92,12 +52,7 @@ export function useMediaPageContent() {
 
   const deleteContent = useCallback(async (contentId: string) => {
     try {
-      const { error: deleteError } = await supabase
-        .from('media_page_content')
-        .delete()
-        .eq('id', contentId);
-
-      if (deleteError) throw deleteError;
+      await deleteContentRecord('media', contentId);
 
       setContent(prev => prev.filter(item => item.id !== contentId));
     } catch (err) {
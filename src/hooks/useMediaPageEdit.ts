@@ -1,12 +1,7 @@
 import { useState, useCallback } from 'react';
-import { supabase } from '../lib/supabase';
+import { ContentEdit, ContentSource, editContent as editContentRecord, softDeleteContent } from '../lib/contentRepository';
 
-export interface EditContentPayload {
-  title: string;
-  description?: string;
-  category?: string;
-  is_premium?: boolean;
-}
+export type EditContentPayload = ContentEdit;
 
 export interface EditResult {
   success: boolean;
@@ -17,7 +12,7 @@ export function useMediaPageEdit() {
   const [isOperating, setIsOperating] = useState<Set<string>>(new Set());
 
   const editContent = useCallback(
-    async (contentId: string, payload: EditContentPayload & { level?: string; features?: string[]; lessons_count?: number }, source?: 'media' | 'portfolio' | 'masterclass'): Promise<EditResult> => {
+    async (contentId: string, payload: EditContentPayload, source: ContentSource = 'media'): Promise<EditResult> => {
       if (isOperating.has(contentId)) {
         return {
           success: false,
@@ -28,39 +23,8 @@ export function useMediaPageEdit() {
       setIsOperating((prev) => new Set(prev).add(contentId));
 
       try {
-        let tableName = 'media_page_content';
-        if (source === 'portfolio') {
-          tableName = 'portfolio_page_content';
-        } else if (source === 'masterclass') {
-          tableName = 'masterclass_page_content';
-        }
-
-        const updatePayload: any = {
-          title: payload.title,
-          description: payload.description || null,
-          category: payload.category || null,
-          is_premium: payload.is_premium ?? false,
-        };
-
-        // Add masterclass-specific fields if source is masterclass
-        if (source === 'masterclass') {
-          if (payload.level) {
-            updatePayload.level = payload.level;
-          }
-          if (payload.features) {
-            updatePayload.features = payload.features;
-          }
-          if (payload.lessons_count !== undefined) {
-            updatePayload.lessons_count = payload.lessons_count;
-          }
-        }
-
-        const { error } = await supabase
-          .from(tableName)
-          .update(updatePayload)
-          .eq('id', contentId);
-
-        if (error) throw error;
+        // Fields the source's table doesn't have are left out
+        await editContentRecord(source, contentId, payload);
 
         return { success: true };
       } catch (err) {
@@ -84,7 +48,7 @@ export function useMediaPageEdit() {
   );
 
   const deleteContent = useCallback(
-    async (contentId: string): Promise<EditResult> => {
+    async (contentId: string, source: ContentSource = 'media'): Promise<EditResult> => {
       if (isOperating.has(contentId)) {
         return {
           success: false,
@@ -95,12 +59,7 @@ export function useMediaPageEdit() {
       setIsOperating((prev) => new Set(prev).add(contentId));
 
       try {
-        const { error } = await supabase
-          .from('media_page_content')
-          .update({ status: 'archived' })
-          .eq('id', contentId);
-
-        if (error) throw error;
+        await softDeleteContent(source, contentId);
 
         return { success: true };
       } catch (err) {
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
+import { fetchLikeCount } from '../lib/contentRepository';
 
 export interface LikeToggleResult {
   success: boolean;
@@ -49,17 +50,11 @@ export function useMediaPageLike() {
           if (insertError) throw insertError;
         }
 
-        const { data: contentData, error: fetchError } = await supabase
-          .from('media_page_content')
-          .select('like_count')
-          .eq('id', contentId)
-          .single();
-
-        if (fetchError) throw fetchError;
+        const newCount = await fetchLikeCount('media', contentId);
 
         return {
           success: true,
-          newCount: contentData?.like_count ?? 0,
+          newCount,
           newIsLiked: !currentLiked,
         };
       } catch (err) {
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import {
+  EventLiveStream,
+  EventLiveStreamRow,
+  EventRow,
+  createEventLiveStream,
+  deleteEventLiveStream,
+  resetEventStreamKey,
+  toEvent,
+  toLiveStream,
+} from '../lib/liveStreams';
+import type { Event } from '../types/events';
+
+/**
+ * The signed-in organizer's upcoming and ongoing events with their live
+ * stream credentials, for the organizer panel of the Livestream tab
+ */
+export function useOrganizerLiveStreams() {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<Event[]>([]);
+  const [streams, setStreams] = useState<Record<string, EventLiveStream>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStreams = useCallback(async () => {
+    if (!user) {
+      setEvents([]);
+      setStreams({});
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [eventsResult, streamsResult] = await Promise.all([
+        supabase
+          .from('events')
+          .select('*')
+          .eq('organizer_id', user.id)
+          .in('status', ['upcoming', 'ongoing'])
+          .order('event_date', { ascending: true }),
+        supabase
+          .from('event_live_streams')
+          .select('event_id, mux_live_stream_id, stream_key, playback_id, status')
+          .eq('organizer_id', user.id),
+      ]);
+
+      if (eventsResult.error) throw eventsResult.error;
+      if (streamsResult.error) throw streamsResult.error;
+
+      setEvents(((eventsResult.data as EventRow[]) || []).map(toEvent));
+      setStreams(
+        Object.fromEntries(
+          ((streamsResult.data as EventLiveStreamRow[]) || []).map((row) => [row.event_id, toLiveStream(row)])
+        )
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your events');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchStreams();
+
+    if (!user) return;
+
+    const subscription = supabase
+      .channel(`public:event_live_streams:organizer_id=eq.${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'event_live_streams',
+          filter: `organizer_id=eq.${user.id}`,
+        },
+        () => {
+          fetchStreams();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user, fetchStreams]);
+
+  const withRefresh = useCallback(
+    async (action: () => Promise<unknown>) => {
+      await action();
+      await fetchStreams();
+    },
+    [fetchStreams]
+  );
+
+  return {
+    events,
+    streams,
+    loading,
+    error,
+    createStream: (eventId: string) => withRefresh(() => createEventLiveStream(eventId)),
+    resetKey: (eventId: string) => withRefresh(() => resetEventStreamKey(eventId)),
+    removeStream: (eventId: string) => withRefresh(() => deleteEventLiveStream(eventId)),
+  };
+}
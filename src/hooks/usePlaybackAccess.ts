@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ContentSource } from '../lib/contentRepository';
+import { PlaybackAccess, PremiumRequiredError, fetchPlaybackAccess } from '../lib/playbackAccess';
+
+// Ask for fresh credentials this long before the current ones expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Wait between renewal attempts while the current credentials still work
+const RENEW_RETRY_MS = 10 * 1000;
+
+/**
+ * Playback credentials for one content item. Only premium items are
+ * looked up; everything else plays from its public URL. Signed
+ * credentials are renewed shortly before they expire.
+ */
+export function usePlaybackAccess(
+  source: ContentSource | undefined,
+  contentId: string | undefined,
+  isPremium: boolean | undefined
+) {
+  const [access, setAccess] = useState<PlaybackAccess | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [premiumRequired, setPremiumRequired] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setPremiumRequired(false);
+
+    if (!source || !contentId || !isPremium) {
+      setAccess({ policy: 'public' });
+      setError(null);
+      return;
+    }
+
+    setAccess(null);
+    setLoading(true);
+    try {
+      setAccess(await fetchPlaybackAccess(source, contentId));
+      setError(null);
+    } catch (err) {
+      setPremiumRequired(err instanceof PremiumRequiredError);
+      setError(err instanceof Error ? err.message : 'Could not load this video');
+    } finally {
+      setLoading(false);
+    }
+  }, [source, contentId, isPremium]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!source || !contentId || !access || access.policy !== 'signed') return;
+
+    const expiresAt = new Date(access.expiresAt).getTime();
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    // Retry until the current credentials run out, then drop them so the
+    // player shows the error instead of failing on an expired URL
+    const renew = async () => {
+      try {
+        const renewed = await fetchPlaybackAccess(source, contentId);
+        if (cancelled) return;
+        setAccess(renewed);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        if (Date.now() + RENEW_RETRY_MS < expiresAt) {
+          timer = setTimeout(renew, RENEW_RETRY_MS);
+          return;
+        }
+        setAccess(null);
+        setPremiumRequired(err instanceof PremiumRequiredError);
+        setError(err instanceof Error ? err.message : 'Could not renew playback access');
+      }
+    };
+
+    timer = setTimeout(renew, Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 0));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [access, source, contentId]);
+
+  return { access, loading, error, premiumRequired, refresh };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { ContentSource } from '../lib/contentRepository';
+import { PlaybackCollector, PlayerEvent, createPlaybackCollector } from '../lib/playbackAnalytics';
+
+/**
+ * Watch-time collection for one open video. Each content item gets its
+ * own session; whatever is buffered is sent when the tab is hidden and
+ * when the item changes or closes.
+ */
+export function usePlaybackAnalytics(source: ContentSource | undefined, contentId: string | undefined) {
+  const collectorRef = useRef<PlaybackCollector | null>(null);
+
+  useEffect(() => {
+    if (!source || !contentId) return;
+
+    const collector = createPlaybackCollector(source, contentId);
+    collectorRef.current = collector;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') collector.flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      collectorRef.current = null;
+      collector.close();
+    };
+  }, [source, contentId]);
+
+  return useCallback((event: PlayerEvent) => {
+    collectorRef.current?.record(event);
+  }, []);
+}
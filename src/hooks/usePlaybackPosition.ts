@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { ContentSource } from '../lib/contentRepository';
+import type { PlayerEvent } from '../lib/playbackAnalytics';
+import {
+  MIN_RESUMABLE_DURATION_SECONDS,
+  fetchPlaybackPosition,
+  savePlaybackPosition,
+} from '../lib/playbackPositions';
+
+// While playing, save the position at most this often
+const SAVE_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Saved position of one item for the signed-in viewer, and a recorder to
+ * feed player events into. The position is saved periodically while
+ * playing, on pause, seek and end, when the tab is hidden and when the item
+ * changes or closes. `resumeAt` is null until loaded and when there is
+ * nothing to resume.
+ */
+export function usePlaybackPosition(source: ContentSource | undefined, contentId: string | undefined) {
+  const { user } = useAuth();
+  const [resumeAt, setResumeAt] = useState<number | null>(null);
+  const latestRef = useRef<{ position: number; duration: number | null } | null>(null);
+  const lastSavedAtRef = useRef(0);
+  const enabled = Boolean(user && source && contentId);
+
+  const save = useCallback(() => {
+    const latest = latestRef.current;
+    if (!enabled || !latest) return;
+
+    latestRef.current = null;
+    lastSavedAtRef.current = Date.now();
+    savePlaybackPosition(source!, contentId!, latest.position, latest.duration).catch((err) => {
+      console.error('Error saving playback position:', err);
+    });
+  }, [enabled, source, contentId]);
+
+  useEffect(() => {
+    setResumeAt(null);
+    if (!enabled) return;
+
+    let cancelled = false;
+    fetchPlaybackPosition(source!, contentId!)
+      .then((position) => {
+        if (!cancelled) setResumeAt(position);
+      })
+      .catch((err) => console.error('Error loading playback position:', err));
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') save();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      save();
+    };
+  }, [enabled, source, contentId, save]);
+
+  const record = useCallback((event: PlayerEvent) => {
+    // Short items (music, clips) just start over
+    if (!enabled || !event.duration || event.duration < MIN_RESUMABLE_DURATION_SECONDS) return;
+
+    latestRef.current = { position: event.position, duration: event.duration };
+    if (event.type !== 'heartbeat' || Date.now() - lastSavedAtRef.current >= SAVE_INTERVAL_MS) save();
+  }, [enabled, save]);
+
+  return { resumeAt, record };
+}
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ContentSource } from '../lib/contentRepository';
+import { ContentPlaybackStats, fetchPlaybackStats } from '../lib/playbackAnalytics';
+
+/**
+ * Watch time, average view duration, completion rate and retention curve
+ * of one of the creator's own items. Rollups are recomputed every 15
+ * minutes, so there is nothing to subscribe to.
+ */
+export function usePlaybackStats(source: ContentSource | undefined, contentId: string | undefined) {
+  const [stats, setStats] = useState<ContentPlaybackStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!source || !contentId) {
+      setStats(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setStats(await fetchPlaybackStats(source, contentId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load playback analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [source, contentId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { stats, loading, error, refresh };
+}
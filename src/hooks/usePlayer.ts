@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { PlayerContext } from '../context/PlayerContextValue';
+
+export function usePlayer() {
+  const context = useContext(PlayerContext);
+  if (context === undefined) {
+    throw new Error('usePlayer must be used within a PlayerProvider');
+  }
+  return context;
+}
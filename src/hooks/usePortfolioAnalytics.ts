@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+
+export type ReferrerSource = 'direct' | 'internal' | 'search' | 'social' | 'other';
+
+export interface PortfolioViewBreakdown {
+  by_day: { day: string; views: number }[];
+  by_source: { source: ReferrerSource; views: number }[];
+  by_item: { content_id: string; title: string; views: number }[];
+}
+
+/**
+ * Unique visitors to the signed-in creator's public portfolio over the
+ * last `days` days, by day, by referrer source and by item
+ */
+export function usePortfolioAnalytics(days = 30) {
+  const { user } = useAuth();
+  const [breakdown, setBreakdown] = useState<PortfolioViewBreakdown | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setBreakdown(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error: err } = await supabase.rpc('get_portfolio_view_breakdown', { p_days: days });
+      if (err) throw err;
+
+      setBreakdown(data as PortfolioViewBreakdown);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load portfolio analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, days]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { breakdown, loading, error, refresh };
+}
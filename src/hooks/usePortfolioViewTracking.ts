@@ -1,41 +1,45 @@
 import { useCallback, useRef } from 'react';
 import { supabase } from '../lib/supabase';
-import { useAuth } from '../context/AuthContext';
+import { getAnonymousViewerId } from '../lib/anonymousViewer';
 
-export function usePortfolioViewTracking() {
-  const { user } = useAuth();
-  const viewTrackedRef = useRef<boolean>(false);
-  const userIdRef = useRef<string | undefined>(undefined);
+/**
+ * Record visits to someone's public portfolio. The server drops the
+ * owner's own visits and bots and keeps one view per visitor per day for
+ * the page and for each item.
+ */
+export function usePortfolioViewTracking(ownerId: string | undefined) {
+  // Skip the round trip for views already sent from this page
+  const trackedRef = useRef<Set<string>>(new Set());
 
-  const trackView = useCallback(async () => {
-    if (!user) return;
+  const record = useCallback(
+    async (contentId: string | null) => {
+      const trackingKey = `${ownerId}:${contentId ?? 'page'}`;
+      if (!ownerId || trackedRef.current.has(trackingKey)) return;
 
-    // Check if we've already tracked for this user in this component mount
-    if (viewTrackedRef.current && userIdRef.current === user.id) {
-      return;
-    }
+      trackedRef.current.add(trackingKey);
 
-    viewTrackedRef.current = true;
-    userIdRef.current = user.id;
-
-    try {
-      const { error: viewError } = await supabase
-        .from('portfolio_views')
-        .insert({
-          portfolio_owner_id: user.id,
-          viewed_at: new Date().toISOString(),
+      try {
+        const { error } = await supabase.rpc('record_portfolio_view', {
+          p_owner_id: ownerId,
+          p_content_id: contentId,
+          p_referrer: document.referrer || null,
+          p_visitor_fingerprint: getAnonymousViewerId(),
         });
 
-      if (viewError && viewError.code !== 'PGRST116') {
-        console.error('Error tracking portfolio view:', viewError);
-        viewTrackedRef.current = false;
-        return;
+        if (error) {
+          console.error('Error tracking portfolio view:', error);
+          trackedRef.current.delete(trackingKey);
+        }
+      } catch (err) {
+        console.error('Error in portfolio view tracking:', err);
+        trackedRef.current.delete(trackingKey);
       }
-    } catch (err) {
-      console.error('Error in portfolio view tracking:', err);
-      viewTrackedRef.current = false;
-    }
-  }, [user]);
+    },
+    [ownerId]
+  );
+
+  const trackView = useCallback(() => record(null), [record]);
+  const trackItemView = useCallback((contentId: string) => record(contentId), [record]);
 
-  return { trackView };
+  return { trackView, trackItemView };
 }
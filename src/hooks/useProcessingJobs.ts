@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import {
+  ProcessingJob,
+  cancelProcessingJob,
+  dismissProcessingJob,
+  isActiveJob,
+  retryProcessingJob
+} from '../lib/processingJobs';
+
+const MAX_JOBS = 20;
+
+/**
+ * The signed-in user's video processing jobs, kept current over realtime.
+ * Dismissed jobs are hidden.
+ */
+export function useProcessingJobs() {
+  const { user } = useAuth();
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setJobs([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchJobs = async () => {
+      try {
+        const { data, error: err } = await supabase
+          .from('video_processing_jobs')
+          .select('*')
+          .eq('user_id', user.id)
+          .is('dismissed_at', null)
+          .order('created_at', { ascending: false })
+          .limit(MAX_JOBS);
+
+        if (err) throw err;
+
+        setJobs((data as ProcessingJob[]) || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load processing jobs');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchJobs();
+
+    const subscription = supabase
+      .channel(`public:video_processing_jobs:user_id=eq.${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'video_processing_jobs',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            setJobs(prev => prev.filter(job => job.id !== (payload.old as ProcessingJob).id));
+            return;
+          }
+
+          const job = payload.new as ProcessingJob;
+          setJobs(prev => {
+            const others = prev.filter(existing => existing.id !== job.id);
+            if (job.dismissed_at) return others;
+            return [job, ...others]
+              .sort((a, b) => b.created_at.localeCompare(a.created_at))
+              .slice(0, MAX_JOBS);
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user]);
+
+  const retry = useCallback(async (job: ProcessingJob) => {
+    try {
+      setError(null);
+      await retryProcessingJob(job);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry processing');
+    }
+  }, []);
+
+  const cancel = useCallback(async (jobId: string) => {
+    try {
+      setError(null);
+      await cancelProcessingJob(jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel processing');
+    }
+  }, []);
+
+  const dismiss = useCallback(async (jobId: string) => {
+    // Hide right away; the realtime update confirms it
+    setJobs(prev => prev.filter(job => job.id !== jobId));
+    try {
+      await dismissProcessingJob(jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to dismiss job');
+    }
+  }, []);
+
+  const activeCount = jobs.filter(isActiveJob).length;
+
+  return { jobs, activeCount, loading, error, retry, cancel, dismiss };
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
 import { uploadToB2 } from '../lib/b2Upload';
+import type { ImageVariant } from '../lib/responsiveImages';
 
 export interface ProjectsPageProvider {
   id: string;
@@ -11,6 +12,8 @@ export interface ProjectsPageProvider {
   title_or_type: string;
   category: string;
   avatar_url: string | null;
+  avatar_variants?: ImageVariant[];
+  avatar_placeholder?: string | null;
   description: string | null;
   work_location: 'remote' | 'on-site' | 'hybrid' | 'flexible';
   optional_location: string | null;
@@ -190,7 +193,7 @@ export function useProjectsPageProviders() {
             `projects_page_avatars/${user.id}`
           );
 
-          if (uploadError) throw uploadError;
+          if (uploadError) throw new Error(uploadError);
           avatarUrl = publicUrl;
 
           // Remove from pending after successful upload
@@ -6,9 +6,9 @@ let toastId = 0;
 export function useToast() {
   const [toasts, setToasts] = useState<Toast[]>([]);
 
-  const addToast = useCallback((message: string, type: ToastType = 'info', duration = 3000) => {
+  const addToast = useCallback((message: string, type: ToastType = 'info', duration = 3000, action?: Toast['action']) => {
     const id = `toast-${toastId++}`;
-    setToasts((prev) => [...prev, { id, type, message, duration }]);
+    setToasts((prev) => [...prev, { id, type, message, duration, action }]);
     return id;
   }, []);
 
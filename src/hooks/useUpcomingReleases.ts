@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { ContentSource, UpcomingRelease, fetchUpcomingReleases } from '../lib/contentRepository';
+
+/**
+ * Scheduled releases for a page from creators the signed-in viewer
+ * follows, soonest first. Released items drop out on refresh.
+ */
+export function useUpcomingReleases(destination: ContentSource, limit = 12) {
+  const { user } = useAuth();
+  const [releases, setReleases] = useState<UpcomingRelease[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setReleases([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setReleases(await fetchUpcomingReleases(destination, limit));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load upcoming releases');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, destination, limit]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { releases, loading, error, refresh };
+}
@@ -1,5 +1,6 @@
-import { useState, useCallback } from 'react';
-import { supabase } from '../lib/supabase';
+import { useState, useCallback, useRef } from 'react';
+import { uploadToB2 } from '../lib/b2Upload';
+import { submitVideoForProcessing, waitForProcessingJob } from '../lib/processingJobs';
 
 interface VideoUploadState {
   isUploading: boolean;
@@ -23,6 +24,7 @@ export function useVideoUpload() {
     assetId: null,
     uploadId: null
   });
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const resetState = useCallback(() => {
     setState({
@@ -46,26 +48,21 @@ export function useVideoUpload() {
     try {
       setState(prev => ({ ...prev, isUploading: true, error: null }));
 
-      // Step 1: Generate unique filename
-      const timestamp = Date.now();
-      const filename = `uploads/${userId}/${timestamp}-${file.name}`;
-      const contentType = file.type || 'video/mp4';
+      // Step 1: Upload file straight to B2 in resumable chunks
+      // The upload phase fills the first half of the progress bar
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
 
-      // Step 2: Upload file to B2 via Edge Function (server-side, no CORS issues)
-      const uploadFormData = new FormData();
-      uploadFormData.append('file', file);
-      uploadFormData.append('filename', filename);
-      uploadFormData.append('contentType', contentType);
-
-      const { data: uploadData, error: uploadError } = await supabase.functions.invoke(
-        'upload-to-b2',
-        {
-          body: uploadFormData
+      const { key: filename, error: uploadError } = await uploadToB2(file, `uploads/${userId}`, {
+        contentType: file.type || 'video/mp4',
+        signal: abortController.signal,
+        onProgress: ({ percent }) => {
+          setState(prev => ({ ...prev, progress: percent / 2 }));
         }
-      );
+      });
 
-      if (uploadError || !uploadData?.publicUrl) {
-        throw new Error(uploadError?.message || 'Failed to upload file to B2');
+      if (uploadError || !filename) {
+        throw new Error(uploadError || 'Failed to upload file to B2');
       }
 
       setState(prev => ({
@@ -75,43 +72,27 @@ export function useVideoUpload() {
         progress: 50
       }));
 
-      // Step 4: Call process-new-video to trigger Mux encoding
-      const { data: muxData, error: muxError } = await supabase.functions.invoke(
-        'process-new-video',
-        {
-          body: { filename, userId }
-        }
-      );
-
-      if (muxError || !muxData?.data?.id) {
-        throw new Error(muxError?.message || 'Failed to process video with Mux');
-      }
-
-      const assetId = muxData.data.id;
-
-      // Get the upload record ID that was just created
-      const { data: uploadRecords, error: fetchError } = await supabase
-        .from('video_uploads')
-        .select('id')
-        .eq('asset_id', assetId)
-        .eq('user_id', userId);
-
-      if (fetchError) {
-        console.error('Failed to fetch upload record:', fetchError);
-      }
-
-      const uploadId = uploadRecords && uploadRecords.length > 0 ? uploadRecords[0].id : null;
+      // Step 2: Hand the file to Mux; the job is tracked in video_processing_jobs
+      const { jobId, uploadId, data: asset } = await submitVideoForProcessing('video_uploads', filename, file.name);
 
       setState(prev => ({
         ...prev,
-        assetId,
+        assetId: asset.id,
         uploadId,
         progress: 75
       }));
 
-      // Step 5: Poll for ready status
-      await pollVideoStatus(assetId, userId);
+      // Step 3: Wait for the Mux webhook to mark the job ready
+      const job = await waitForProcessingJob(jobId, { signal: abortController.signal });
+      abortControllerRef.current = null;
 
+      setState(prev => ({
+        ...prev,
+        isProcessing: false,
+        isReady: true,
+        playbackId: job.playback_id,
+        progress: 100
+      }));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An error occurred during upload';
       setState(prev => ({
@@ -121,68 +102,20 @@ export function useVideoUpload() {
         error: errorMessage
       }));
     }
-  }, []);
-
-  const pollVideoStatus = useCallback(async (assetId: string, userId: string) => {
-    const maxAttempts = 120; // 10 minutes with 5-second intervals
-    let attempts = 0;
-
-    while (attempts < maxAttempts) {
-      try {
-        const { data: uploadRecords, error } = await supabase
-          .from('video_uploads')
-          .select('status, playback_id')
-          .eq('asset_id', assetId)
-          .eq('user_id', userId);
-
-        if (error) {
-          throw error;
-        }
-
-        const data = uploadRecords && uploadRecords.length > 0 ? uploadRecords[0] : null;
-
-        if (!data) {
-          // Record might not exist yet due to database sync delay
-          if (attempts > 2) {
-            throw new Error('Upload record not found after multiple attempts');
-          }
-        } else if (data.status === 'ready' && data.playback_id) {
-          setState(prev => ({
-            ...prev,
-            isProcessing: false,
-            isReady: true,
-            playbackId: data.playback_id,
-            progress: 100
-          }));
-          return;
-        } else if (data.status === 'failed') {
-          throw new Error('Video processing failed');
-        }
-
-        // Wait 5 seconds before polling again
-        await new Promise(resolve => setTimeout(resolve, 5000));
-        attempts++;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Polling error';
-        setState(prev => ({
-          ...prev,
-          isProcessing: false,
-          error: errorMessage
-        }));
-        return;
-      }
-    }
-
-    setState(prev => ({
-      ...prev,
-      isProcessing: false,
-      error: 'Video processing timeout'
-    }));
+  }, [resetState]);
+
+  // Cancel an in-flight upload; the multipart upload is aborted on B2 too.
+  // Once the file is with Mux this only stops waiting: the job carries on
+  // and can be cancelled from the uploads tray.
+  const cancelUpload = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
   }, []);
 
   return {
     ...state,
     uploadVideo,
+    cancelUpload,
     resetState
   };
 }
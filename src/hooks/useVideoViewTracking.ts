@@ -1,32 +1,27 @@
 import { supabase } from '../lib/supabase';
+import { CONTENT_TABLE_BY_SOURCE, ContentSource } from '../lib/contentRepository';
+import { getAnonymousViewerId } from '../lib/anonymousViewer';
 
-// Simple function-based view tracking (no hook dependencies issues)
-export const trackVideoView = async (contentId: string) => {
+// Counted server-side: once per viewer per item every 30 minutes, never
+// for bots or the item's owner. Views in embeds on other sites are also
+// counted separately.
+export const trackVideoView = async (
+  contentId: string,
+  source: ContentSource = 'media',
+  surface: 'app' | 'embed' = 'app'
+) => {
   if (!contentId) return;
 
   try {
-    // Fetch current views
-    const { data: currentData, error: fetchError } = await supabase
-      .from('media_page_content')
-      .select('views_count')
-      .eq('id', contentId)
-      .single();
+    const { error } = await supabase.rpc('record_content_view', {
+      p_content_table: CONTENT_TABLE_BY_SOURCE[source],
+      p_content_id: contentId,
+      p_viewer_fingerprint: getAnonymousViewerId(),
+      p_surface: surface,
+    });
 
-    if (fetchError) {
-      console.error('Error fetching view count:', fetchError);
-      return;
-    }
-
-    const currentViews = currentData?.views_count || 0;
-
-    // Update with incremented views
-    const { error: updateError } = await supabase
-      .from('media_page_content')
-      .update({ views_count: currentViews + 1 })
-      .eq('id', contentId);
-
-    if (updateError) {
-      console.error('Error updating view count:', updateError);
+    if (error) {
+      console.error('Error recording view:', error);
     }
   } catch (err) {
     console.error('Failed to track view:', err);
@@ -34,7 +29,7 @@ export const trackVideoView = async (contentId: string) => {
 };
 
 // Hook version for backward compatibility
-export const useSimpleVideoViewTracking = (contentId: string) => {
-  const trackView = () => trackVideoView(contentId);
+export const useSimpleVideoViewTracking = (contentId: string, source: ContentSource = 'media') => {
+  const trackView = () => trackVideoView(contentId, source);
   return { trackView };
 };
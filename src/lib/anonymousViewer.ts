@@ -0,0 +1,19 @@
+const VIEWER_ID_STORAGE_KEY = 'anonymous_viewer_id';
+
+/**
+ * Random per-browser ID so signed-out views can be deduplicated. Not a
+ * fingerprint: clearing site data gives a new one.
+ */
+export function getAnonymousViewerId(): string | null {
+  try {
+    let viewerId = localStorage.getItem(VIEWER_ID_STORAGE_KEY);
+    if (!viewerId) {
+      viewerId = crypto.randomUUID();
+      localStorage.setItem(VIEWER_ID_STORAGE_KEY, viewerId);
+    }
+    return viewerId;
+  } catch {
+    // Storage blocked; the server falls back to the client IP
+    return null;
+  }
+}
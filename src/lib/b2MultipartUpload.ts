@@ -0,0 +1,322 @@
+import { supabase } from './supabase';
+import { UploadRejectedError, parseUploadErrorResponse } from './uploadErrors';
+
+// S3 requires every part except the last to be at least 5MB, and B2 caps
+// an upload at 10,000 parts
+const MIN_PART_SIZE = 8 * 1024 * 1024;
+const MAX_PARTS = 10000;
+const PART_CONCURRENCY = 3;
+const SIGN_BATCH_SIZE = 20;
+const MAX_PART_ATTEMPTS = 5;
+const SESSION_STORAGE_PREFIX = 'b2-multipart:';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
+export interface MultipartUploadOptions {
+  contentType?: string;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface MultipartUploadResult {
+  key: string;
+  publicUrl: string;
+}
+
+interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+interface StoredSession {
+  key: string;
+  uploadId: string;
+  partSize: number;
+}
+
+export class UploadAbortedError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadAbortedError';
+  }
+}
+
+async function invokeMultipart<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('b2-multipart-upload', { body });
+
+  if (error) {
+    throw (await parseUploadErrorResponse(error)) ?? new Error(error.message || 'Multipart upload request failed');
+  }
+  if (data?.error) throw new Error(data.error);
+
+  return data as T;
+}
+
+/**
+ * Identify a file across page reloads. File handles don't survive a refresh,
+ * so the user re-selects the same file and we match it on these properties.
+ */
+function getSessionStorageKey(file: File, folderPath: string): string {
+  return `${SESSION_STORAGE_PREFIX}${folderPath}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function loadSession(storageKey: string): StoredSession | null {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? (JSON.parse(raw) as StoredSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(storageKey: string, session: StoredSession) {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(session));
+  } catch {
+    // Storage full or unavailable: the upload still works, it just can't resume
+  }
+}
+
+function clearSession(storageKey: string) {
+  localStorage.removeItem(storageKey);
+}
+
+function getPartSize(fileSize: number): number {
+  return Math.max(MIN_PART_SIZE, Math.ceil(fileSize / MAX_PARTS));
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * PUT a single chunk to its presigned URL. XHR is used instead of fetch
+ * because fetch exposes no upload progress events.
+ */
+function putPart(
+  url: string,
+  chunk: Blob,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    const handleAbort = () => xhr.abort();
+    signal?.addEventListener('abort', handleAbort);
+
+    const cleanup = () => signal?.removeEventListener('abort', handleAbort);
+
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onload = () => {
+      cleanup();
+      const etag = xhr.getResponseHeader('ETag');
+      if (xhr.status >= 200 && xhr.status < 300 && etag) {
+        resolve(etag);
+      } else if (xhr.status >= 200 && xhr.status < 300) {
+        reject(new Error('Part uploaded but ETag is not exposed. Check the bucket CORS rules.'));
+      } else {
+        reject(new Error(`Part upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new Error('Network error while uploading part'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new UploadAbortedError());
+    };
+
+    xhr.open('PUT', url);
+    xhr.send(chunk);
+  });
+}
+
+/**
+ * Upload a file straight to B2 with S3 multipart uploads.
+ *
+ * Progress is reported per byte. The upload session is kept in localStorage,
+ * so calling this again with the same file and folder after a refresh or a
+ * network failure resumes from the parts B2 already has. Aborting through
+ * `signal` cancels the upload on the server as well.
+ */
+export async function uploadFileMultipart(
+  file: File,
+  folderPath: string,
+  options: MultipartUploadOptions = {}
+): Promise<MultipartUploadResult> {
+  const { onProgress, signal } = options;
+  const contentType = options.contentType || file.type || 'application/octet-stream';
+  const storageKey = getSessionStorageKey(file, folderPath);
+
+  let session = loadSession(storageKey);
+  const completedParts = new Map<number, string>();
+
+  if (session) {
+    try {
+      const { parts } = await invokeMultipart<{ parts: { partNumber: number; etag: string; size: number }[] }>({
+        action: 'list-parts',
+        key: session.key,
+        uploadId: session.uploadId,
+      });
+      parts.forEach((part) => completedParts.set(part.partNumber, part.etag));
+    } catch (err) {
+      // The upload was completed, aborted or expired server-side; start fresh
+      console.warn('Could not resume multipart upload, starting over:', err);
+      clearSession(storageKey);
+      session = null;
+    }
+  }
+
+  if (!session) {
+    // The server sanitizes the name and may change the key; use the one it returns
+    const { uploadId, key } = await invokeMultipart<{ uploadId: string; key: string }>({
+      action: 'create',
+      key: `${folderPath}/${Date.now()}-${file.name}`,
+      contentType,
+      size: file.size,
+    });
+    session = { key, uploadId, partSize: getPartSize(file.size) };
+    saveSession(storageKey, session);
+  }
+
+  const { key, uploadId, partSize } = session;
+  const totalParts = Math.max(1, Math.ceil(file.size / partSize));
+  const chunkLoaded = new Map<number, number>();
+
+  const partLength = (partNumber: number) =>
+    Math.min(partSize, file.size - (partNumber - 1) * partSize);
+
+  completedParts.forEach((_, partNumber) => chunkLoaded.set(partNumber, partLength(partNumber)));
+
+  const reportProgress = () => {
+    if (!onProgress) return;
+    let loaded = 0;
+    chunkLoaded.forEach((bytes) => (loaded += bytes));
+    const total = file.size;
+    onProgress({ loaded, total, percent: total > 0 ? (loaded / total) * 100 : 100 });
+  };
+
+  reportProgress();
+
+  const pendingParts: number[] = [];
+  for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+    if (!completedParts.has(partNumber)) pendingParts.push(partNumber);
+  }
+
+  const signedUrls = new Map<number, string>();
+  // Parts whose URLs are being signed. Workers that miss on the same batch
+  // wait for the request already in flight instead of sending their own.
+  const signing = new Map<number, Promise<void>>();
+  const getPartUrl = async (partNumber: number): Promise<string> => {
+    if (!signedUrls.has(partNumber) && !signing.has(partNumber)) {
+      const batch = pendingParts
+        .filter((n) => n >= partNumber && !signedUrls.has(n) && !signing.has(n))
+        .slice(0, SIGN_BATCH_SIZE);
+      const request = invokeMultipart<{ urls: Record<number, string> }>({
+        action: 'sign-parts',
+        key,
+        uploadId,
+        partNumbers: batch,
+      })
+        .then(({ urls }) => {
+          Object.entries(urls).forEach(([n, url]) => signedUrls.set(Number(n), url));
+        })
+        .finally(() => batch.forEach((n) => signing.delete(n)));
+      batch.forEach((n) => signing.set(n, request));
+    }
+
+    await signing.get(partNumber);
+    const url = signedUrls.get(partNumber);
+    if (!url) throw new Error(`No upload URL was signed for part ${partNumber}`);
+    return url;
+  };
+
+  const uploadPart = async (partNumber: number) => {
+    const start = (partNumber - 1) * partSize;
+    const chunk = file.slice(start, start + partLength(partNumber));
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const url = await getPartUrl(partNumber);
+        const etag = await putPart(
+          url,
+          chunk,
+          (loaded) => {
+            chunkLoaded.set(partNumber, loaded);
+            reportProgress();
+          },
+          signal
+        );
+        completedParts.set(partNumber, etag);
+        chunkLoaded.set(partNumber, chunk.size);
+        reportProgress();
+        return;
+      } catch (err) {
+        if (err instanceof UploadAbortedError || err instanceof UploadRejectedError || attempt >= MAX_PART_ATTEMPTS) {
+          throw err;
+        }
+
+        chunkLoaded.set(partNumber, 0);
+        reportProgress();
+        // Presigned URLs may have expired while we were offline
+        signedUrls.delete(partNumber);
+        await wait(Math.min(30000, 1000 * 2 ** (attempt - 1)));
+      }
+    }
+  };
+
+  try {
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < pendingParts.length) {
+        if (signal?.aborted) throw new UploadAbortedError();
+        const partNumber = pendingParts[nextIndex++];
+        await uploadPart(partNumber);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, pendingParts.length) }, worker));
+
+    const parts: UploadedPart[] = [...completedParts.entries()].map(([partNumber, etag]) => ({
+      partNumber,
+      etag,
+    }));
+
+    const { publicUrl } = await invokeMultipart<{ publicUrl: string }>({
+      action: 'complete',
+      key,
+      uploadId,
+      contentType,
+      parts,
+    });
+
+    clearSession(storageKey);
+    return { key, publicUrl };
+  } catch (err) {
+    if (err instanceof UploadAbortedError) {
+      clearSession(storageKey);
+      await abortMultipartUpload(key, uploadId);
+    } else if (err instanceof UploadRejectedError) {
+      // The server refused the file; resuming would be refused again
+      clearSession(storageKey);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Discard an in-progress multipart upload and the parts B2 is holding for it
+ */
+export async function abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+  try {
+    await invokeMultipart({ action: 'abort', key, uploadId });
+  } catch (err) {
+    console.error('Failed to abort multipart upload:', err);
+  }
+}
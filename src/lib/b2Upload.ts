@@ -1,4 +1,15 @@
-import { supabase } from './supabase';
+import { uploadFileMultipart, type MultipartUploadOptions } from './b2MultipartUpload';
+import { getStorageUrl } from './storage';
+import { UploadRejectedError, describeUploadError, type UploadErrorCode } from './uploadErrors';
+
+export interface UploadToB2Result {
+  publicUrl: string;
+  key: string;
+  error: string | null;
+  // Set when the server rejected the file (type, size, name); `error` then
+  // holds a message that can be shown to the user as-is
+  errorCode?: UploadErrorCode;
+}
 
 /**
  * Validate that a URL is properly formatted and doesn't contain undefined/null
@@ -15,61 +26,54 @@ function isValidUrl(url: string): boolean {
 }
 
 /**
- * Upload a file to Backblaze B2 via Supabase Edge Function
- * Replaces supabase.storage with B2
+ * Upload a file to Backblaze B2
+ * Sends the file straight to the bucket in chunks (see b2MultipartUpload)
+ * so large videos report real progress and can resume after a failure
  */
 export async function uploadToB2(
   file: File,
-  folderPath: string
-): Promise<{ publicUrl: string; error: string | null }> {
+  folderPath: string,
+  options: MultipartUploadOptions = {}
+): Promise<UploadToB2Result> {
   try {
-    const filename = `${folderPath}/${Date.now()}-${file.name}`;
-    const contentType = file.type || 'application/octet-stream';
-
-    // Upload file via Edge Function (server-side, no CORS issues)
-    const uploadFormData = new FormData();
-    uploadFormData.append('file', file);
-    uploadFormData.append('filename', filename);
-    uploadFormData.append('contentType', contentType);
-
-    const { data: uploadData, error: uploadError } = await supabase.functions.invoke(
-      'upload-to-b2',
-      {
-        body: uploadFormData
-      }
-    );
-
-    if (uploadError) {
-      return {
-        publicUrl: '',
-        error: uploadError?.message || 'Failed to upload file to B2'
-      };
-    }
+    const { publicUrl, key } = await uploadFileMultipart(file, folderPath, options);
 
-    if (!uploadData?.publicUrl) {
+    if (!publicUrl) {
       return {
         publicUrl: '',
+        key: '',
         error: 'No URL returned from upload. Please check server configuration.'
       };
     }
 
     // Validate the returned URL
-    const publicUrl = uploadData.publicUrl as string;
     if (!isValidUrl(publicUrl)) {
       console.error('Invalid URL returned from B2 upload:', publicUrl);
       return {
         publicUrl: '',
+        key: '',
         error: `Invalid URL returned from server: ${publicUrl}. Please check B2 configuration.`
       };
     }
 
     return {
       publicUrl,
+      key,
       error: null
     };
   } catch (err) {
+    if (err instanceof UploadRejectedError) {
+      return {
+        publicUrl: '',
+        key: '',
+        error: describeUploadError(err.code, err.details, err.message),
+        errorCode: err.code
+      };
+    }
+
     return {
       publicUrl: '',
+      key: '',
       error: err instanceof Error ? err.message : 'Upload failed'
     };
   }
@@ -79,10 +83,11 @@ export async function uploadToB2(
  * Get a B2 file URL from a stored filename
  */
 export function getB2FileUrl(filename: string): string {
-  return `${import.meta.env.VITE_B2_PUBLIC_URL}/${filename}`;
+  return getStorageUrl(filename);
 }
 
 /**
- * Note: File deletion from B2 would require a separate Edge Function
- * For now, files can be managed through Backblaze B2 console
+ * Note: Files are deleted server-side. When content is permanently deleted
+ * its objects and Mux assets are queued and removed by the
+ * purge-deleted-media Edge Function (see 015_storage_garbage_collection.sql)
  */
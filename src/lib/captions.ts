@@ -0,0 +1,132 @@
+import { supabase } from './supabase';
+import { getStorageUrl } from './storage';
+import { describeUploadError, parseUploadErrorResponse } from './uploadErrors';
+import { CONTENT_TABLE_BY_SOURCE, ContentSource } from './contentRepository';
+
+/**
+ * Caption tracks per content item (see
+ * database/code/database/020_content_captions.sql). Files are validated and
+ * converted to WebVTT by the manage-captions function; Mux content gets
+ * them as Mux text tracks, everything else plays the VTT from storage.
+ */
+
+export interface CaptionTrack {
+  id: string;
+  content_table: string;
+  content_id: string;
+  language_code: string;
+  label: string;
+  source: 'upload' | 'auto';
+  storage_key: string;
+  mux_track_id: string | null;
+  status: 'processing' | 'ready' | 'failed';
+  error_message: string | null;
+  created_at: string;
+}
+
+export const CAPTION_LANGUAGES = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt', label: 'Português' },
+  { code: 'pt-BR', label: 'Português (Brasil)' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'pl', label: 'Polski' },
+  { code: 'ru', label: 'Русский' },
+  { code: 'uk', label: 'Українська' },
+  { code: 'tr', label: 'Türkçe' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'zh', label: '中文' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+  { code: 'sw', label: 'Kiswahili' },
+  { code: 'yo', label: 'Yorùbá' },
+];
+
+export const CAPTION_FILE_ACCEPT = '.vtt,.srt,text/vtt';
+const MAX_CAPTION_BYTES = 1024 * 1024;
+
+export function captionLanguageLabel(code: string): string {
+  return CAPTION_LANGUAGES.find((language) => language.code === code)?.label ?? code;
+}
+
+/**
+ * URL of the stored VTT, for tracks the player loads itself. Mux text
+ * tracks come with the HLS stream instead.
+ */
+export function captionFileUrl(track: CaptionTrack): string {
+  return getStorageUrl(track.storage_key);
+}
+
+export async function fetchCaptionTracks(source: ContentSource, contentId: string): Promise<CaptionTrack[]> {
+  const { data, error } = await supabase
+    .from('content_captions')
+    .select('*')
+    .eq('content_table', CONTENT_TABLE_BY_SOURCE[source])
+    .eq('content_id', contentId)
+    .order('label', { ascending: true });
+
+  if (error) throw error;
+  return (data as CaptionTrack[]) || [];
+}
+
+async function invokeManageCaptions(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke('manage-captions', { body });
+
+  if (error) {
+    const rejection = await parseUploadErrorResponse(error);
+    throw new Error(
+      rejection
+        ? describeUploadError(rejection.code, rejection.details, rejection.message)
+        : error.message || 'Caption request failed'
+    );
+  }
+
+  return data as { caption?: CaptionTrack };
+}
+
+export async function uploadCaptionFile(
+  source: ContentSource,
+  contentId: string,
+  file: File,
+  language: string
+): Promise<CaptionTrack | undefined> {
+  if (!/\.(vtt|srt)$/i.test(file.name)) {
+    throw new Error('Caption files must be .vtt or .srt');
+  }
+  if (file.size > MAX_CAPTION_BYTES) {
+    throw new Error('Caption files must be 1MB or smaller');
+  }
+
+  const { caption } = await invokeManageCaptions({
+    action: 'upload',
+    source,
+    contentId,
+    language,
+    label: captionLanguageLabel(language),
+    content: await file.text(),
+  });
+  return caption;
+}
+
+export async function generateAutoCaptions(
+  source: ContentSource,
+  contentId: string,
+  language: string
+): Promise<CaptionTrack | undefined> {
+  const { caption } = await invokeManageCaptions({
+    action: 'auto',
+    source,
+    contentId,
+    language,
+    label: `${captionLanguageLabel(language)} (auto)`,
+  });
+  return caption;
+}
+
+export async function deleteCaptionTrack(captionId: string) {
+  await invokeManageCaptions({ action: 'delete', captionId });
+}
@@ -0,0 +1,554 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { StoredMediaUrls, withResolvedUrls } from './storage';
+import type { ImageVariant } from './responsiveImages';
+
+/**
+ * One place for reading and changing creator content. Media, portfolio and
+ * masterclass items live in a page-content table each, with the same
+ * publication and deletion columns; callers name the page with a `source`
+ * and never the table. A new destination is added to CONTENT_TABLE_BY_SOURCE
+ * (and SOURCE_ONLY_FIELDS if it has columns of its own).
+ *
+ * Like the other lib modules these throw; hooks turn errors into results.
+ */
+
+export type ContentSource = 'media' | 'portfolio' | 'masterclass';
+
+export const CONTENT_TABLE_BY_SOURCE: Record<ContentSource, string> = {
+  media: 'media_page_content',
+  portfolio: 'portfolio_page_content',
+  masterclass: 'masterclass_page_content',
+};
+
+export const CONTENT_SOURCES = Object.keys(CONTENT_TABLE_BY_SOURCE) as ContentSource[];
+
+// For RPCs that return rows from several content tables
+export const SOURCE_BY_CONTENT_TABLE = Object.fromEntries(
+  Object.entries(CONTENT_TABLE_BY_SOURCE).map(([source, table]) => [table, source])
+) as Record<string, ContentSource>;
+
+// Never listed back to their creator
+export const HIDDEN_STATUSES = ['archived', 'permanently_deleted'];
+
+export interface ContentRecord {
+  id: string;
+  user_id?: string;
+  title: string;
+  creator?: string;
+  description?: string;
+  category?: string;
+  thumbnail_url: string;
+  content_url: string;
+  thumbnail_key?: string | null;
+  thumbnail_variants?: ImageVariant[];
+  thumbnail_placeholder?: string | null;
+  content_key?: string | null;
+  like_count: number;
+  views_count: number;
+  // Part of views_count that came from embeds on other sites
+  embed_views_count?: number;
+  is_premium: boolean;
+  status: string;
+  type: string;
+  duration_seconds?: number | null;
+  read_time?: string;
+  created_at: string;
+  publication_destination?: string;
+  published_to?: string[];
+  deleted_at?: string | null;
+  auto_delete_at?: string | null;
+  saved?: boolean;
+  is_deleted_pending?: boolean;
+  // A draft's scheduled release; cleared once it is published
+  publish_at?: string | null;
+  scheduled_destinations?: ContentSource[];
+  // Masterclass only
+  level?: string;
+  features?: string[];
+  lessons_count?: number;
+  source: ContentSource;
+}
+
+export interface ContentEdit {
+  title: string;
+  description?: string;
+  category?: string;
+  is_premium?: boolean;
+  level?: string;
+  features?: string[];
+  lessons_count?: number;
+}
+
+// Edit fields that only exist on some tables
+const SOURCE_ONLY_FIELDS: Partial<Record<ContentSource, Array<keyof ContentEdit>>> = {
+  masterclass: ['level', 'features', 'lessons_count'],
+};
+
+// The columns a lifecycle transition changes
+export type ContentLifecycleState = Pick<
+  ContentRecord,
+  | 'status'
+  | 'published_to'
+  | 'publication_destination'
+  | 'deleted_at'
+  | 'auto_delete_at'
+  | 'is_deleted_pending'
+  | 'saved'
+  | 'publish_at'
+  | 'scheduled_destinations'
+>;
+
+export type ContentEventType =
+  | 'created'
+  | 'published'
+  | 'unpublished'
+  | 'pending_deletion'
+  | 'restored'
+  | 'archived'
+  | 'permanently_deleted'
+  | 'scheduled'
+  | 'unscheduled';
+
+export interface ContentEvent {
+  id: string;
+  content_table: string;
+  content_id: string;
+  owner_id: string;
+  // NULL for scheduled jobs
+  actor_id: string | null;
+  event_type: ContentEventType;
+  from_status: string | null;
+  to_status: string;
+  destination: string | null;
+  published_to: string[];
+  // Set on scheduled events
+  publish_at: string | null;
+  scheduled_destinations: ContentSource[];
+  created_at: string;
+}
+
+export interface ReleaseSchedule {
+  // ISO timestamp; null when the draft isn't scheduled
+  publishAt: string | null;
+  destinations: ContentSource[];
+}
+
+export function sameSchedule(a: ReleaseSchedule, b: ReleaseSchedule) {
+  if (!a.publishAt || !b.publishAt) return !a.publishAt && !b.publishAt;
+  return (
+    new Date(a.publishAt).getTime() === new Date(b.publishAt).getTime() &&
+    [...a.destinations].sort().join() === [...b.destinations].sort().join()
+  );
+}
+
+// A follower's view of a scheduled release: no content URL until it is out
+export interface UpcomingRelease {
+  source: ContentSource;
+  id: string;
+  user_id: string;
+  title: string;
+  creator: string;
+  type: string;
+  category?: string | null;
+  thumbnail_url: string;
+  thumbnail_key?: string | null;
+  thumbnail_variants?: ImageVariant[];
+  thumbnail_placeholder?: string | null;
+  is_premium: boolean;
+  publish_at: string;
+}
+
+// Feed posts (media_items) aren't page content but keep revisions too
+export type RevisionSource = ContentSource | 'feed';
+
+const REVISION_TABLE_BY_SOURCE: Record<RevisionSource, string> = {
+  ...CONTENT_TABLE_BY_SOURCE,
+  feed: 'media_items',
+};
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface ContentRevision {
+  id: string;
+  content_table: string;
+  content_id: string;
+  owner_id: string;
+  // NULL for the service role
+  editor_id: string | null;
+  revision_number: number;
+  // Only the fields this edit changed, by column name
+  changes: Record<string, FieldChange>;
+  // Set when the edit was a restore of that revision
+  restored_from: number | null;
+  created_at: string;
+}
+
+// Columns vary with the table; feed posts have no storage keys
+export type RestoredContent = StoredMediaUrls & Record<string, unknown>;
+
+export type BulkContentAction = 'publish' | 'unpublish' | 'set_category' | 'set_premium' | 'trash' | 'restore';
+
+export interface BulkContentParams {
+  // For publish and unpublish
+  destination?: ContentSource;
+  // For set_category; '' clears it
+  category?: string;
+  // For set_premium
+  is_premium?: boolean;
+}
+
+// The columns a bulk action or its undo can change
+export type BulkContentState = ContentLifecycleState & Pick<ContentRecord, 'category' | 'is_premium'>;
+
+export interface BulkItemResult {
+  source: ContentSource;
+  id: string;
+  success: boolean;
+  error?: string;
+  // The item's columns afterwards, on success
+  state?: BulkContentState;
+}
+
+export interface BulkContentReport {
+  batchId: string;
+  results: BulkItemResult[];
+}
+
+export interface ContentFilters {
+  userId?: string;
+  category?: string;
+  status?: string;
+  excludeStatuses?: string[];
+}
+
+export interface ContentChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  source: ContentSource;
+  id: string;
+  // The row after the change; null for deletes
+  record: ContentRecord | null;
+}
+
+type ContentRow = Omit<ContentRecord, 'source'>;
+
+function toRecord(source: ContentSource, row: ContentRow): ContentRecord {
+  return { ...withResolvedUrls(row), source };
+}
+
+export async function fetchContent(source: ContentSource, filters: ContentFilters = {}): Promise<ContentRecord[]> {
+  let query = supabase.from(CONTENT_TABLE_BY_SOURCE[source]).select('*');
+
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.category) query = query.eq('category', filters.category);
+  if (filters.status) query = query.eq('status', filters.status);
+  for (const status of filters.excludeStatuses ?? []) {
+    query = query.neq('status', status);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map((row) => toRecord(source, row));
+}
+
+// Everything a creator has made, across every page, newest first
+export async function fetchMyContent(userId: string): Promise<ContentRecord[]> {
+  const perSource = await Promise.all(
+    CONTENT_SOURCES.map((source) => fetchContent(source, { userId, excludeStatuses: HIDDEN_STATUSES }))
+  );
+
+  return perSource
+    .flat()
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+}
+
+// Published items as a page lists them (get_content_by_destination)
+export async function fetchPublishedContent<T extends StoredMediaUrls>(
+  destination: ContentSource
+): Promise<T[]> {
+  const { data, error } = await supabase.rpc('get_content_by_destination', { destination });
+
+  if (error) throw error;
+  return ((data as T[]) || []).map(withResolvedUrls);
+}
+
+// An item's current like count, read back after a like or unlike
+export async function fetchLikeCount(source: ContentSource, contentId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(CONTENT_TABLE_BY_SOURCE[source])
+    .select('like_count')
+    .eq('id', contentId)
+    .single();
+
+  if (error) throw error;
+  return data?.like_count ?? 0;
+}
+
+export async function createContent(source: ContentSource, row: Record<string, unknown>): Promise<ContentRecord> {
+  const { data, error } = await supabase
+    .from(CONTENT_TABLE_BY_SOURCE[source])
+    .insert([row])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toRecord(source, data);
+}
+
+export async function updateContent<T extends object>(
+  source: ContentSource,
+  contentId: string,
+  updates: T
+): Promise<T> {
+  const { error } = await supabase
+    .from(CONTENT_TABLE_BY_SOURCE[source])
+    .update(updates)
+    .eq('id', contentId);
+
+  if (error) throw error;
+  return updates;
+}
+
+// The columns an edit writes; fields the source doesn't have are dropped
+export function contentEditColumns(source: ContentSource, edit: ContentEdit) {
+  const columns: Record<string, unknown> = {
+    title: edit.title,
+    description: edit.description || null,
+    category: edit.category || null,
+    is_premium: edit.is_premium ?? false,
+  };
+
+  for (const field of SOURCE_ONLY_FIELDS[source] ?? []) {
+    if (edit[field] !== undefined && edit[field] !== '') {
+      columns[field] = edit[field];
+    }
+  }
+
+  return columns;
+}
+
+export function editContent(source: ContentSource, contentId: string, edit: ContentEdit) {
+  return updateContent(source, contentId, contentEditColumns(source, edit));
+}
+
+/**
+ * Lifecycle transitions run server-side under a row lock (see
+ * database/code/database/031_content_lifecycle.sql), so racing tabs can't
+ * overwrite each other's published_to; an invalid move (say, publishing an
+ * item pending deletion) is rejected there. Each returns the item's new
+ * lifecycle columns and is recorded in content_events.
+ */
+async function transition(rpc: string, args: Record<string, unknown>): Promise<ContentLifecycleState> {
+  const { data, error } = await supabase.rpc(rpc, args);
+
+  if (error) throw error;
+  return data as ContentLifecycleState;
+}
+
+export function publishContent(source: ContentSource, contentId: string, destination: ContentSource) {
+  return transition('publish_content', {
+    p_content_table: CONTENT_TABLE_BY_SOURCE[source],
+    p_content_id: contentId,
+    p_destination: destination,
+  });
+}
+
+// Once an item is on no destination it goes into pending deletion and is
+// deleted for good after 3 days
+export function unpublishContent(source: ContentSource, contentId: string, destination: ContentSource) {
+  return transition('unpublish_content', {
+    p_content_table: CONTENT_TABLE_BY_SOURCE[source],
+    p_content_id: contentId,
+    p_destination: destination,
+  });
+}
+
+// Pending deletion back to an unpublished draft
+export function restoreContent(source: ContentSource, contentId: string) {
+  return transition('restore_content', { p_content_table: CONTENT_TABLE_BY_SOURCE[source], p_content_id: contentId });
+}
+
+// Hidden from every list but kept in the table
+export function softDeleteContent(source: ContentSource, contentId: string) {
+  return transition('archive_content', { p_content_table: CONTENT_TABLE_BY_SOURCE[source], p_content_id: contentId });
+}
+
+/**
+ * Publish a draft to `destinations` at `publishAt`, replacing any earlier
+ * schedule; null clears it. A job publishes due drafts every minute and
+ * any manual transition cancels the schedule.
+ */
+export function scheduleContent(
+  source: ContentSource,
+  contentId: string,
+  publishAt: string | null,
+  destinations: ContentSource[] = []
+) {
+  return transition('schedule_content', {
+    p_content_table: CONTENT_TABLE_BY_SOURCE[source],
+    p_content_id: contentId,
+    p_publish_at: publishAt,
+    p_destinations: publishAt ? destinations : null,
+  });
+}
+
+// Scheduled releases for a page from creators the viewer follows, soonest first
+export async function fetchUpcomingReleases(destination: ContentSource, limit = 12): Promise<UpcomingRelease[]> {
+  const { data, error } = await supabase.rpc('get_upcoming_releases', {
+    p_destination: destination,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return ((data as Array<Omit<UpcomingRelease, 'source'> & { content_table: string }>) || []).map(
+    ({ content_table, ...release }) => withResolvedUrls({ ...release, source: SOURCE_BY_CONTENT_TABLE[content_table] })
+  );
+}
+
+// An item's transitions, newest first
+export async function fetchContentEvents(source: ContentSource, contentId: string): Promise<ContentEvent[]> {
+  const { data, error } = await supabase
+    .from('content_events')
+    .select('*')
+    .eq('content_table', CONTENT_TABLE_BY_SOURCE[source])
+    .eq('content_id', contentId)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+  return (data as ContentEvent[]) || [];
+}
+
+// An item's edits, newest first
+export async function fetchContentRevisions(source: RevisionSource, contentId: string): Promise<ContentRevision[]> {
+  const { data, error } = await supabase
+    .from('content_revisions')
+    .select('*')
+    .eq('content_table', REVISION_TABLE_BY_SOURCE[source])
+    .eq('content_id', contentId)
+    .order('revision_number', { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+  return (data as ContentRevision[]) || [];
+}
+
+/**
+ * Put an item back the way it was after `revisionNumber` (0 for as
+ * uploaded), recorded as a new revision. Returns the item's row after the
+ * restore.
+ */
+export async function restoreContentRevision(
+  source: RevisionSource,
+  contentId: string,
+  revisionNumber: number
+): Promise<RestoredContent> {
+  const { data, error } = await supabase.rpc('restore_content_revision', {
+    p_content_table: REVISION_TABLE_BY_SOURCE[source],
+    p_content_id: contentId,
+    p_revision_number: revisionNumber,
+  });
+
+  if (error) throw error;
+  return withResolvedUrls(data as RestoredContent);
+}
+
+interface BulkRpcResult {
+  batch_id: string;
+  results: Array<{
+    content_table: string;
+    content_id: string;
+    success: boolean;
+    error?: string;
+    after?: BulkContentState;
+  }>;
+}
+
+function toBulkReport(data: BulkRpcResult): BulkContentReport {
+  return {
+    batchId: data.batch_id,
+    results: data.results.map((result) => ({
+      source: SOURCE_BY_CONTENT_TABLE[result.content_table],
+      id: result.content_id,
+      success: result.success,
+      error: result.error,
+      state: result.after,
+    })),
+  };
+}
+
+/**
+ * Apply one action to many items in a single call (up to 500). Items are
+ * handled one by one, so an item that can't take the action is reported
+ * with its error and the rest still go through. Publish, unpublish, trash
+ * and restore are lifecycle transitions like the single-item ones.
+ */
+export async function runBulkContentAction(
+  items: Array<{ source: ContentSource; id: string }>,
+  action: BulkContentAction,
+  params: BulkContentParams = {}
+): Promise<BulkContentReport> {
+  const { data, error } = await supabase.rpc('bulk_content_action', {
+    p_items: items.map((item) => ({ content_table: CONTENT_TABLE_BY_SOURCE[item.source], content_id: item.id })),
+    p_action: action,
+    p_params: params,
+  });
+
+  if (error) throw error;
+  return toBulkReport(data as BulkRpcResult);
+}
+
+// Put back the items of a bulk action that haven't changed since; a batch
+// can be undone once
+export async function undoBulkContentAction(batchId: string): Promise<BulkContentReport> {
+  const { data, error } = await supabase.rpc('undo_content_batch', { p_batch_id: batchId });
+
+  if (error) throw error;
+  return toBulkReport(data as BulkRpcResult);
+}
+
+export async function deleteContent(source: ContentSource, contentId: string) {
+  const { error } = await supabase
+    .from(CONTENT_TABLE_BY_SOURCE[source])
+    .delete()
+    .eq('id', contentId);
+
+  if (error) throw error;
+}
+
+/**
+ * Realtime changes to one source's items, optionally only one creator's.
+ * Returns the unsubscribe function.
+ */
+export function subscribeToContent(
+  source: ContentSource,
+  onChange: (change: ContentChange) => void,
+  options: { userId?: string } = {}
+) {
+  const table = CONTENT_TABLE_BY_SOURCE[source];
+  const filter = options.userId ? `user_id=eq.${options.userId}` : undefined;
+
+  const channel = supabase
+    .channel(filter ? `public:${table}:${filter}` : `public:${table}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, ...(filter ? { filter } : {}) },
+      (payload: RealtimePostgresChangesPayload<ContentRow>) => {
+        onChange({
+          eventType: payload.eventType,
+          source,
+          id: payload.eventType === 'DELETE' ? payload.old.id! : payload.new.id,
+          record: payload.eventType === 'DELETE' ? null : toRecord(source, payload.new),
+        });
+      }
+    )
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+}
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import { withResolvedUrls } from './storage';
+import { ContentSource, SOURCE_BY_CONTENT_TABLE } from './contentRepository';
+
+/**
+ * Published items played on other sites through /embed/:contentId (see
+ * database/code/database/030_embeds.sql). The oembed function serves the
+ * same iframe to platforms that unfurl pasted links.
+ */
+
+export interface EmbedContent {
+  source: ContentSource;
+  id: string;
+  user_id: string;
+  title: string;
+  creator: string;
+  type: string;
+  thumbnail_url: string;
+  content_url: string;
+  thumbnail_key?: string | null;
+  content_key?: string | null;
+  duration_seconds: number | null;
+  width: number | null;
+  height: number | null;
+  is_premium: boolean;
+}
+
+export const EMBED_WIDTH = 640;
+export const EMBED_HEIGHT = 360;
+
+export function embedUrl(contentId: string): string {
+  return `${window.location.origin}/embed/${contentId}`;
+}
+
+export function embedCode(item: { id: string; title: string }): string {
+  const title = item.title.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  return `<iframe src="${embedUrl(item.id)}" width="${EMBED_WIDTH}" height="${EMBED_HEIGHT}" title="${title}" frameborder="0" allow="autoplay; fullscreen; picture-in-picture" allowfullscreen></iframe>`;
+}
+
+export function oembedUrl(contentId: string): string {
+  const params = new URLSearchParams({ url: embedUrl(contentId), format: 'json' });
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/oembed?${params}`;
+}
+
+// Null when the item doesn't exist or isn't published
+export async function fetchEmbedContent(contentId: string): Promise<EmbedContent | null> {
+  const { data, error } = await supabase.rpc('get_embed_content', { p_content_id: contentId });
+  if (error) throw error;
+
+  const row = (data as Array<Omit<EmbedContent, 'source'> & { content_table: string }> | null)?.[0];
+  if (!row) return null;
+
+  const { content_table, ...item } = row;
+  return withResolvedUrls({ ...item, source: SOURCE_BY_CONTENT_TABLE[content_table] });
+}
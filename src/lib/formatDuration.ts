@@ -0,0 +1,19 @@
+/**
+ * Format a duration in seconds as `m:ss` or `h:mm:ss`. Durations come from
+ * the server (`duration_seconds` on content and upload rows); this is the
+ * only place the app turns them into text.
+ */
+export function formatDuration(seconds: number | null | undefined): string | null {
+  if (seconds === null || seconds === undefined || !isFinite(seconds) || seconds < 0) {
+    return null;
+  }
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  }
+  return `${minutes}:${String(secs).padStart(2, '0')}`;
+}
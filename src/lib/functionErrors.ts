@@ -0,0 +1,29 @@
+/**
+ * The `{ error, code, details }` body the shared edge-function middleware
+ * sends with every failure (supabase/functions/_shared/middleware.ts)
+ */
+export interface FunctionErrorBody {
+  code: string;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Read the error envelope from a failed functions.invoke call; null when the
+ * response has no JSON body with a code
+ */
+export async function parseFunctionError(error: unknown): Promise<FunctionErrorBody | null> {
+  const response = (error as { context?: unknown })?.context;
+  if (!(response instanceof Response)) return null;
+
+  try {
+    const body = await response.clone().json();
+    if (body?.code) {
+      return { code: body.code, message: body.error ?? '', details: body.details ?? {} };
+    }
+  } catch {
+    // Not a JSON error body
+  }
+
+  return null;
+}
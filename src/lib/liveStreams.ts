@@ -0,0 +1,140 @@
+import { supabase } from './supabase';
+import { describeUploadError, parseUploadErrorResponse } from './uploadErrors';
+import type { Event } from '../types/events';
+
+/**
+ * Client side of event live streaming
+ * (see database/code/database/021_event_live_streams.sql).
+ * manage-live-stream creates the Mux live stream; the Mux webhook moves the
+ * event between upcoming, ongoing and completed and attaches the replay.
+ */
+
+export interface EventLiveStream {
+  eventId: string;
+  liveStreamId: string;
+  streamKey: string;
+  rtmpUrl: string;
+  playbackId: string;
+  status: 'idle' | 'active' | 'disconnected' | 'disabled';
+}
+
+export interface EventLiveStreamRow {
+  event_id: string;
+  mux_live_stream_id: string;
+  stream_key: string;
+  playback_id: string;
+  status: EventLiveStream['status'];
+}
+
+// Same ingest URL manage-live-stream hands out
+export const MUX_RTMP_URL = 'rtmps://global-live.mux.com:443/app';
+
+export function toLiveStream(row: EventLiveStreamRow): EventLiveStream {
+  return {
+    eventId: row.event_id,
+    liveStreamId: row.mux_live_stream_id,
+    streamKey: row.stream_key,
+    rtmpUrl: MUX_RTMP_URL,
+    playbackId: row.playback_id,
+    status: row.status,
+  };
+}
+
+// Columns of public.events; the UI works with the Event type
+export interface EventRow {
+  id: string;
+  title: string;
+  description: string | null;
+  category: Event['category'];
+  event_date: string;
+  event_time: string;
+  location: string;
+  organizer_id: string;
+  organizer_name: string;
+  image_url: string | null;
+  price: number;
+  capacity: number;
+  attendees_count: number;
+  rating: number;
+  reviews_count: number;
+  features: string[] | null;
+  speakers: string[] | null;
+  is_livestream: boolean;
+  livestream_url: string | null;
+  live_playback_id: string | null;
+  replay_playback_id: string | null;
+  replay_duration_seconds: number | null;
+  status: 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
+  created_at: string;
+  updated_at: string;
+}
+
+const EVENT_STATUS: Record<EventRow['status'], Event['status']> = {
+  upcoming: 'upcoming',
+  ongoing: 'happening',
+  completed: 'past',
+  cancelled: 'past',
+};
+
+export function toEvent(row: EventRow): Event {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description || '',
+    category: row.category,
+    date: row.event_date,
+    time: row.event_time,
+    location: row.location,
+    organizer_id: row.organizer_id,
+    organizer_name: row.organizer_name,
+    image_url: row.image_url || '',
+    price: Number(row.price),
+    currency: 'UGX',
+    capacity: row.capacity,
+    attendees_count: row.attendees_count,
+    rating: Number(row.rating),
+    reviews_count: row.reviews_count,
+    features: row.features || [],
+    speakers: row.speakers || [],
+    status: EVENT_STATUS[row.status],
+    is_livestream: row.is_livestream,
+    livestream_url: row.livestream_url || undefined,
+    live_playback_id: row.live_playback_id || undefined,
+    replay_playback_id: row.replay_playback_id || undefined,
+    replay_duration_seconds: row.replay_duration_seconds,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+async function invokeManageLiveStream(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke('manage-live-stream', { body });
+
+  if (error) {
+    const rejection = await parseUploadErrorResponse(error);
+    throw new Error(
+      rejection
+        ? describeUploadError(rejection.code, rejection.details, rejection.message)
+        : error.message || 'Live stream request failed'
+    );
+  }
+
+  return data as { stream?: EventLiveStream };
+}
+
+/**
+ * Create the event's live stream, or fetch it if it already exists
+ */
+export async function createEventLiveStream(eventId: string): Promise<EventLiveStream | undefined> {
+  const { stream } = await invokeManageLiveStream({ action: 'create', eventId });
+  return stream;
+}
+
+export async function resetEventStreamKey(eventId: string): Promise<EventLiveStream | undefined> {
+  const { stream } = await invokeManageLiveStream({ action: 'reset_key', eventId });
+  return stream;
+}
+
+export async function deleteEventLiveStream(eventId: string) {
+  await invokeManageLiveStream({ action: 'delete', eventId });
+}
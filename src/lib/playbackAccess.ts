@@ -0,0 +1,42 @@
+import { supabase } from './supabase';
+import { ContentSource } from './contentRepository';
+import { parseFunctionError } from './functionErrors';
+
+/**
+ * Credentials from the playback-token function. Public content plays from
+ * its stored URL; signed content needs the Mux tokens or presigned URL,
+ * which stop working at `expiresAt`.
+ */
+export type PlaybackAccess =
+  | { policy: 'public' }
+  | {
+      policy: 'signed';
+      playbackId: string;
+      tokens: { playback: string; thumbnail: string; storyboard: string };
+      expiresAt: string;
+    }
+  | { policy: 'signed'; url: string; expiresAt: string };
+
+// The viewer's plan doesn't include premium content
+export class PremiumRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PremiumRequiredError';
+  }
+}
+
+export async function fetchPlaybackAccess(source: ContentSource, contentId: string): Promise<PlaybackAccess> {
+  const { data, error } = await supabase.functions.invoke('playback-token', {
+    body: { source, contentId },
+  });
+
+  if (error) {
+    const rejection = await parseFunctionError(error);
+    if (rejection?.code === 'PREMIUM_REQUIRED') {
+      throw new PremiumRequiredError(rejection.message || 'Upgrade your plan to watch premium content');
+    }
+    throw new Error(rejection?.message || error.message || 'Could not load this video');
+  }
+
+  return data as PlaybackAccess;
+}
@@ -0,0 +1,122 @@
+import { supabase } from './supabase';
+import { CONTENT_TABLE_BY_SOURCE, ContentSource } from './contentRepository';
+
+export type PlaybackEventType = 'play' | 'pause' | 'seek' | 'ended' | 'heartbeat';
+
+// What the player reports; the collector works out how much was watched
+export interface PlayerEvent {
+  type: PlaybackEventType;
+  position: number;
+  duration?: number;
+}
+
+interface CollectedEvent {
+  type: PlaybackEventType;
+  position: number;
+  watched: number;
+}
+
+export interface PlaybackCollector {
+  record: (event: PlayerEvent) => void;
+  flush: () => Promise<void>;
+  close: () => Promise<void>;
+}
+
+// Send what's buffered this often while the video plays
+const FLUSH_INTERVAL_MS = 15 * 1000;
+// How far the position may run ahead of the wall clock and still count as
+// watched rather than skipped (covers timer jitter and faster playback rates)
+const MAX_PLAYBACK_RATE = 2.5;
+
+/**
+ * Buffer one viewing's player events and write them to its
+ * playback_sessions row through record_playback_events. Played time is
+ * measured between consecutive events, so seeks don't count as watched.
+ */
+export function createPlaybackCollector(source: ContentSource, contentId: string): PlaybackCollector {
+  const sessionId = crypto.randomUUID();
+  let buffer: CollectedEvent[] = [];
+  let duration = 0;
+  let playing = false;
+  let lastPosition = 0;
+  let lastAt = 0;
+  let sending: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    if (buffer.length === 0) return sending;
+
+    const events = buffer;
+    buffer = [];
+    sending = sending.then(async () => {
+      const { error } = await supabase.rpc('record_playback_events', {
+        p_session_id: sessionId,
+        p_content_table: CONTENT_TABLE_BY_SOURCE[source],
+        p_content_id: contentId,
+        p_duration_seconds: duration || null,
+        p_events: events,
+      });
+
+      if (error) console.error('Error recording playback events:', error);
+    });
+    return sending;
+  };
+
+  const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+
+  const record = ({ type, position, duration: reportedDuration }: PlayerEvent) => {
+    if (reportedDuration && Number.isFinite(reportedDuration)) duration = reportedDuration;
+
+    const now = performance.now();
+    let watched = 0;
+    if (playing && type !== 'seek') {
+      const elapsed = (now - lastAt) / 1000;
+      const advanced = position - lastPosition;
+      if (advanced > 0 && advanced <= elapsed * MAX_PLAYBACK_RATE + 1) watched = advanced;
+    }
+
+    buffer.push({ type, position, watched: Math.round(watched * 100) / 100 });
+
+    if (type === 'play') playing = true;
+    if (type === 'pause' || type === 'ended') playing = false;
+    lastPosition = position;
+    lastAt = now;
+
+    if (type === 'pause' || type === 'ended') flush();
+  };
+
+  return {
+    record,
+    flush,
+    close: () => {
+      clearInterval(timer);
+      return flush();
+    },
+  };
+}
+
+export interface ContentPlaybackStats {
+  content_table: string;
+  content_id: string;
+  session_count: number;
+  total_watch_seconds: number;
+  average_view_seconds: number;
+  completion_rate: number;
+  // Share of sessions (0-1) that played each twentieth of the video
+  retention: number[];
+  computed_at: string;
+}
+
+export async function fetchPlaybackStats(
+  source: ContentSource,
+  contentId: string
+): Promise<ContentPlaybackStats | null> {
+  const { data, error } = await supabase
+    .from('content_playback_stats')
+    .select('*')
+    .eq('content_table', CONTENT_TABLE_BY_SOURCE[source])
+    .eq('content_id', contentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ContentPlaybackStats | null;
+}
@@ -0,0 +1,81 @@
+import { supabase } from './supabase';
+import { withResolvedUrls } from './storage';
+import { CONTENT_TABLE_BY_SOURCE, ContentSource, SOURCE_BY_CONTENT_TABLE } from './contentRepository';
+
+/**
+ * Per-viewer playback positions (see
+ * database/code/database/028_playback_positions.sql). Positions are only
+ * kept for items long enough to come back to, and an item is only resumed
+ * once the viewer got past its first few seconds.
+ */
+
+export const MIN_RESUMABLE_DURATION_SECONDS = 5 * 60;
+export const MIN_RESUME_POSITION_SECONDS = 10;
+
+export interface ContinueWatchingItem {
+  source: ContentSource;
+  id: string;
+  user_id: string;
+  title: string;
+  creator: string;
+  description?: string | null;
+  type: string;
+  thumbnail_url: string;
+  content_url: string;
+  thumbnail_key?: string | null;
+  content_key?: string | null;
+  duration_seconds: number | null;
+  views_count: number;
+  like_count: number;
+  is_premium: boolean;
+  position_seconds: number;
+  last_watched_at: string;
+}
+
+// Pages that open an item from Continue watching (`?play=<id>`); portfolio
+// items open their file directly, so they are never resumed
+export const PLAYER_PAGE_BY_SOURCE: Partial<Record<ContentSource, string>> = {
+  media: '/media',
+  masterclass: '/masterclass',
+};
+
+export async function fetchPlaybackPosition(source: ContentSource, contentId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('playback_positions')
+    .select('position_seconds, completed')
+    .eq('content_table', CONTENT_TABLE_BY_SOURCE[source])
+    .eq('content_id', contentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.completed || data.position_seconds < MIN_RESUME_POSITION_SECONDS) return null;
+  return Number(data.position_seconds);
+}
+
+export async function savePlaybackPosition(
+  source: ContentSource,
+  contentId: string,
+  positionSeconds: number,
+  durationSeconds: number | null
+) {
+  const { error } = await supabase.rpc('save_playback_position', {
+    p_content_table: CONTENT_TABLE_BY_SOURCE[source],
+    p_content_id: contentId,
+    p_position_seconds: positionSeconds,
+    p_duration_seconds: durationSeconds,
+  });
+
+  if (error) throw error;
+}
+
+export async function fetchContinueWatching(source?: ContentSource, limit = 12): Promise<ContinueWatchingItem[]> {
+  const { data, error } = await supabase.rpc('get_continue_watching', {
+    p_content_table: source ? CONTENT_TABLE_BY_SOURCE[source] : null,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return ((data as Array<Omit<ContinueWatchingItem, 'source'> & { content_table: string }>) || []).map(
+    ({ content_table, ...item }) => withResolvedUrls({ ...item, source: SOURCE_BY_CONTENT_TABLE[content_table] })
+  );
+}
@@ -0,0 +1,171 @@
+import { ContentSource } from './contentRepository';
+
+/**
+ * Playback queue for the app-level mini-player. The queue keeps the items
+ * in the order they were added; `order` is the play order over their
+ * indexes (shuffled or not) and `cursor` points at the current entry in it.
+ * The whole state, plus the position in the current item, is kept in
+ * localStorage so playback resumes where it stopped after a reload.
+ */
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlayerItem {
+  id: string;
+  source: ContentSource;
+  title: string;
+  creator: string;
+  thumbnail_url: string;
+  content_url: string;
+  type: string;
+  duration_seconds?: number | null;
+  is_premium?: boolean;
+}
+
+export interface PlayerQueue {
+  items: PlayerItem[];
+  order: number[];
+  cursor: number;
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+interface StoredPlayerState extends PlayerQueue {
+  position: number;
+}
+
+const PLAYER_STATE_STORAGE_KEY = 'player_state';
+
+// Content types that play without a picture; the mini-player shows only
+// their artwork
+export const AUDIO_CONTENT_TYPES = ['audio-music', 'podcast'];
+
+export const EMPTY_QUEUE: PlayerQueue = { items: [], order: [], cursor: 0, shuffle: false, repeat: 'off' };
+
+/**
+ * Playback ID of a Mux stream URL (or a bare playback ID); null for files
+ * served from storage
+ */
+export function muxPlaybackId(contentUrl: string): string | null {
+  if (contentUrl.includes('stream.mux.com')) {
+    return contentUrl.match(/stream\.mux\.com\/([a-zA-Z0-9]+)/)?.[1] ?? null;
+  }
+  return contentUrl && !contentUrl.includes('://') ? contentUrl : null;
+}
+
+export function toPlayerItem(
+  content: Omit<PlayerItem, 'source'>,
+  source: ContentSource
+): PlayerItem {
+  return {
+    id: content.id,
+    source,
+    title: content.title,
+    creator: content.creator,
+    thumbnail_url: content.thumbnail_url,
+    content_url: content.content_url,
+    type: content.type,
+    duration_seconds: content.duration_seconds,
+    is_premium: content.is_premium,
+  };
+}
+
+function shuffled(indexes: number[]): number[] {
+  const result = [...indexes];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Play order starting at `start`; when shuffled the rest follows at random
+function buildOrder(length: number, start: number, shuffle: boolean) {
+  const indexes = Array.from({ length }, (_, i) => i);
+  if (!shuffle) return { order: indexes, cursor: start };
+
+  return { order: [start, ...shuffled(indexes.filter((i) => i !== start))], cursor: 0 };
+}
+
+export function currentItem(queue: PlayerQueue): PlayerItem | null {
+  return queue.items[queue.order[queue.cursor]] ?? null;
+}
+
+export function createQueue(items: PlayerItem[], startIndex: number, current: PlayerQueue): PlayerQueue {
+  return { ...current, items, ...buildOrder(items.length, startIndex, current.shuffle) };
+}
+
+/**
+ * Move one entry forward or back. Returns null at either end unless
+ * repeat-all wraps around.
+ */
+export function stepQueue(queue: PlayerQueue, direction: 1 | -1): PlayerQueue | null {
+  const cursor = queue.cursor + direction;
+  if (cursor >= 0 && cursor < queue.order.length) return { ...queue, cursor };
+  if (queue.repeat !== 'all' || queue.order.length === 0) return null;
+
+  return { ...queue, cursor: direction === 1 ? 0 : queue.order.length - 1 };
+}
+
+export function jumpTo(queue: PlayerQueue, itemIndex: number): PlayerQueue {
+  const cursor = queue.order.indexOf(itemIndex);
+  return cursor === -1 ? queue : { ...queue, cursor };
+}
+
+// Items already queued are not added twice
+export function appendToQueue(queue: PlayerQueue, item: PlayerItem): PlayerQueue {
+  if (queue.items.some((queued) => queued.id === item.id)) return queue;
+
+  const index = queue.items.length;
+  return { ...queue, items: [...queue.items, item], order: [...queue.order, index] };
+}
+
+export function removeFromQueue(queue: PlayerQueue, itemIndex: number): PlayerQueue {
+  const removedCursor = queue.order.indexOf(itemIndex);
+  const items = queue.items.filter((_, i) => i !== itemIndex);
+  const order = queue.order
+    .filter((i) => i !== itemIndex)
+    .map((i) => (i > itemIndex ? i - 1 : i));
+  // Removing the current entry makes the following one current
+  const cursor = removedCursor !== -1 && removedCursor < queue.cursor ? queue.cursor - 1 : queue.cursor;
+
+  return { ...queue, items, order, cursor: Math.min(cursor, Math.max(order.length - 1, 0)) };
+}
+
+/**
+ * Turning shuffle on keeps the current item and shuffles the rest;
+ * turning it off continues in queue order from the current item
+ */
+export function setShuffle(queue: PlayerQueue, shuffle: boolean): PlayerQueue {
+  const current = queue.order[queue.cursor] ?? 0;
+  return { ...queue, shuffle, ...buildOrder(queue.items.length, current, shuffle) };
+}
+
+export function nextRepeatMode(repeat: RepeatMode): RepeatMode {
+  return repeat === 'off' ? 'all' : repeat === 'all' ? 'one' : 'off';
+}
+
+export function loadPlayerState(): { queue: PlayerQueue; position: number } {
+  try {
+    const raw = localStorage.getItem(PLAYER_STATE_STORAGE_KEY);
+    if (!raw) return { queue: EMPTY_QUEUE, position: 0 };
+
+    const { position, ...queue } = JSON.parse(raw) as StoredPlayerState;
+    if (!Array.isArray(queue.items) || !Array.isArray(queue.order)) return { queue: EMPTY_QUEUE, position: 0 };
+    return { queue, position: position || 0 };
+  } catch {
+    return { queue: EMPTY_QUEUE, position: 0 };
+  }
+}
+
+export function savePlayerState(queue: PlayerQueue, position: number) {
+  try {
+    if (queue.items.length === 0) {
+      localStorage.removeItem(PLAYER_STATE_STORAGE_KEY);
+      return;
+    }
+    localStorage.setItem(PLAYER_STATE_STORAGE_KEY, JSON.stringify({ ...queue, position } satisfies StoredPlayerState));
+  } catch {
+    // Storage full or unavailable: playback works, it just won't resume
+  }
+}
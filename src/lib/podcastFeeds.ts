@@ -0,0 +1,32 @@
+import { supabase } from './supabase';
+
+/**
+ * RSS feeds of published audio, served by the podcast-feed function (see
+ * database/code/database/029_podcast_feeds.sql). The private variant adds
+ * the viewer's feed token, which lists premium episodes for paid tiers.
+ */
+
+export type PodcastFeedTarget = { creatorId: string } | { seriesId: string };
+
+const FEED_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/podcast-feed`;
+
+export function podcastFeedUrl(target: PodcastFeedTarget, token?: string | null): string {
+  const params = new URLSearchParams(
+    'seriesId' in target ? { series: target.seriesId } : { creator: target.creatorId }
+  );
+  if (token) params.set('token', token);
+  return `${FEED_ENDPOINT}?${params}`;
+}
+
+export async function fetchPodcastFeedToken(): Promise<string> {
+  const { data, error } = await supabase.rpc('get_podcast_feed_token');
+  if (error) throw error;
+  return data as string;
+}
+
+// Revokes every private feed link handed out so far
+export async function resetPodcastFeedToken(): Promise<string> {
+  const { data, error } = await supabase.rpc('reset_podcast_feed_token');
+  if (error) throw error;
+  return data as string;
+}
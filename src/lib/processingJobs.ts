@@ -0,0 +1,180 @@
+import { supabase } from './supabase';
+import { describeUploadError, parseUploadErrorResponse } from './uploadErrors';
+
+/**
+ * Client side of the video processing job tracker
+ * (see database/code/database/018_video_processing_jobs.sql).
+ * Jobs are created by process-new-video / process-masterclass-video and
+ * advanced by the Mux webhook; the browser only watches them over realtime.
+ */
+
+export type ProcessingJobState = 'uploaded' | 'queued' | 'processing' | 'ready' | 'errored' | 'cancelled';
+
+export interface ProcessingJob {
+  id: string;
+  user_id: string;
+  upload_table: 'video_uploads' | 'masterclass_video_uploads';
+  upload_id: string | null;
+  storage_key: string;
+  title: string | null;
+  playback_policy: 'public' | 'signed';
+  asset_id: string | null;
+  playback_id: string | null;
+  state: ProcessingJobState;
+  error_message: string | null;
+  attempts: number;
+  dismissed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const ACTIVE_JOB_STATES: ProcessingJobState[] = ['uploaded', 'queued', 'processing'];
+
+export const JOB_STATE_LABELS: Record<ProcessingJobState, string> = {
+  uploaded: 'Uploaded',
+  queued: 'Queued',
+  processing: 'Processing',
+  ready: 'Ready',
+  errored: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const PROCESS_FUNCTION_BY_TABLE: Record<ProcessingJob['upload_table'], string> = {
+  video_uploads: 'process-new-video',
+  masterclass_video_uploads: 'process-masterclass-video',
+};
+
+export function isActiveJob(job: ProcessingJob): boolean {
+  return ACTIVE_JOB_STATES.includes(job.state);
+}
+
+export class ProcessingJobFailedError extends Error {
+  constructor(public job: ProcessingJob) {
+    super(job.state === 'cancelled' ? 'Video processing was cancelled' : job.error_message || 'Video processing failed');
+    this.name = 'ProcessingJobFailedError';
+  }
+}
+
+async function invokeProcessFunction(name: string, body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error || !data?.jobId) {
+    const rejection = error ? await parseUploadErrorResponse(error) : null;
+    throw new Error(
+      rejection
+        ? describeUploadError(rejection.code, rejection.details, rejection.message)
+        : error?.message || 'Failed to process video with Mux'
+    );
+  }
+
+  return data as { jobId: string; uploadId: string; data: { id: string } };
+}
+
+/**
+ * Send an uploaded file to Mux. Returns the job to follow with
+ * waitForProcessingJob. Premium videos only ever get a signed playback ID.
+ */
+export function submitVideoForProcessing(
+  uploadTable: ProcessingJob['upload_table'],
+  storageKey: string,
+  title?: string,
+  premium = false
+) {
+  return invokeProcessFunction(PROCESS_FUNCTION_BY_TABLE[uploadTable], { filename: storageKey, title, premium });
+}
+
+/**
+ * Resubmit a failed job with the file that is already in storage
+ */
+export function retryProcessingJob(job: ProcessingJob) {
+  return invokeProcessFunction(PROCESS_FUNCTION_BY_TABLE[job.upload_table], { jobId: job.id });
+}
+
+export async function cancelProcessingJob(jobId: string) {
+  const { error } = await supabase
+    .from('video_processing_jobs')
+    .update({ state: 'cancelled' })
+    .eq('id', jobId);
+
+  if (error) throw error;
+}
+
+export async function dismissProcessingJob(jobId: string) {
+  const { error } = await supabase
+    .from('video_processing_jobs')
+    .update({ dismissed_at: new Date().toISOString() })
+    .eq('id', jobId);
+
+  if (error) throw error;
+}
+
+interface WaitForJobOptions {
+  onUpdate?: (job: ProcessingJob) => void;
+  // Stop listening, e.g. when the form unmounts. The job itself keeps
+  // running and stays visible in the uploads tray.
+  signal?: AbortSignal;
+}
+
+/**
+ * Resolve once the job is ready; reject if it errors or is cancelled.
+ * Listens over realtime and reads the row once after subscribing so a
+ * change that landed before the subscription isn't missed.
+ */
+export function waitForProcessingJob(
+  jobId: string,
+  { onUpdate, signal }: WaitForJobOptions = {}
+): Promise<ProcessingJob> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+
+    const handle = (job: ProcessingJob) => {
+      if (settled) return;
+      onUpdate?.(job);
+
+      if (job.state === 'ready') {
+        settled = true;
+        channel.unsubscribe();
+        resolve(job);
+      } else if (job.state === 'errored' || job.state === 'cancelled') {
+        settled = true;
+        channel.unsubscribe();
+        reject(new ProcessingJobFailedError(job));
+      }
+    };
+
+    const channel = supabase
+      .channel(`public:video_processing_jobs:id=eq.${jobId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'video_processing_jobs',
+          filter: `id=eq.${jobId}`,
+        },
+        (payload) => handle(payload.new as ProcessingJob)
+      )
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+
+        const { data, error } = await supabase
+          .from('video_processing_jobs')
+          .select('*')
+          .eq('id', jobId)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Failed to load processing job:', error);
+        } else if (data) {
+          handle(data as ProcessingJob);
+        }
+      });
+
+    signal?.addEventListener('abort', () => {
+      if (settled) return;
+      settled = true;
+      channel.unsubscribe();
+      reject(new DOMException('Stopped waiting for processing job', 'AbortError'));
+    });
+  });
+}
@@ -0,0 +1,29 @@
+import { getStorageUrl } from './storage';
+
+/**
+ * Responsive image derivatives written by the process-images function (see
+ * database/code/database/027_responsive_images.sql). Thumbnails, provider
+ * avatars and event memory photos carry AVIF/WebP copies at a few widths
+ * plus a tiny blurred placeholder to show while the real image loads.
+ */
+
+export type ImageVariantFormat = 'webp' | 'avif';
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  key: string;
+  format: ImageVariantFormat;
+}
+
+/**
+ * srcset for one format, smallest first; empty when there are no variants
+ * of that format
+ */
+export function buildSrcSet(variants: ImageVariant[] | null | undefined, format: ImageVariantFormat): string {
+  return (variants ?? [])
+    .filter((variant) => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${getStorageUrl(variant.key)} ${variant.width}w`)
+    .join(', ');
+}
@@ -0,0 +1,53 @@
+/**
+ * Storage URL resolution
+ *
+ * Content rows store object keys (thumbnail_key, content_key) rather than
+ * absolute URLs. The public base URL comes from configuration, so switching
+ * between B2, another S3 service or the local dev storage function only
+ * needs a different VITE_STORAGE_PUBLIC_URL.
+ */
+
+// The B2 variables build the same path-style `${endpoint}/${bucket}` base
+// as _shared/storage.ts on the server
+const B2_PUBLIC_URL =
+  import.meta.env.VITE_B2_PUBLIC_URL && import.meta.env.VITE_B2_BUCKET_NAME
+    ? `${import.meta.env.VITE_B2_PUBLIC_URL.replace(/\/$/, '')}/${import.meta.env.VITE_B2_BUCKET_NAME}`
+    : '';
+
+const STORAGE_PUBLIC_URL = (import.meta.env.VITE_STORAGE_PUBLIC_URL || B2_PUBLIC_URL).replace(/\/$/, '');
+
+export interface StoredMediaUrls {
+  thumbnail_url?: string | null;
+  content_url?: string | null;
+  thumbnail_key?: string | null;
+  content_key?: string | null;
+}
+
+/**
+ * Build the public URL for a storage key
+ */
+export function getStorageUrl(key: string): string {
+  return `${STORAGE_PUBLIC_URL}/${key.replace(/^\//, '')}`;
+}
+
+/**
+ * Prefer the storage key; fall back to a stored URL for external media
+ * (Mux streams and thumbnails), rows created before keys existed and
+ * builds without a configured public base
+ */
+export function resolveStorageUrl(key?: string | null, fallbackUrl?: string | null): string {
+  if (key && (STORAGE_PUBLIC_URL || !fallbackUrl)) return getStorageUrl(key);
+  return fallbackUrl || '';
+}
+
+/**
+ * Fill thumbnail_url/content_url on a content row from its storage keys so
+ * components can keep rendering the *_url fields
+ */
+export function withResolvedUrls<T extends StoredMediaUrls>(row: T): T {
+  return {
+    ...row,
+    thumbnail_url: resolveStorageUrl(row.thumbnail_key, row.thumbnail_url),
+    content_url: resolveStorageUrl(row.content_key, row.content_url),
+  };
+}
@@ -37,7 +37,7 @@ export interface MediaItem {
   type: string;
   category: string | null;
   thumbnail_url: string;
-  duration: string | null;
+  duration_seconds: number | null;
   read_time: string | null;
   views_count: number;
   like_count: number;
@@ -0,0 +1,385 @@
+import { uploadToB2 } from './b2Upload';
+import { getStorageUrl } from './storage';
+import type { ImageVariant } from './responsiveImages';
+import { ContentSource, updateContent } from './contentRepository';
+
+/**
+ * Thumbnail studio helpers (see database/code/database/026_thumbnail_variants.sql).
+ * Candidate frames are picked from the video in the browser, edited on a
+ * canvas and exported as WebP at several widths. The largest variant becomes
+ * the row's thumbnail_key; all of them are listed in thumbnail_variants.
+ */
+
+export type ThumbnailAspect = '16:9' | '1:1' | '9:16';
+
+export const ASPECT_PRESETS: Record<ThumbnailAspect, { label: string; ratio: number }> = {
+  '16:9': { label: 'Landscape', ratio: 16 / 9 },
+  '1:1': { label: 'Square', ratio: 1 },
+  '9:16': { label: 'Vertical', ratio: 9 / 16 },
+};
+
+// Widths of the long edge exported for every thumbnail, largest first
+export const THUMBNAIL_WIDTHS = [1280, 640, 320];
+
+export interface ThumbnailEdit {
+  aspect: ThumbnailAspect;
+  // 1 fills the frame; higher values zoom in
+  zoom: number;
+  // -1..1 from the centre of the source image
+  offsetX: number;
+  offsetY: number;
+  // CSS brightness() factor, 1 leaves the image unchanged
+  brightness: number;
+  text: string;
+  textPosition: 'top' | 'bottom';
+}
+
+export const DEFAULT_THUMBNAIL_EDIT: ThumbnailEdit = {
+  aspect: '16:9',
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  brightness: 1,
+  text: '',
+  textPosition: 'bottom',
+};
+
+export interface ThumbnailCandidate {
+  time: number;
+  dataUrl: string;
+  score: number;
+}
+
+// Where candidate frames come from: a local video before upload, a video in
+// storage, or a Mux asset (whose HLS stream a <video> can't seek everywhere,
+// so frames come from Mux's thumbnail endpoint instead)
+export type FrameSource =
+  | { kind: 'file'; file: File }
+  | { kind: 'url'; url: string }
+  | { kind: 'mux'; playbackId: string; durationSeconds: number };
+
+export interface ExportedThumbnail {
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+// process-images later adds AVIF sizes next to these
+export interface ThumbnailVariant extends ImageVariant {
+  format: 'webp';
+}
+
+export interface ThumbnailColumns {
+  thumbnail_key: string;
+  thumbnail_url: string;
+  thumbnail_variants: ThumbnailVariant[];
+}
+
+const SAMPLE_COUNT = 12;
+const CANDIDATE_COUNT = 6;
+const CANDIDATE_WIDTH = 1280;
+
+/**
+ * Load an image that can be drawn to a canvas and read back
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Frame source for a saved item: Mux streams by playback ID, videos in
+ * storage by URL. Images and audio have no frames to pick from.
+ */
+export function frameSourceForContent(
+  contentUrl: string | null | undefined,
+  durationSeconds?: number | null
+): FrameSource | null {
+  if (!contentUrl) return null;
+
+  const playbackId = contentUrl.match(/^https:\/\/stream\.mux\.com\/([^/.?]+)/)?.[1];
+  if (playbackId) {
+    return { kind: 'mux', playbackId, durationSeconds: durationSeconds ?? 0 };
+  }
+
+  if (/\.(mp4|webm|mov|m4v)(\?|$)/i.test(contentUrl)) {
+    return { kind: 'url', url: contentUrl };
+  }
+
+  return null;
+}
+
+/**
+ * Sample times spread over the video, skipping the first and last 5%
+ * where fades and title cards usually are
+ */
+function sampleTimes(duration: number): number[] {
+  if (!Number.isFinite(duration) || duration <= 0) return [0];
+  const start = duration * 0.05;
+  const span = duration * 0.9;
+  return Array.from({ length: SAMPLE_COUNT }, (_, i) => start + (span * (i + 0.5)) / SAMPLE_COUNT);
+}
+
+/**
+ * Score a frame on a small copy of it: well-exposed, high-contrast frames
+ * win; black, washed-out and flat frames lose
+ */
+function scoreFrame(source: CanvasImageSource, width: number, height: number): number {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = Math.max(1, Math.round((64 * height) / width));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return 0;
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  let sum = 0;
+  let sumSquares = 0;
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+    sum += luma;
+    sumSquares += luma * luma;
+  }
+
+  const mean = sum / pixels;
+  const contrast = Math.sqrt(Math.max(0, sumSquares / pixels - mean * mean));
+  const exposure = Math.max(0, 1 - Math.abs(mean - 0.5) * 1.6);
+  return contrast * exposure;
+}
+
+function captureFrame(source: CanvasImageSource, width: number, height: number, time: number): ThumbnailCandidate {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.min(width, CANDIDATE_WIDTH);
+  canvas.height = Math.round((canvas.width * height) / width);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return {
+    time,
+    dataUrl: canvas.toDataURL('image/jpeg', 0.92),
+    score: scoreFrame(source, width, height),
+  };
+}
+
+function seekTo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('Timed out seeking video')), 10000);
+    video.addEventListener('seeked', () => {
+      clearTimeout(timeout);
+      resolve();
+    }, { once: true });
+    video.currentTime = time;
+  });
+}
+
+async function videoCandidates(src: string): Promise<ThumbnailCandidate[]> {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.preload = 'auto';
+
+  await new Promise<void>((resolve, reject) => {
+    video.addEventListener('loadeddata', () => resolve(), { once: true });
+    video.addEventListener('error', () => reject(new Error('Failed to load video')), { once: true });
+    video.src = src;
+  });
+
+  const candidates: ThumbnailCandidate[] = [];
+  for (const time of sampleTimes(video.duration)) {
+    await seekTo(video, time);
+    candidates.push(captureFrame(video, video.videoWidth, video.videoHeight, time));
+  }
+
+  video.removeAttribute('src');
+  video.load();
+  return candidates;
+}
+
+async function muxCandidates(playbackId: string, durationSeconds: number): Promise<ThumbnailCandidate[]> {
+  const frames = await Promise.allSettled(
+    sampleTimes(durationSeconds).map(async (time) => {
+      const image = await loadImage(
+        `https://image.mux.com/${playbackId}/thumbnail.jpg?time=${time.toFixed(2)}&width=${CANDIDATE_WIDTH}`
+      );
+      return captureFrame(image, image.naturalWidth, image.naturalHeight, time);
+    })
+  );
+
+  return frames
+    .filter((frame): frame is PromiseFulfilledResult<ThumbnailCandidate> => frame.status === 'fulfilled')
+    .map((frame) => frame.value);
+}
+
+/**
+ * Sample frames across the video and return the best few, in playback order
+ */
+export async function extractCandidateFrames(source: FrameSource): Promise<ThumbnailCandidate[]> {
+  let candidates: ThumbnailCandidate[];
+
+  if (source.kind === 'mux') {
+    candidates = await muxCandidates(source.playbackId, source.durationSeconds);
+  } else if (source.kind === 'file') {
+    const url = URL.createObjectURL(source.file);
+    try {
+      candidates = await videoCandidates(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  } else {
+    candidates = await videoCandidates(source.url);
+  }
+
+  if (candidates.length === 0) {
+    throw new Error('Could not read any frames from this video');
+  }
+
+  return [...candidates]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CANDIDATE_COUNT)
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Output size for a given long-edge width: landscape and square presets use
+ * it as the width, vertical ones as the height
+ */
+export function thumbnailSize(aspect: ThumbnailAspect, longEdge: number): { width: number; height: number } {
+  const { ratio } = ASPECT_PRESETS[aspect];
+  return ratio >= 1
+    ? { width: longEdge, height: Math.round(longEdge / ratio) }
+    : { width: Math.round(longEdge * ratio), height: longEdge };
+}
+
+function drawOverlayText(ctx: CanvasRenderingContext2D, text: string, position: ThumbnailEdit['textPosition']) {
+  const { width, height } = ctx.canvas;
+  const padding = Math.round(Math.min(width, height) * 0.06);
+  let fontSize = Math.round(Math.min(width, height) * 0.12);
+
+  ctx.font = `800 ${fontSize}px Inter, system-ui, sans-serif`;
+  while (fontSize > 10 && ctx.measureText(text).width > width - padding * 2) {
+    fontSize -= 2;
+    ctx.font = `800 ${fontSize}px Inter, system-ui, sans-serif`;
+  }
+
+  // Darken behind the text so it stays readable on bright frames
+  const bandHeight = fontSize + padding * 2;
+  const bandTop = position === 'top' ? 0 : height - bandHeight;
+  const gradient = ctx.createLinearGradient(0, bandTop, 0, bandTop + bandHeight);
+  gradient.addColorStop(position === 'top' ? 0 : 1, 'rgba(0, 0, 0, 0.65)');
+  gradient.addColorStop(position === 'top' ? 1 : 0, 'rgba(0, 0, 0, 0)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, bandTop, width, bandHeight);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = Math.round(fontSize * 0.15);
+  ctx.fillText(text, width / 2, bandTop + bandHeight / 2);
+  ctx.shadowBlur = 0;
+}
+
+/**
+ * Draw the edited thumbnail onto a canvas at the given long-edge width
+ */
+export function renderThumbnail(
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  edit: ThumbnailEdit,
+  longEdge: number
+) {
+  const { width, height } = thumbnailSize(edit.aspect, longEdge);
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  // Cover the output, then zoom and pan within the overflow
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight) * edit.zoom;
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  const x = (width - drawWidth) / 2 + ((drawWidth - width) / 2) * edit.offsetX;
+  const y = (height - drawHeight) / 2 + ((drawHeight - height) / 2) * edit.offsetY;
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.filter = `brightness(${edit.brightness})`;
+  ctx.drawImage(image, x, y, drawWidth, drawHeight);
+  ctx.filter = 'none';
+
+  const text = edit.text.trim();
+  if (text) drawOverlayText(ctx, text, edit.textPosition);
+}
+
+/**
+ * Render the thumbnail at every export width as WebP
+ */
+export async function exportThumbnail(image: HTMLImageElement, edit: ThumbnailEdit): Promise<ExportedThumbnail[]> {
+  const canvas = document.createElement('canvas');
+  const exports: ExportedThumbnail[] = [];
+
+  for (const longEdge of THUMBNAIL_WIDTHS) {
+    renderThumbnail(canvas, image, edit, longEdge);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/webp', 0.85));
+
+    // Browsers without a WebP encoder silently fall back to PNG
+    if (!blob || blob.type !== 'image/webp') {
+      throw new Error('This browser cannot export WebP images. Please try Chrome, Edge or Firefox.');
+    }
+
+    exports.push({ width: canvas.width, height: canvas.height, blob });
+  }
+
+  return exports;
+}
+
+/**
+ * Upload every exported size to the user's thumbnails folder
+ */
+export async function uploadThumbnailVariants(
+  exports: ExportedThumbnail[],
+  userId: string
+): Promise<ThumbnailVariant[]> {
+  const variants: ThumbnailVariant[] = [];
+
+  for (const exported of exports) {
+    const file = new File([exported.blob], `thumbnail-${exported.width}x${exported.height}.webp`, {
+      type: 'image/webp',
+    });
+    const { key, error } = await uploadToB2(file, `thumbnails/${userId}`);
+    if (error) throw new Error(error);
+
+    variants.push({ width: exported.width, height: exported.height, key, format: 'webp' });
+  }
+
+  return variants;
+}
+
+/**
+ * Columns to write for a set of variants: the largest is the main thumbnail
+ */
+export function thumbnailColumns(variants: ThumbnailVariant[]): ThumbnailColumns {
+  const [largest] = [...variants].sort((a, b) => b.width - a.width);
+  return {
+    thumbnail_key: largest.key,
+    thumbnail_url: getStorageUrl(largest.key),
+    thumbnail_variants: variants,
+  };
+}
+
+/**
+ * Replace a published item's thumbnail; the video itself is untouched
+ */
+export function updateContentThumbnail(
+  source: ContentSource,
+  contentId: string,
+  variants: ThumbnailVariant[]
+) {
+  return updateContent(source, contentId, thumbnailColumns(variants));
+}
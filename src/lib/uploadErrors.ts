@@ -0,0 +1,96 @@
+/**
+ * Structured upload errors returned by the upload edge functions
+ * (see supabase/functions/_shared/uploadValidation.ts and the shared
+ * middleware's `{ error, code, details }` envelope)
+ */
+
+import { parseFunctionError } from './functionErrors';
+
+export type UploadErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'MISSING_FILE'
+  | 'INVALID_FILENAME'
+  | 'INVALID_FOLDER'
+  | 'FORBIDDEN_KEY'
+  | 'UNSUPPORTED_TYPE'
+  | 'TYPE_MISMATCH'
+  | 'FILE_TOO_LARGE'
+  | 'RATE_LIMITED';
+
+export interface UploadErrorDetails {
+  contentType?: string;
+  detected?: string;
+  maxBytes?: number;
+  size?: number;
+  tier?: string;
+  allowedTypes?: string[];
+  retryAfter?: number;
+}
+
+export class UploadRejectedError extends Error {
+  constructor(
+    public code: UploadErrorCode,
+    message: string,
+    public details: UploadErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(0)}GB`;
+  return `${(bytes / (1024 * 1024)).toFixed(0)}MB`;
+}
+
+/**
+ * Turn an error code into a message the upload forms can show as-is
+ */
+export function describeUploadError(
+  code: UploadErrorCode,
+  details: UploadErrorDetails = {},
+  fallback = 'Upload failed'
+): string {
+  switch (code) {
+    case 'UNAUTHENTICATED':
+      return 'Your session has expired. Please sign in again to upload.';
+    case 'MISSING_FILE':
+      return 'The selected file is empty. Please choose another file.';
+    case 'INVALID_FILENAME':
+      return 'The file name is not valid. Rename the file and try again.';
+    case 'INVALID_FOLDER':
+    case 'FORBIDDEN_KEY':
+      return 'This upload is not allowed. Please refresh the page and try again.';
+    case 'UNSUPPORTED_TYPE':
+      return details.contentType
+        ? `${details.contentType} files can't be uploaded here.`
+        : "This file type can't be uploaded here.";
+    case 'TYPE_MISMATCH':
+      return `The file content doesn't match its type${details.contentType ? ` (${details.contentType})` : ''}. It may be renamed or corrupted.`;
+    case 'FILE_TOO_LARGE':
+      if (!details.maxBytes) return 'The file is too large.';
+      return details.tier
+        ? `The file is too large. Your ${details.tier} plan allows up to ${formatBytes(details.maxBytes)} for this upload.`
+        : `The file is too large. The limit is ${formatBytes(details.maxBytes)}.`;
+    case 'RATE_LIMITED':
+      return details.retryAfter
+        ? `Too many uploads. Please try again in ${Math.ceil(details.retryAfter / 60)} minute(s).`
+        : 'Too many uploads. Please wait a moment and try again.';
+    default:
+      return fallback;
+  }
+}
+
+/**
+ * Read the `{ error, code, details }` body from a failed functions.invoke call
+ */
+export async function parseUploadErrorResponse(error: unknown): Promise<UploadRejectedError | null> {
+  const body = await parseFunctionError(error);
+  if (!body) return null;
+
+  return new UploadRejectedError(
+    body.code as UploadErrorCode,
+    body.message || 'Upload failed',
+    body.details as UploadErrorDetails
+  );
+}
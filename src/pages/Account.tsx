@@ -1,5 +1,6 @@
 import React from 'react';
 import { User, Heart, Music, Film, Star } from 'lucide-react';
+import PodcastFeedSettings from '../components/PodcastFeedSettings';
 
 export default function Account() {
   const favoriteCreators = [
@@ -61,6 +62,8 @@ export default function Account() {
             <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl">
               <h2 className="text-2xl font-semibold text-white mb-6">Account Summary</h2>
             </div>
+
+            <PodcastFeedSettings />
           </div>
         </div>
       </div>
@@ -1,17 +1,35 @@
 import React, { useState, useRef, useMemo } from 'react';
-import { UploadCloud, X, Music, Film, ImageIcon, FileText, Edit2, Eye, Heart, Calendar, Upload, Check, AlertCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { UploadCloud, X, Music, Film, ImageIcon, FileText, Edit2, Eye, Heart, Calendar, Upload, Check, AlertCircle, Wand2, Code2, History } from 'lucide-react';
 import { uploadToB2 } from '../lib/b2Upload';
+import {
+  BulkContentAction,
+  BulkContentParams,
+  BulkContentReport,
+  CONTENT_SOURCES,
+  CONTENT_TABLE_BY_SOURCE,
+  ContentRecord,
+  ContentSource,
+  ReleaseSchedule,
+  createContent,
+  deleteContent,
+} from '../lib/contentRepository';
+import { embedCode } from '../lib/embeds';
+import { FrameSource, ThumbnailColumns, thumbnailColumns, uploadThumbnailVariants } from '../lib/thumbnails';
 import { useAuth } from '../context/AuthContext';
 import { useMediaPageEdit } from '../hooks/useMediaPageEdit';
 import { useMyContent } from '../hooks/useMyContent';
 import { useContentPublication } from '../hooks/useContentPublication';
 import { useContentDeletion } from '../hooks/useContentDeletion';
-import { extractDuration } from '../lib/getDuration';
-import { updateDurationInDatabase } from '../lib/updateDurationInDatabase';
+import { useBulkContentActions } from '../hooks/useBulkContentActions';
+import { useToast } from '../hooks/useToast';
 import EditContentModal from '../components/EditContentModal';
 import PublicationStatusBadge from '../components/PublicationStatusBadge';
 import ContentCountdownTimer from '../components/ContentCountdownTimer';
+import ContentHistory from '../components/ContentHistory';
+import BulkActionsBar, { BulkActionFailure } from '../components/BulkActionsBar';
+import { ToastContainer } from '../components/Toast';
+import ThumbnailStudio, { ThumbnailStudioResult } from '../components/ThumbnailStudio';
+import ResponsiveImage from '../components/ResponsiveImage';
 
 const ALLOWED_TYPES = {
   image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
@@ -19,6 +37,9 @@ const ALLOWED_TYPES = {
   audio: ['audio/mpeg', 'audio/wav', 'audio/ogg'],
 };
 
+// Text and images have nothing to play in an embed
+const NON_EMBEDDABLE_TYPES = ['blog', 'image'];
+
 const CONTENT_CATEGORIES = {
   'music-video': ['latest-release', 'new-talent', 'greatest-of-all-time', 'DJ-mixtapes', 'UG-Unscripted', 'Afrobeat', 'hip-hop', 'RnB', 'Others', 'Challenges'],
   'audio-music': ['latest-release', 'new-talent', 'greatest-of-all-time', 'DJ-mixtapes', 'UG-Unscripted', 'Afrobeat', 'hip-hop', 'RnB', 'Others', 'Challenges'],
@@ -30,6 +51,21 @@ const CONTENT_CATEGORIES = {
   'contest': ['ughha', 'asfa', 'miss-uganda'],
 };
 
+// Past tense for the bulk action toasts, after "3 items"
+const BULK_ACTION_LABELS: Record<BulkContentAction, string> = {
+  publish: 'published',
+  unpublish: 'unpublished',
+  set_category: 'recategorized',
+  set_premium: 'updated',
+  trash: 'moved to trash',
+  restore: 'restored',
+};
+
+// Ids are only unique within a content table
+const contentKey = (item: { source: ContentSource; id: string }) => `${item.source}:${item.id}`;
+
+const itemCount = (count: number) => `${count} ${count === 1 ? 'item' : 'items'}`;
+
 export default function Content() {
   const { user, profile } = useAuth();
   const [title, setTitle] = useState('');
@@ -43,12 +79,14 @@ export default function Content() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [dragActive, setDragActive] = useState(false);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'published' | 'not-published' | 'pending-deletion'>('all');
+  const [filterStatus, setFilterStatus] = useState<'all' | 'published' | 'not-published' | 'scheduled' | 'pending-deletion'>('all');
   const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'title'>('newest');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [thumbnail, setThumbnail] = useState<File | null>(null);
   const [thumbnailPreview, setThumbnailPreview] = useState<string | null>(null);
   const thumbnailInputRef = useRef<HTMLInputElement>(null);
+  const [thumbnailStudioOpen, setThumbnailStudioOpen] = useState(false);
+  const [editedThumbnail, setEditedThumbnail] = useState<ThumbnailStudioResult | null>(null);
 
   // My Content state using custom hook
   const { contentItems, loading: contentLoading, error: contentError, updateContentItem, removeContentItem } = useMyContent(user?.id);
@@ -58,35 +96,18 @@ export default function Content() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [publishingContentId, setPublishingContentId] = useState<string | null>(null);
   const [savingContentId, setSavingContentId] = useState<string | null>(null);
+  const [copiedEmbedId, setCopiedEmbedId] = useState<string | null>(null);
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [bulkReport, setBulkReport] = useState<{ summary: string; failures: BulkActionFailure[] } | null>(null);
+  // The last item clicked, where a shift-click range starts
+  const selectionAnchor = useRef<string | null>(null);
 
   const { editContent } = useMediaPageEdit();
-  const { publishToDestination, unpublishFromDestination } = useContentPublication();
+  const { publishToDestination, unpublishFromDestination, scheduleRelease } = useContentPublication();
   const { deleteFromDestination, saveContent, getDeletionInfo } = useContentDeletion();
-
-  // Auto-update durations for existing content with "0:00"
-  const processedDurations = useRef<Set<string>>(new Set());
-  const videoDurationTypes = ['music-video', 'movie', 'tv-show', 'podcast', 'audio-music'];
-
-  React.useEffect(() => {
-    contentItems.forEach((item) => {
-      if (
-        !processedDurations.current.has(item.id) &&
-        (item.duration === '0:00' || !item.duration) &&
-        videoDurationTypes.includes(item.type)
-      ) {
-        processedDurations.current.add(item.id);
-        updateDurationInDatabase(item.id, item.content_url)
-          .then((newDuration) => {
-            if (newDuration) {
-              updateContentItem(item.id, { duration: newDuration });
-            }
-          })
-          .catch((err) => {
-            console.error(`Failed to auto-update duration for ${item.id}:`, err);
-          });
-      }
-    });
-  }, [contentItems, updateContentItem]);
+  const { running: bulkRunning, runBulkAction, undoBulkAction } = useBulkContentActions();
+  const { toasts, addToast, removeToast } = useToast();
 
   const getMediaType = (file: File): string => {
     if (ALLOWED_TYPES.image.includes(file.type)) return 'image';
@@ -162,6 +183,7 @@ export default function Content() {
     }
 
     setThumbnail(selectedFile);
+    setEditedThumbnail(null);
     setError(null);
 
     const reader = new FileReader();
@@ -171,6 +193,18 @@ export default function Content() {
     reader.readAsDataURL(selectedFile);
   };
 
+  // Candidate frames come from the video being uploaded
+  const thumbnailFrameSource = useMemo<FrameSource | null>(
+    () => (file && ALLOWED_TYPES.video.includes(file.type) ? { kind: 'file', file } : null),
+    [file]
+  );
+
+  const handleThumbnailStudioExport = (result: ThumbnailStudioResult) => {
+    setEditedThumbnail(result);
+    setThumbnailStudioOpen(false);
+    setError(null);
+  };
+
   const handleThumbnailInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) handleThumbnailSelect(selectedFile);
@@ -213,7 +247,7 @@ export default function Content() {
       return;
     }
 
-    if (!thumbnail) {
+    if (!thumbnail && !editedThumbnail) {
       setError('Please select a thumbnail image');
       return;
     }
@@ -222,36 +256,29 @@ export default function Content() {
     setError(null);
 
     try {
-      // Determine folder path based on destination
-      const folderPath = publicationDestination === 'portfolio' ? 'portfolio_page_content' : 'media_page_content';
-      const tableName = publicationDestination === 'portfolio' ? 'portfolio_page_content' : 'media_page_content';
+      // Files are kept under the destination's table name
+      const folderPath = CONTENT_TABLE_BY_SOURCE[publicationDestination];
 
       // Upload file to Backblaze B2
-      const { publicUrl: contentUrl, error: uploadError } = await uploadToB2(
+      const { key: contentKey, error: uploadError } = await uploadToB2(
         file,
         `${folderPath}/${user.id}`
       );
 
-      if (uploadError) throw uploadError;
-
-      // Upload thumbnail to Backblaze B2
-      const { publicUrl: thumbnailUrl, error: uploadThumbnailError } = await uploadToB2(
-        thumbnail,
-        `${folderPath}/${user.id}`
-      );
-
-      if (uploadThumbnailError) throw uploadThumbnailError;
+      if (uploadError) throw new Error(uploadError);
 
-      const mediaType = getMediaType(file);
-      let duration: string | undefined = undefined;
+      // Upload the studio's WebP sizes, or the thumbnail image as given
+      let thumbnailFields: Partial<ThumbnailColumns> = {};
+      if (editedThumbnail) {
+        thumbnailFields = thumbnailColumns(await uploadThumbnailVariants(editedThumbnail.exports, user.id));
+      } else if (thumbnail) {
+        const { key: thumbnailKey, error: uploadThumbnailError } = await uploadToB2(
+          thumbnail,
+          `${folderPath}/${user.id}`
+        );
 
-      if ((mediaType === 'video' || mediaType === 'audio') && videoDurationTypes.includes(contentType)) {
-        try {
-          duration = await extractDuration(file);
-        } catch (durationError) {
-          console.error('Failed to extract duration:', durationError);
-          duration = '0:00';
-        }
+        if (uploadThumbnailError) throw new Error(uploadThumbnailError);
+        thumbnailFields = { thumbnail_key: thumbnailKey };
       }
 
       // Prepare insert data with publication tracking
@@ -260,11 +287,10 @@ export default function Content() {
         title,
         creator: profile.name,
         description: description || null,
-        thumbnail_url: thumbnailUrl,
-        content_url: contentUrl,
+        ...thumbnailFields,
+        content_key: contentKey,
         type: contentType,
         category: category || null,
-        duration,
         views_count: 0,
         like_count: 0,
         is_premium: false,
@@ -274,17 +300,8 @@ export default function Content() {
         status: 'published',
       };
 
-      const { data: insertedData, error: insertError } = await supabase
-        .from(tableName)
-        .insert([insertData])
-        .select();
-
-      if (insertError) throw insertError;
-
-      if (insertedData && insertedData.length > 0) {
-        const contentWithSource = { ...insertedData[0], source: publicationDestination };
-        updateContentItem(insertedData[0].id, contentWithSource, publicationDestination);
-      }
+      const inserted = await createContent(publicationDestination, insertData);
+      updateContentItem(inserted.id, inserted, publicationDestination);
 
       setSuccess(true);
       setTitle('');
@@ -293,6 +310,7 @@ export default function Content() {
       setPreview(null);
       setThumbnail(null);
       setThumbnailPreview(null);
+      setEditedThumbnail(null);
       setContentType('music-video');
       setCategory('');
       setPublicationDestination('media' as 'media' | 'portfolio');
@@ -305,6 +323,16 @@ export default function Content() {
     }
   };
 
+  const handleCopyEmbed = async (content: typeof contentItems[0]) => {
+    try {
+      await navigator.clipboard.writeText(embedCode(content));
+      setCopiedEmbedId(content.id);
+      setTimeout(() => setCopiedEmbedId(null), 2000);
+    } catch (err) {
+      console.error('Error copying embed code:', err);
+    }
+  };
+
   const handleEditOpen = (content: typeof contentItems[0]) => {
     setEditingContent(content);
     setEditError(undefined);
@@ -320,6 +348,7 @@ export default function Content() {
     description?: string;
     category?: string;
     is_premium?: boolean;
+    schedule?: ReleaseSchedule;
   }) => {
     if (!editingContent) return;
 
@@ -327,6 +356,9 @@ export default function Content() {
     setEditError(undefined);
 
     const result = await editContent(editingContent.id, payload, editingContent.source);
+    const scheduled = result.success && payload.schedule
+      ? await scheduleRelease(editingContent.id, payload.schedule.publishAt, payload.schedule.destinations, editingContent.source)
+      : null;
 
     if (result.success) {
       updateContentItem(editingContent.id, {
@@ -334,7 +366,13 @@ export default function Content() {
         description: payload.description || '',
         category: payload.category || '',
         is_premium: payload.is_premium ?? false,
+        ...scheduled?.state,
       }, editingContent.source);
+    }
+
+    if (scheduled && !scheduled.success) {
+      setEditError(scheduled.error || 'Failed to schedule the release');
+    } else if (result.success) {
       handleEditClose();
     } else {
       setEditError(result.error || 'Failed to save changes');
@@ -350,18 +388,7 @@ export default function Content() {
     setEditError(undefined);
 
     try {
-      const tableName = editingContent.source === 'portfolio' ? 'portfolio_page_content' : 'media_page_content';
-      const { error } = await supabase
-        .from(tableName)
-        .delete()
-        .eq('id', editingContent.id);
-
-      if (error) {
-        setEditError(error.message || 'Failed to delete content');
-        setIsDeleting(false);
-        return;
-      }
-
+      await deleteContent(editingContent.source, editingContent.id);
       removeContentItem(editingContent.id, editingContent.source);
       handleEditClose();
     } catch (err) {
@@ -371,19 +398,13 @@ export default function Content() {
     setIsDeleting(false);
   };
 
-  const handlePublishContent = async (contentId: string, destination: 'media' | 'portfolio') => {
+  const handlePublishContent = async (contentId: string, destination: ContentSource) => {
     setPublishingContentId(contentId);
     const content = contentItems.find((item) => item.id === contentId);
     const result = await publishToDestination(contentId, destination, content?.source);
     if (result.success) {
       if (content) {
-        const publishedTo = content.published_to || [];
-        const newPublishedTo = [...new Set([...publishedTo, destination])];
-        updateContentItem(contentId, {
-          published_to: newPublishedTo,
-          status: 'published',
-          publication_destination: destination,
-        }, content.source);
+        updateContentItem(contentId, { ...result.state }, content.source);
       }
     } else {
       setEditError(result.error || 'Failed to publish content');
@@ -397,14 +418,10 @@ export default function Content() {
     const result = await saveContent(contentId, content?.source);
     if (result.success) {
       if (content) {
-        updateContentItem(contentId, {
-          saved: true,
-          status: 'draft',
-          deleted_at: null,
-          auto_delete_at: null,
-          is_deleted_pending: false,
-        }, content.source);
+        updateContentItem(contentId, { ...result.state }, content.source);
       }
+    } else {
+      setEditError(result.error || 'Failed to keep content');
     }
     setSavingContentId(null);
   };
@@ -416,6 +433,8 @@ export default function Content() {
       filtered = filtered.filter((item) => item.status === 'published' && item.published_to && item.published_to.length > 0);
     } else if (filterStatus === 'not-published') {
       filtered = filtered.filter((item) => item.status === 'draft');
+    } else if (filterStatus === 'scheduled') {
+      filtered = filtered.filter((item) => item.status === 'draft' && !!item.publish_at);
     } else if (filterStatus === 'pending-deletion') {
       filtered = filtered.filter((item) => item.status === 'pending_deletion' && !item.saved);
     }
@@ -432,6 +451,101 @@ export default function Content() {
     return sorted;
   }, [contentItems, filterStatus, sortBy]);
 
+  // Only what the current filter shows can be acted on
+  const selectedItems = filteredAndSortedContent.filter((item) => selectedKeys.has(contentKey(item)));
+
+  const bulkDestinations = CONTENT_SOURCES.filter((destination) =>
+    selectedItems.some((item) =>
+      item.source === 'masterclass' ? destination === 'masterclass' : destination !== 'masterclass'
+    )
+  );
+
+  // Only categories every selected item's type allows
+  const bulkCategories = selectedItems
+    .map((item) => CONTENT_CATEGORIES[item.type as keyof typeof CONTENT_CATEGORIES] ?? [])
+    .reduce<string[] | null>(
+      (shared, categories) => (shared ? shared.filter((cat) => categories.includes(cat)) : categories),
+      null
+    ) ?? [];
+
+  // Shift-click sets every item between the last click and this one
+  const handleToggleSelection = (key: string, range: boolean) => {
+    const selecting = !selectedKeys.has(key);
+    let keys = [key];
+    if (range && selectionAnchor.current) {
+      const visibleKeys = filteredAndSortedContent.map(contentKey);
+      const from = visibleKeys.indexOf(selectionAnchor.current);
+      const to = visibleKeys.indexOf(key);
+      if (from !== -1 && to !== -1) {
+        keys = visibleKeys.slice(Math.min(from, to), Math.max(from, to) + 1);
+      }
+    }
+
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      keys.forEach((k) => (selecting ? next.add(k) : next.delete(k)));
+      return next;
+    });
+    selectionAnchor.current = key;
+  };
+
+  // Applies each changed item's new columns and reports the ones that failed.
+  // Returns how many went through.
+  const applyBulkReport = (report: BulkContentReport, label: string) => {
+    const failures: BulkActionFailure[] = [];
+    report.results.forEach((result) => {
+      if (result.success && result.state) {
+        updateContentItem(result.id, { ...result.state }, result.source);
+      } else if (!result.success) {
+        failures.push({
+          key: contentKey(result),
+          title: contentItems.find((item) => contentKey(item) === contentKey(result))?.title ?? 'Unknown item',
+          error: result.error || 'Failed',
+        });
+      }
+    });
+
+    const succeeded = report.results.length - failures.length;
+    setBulkReport(
+      failures.length > 0
+        ? { summary: `${itemCount(succeeded)} ${label}; ${itemCount(failures.length)} couldn't be changed`, failures }
+        : null
+    );
+    return succeeded;
+  };
+
+  const handleUndoBulkAction = async (batchId: string) => {
+    const result = await undoBulkAction(batchId);
+    if (!result.success || !result.report) {
+      addToast(result.error || 'Failed to undo', 'error', 5000);
+      return;
+    }
+    const undone = applyBulkReport(result.report, 'undone');
+    addToast(`${itemCount(undone)} undone`, 'info');
+  };
+
+  const handleBulkAction = async (action: BulkContentAction, params?: BulkContentParams) => {
+    setBulkReport(null);
+    const result = await runBulkAction(
+      selectedItems.map(({ source, id }) => ({ source, id })),
+      action,
+      params
+    );
+    if (!result.success || !result.report) {
+      addToast(result.error || 'Failed to update content', 'error', 5000);
+      return;
+    }
+
+    const { batchId } = result.report;
+    const succeeded = applyBulkReport(result.report, BULK_ACTION_LABELS[action]);
+    if (succeeded > 0) {
+      addToast(`${itemCount(succeeded)} ${BULK_ACTION_LABELS[action]}`, 'success', 10000, {
+        label: 'Undo',
+        onClick: () => handleUndoBulkAction(batchId),
+      });
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -555,7 +669,46 @@ export default function Content() {
                   <span className="text-sm text-gray-500">PNG, JPG, GIF, or WebP (max 10MB)</span>
                 </div>
 
-                {thumbnail && (
+                {(thumbnailFrameSource || thumbnail) && (
+                  <button
+                    type="button"
+                    onClick={() => setThumbnailStudioOpen(true)}
+                    className="mt-3 flex items-center gap-2 px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors text-sm"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                    {thumbnailFrameSource ? 'Pick a frame and edit in Thumbnail Studio' : 'Edit in Thumbnail Studio'}
+                  </button>
+                )}
+
+                {editedThumbnail && (
+                  <div className="mt-4 w-full">
+                    <div className="flex items-center gap-3 p-3 bg-gray-900 rounded-lg border border-gray-700">
+                      <Wand2 className="w-8 h-8 text-rose-400 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-white truncate">Edited in Thumbnail Studio</p>
+                        <p className="text-xs text-gray-400">
+                          WebP {editedThumbnail.exports.map((size) => `${size.width}×${size.height}`).join(', ')}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setEditedThumbnail(null)}
+                        className="p-1 hover:bg-gray-800 rounded transition-colors flex-shrink-0"
+                      >
+                        <X className="w-4 h-4 text-gray-400" />
+                      </button>
+                    </div>
+                    <div className="mt-3 w-full h-40 rounded-lg overflow-hidden border border-gray-700 bg-black">
+                      <img
+                        src={editedThumbnail.previewUrl}
+                        alt="Thumbnail Preview"
+                        className="w-full h-full object-contain"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {thumbnail && !editedThumbnail && (
                   <div className="mt-4 w-full">
                     <div className="flex items-center gap-3 p-3 bg-gray-900 rounded-lg border border-gray-700">
                       <ImageIcon className="w-8 h-8 text-blue-400 flex-shrink-0" />
@@ -697,6 +850,7 @@ export default function Content() {
                     { value: 'all', label: 'All' },
                     { value: 'published', label: 'Published' },
                     { value: 'not-published', label: 'Not Published' },
+                    { value: 'scheduled', label: 'Scheduled' },
                     { value: 'pending-deletion', label: 'Pending Deletion' },
                   ].map((filter) => (
                     <button
@@ -729,6 +883,22 @@ export default function Content() {
             </div>
           )}
 
+          {/* Bulk Actions */}
+          {filteredAndSortedContent.length > 0 && (
+            <BulkActionsBar
+              selectedCount={selectedItems.length}
+              totalCount={filteredAndSortedContent.length}
+              onSelectAll={() => setSelectedKeys(new Set(filteredAndSortedContent.map(contentKey)))}
+              onClear={() => setSelectedKeys(new Set())}
+              onAction={handleBulkAction}
+              destinations={bulkDestinations}
+              categories={bulkCategories}
+              running={bulkRunning}
+              report={bulkReport}
+              onDismissReport={() => setBulkReport(null)}
+            />
+          )}
+
           {/* Loading State */}
           {contentLoading && contentItems.length === 0 ? (
             <div className="text-center py-12">
@@ -740,11 +910,15 @@ export default function Content() {
                 const deletionInfo = getDeletionInfo(item.status || 'draft', item.deleted_at || null, item.auto_delete_at || null, item.saved || false);
                 const publishedTo = (item.published_to || []) as string[];
                 const isPublished = publishedTo.length > 0;
+                const isEmbeddable = item.status === 'published' && !NON_EMBEDDABLE_TYPES.includes(item.type);
+                const isSelected = selectedKeys.has(contentKey(item));
 
                 return (
                   <div
                     key={item.id}
-                    className="bg-slate-800 p-4 rounded-lg border border-slate-700 hover:bg-slate-700 transition-colors"
+                    className={`bg-slate-800 p-4 rounded-lg border hover:bg-slate-700 transition-colors ${
+                      isSelected ? 'border-rose-400' : 'border-slate-700'
+                    }`}
                   >
                     {/* Countdown Timer for pending deletion */}
                     {deletionInfo.isDeletedPending && item.auto_delete_at && (
@@ -757,11 +931,29 @@ export default function Content() {
                       </div>
                     )}
 
+                    {/* Countdown to a scheduled release */}
+                    {item.status === 'draft' && item.publish_at && (
+                      <div className="mb-4">
+                        <ContentCountdownTimer releaseAt={item.publish_at} />
+                      </div>
+                    )}
+
                     <div className="flex flex-col md:flex-row gap-4">
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={(e) => handleToggleSelection(contentKey(item), (e.nativeEvent as MouseEvent).shiftKey)}
+                        className="w-4 h-4 mt-1 flex-shrink-0 text-rose-400 bg-gray-800 border-gray-700 rounded focus:ring-2 focus:ring-rose-400"
+                        aria-label={`Select ${item.title}`}
+                      />
+
                       {/* Thumbnail */}
                       <div className="md:w-40 md:h-24 flex-shrink-0">
-                        <img
+                        <ResponsiveImage
                           src={item.thumbnail_url}
+                          variants={item.thumbnail_variants}
+                          placeholder={item.thumbnail_placeholder}
+                          sizes="(min-width: 768px) 160px, 100vw"
                           alt={item.title}
                           className="w-full h-full object-cover rounded-lg"
                         />
@@ -786,7 +978,9 @@ export default function Content() {
                               <span className={`px-2 py-1 text-xs font-semibold rounded capitalize ${
                                 item.source === 'portfolio'
                                   ? 'bg-blue-500/20 text-blue-400'
-                                  : 'bg-purple-500/20 text-purple-400'
+                                  : item.source === 'masterclass'
+                                    ? 'bg-amber-500/20 text-amber-400'
+                                    : 'bg-purple-500/20 text-purple-400'
                               }`}>
                                 {item.source}
                               </span>
@@ -797,6 +991,7 @@ export default function Content() {
                               isDeletedPending={deletionInfo.isDeletedPending}
                               daysUntilDeletion={deletionInfo.daysUntilDeletion}
                               saved={item.saved}
+                              publishAt={item.publish_at}
                             />
                           </div>
                         </div>
@@ -817,6 +1012,12 @@ export default function Content() {
                             <Heart className="w-4 h-4" />
                             <span>{item.like_count.toLocaleString()} likes</span>
                           </div>
+                          {!!item.embed_views_count && (
+                            <div className="flex items-center gap-1" title="Views in embeds on other sites, included in the views">
+                              <Code2 className="w-4 h-4" />
+                              <span>{item.embed_views_count.toLocaleString()} embedded</span>
+                            </div>
+                          )}
                           <div className="flex items-center gap-1">
                             <Calendar className="w-4 h-4" />
                             <span>{formatDate(item.created_at)}</span>
@@ -826,9 +1027,9 @@ export default function Content() {
 
                       {/* Actions */}
                       <div className="flex gap-2 md:flex-col">
-                        {!isPublished && (
+                        {!isPublished && !deletionInfo.isDeletedPending && (
                           <button
-                            onClick={() => handlePublishContent(item.id, item.publication_destination as 'media' | 'portfolio' || 'media')}
+                            onClick={() => handlePublishContent(item.id, (item.publication_destination as ContentSource) || item.source)}
                             disabled={publishingContentId === item.id}
                             className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-all text-sm font-medium disabled:opacity-50"
                           >
@@ -836,6 +1037,16 @@ export default function Content() {
                             <span className="hidden sm:inline">Publish</span>
                           </button>
                         )}
+                        {isEmbeddable && (
+                          <button
+                            onClick={() => handleCopyEmbed(item)}
+                            className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-all text-sm font-medium"
+                            title="Copy the embed code for your site"
+                          >
+                            {copiedEmbedId === item.id ? <Check className="w-4 h-4 text-green-400" /> : <Code2 className="w-4 h-4" />}
+                            <span className="hidden sm:inline">{copiedEmbedId === item.id ? 'Copied' : 'Embed'}</span>
+                          </button>
+                        )}
                         <button
                           onClick={() => handleEditOpen(item)}
                           className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all text-sm font-medium"
@@ -843,8 +1054,29 @@ export default function Content() {
                           <Edit2 className="w-4 h-4" />
                           <span className="hidden sm:inline">Edit</span>
                         </button>
+                        <button
+                          onClick={() => setHistoryOpenId(historyOpenId === item.id ? null : item.id)}
+                          className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 rounded-lg transition-all text-sm font-medium ${
+                            historyOpenId === item.id ? 'bg-slate-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-white'
+                          }`}
+                          title="Show when this was published, removed or restored"
+                        >
+                          <History className="w-4 h-4" />
+                          <span className="hidden sm:inline">History</span>
+                        </button>
                       </div>
                     </div>
+
+                    {historyOpenId === item.id && (
+                      <div className="mt-4 pt-4 border-t border-slate-700">
+                        {/* Remounts, and so reloads, after each transition */}
+                        <ContentHistory
+                          key={`${item.status}:${publishedTo.join(',')}:${item.publish_at ?? ''}`}
+                          source={item.source}
+                          contentId={item.id}
+                        />
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -877,8 +1109,34 @@ export default function Content() {
           isSaving={isSaving}
           isDeleting={isDeleting}
           error={editError}
+          contentId={editingContent.id}
+          source={editingContent.source}
+          thumbnailUrl={editingContent.thumbnail_url}
+          contentUrl={editingContent.content_url}
+          durationSeconds={editingContent.duration_seconds}
+          onThumbnailChange={(columns) => updateContentItem(editingContent.id, columns, editingContent.source)}
+          onRevisionRestored={(row) =>
+            updateContentItem(editingContent.id, row as Partial<ContentRecord>, editingContent.source)
+          }
+          releaseDestinations={editingContent.source === 'masterclass' ? ['masterclass'] : ['media', 'portfolio']}
+          publishAt={editingContent.publish_at}
+          scheduledDestinations={
+            editingContent.scheduled_destinations?.length
+              ? editingContent.scheduled_destinations
+              : [(editingContent.publication_destination as ContentSource) || editingContent.source]
+          }
         />
       )}
+
+      <ToastContainer toasts={toasts} onClose={removeToast} />
+
+      <ThumbnailStudio
+        isOpen={thumbnailStudioOpen}
+        frameSource={thumbnailFrameSource}
+        initialImageUrl={thumbnailPreview}
+        onClose={() => setThumbnailStudioOpen(false)}
+        onExport={handleThumbnailStudioExport}
+      />
     </div>
   );
 }
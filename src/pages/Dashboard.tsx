@@ -7,6 +7,7 @@ import { useUserActivity } from '../hooks/useUserActivity';
 import { useChallenges } from '../hooks/useChallenges';
 import { useUpcomingEvents } from '../hooks/useUpcomingEvents';
 import { useReferralCode } from '../hooks/useReferralCode';
+import ContinueWatchingRow from '../components/ContinueWatchingRow';
 
 export default function Dashboard() {
   const { user } = useAuth();
@@ -151,6 +152,8 @@ export default function Dashboard() {
               </div>
             </div>
 
+            <ContinueWatchingRow className="glass-effect p-6 rounded-xl" />
+
             {/* Recent Activity */}
             <div className="glass-effect p-6 rounded-xl">
               <h2 className="text-xl font-semibold text-white mb-4">Recent Activity</h2>
@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Loader2, Lock } from 'lucide-react';
+import MuxPlayer from '../components/MuxPlayer';
+import { usePlaybackAccess } from '../hooks/usePlaybackAccess';
+import { usePlaybackAnalytics } from '../hooks/usePlaybackAnalytics';
+import { trackVideoView } from '../hooks/useVideoViewTracking';
+import { EmbedContent, fetchEmbedContent, oembedUrl } from '../lib/embeds';
+import { PLAYER_PAGE_BY_SOURCE } from '../lib/playbackPositions';
+import { muxPlaybackId } from '../lib/playerQueue';
+
+/**
+ * Player for iframes on other sites: just the video with title and
+ * creator attribution linking back here. Premium items only play for
+ * viewers signed in on a paid plan; everyone else gets a link to watch
+ * here.
+ */
+export default function Embed() {
+  const { contentId } = useParams<{ contentId: string }>();
+  const [content, setContent] = useState<EmbedContent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const hasTrackedViewRef = useRef(false);
+
+  const { access, error: accessError, premiumRequired } = usePlaybackAccess(
+    content?.source,
+    content?.id,
+    content?.is_premium
+  );
+  const trackPlayback = usePlaybackAnalytics(content?.source, content?.id);
+
+  useEffect(() => {
+    if (!contentId) return;
+
+    setLoading(true);
+    fetchEmbedContent(contentId)
+      .then((item) => {
+        setContent(item);
+        setError(item ? null : 'This content is not available');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load content'))
+      .finally(() => setLoading(false));
+  }, [contentId]);
+
+  // oEmbed discovery for crawlers that run scripts
+  useEffect(() => {
+    if (!content) return;
+
+    const link = document.createElement('link');
+    link.rel = 'alternate';
+    link.type = 'application/json+oembed';
+    link.href = oembedUrl(content.id);
+    link.title = content.title;
+    document.head.appendChild(link);
+    document.title = `${content.title} - ${content.creator}`;
+    return () => link.remove();
+  }, [content]);
+
+  const handleViewTracked = useCallback(() => {
+    if (!content || hasTrackedViewRef.current) return;
+    hasTrackedViewRef.current = true;
+    trackVideoView(content.id, content.source, 'embed');
+  }, [content]);
+
+  if (loading) {
+    return (
+      <div className="w-screen h-screen bg-black flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !content) {
+    return (
+      <div className="w-screen h-screen bg-black flex items-center justify-center p-4">
+        <p className="text-gray-400 text-sm">{error ?? 'This content is not available'}</p>
+      </div>
+    );
+  }
+
+  const page = PLAYER_PAGE_BY_SOURCE[content.source];
+  const watchUrl = page ? `${window.location.origin}${page}?play=${content.id}` : window.location.origin;
+  const playbackId = access && 'playbackId' in access ? access.playbackId : muxPlaybackId(content.content_url);
+  const tokens = access && 'tokens' in access ? access.tokens : undefined;
+  const signedUrl = access && 'url' in access ? access.url : undefined;
+  // Signed-out viewers can't get premium credentials at all
+  const locked = content.is_premium && (premiumRequired || !!accessError);
+
+  return (
+    <div className="relative w-screen h-screen bg-black flex items-center justify-center overflow-hidden">
+      {locked ? (
+        <div className="relative w-full h-full flex items-center justify-center">
+          {content.thumbnail_url && (
+            <img src={content.thumbnail_url} alt={content.title} className="absolute inset-0 w-full h-full object-cover opacity-40" />
+          )}
+          <a
+            href={watchUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="relative flex flex-col items-center gap-2 text-center p-6"
+          >
+            <Lock className="w-10 h-10 text-amber-400" />
+            <span className="text-white font-semibold">Premium content</span>
+            <span className="text-gray-300 text-sm underline">Watch on Talent Connections</span>
+          </a>
+        </div>
+      ) : accessError ? (
+        <p className="text-red-400 text-sm p-4">{accessError}</p>
+      ) : !access ? (
+        <Loader2 className="w-8 h-8 text-gray-400 animate-spin" />
+      ) : playbackId && !signedUrl ? (
+        <MuxPlayer
+          playbackId={playbackId}
+          thumbnailUrl={content.thumbnail_url}
+          title={content.title}
+          onViewTracked={handleViewTracked}
+          onPlaybackEvent={trackPlayback}
+          playbackToken={tokens?.playback}
+          thumbnailToken={tokens?.thumbnail}
+          storyboardToken={tokens?.storyboard}
+        />
+      ) : (
+        <video
+          src={signedUrl ?? content.content_url}
+          poster={content.thumbnail_url}
+          controls
+          className="w-full h-full bg-black"
+          onPlay={handleViewTracked}
+        />
+      )}
+
+      {/* Attribution */}
+      <div className="absolute top-0 inset-x-0 p-3 bg-gradient-to-b from-black/80 to-transparent pointer-events-none">
+        <a
+          href={watchUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="pointer-events-auto inline-block max-w-full"
+        >
+          <p className="text-white text-sm font-semibold truncate hover:underline">{content.title}</p>
+          <p className="text-gray-300 text-xs truncate">by {content.creator}</p>
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -330,6 +330,12 @@ export default function FeedPage() {
           isSaving={isEditSaving}
           isDeleting={isEditDeleting}
           error={editError || undefined}
+          mediaId={editingMedia.id}
+          onRevisionRestored={(row) =>
+            setMediaItems((prev) =>
+              prev.map((item) => (item.id === editingMedia.id ? { ...item, ...(row as Partial<MediaItemData>) } : item))
+            )
+          }
         />
       )}
 
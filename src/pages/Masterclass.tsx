@@ -1,5 +1,5 @@
 import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Play,
   Clock,
@@ -23,19 +23,35 @@ import {
   Film,
   Music,
   Edit3,
-  Trash2
+  Trash2,
+  Wand2
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../lib/supabase';
 import { uploadToB2 } from '../lib/b2Upload';
-import { extractDuration } from '../lib/getDuration';
+import {
+  ReleaseSchedule,
+  createContent,
+  fetchContent,
+  fetchPublishedContent,
+  subscribeToContent,
+} from '../lib/contentRepository';
+import { formatDuration } from '../lib/formatDuration';
+import { FrameSource, ThumbnailColumns, thumbnailColumns, uploadThumbnailVariants } from '../lib/thumbnails';
+import type { ImageVariant } from '../lib/responsiveImages';
 import { useMediaPageEdit } from '../hooks/useMediaPageEdit';
+import { useContentPublication } from '../hooks/useContentPublication';
 import { useContentDeletion } from '../hooks/useContentDeletion';
 import { useMediaPageLike, useMediaPageFollow } from '../hooks/useMediaPageInteraction';
+import { trackVideoView } from '../hooks/useVideoViewTracking';
 import EditMasterclassContentModal from '../components/EditMasterclassContentModal';
 import ContentCountdownTimer from '../components/ContentCountdownTimer';
 import VideoPlaybackModal from '../components/VideoPlaybackModal';
+import ContinueWatchingRow from '../components/ContinueWatchingRow';
+import UpcomingReleasesRow from '../components/UpcomingReleasesRow';
 import VideoUploadWithMuxForMasterclass from '../components/VideoUploadWithMuxForMasterclass';
+import ThumbnailStudio, { ThumbnailStudioResult } from '../components/ThumbnailStudio';
+import ResponsiveImage from '../components/ResponsiveImage';
 
 type ViewMode = 'courses' | 'workshops' | 'learning' | 'teaching' | 'mentorship';
 type LayoutMode = 'grid' | 'list';
@@ -46,7 +62,11 @@ type ContentItem = {
   creator: string;
   category: string;
   thumbnail_url: string;
-  duration: string | null;
+  thumbnail_key?: string | null;
+  thumbnail_variants?: ImageVariant[];
+  thumbnail_placeholder?: string | null;
+  content_url?: string;
+  duration_seconds: number | null;
   views_count: number;
   like_count: number;
   is_premium: boolean;
@@ -55,6 +75,8 @@ type ContentItem = {
   level?: string;
   features?: string[];
   lessons_count?: number;
+  status?: string;
+  publish_at?: string | null;
 };
 
 type Workshop = {
@@ -73,6 +95,7 @@ type Workshop = {
 export default function Masterclass() {
   const { user, profile } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [viewMode, setViewMode] = useState<ViewMode>('courses');
   const [layoutMode, setLayoutMode] = useState<LayoutMode>('grid');
   const [activeCategory, setActiveCategory] = useState('all');
@@ -98,13 +121,16 @@ export default function Masterclass() {
   const [uploadFeatures, setUploadFeatures] = useState<string[]>([]);
   const [uploadFeatureInput, setUploadFeatureInput] = useState('');
   const [uploadLessons, setUploadLessons] = useState('');
+  const [uploadIsPremium, setUploadIsPremium] = useState(false);
   const uploadFileInputRef = useRef<HTMLInputElement>(null);
   const [uploadThumbnail, setUploadThumbnail] = useState<File | null>(null);
   const [uploadThumbnailPreview, setUploadThumbnailPreview] = useState<string | null>(null);
   const uploadThumbnailInputRef = useRef<HTMLInputElement>(null);
   const [uploadVideoPlaybackId, setUploadVideoPlaybackId] = useState<string | null>(null);
   const [uploadVideoId, setUploadVideoId] = useState<string | null>(null);
-  const [uploadVideoDuration, setUploadVideoDuration] = useState<string | null>(null);
+  const [uploadVideoFile, setUploadVideoFile] = useState<File | null>(null);
+  const [thumbnailStudioOpen, setThumbnailStudioOpen] = useState(false);
+  const [editedThumbnail, setEditedThumbnail] = useState<ThumbnailStudioResult | null>(null);
   const [userCourses, setUserCourses] = useState<ContentItem[]>([]);
   const [loadingUserCourses, setLoadingUserCourses] = useState(true);
   const [showManageCoursesModal, setShowManageCoursesModal] = useState(false);
@@ -120,6 +146,7 @@ export default function Masterclass() {
   const [userFollows, setUserFollows] = useState<Set<string>>(new Set());
 
   const { editContent } = useMediaPageEdit();
+  const { scheduleRelease } = useContentPublication();
   const { deleteFromDestination, saveContent, getDeletionInfo } = useContentDeletion();
   const { toggleLike } = useMediaPageLike();
   const { toggleFollow } = useMediaPageFollow();
@@ -188,16 +215,10 @@ export default function Masterclass() {
         setLoading(true);
       }
 
-      const { data, error } = await supabase.rpc('get_content_by_destination', {
-        destination: 'masterclass'
-      });
-
-      if (error) throw error;
-      if (data) {
-        setCourseContent(data);
-        // Cache for instant load next time
-        sessionStorage.setItem('masterclass_content_cache', JSON.stringify(data));
-      }
+      const courses = await fetchPublishedContent<ContentItem>('masterclass');
+      setCourseContent(courses);
+      // Cache for instant load next time
+      sessionStorage.setItem('masterclass_content_cache', JSON.stringify(courses));
     } catch (err) {
       console.error('Error fetching course content:', err);
     } finally {
@@ -209,17 +230,8 @@ export default function Masterclass() {
     if (!user) return;
     try {
       setLoadingUserCourses(true);
-      const { data, error } = await supabase
-        .from('masterclass_page_content')
-        .select('*')
-        .eq('user_id', user.id)
-        .neq('status', 'permanently_deleted')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      if (data) {
-        setUserCourses(data);
-      }
+      const courses = await fetchContent('masterclass', { userId: user.id, excludeStatuses: ['permanently_deleted'] });
+      setUserCourses(courses as ContentItem[]);
     } catch (err) {
       console.error('Error fetching user courses:', err);
     } finally {
@@ -277,29 +289,19 @@ export default function Masterclass() {
   };
 
   const subscribeToRealTimeUpdates = () => {
-    const contentChannel = supabase
-      .channel('public:masterclass_page_content')
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'masterclass_page_content',
-        },
-        (payload: any) => {
-          setCourseContent((prev) =>
-            prev.map((item) =>
-              item.id === payload.new.id
-                ? {
-                    ...item,
-                    like_count: payload.new.like_count,
-                  }
-                : item
-            )
-          );
-        }
-      )
-      .subscribe();
+    const unsubscribeContent = subscribeToContent('masterclass', ({ eventType, id, record }) => {
+      if (eventType !== 'UPDATE' || !record) return;
+      setCourseContent((prev) =>
+        prev.map((item) =>
+          item.id === id
+            ? {
+                ...item,
+                like_count: record.like_count,
+              }
+            : item
+        )
+      );
+    });
 
     const likesChannel = supabase
       .channel('public:media_page_likes')
@@ -319,7 +321,7 @@ export default function Masterclass() {
       .subscribe();
 
     return () => {
-      contentChannel.unsubscribe();
+      unsubscribeContent();
       likesChannel.unsubscribe();
     };
   };
@@ -409,6 +411,7 @@ export default function Masterclass() {
     }
 
     setUploadThumbnail(selectedFile);
+    setEditedThumbnail(null);
     setUploadError(null);
 
     const reader = new FileReader();
@@ -418,6 +421,17 @@ export default function Masterclass() {
     reader.readAsDataURL(selectedFile);
   };
 
+  const thumbnailFrameSource = useMemo<FrameSource | null>(
+    () => (uploadVideoFile ? { kind: 'file', file: uploadVideoFile } : null),
+    [uploadVideoFile]
+  );
+
+  const handleThumbnailStudioExport = (result: ThumbnailStudioResult) => {
+    setEditedThumbnail(result);
+    setThumbnailStudioOpen(false);
+    setUploadError(null);
+  };
+
   const handleUploadInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) handleUploadFileSelect(selectedFile);
@@ -465,7 +479,7 @@ export default function Masterclass() {
       return;
     }
 
-    if (!uploadThumbnail) {
+    if (!uploadThumbnail && !editedThumbnail) {
       setUploadError('Please select a thumbnail image');
       return;
     }
@@ -474,55 +488,60 @@ export default function Masterclass() {
     setUploadError(null);
 
     try {
-      // Upload thumbnail to Backblaze B2
-      const { publicUrl: thumbnailUrl, error: uploadThumbnailError } = await uploadToB2(
-        uploadThumbnail,
-        `masterclass_page_content/${user.id}`
-      );
-
-      if (uploadThumbnailError) throw uploadThumbnailError;
+      // Upload the studio's WebP sizes, or the thumbnail image as given
+      let thumbnailFields: Partial<ThumbnailColumns> = {};
+      if (editedThumbnail) {
+        thumbnailFields = thumbnailColumns(await uploadThumbnailVariants(editedThumbnail.exports, user.id));
+      } else if (uploadThumbnail) {
+        const { key: thumbnailKey, error: uploadThumbnailError } = await uploadToB2(
+          uploadThumbnail,
+          `masterclass_page_content/${user.id}`
+        );
+
+        if (uploadThumbnailError) throw new Error(uploadThumbnailError);
+        thumbnailFields = { thumbnail_key: thumbnailKey };
+      }
 
       // Construct Mux stream URL from playback ID
       const muxStreamUrl = `https://stream.mux.com/${uploadVideoPlaybackId}.m3u8`;
 
-      const { error: insertError } = await supabase.from('masterclass_page_content').insert([
-        {
-          user_id: user.id,
-          title: uploadTitle,
-          creator: profile.name,
-          description: uploadDescription || null,
-          thumbnail_url: thumbnailUrl,
-          content_url: muxStreamUrl,
-          type: 'course-material',
-          category: uploadCategory || null,
-          duration: uploadVideoDuration,
-          level: uploadLevel,
-          features: uploadFeatures,
-          lessons_count: parseInt(uploadLessons) || 0,
-          video_upload_id: uploadVideoId,
-          views_count: 0,
-          like_count: 0,
-          is_premium: false,
-          status: 'published',
-        },
-      ]);
-
-      if (insertError) throw insertError;
+      await createContent('masterclass', {
+        user_id: user.id,
+        title: uploadTitle,
+        creator: profile.name,
+        description: uploadDescription || null,
+        ...thumbnailFields,
+        content_url: muxStreamUrl,
+        type: 'course-material',
+        category: uploadCategory || null,
+        level: uploadLevel,
+        features: uploadFeatures,
+        lessons_count: parseInt(uploadLessons) || 0,
+        video_upload_id: uploadVideoId,
+        views_count: 0,
+        like_count: 0,
+        is_premium: uploadIsPremium,
+        status: 'published',
+        publication_destination: 'masterclass',
+        published_to: ['masterclass'],
+      });
 
       setUploadSuccess(true);
       setUploadTitle('');
       setUploadDescription('');
       setUploadVideoPlaybackId(null);
       setUploadVideoId(null);
-      setUploadVideoDuration(null);
+      setUploadVideoFile(null);
       setUploadPreview(null);
       setUploadThumbnail(null);
       setUploadThumbnailPreview(null);
+      setEditedThumbnail(null);
       setUploadCategory('');
       setUploadLevel('All Levels');
       setUploadFeatures([]);
       setUploadFeatureInput('');
       setUploadLessons('');
+      setUploadIsPremium(false);
 
       // Refresh course content
       fetchCourseContent();
@@ -666,8 +685,23 @@ export default function Masterclass() {
   const handlePlayClick = (course: ContentItem) => {
     setPlayingCourse(course);
     setIsPlayerOpen(true);
+    trackVideoView(course.id, 'masterclass');
   };
 
+  // Continue watching links here with ?play=<id>
+  const playParam = searchParams.get('play');
+  useEffect(() => {
+    if (!playParam) return;
+    const course = courseContent.find((content) => content.id === playParam);
+    if (!course) return;
+
+    setSearchParams((params) => {
+      params.delete('play');
+      return params;
+    }, { replace: true });
+    handlePlayClick(course);
+  }, [playParam, courseContent, setSearchParams]);
+
   const handleClosePlayer = () => {
     setIsPlayerOpen(false);
     setPlayingCourse(null);
@@ -796,6 +830,7 @@ export default function Masterclass() {
     features?: string[];
     lessons_count?: number;
     is_premium?: boolean;
+    schedule?: ReleaseSchedule;
   }) => {
     if (!editingCourse) return;
 
@@ -803,8 +838,13 @@ export default function Masterclass() {
     setEditError(undefined);
 
     const result = await editContent(editingCourse.id, payload, 'masterclass');
+    const scheduled = result.success && payload.schedule
+      ? await scheduleRelease(editingCourse.id, payload.schedule.publishAt, payload.schedule.destinations, 'masterclass')
+      : null;
 
-    if (result.success) {
+    if (scheduled && !scheduled.success) {
+      setEditError(scheduled.error || 'Failed to schedule the release');
+    } else if (result.success) {
       setUserCourses((prev) =>
         prev.map((item) =>
           item.id === editingCourse.id
@@ -817,6 +857,7 @@ export default function Masterclass() {
                 features: payload.features || [],
                 lessons_count: payload.lessons_count || 0,
                 is_premium: payload.is_premium ?? false,
+                ...scheduled?.state,
               }
             : item
         )
@@ -840,11 +881,7 @@ export default function Masterclass() {
 
     if (result.success) {
       setUserCourses((prev) =>
-        prev.map((item) =>
-          item.id === courseId
-            ? { ...item, status: 'pending_deletion', is_deleted_pending: true }
-            : item
-        )
+        prev.map((item) => (item.id === courseId ? { ...item, ...result.state } : item))
       );
       // Refresh course content to reflect changes in courses tab
       fetchCourseContent();
@@ -861,18 +898,7 @@ export default function Masterclass() {
     const result = await saveContent(courseId, 'masterclass');
     if (result.success) {
       setUserCourses((prev) =>
-        prev.map((item) =>
-          item.id === courseId
-            ? {
-                ...item,
-                saved: true,
-                status: 'draft',
-                deleted_at: null,
-                auto_delete_at: null,
-                is_deleted_pending: false,
-              }
-            : item
-        )
+        prev.map((item) => (item.id === courseId ? { ...item, ...result.state } : item))
       );
       // Refresh course content
       fetchCourseContent();
@@ -992,6 +1018,10 @@ export default function Masterclass() {
           </div>
         </div>
 
+        {viewMode === 'courses' && (
+          <UpcomingReleasesRow destination="masterclass" onReleased={fetchCourseContent} />
+        )}
+
         {viewMode === 'courses' && (
           <div className={courseContainerClass}>
             {loading ? (
@@ -1010,7 +1040,14 @@ export default function Masterclass() {
                   >
                     <div className={`${layoutMode === 'list' ? 'md:w-1/3 md:min-w-[240px]' : ''}`}>
                       <div className={`relative group ${layoutMode === 'list' ? 'md:h-full' : 'aspect-video'} bg-gray-800`}>
-                        <img src={course.thumbnail_url} alt={course.title} className="w-full h-full object-cover" loading="lazy" />
+                        <ResponsiveImage
+                          src={course.thumbnail_url}
+                          variants={course.thumbnail_variants}
+                          placeholder={course.thumbnail_placeholder}
+                          sizes={layoutMode === 'list' ? '(min-width: 768px) 33vw, 100vw' : '(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw'}
+                          alt={course.title}
+                          className="w-full h-full object-cover"
+                        />
                         <button
                           onClick={() => handleBookmarkToggle(course.id)}
                           className={`absolute top-3 right-3 p-2 rounded-full bg-black/40 transition-colors z-20 ${
@@ -1054,7 +1091,7 @@ export default function Masterclass() {
                       <div className={`text-sm text-gray-200 mb-4 ${layoutMode === 'list' ? 'flex flex-wrap gap-x-6 gap-y-2' : 'flex items-center justify-between'}`}>
                         <div className="flex items-center space-x-1">
                           <Clock className="w-4 h-4" />
-                          <span>{course.duration || 'Duration TBA'}</span>
+                          <span>{formatDuration(course.duration_seconds) || 'Duration TBA'}</span>
                         </div>
                         {course.lessons_count && course.lessons_count > 0 && (
                           <div className="flex items-center space-x-1">
@@ -1141,6 +1178,8 @@ export default function Masterclass() {
 
         {viewMode === 'learning' && (
           <div className="space-y-6">
+            <ContinueWatchingRow source="masterclass" className="glass-effect p-6 rounded-2xl" />
+
             <div className="glass-effect p-6 rounded-2xl">
               <h2 className="text-2xl font-semibold text-white mb-4">My Learning</h2>
               <div className="text-center py-8">
@@ -1369,6 +1408,8 @@ export default function Masterclass() {
                   setUploadPreview(null);
                   setUploadThumbnail(null);
                   setUploadThumbnailPreview(null);
+                  setEditedThumbnail(null);
+                  setUploadVideoFile(null);
                   setUploadVideoPlaybackId(null);
                   setUploadVideoId(null);
                   setUploadCategory('');
@@ -1554,7 +1595,46 @@ export default function Masterclass() {
                   <span className="text-sm text-gray-500">PNG, JPG, GIF, or WebP (max 10MB)</span>
                 </div>
 
-                {uploadThumbnail && (
+                {(thumbnailFrameSource || uploadThumbnail) && (
+                  <button
+                    type="button"
+                    onClick={() => setThumbnailStudioOpen(true)}
+                    className="mt-3 flex items-center gap-2 px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors text-sm"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                    {thumbnailFrameSource ? 'Pick a frame and edit in Thumbnail Studio' : 'Edit in Thumbnail Studio'}
+                  </button>
+                )}
+
+                {editedThumbnail && (
+                  <div className="mt-4 w-full">
+                    <div className="flex items-center gap-3 p-3 bg-gray-900 rounded-lg border border-gray-700">
+                      <Wand2 className="w-8 h-8 text-rose-400 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-white truncate">Edited in Thumbnail Studio</p>
+                        <p className="text-xs text-gray-400">
+                          WebP {editedThumbnail.exports.map((size) => `${size.width}×${size.height}`).join(', ')}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setEditedThumbnail(null)}
+                        className="p-1 hover:bg-gray-800 rounded transition-colors flex-shrink-0"
+                      >
+                        <X className="w-4 h-4 text-gray-400" />
+                      </button>
+                    </div>
+                    <div className="mt-3 w-full h-40 rounded-lg overflow-hidden border border-gray-700 bg-black">
+                      <img
+                        src={editedThumbnail.previewUrl}
+                        alt="Thumbnail Preview"
+                        className="w-full h-full object-contain"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {uploadThumbnail && !editedThumbnail && (
                   <div className="mt-4 w-full">
                     <div className="flex items-center gap-3 p-3 bg-gray-900 rounded-lg border border-gray-700">
                       <ImageIcon className="w-8 h-8 text-blue-400 flex-shrink-0" />
@@ -1587,16 +1667,34 @@ export default function Masterclass() {
                 )}
               </div>
 
+              {/* Premium Checkbox. Fixed once the video is processed, since
+                  its playback ID is created public or signed to match. */}
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="uploadIsPremium"
+                  checked={uploadIsPremium}
+                  onChange={(e) => setUploadIsPremium(e.target.checked)}
+                  className="w-4 h-4 text-rose-400 bg-gray-800 border-gray-700 rounded focus:ring-2 focus:ring-rose-400"
+                  disabled={uploadLoading || !!uploadVideoPlaybackId}
+                />
+                <label htmlFor="uploadIsPremium" className="ml-2 text-sm text-white">
+                  Mark as premium content
+                </label>
+              </div>
+
               {/* Video Upload with Mux */}
               <div>
                 <label className="block text-sm font-medium text-white mb-2">Course Video (Mux) *</label>
                 <p className="text-xs text-gray-400 mb-3">Upload a video to be processed by Mux for optimal playback</p>
                 <VideoUploadWithMuxForMasterclass
                   userId={user!.id}
-                  onVideoSelected={(playbackId, videoUploadId, duration) => {
+                  premium={uploadIsPremium}
+                  onVideoSelected={(playbackId, videoUploadId, videoFile, premium) => {
+                    setUploadIsPremium(premium);
                     setUploadVideoPlaybackId(playbackId);
                     setUploadVideoId(videoUploadId);
-                    setUploadVideoDuration(duration || null);
+                    setUploadVideoFile(videoFile);
                   }}
                 />
               </div>
@@ -1664,11 +1762,20 @@ export default function Masterclass() {
                         </div>
                       )}
 
+                      {course.status === 'draft' && course.publish_at && (
+                        <div className="mb-4">
+                          <ContentCountdownTimer releaseAt={course.publish_at} onReleased={fetchUserCourses} />
+                        </div>
+                      )}
+
                       <div className="flex gap-4">
                         {/* Thumbnail */}
                         <div className="flex-shrink-0">
-                          <img
+                          <ResponsiveImage
                             src={course.thumbnail_url}
+                            variants={course.thumbnail_variants}
+                            placeholder={course.thumbnail_placeholder}
+                            sizes="128px"
                             alt={course.title}
                             className="w-32 h-24 object-cover rounded-lg"
                           />
@@ -1756,12 +1863,30 @@ export default function Masterclass() {
           lessonsCount={editingCourse.lessons_count}
           isPremium={editingCourse.is_premium}
           status={editingCourse.status}
+          publishAt={editingCourse.publish_at}
           onSave={handleEditCourseSave}
           onDelete={() => handleDeleteCourse(editingCourse.id)}
           onClose={handleEditCourseClose}
           isSaving={isSaving}
           isDeleting={isDeleting}
           error={editError}
+          contentId={editingCourse.id}
+          source="masterclass"
+          thumbnailUrl={editingCourse.thumbnail_url}
+          contentUrl={editingCourse.content_url}
+          durationSeconds={editingCourse.duration_seconds}
+          onThumbnailChange={(columns) => {
+            setUserCourses((prev) =>
+              prev.map((item) => (item.id === editingCourse.id ? { ...item, ...columns } : item))
+            );
+            fetchCourseContent();
+          }}
+          onRevisionRestored={(row) => {
+            setUserCourses((prev) =>
+              prev.map((item) => (item.id === editingCourse.id ? { ...item, ...(row as Partial<ContentItem>) } : item))
+            );
+            fetchCourseContent();
+          }}
         />
       )}
 
@@ -1775,8 +1900,17 @@ export default function Masterclass() {
           onLikeToggle={handleToggleLike}
           onFollowToggle={handleToggleFollow}
           isFollowing={userFollows.has(playingCourse.creator)}
+          source="masterclass"
         />
       )}
+
+      <ThumbnailStudio
+        isOpen={thumbnailStudioOpen}
+        frameSource={thumbnailFrameSource}
+        initialImageUrl={uploadThumbnailPreview}
+        onClose={() => setThumbnailStudioOpen(false)}
+        onExport={handleThumbnailStudioExport}
+      />
     </div>
   );
 }
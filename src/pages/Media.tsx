@@ -1,14 +1,22 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Play, Image, Headphones, Heart, Share2, Filter, Search, Star, Download, Rss, Eye, Trash2, Lightbulb, Mic } from 'lucide-react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Play, Image, Headphones, Heart, Share2, Filter, Search, Star, Download, Rss, Eye, Trash2, Lightbulb, Mic, ListPlus, Check } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { usePlayer } from '../hooks/usePlayer';
 import { supabase } from '../lib/supabase';
+import { fetchPublishedContent, subscribeToContent } from '../lib/contentRepository';
 import { useMediaPageLike, useMediaPageFollow } from '../hooks/useMediaPageInteraction';
 import { useContentDeletion } from '../hooks/useContentDeletion';
 import { trackVideoView } from '../hooks/useVideoViewTracking';
-import { updateDurationInDatabase } from '../lib/updateDurationInDatabase';
+import { formatDuration } from '../lib/formatDuration';
+import type { ImageVariant } from '../lib/responsiveImages';
+import { AUDIO_CONTENT_TYPES, toPlayerItem } from '../lib/playerQueue';
+import { fetchPodcastFeedToken, podcastFeedUrl } from '../lib/podcastFeeds';
 import DeleteFromDestinationModal from '../components/DeleteFromDestinationModal';
 import VideoPlaybackModal from '../components/VideoPlaybackModal';
+import ContinueWatchingRow from '../components/ContinueWatchingRow';
+import UpcomingReleasesRow from '../components/UpcomingReleasesRow';
+import ResponsiveImage from '../components/ResponsiveImage';
 import VideoUploadWithMux from '../components/VideoUploadWithMux';
 
 interface ContentItem {
@@ -19,9 +27,13 @@ interface ContentItem {
   description?: string;
   thumbnail_url: string;
   content_url: string;
+  thumbnail_key?: string | null;
+  thumbnail_variants?: ImageVariant[];
+  thumbnail_placeholder?: string | null;
+  content_key?: string | null;
   like_count: number;
   views_count?: number;
-  duration?: string;
+  duration_seconds?: number | null;
   read_time?: string;
   category?: string;
   is_premium: boolean;
@@ -39,6 +51,9 @@ const categories = {
   contests: ['all', 'Africa-votes', 'UGHHA', 'ASFA'],
 };
 
+// Opened in the viewer rather than played, so they can't be queued
+const NON_PLAYABLE_TYPES = ['blog', 'image'];
+
 const tabs = [
   { id: 'music', label: 'Music', icon: <Headphones className="w-5 h-5" /> },
   { id: 'movies', label: 'Movies', icon: <Play className="w-5 h-5" /> },
@@ -52,6 +67,7 @@ const tabs = [
 export default function Media() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [contentItems, setContentItems] = useState<ContentItem[]>([]);
   const [userLikes, setUserLikes] = useState<Set<string>>(new Set());
   const [userFollows, setUserFollows] = useState<Set<string>>(new Set());
@@ -64,7 +80,9 @@ export default function Media() {
   const [playingContent, setPlayingContent] = useState<ContentItem | null>(null);
   const [isPlayerOpen, setIsPlayerOpen] = useState(false);
   const [musicDisplayMode, setMusicDisplayMode] = useState<'audio' | 'video'>('video');
+  const [copiedFeedId, setCopiedFeedId] = useState<string | null>(null);
 
+  const { play, enqueue } = usePlayer();
   const { toggleLike } = useMediaPageLike();
   const { toggleFollow } = useMediaPageFollow();
   const { deleteFromDestination } = useContentDeletion();
@@ -101,41 +119,13 @@ export default function Media() {
 
   const fetchContent = async () => {
     try {
-      const { data, error } = await supabase.rpc('get_content_by_destination', {
-        destination: 'media'
-      });
-
-      if (error) {
-        console.error('Error fetching content:', error);
-        setLoading(false);
-        return;
-      }
-
-      if (data) {
-        setContentItems(data);
-        // Cache for instant load next time
-        sessionStorage.setItem('media_content_cache', JSON.stringify(data));
-
-        // Auto-update durations for videos with "0:00" in background (non-blocking)
-        data.forEach((item) => {
-          if ((item.duration === '0:00' || !item.duration) && (item.type === 'music-video' || item.type === 'movie' || item.type === 'audio-music')) {
-            updateDurationInDatabase(item.id, item.content_url)
-              .then((newDuration) => {
-                if (newDuration) {
-                  setContentItems((prev) =>
-                    prev.map((i) => (i.id === item.id ? { ...i, duration: newDuration } : i))
-                  );
-                }
-              })
-              .catch((err) => {
-                console.error(`Failed to auto-update duration for ${item.id}:`, err);
-              });
-          }
-        });
-      }
+      const items = await fetchPublishedContent<ContentItem>('media');
+      setContentItems(items);
+      // Cache for instant load next time
+      sessionStorage.setItem('media_content_cache', JSON.stringify(items));
       setLoading(false);
     } catch (err) {
-      console.error('Error:', err);
+      console.error('Error fetching content:', err);
       setLoading(false);
     }
   };
@@ -167,29 +157,19 @@ export default function Media() {
   };
 
   const subscribeToRealTimeUpdates = () => {
-    const contentChannel = supabase
-      .channel('public:media_page_content')
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'media_page_content',
-        },
-        (payload: any) => {
-          setContentItems((prev) =>
-            prev.map((item) =>
-              item.id === payload.new.id
-                ? {
-                    ...item,
-                    like_count: payload.new.like_count,
-                  }
-                : item
-            )
-          );
-        }
-      )
-      .subscribe();
+    const unsubscribeContent = subscribeToContent('media', ({ eventType, id, record }) => {
+      if (eventType !== 'UPDATE' || !record) return;
+      setContentItems((prev) =>
+        prev.map((item) =>
+          item.id === id
+            ? {
+                ...item,
+                like_count: record.like_count,
+              }
+            : item
+        )
+      );
+    });
 
     const likesChannel = supabase
       .channel('public:media_page_likes')
@@ -209,7 +189,7 @@ export default function Media() {
       .subscribe();
 
     return () => {
-      contentChannel.unsubscribe();
+      unsubscribeContent();
       likesChannel.unsubscribe();
     };
   };
@@ -307,11 +287,57 @@ export default function Media() {
   };
 
   const handlePlayClick = (item: ContentItem) => {
+    // Audio goes to the mini-player with the rest of the list queued after
+    // it, so it keeps playing when the user browses elsewhere
+    if (AUDIO_CONTENT_TYPES.includes(item.type)) {
+      const queue = filteredContent
+        .filter((queued) => AUDIO_CONTENT_TYPES.includes(queued.type))
+        .map((queued) => toPlayerItem(queued, 'media'));
+      play(toPlayerItem(item, 'media'), { queue });
+      trackVideoView(item.id);
+      return;
+    }
+
     setPlayingContent(item);
     setIsPlayerOpen(true);
     trackVideoView(item.id);
   };
 
+  // The latest handler, so the effect below only reruns for a new ?play=
+  const handlePlayClickRef = useRef(handlePlayClick);
+
+  useEffect(() => {
+    handlePlayClickRef.current = handlePlayClick;
+  });
+
+  // Continue watching links here with ?play=<id>
+  const playParam = searchParams.get('play');
+  useEffect(() => {
+    if (!playParam) return;
+    const item = contentItems.find((content) => content.id === playParam);
+    if (!item) return;
+
+    setSearchParams((params) => {
+      params.delete('play');
+      return params;
+    }, { replace: true });
+    handlePlayClickRef.current(item);
+  }, [playParam, contentItems, setSearchParams]);
+
+  // Paid viewers and the creator get the private feed, which also lists
+  // premium episodes
+  const handleCopyFeed = async (item: ContentItem) => {
+    try {
+      const canListPremium = user && (user.tier !== 'free' || user.id === item.user_id);
+      const token = canListPremium ? await fetchPodcastFeedToken() : null;
+      await navigator.clipboard.writeText(podcastFeedUrl({ creatorId: item.user_id }, token));
+      setCopiedFeedId(item.id);
+      setTimeout(() => setCopiedFeedId(null), 2000);
+    } catch (err) {
+      console.error('Error copying feed link:', err);
+    }
+  };
+
   const handleClosePlayer = () => {
     setIsPlayerOpen(false);
     setPlayingContent(null);
@@ -397,6 +423,10 @@ export default function Media() {
           <p className="text-gray-300">Discover and support amazing content of your choice</p>
         </div>
 
+        <ContinueWatchingRow source="media" />
+
+        <UpcomingReleasesRow destination="media" onReleased={fetchContent} />
+
         {/* Tabs */}
         <div className="flex space-x-1 mb-8 p-2 rounded-xl overflow-x-auto whitespace-nowrap bg-slate-800">
           {tabs.map((tab) => (
@@ -557,11 +587,13 @@ export default function Media() {
               <div key={item.id} className="bg-slate-800 rounded-lg overflow-hidden hover:bg-slate-700 transition-colors group">
                 {/* Thumbnail */}
                 <div className="relative aspect-video bg-gray-800">
-                  <img
+                  <ResponsiveImage
                     src={item.thumbnail_url}
+                    variants={item.thumbnail_variants}
+                    placeholder={item.thumbnail_placeholder}
+                    sizes="(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                     alt={item.title}
                     className="w-full h-full object-cover"
-                    loading="lazy"
                   />
 
                   {/* Overlay */}
@@ -580,9 +612,9 @@ export default function Media() {
                   )}
 
                   {/* Duration */}
-                  {item.duration && (
+                  {formatDuration(item.duration_seconds) && (
                     <div className="absolute bottom-2 right-2 px-2 py-1 bg-black/70 text-white text-xs rounded">
-                      {item.duration}
+                      {formatDuration(item.duration_seconds)}
                     </div>
                   )}
                 </div>
@@ -624,6 +656,24 @@ export default function Media() {
                     >
                       <Heart className="w-4 h-4" fill={userLikes.has(item.id) ? 'currentColor' : 'none'} />
                     </button>
+                    {!NON_PLAYABLE_TYPES.includes(item.type) && (
+                      <button
+                        onClick={() => enqueue(toPlayerItem(item, 'media'))}
+                        className="p-2 bg-slate-700 text-gray-400 hover:text-white rounded-lg transition-colors"
+                        title="Add to queue"
+                      >
+                        <ListPlus className="w-4 h-4" />
+                      </button>
+                    )}
+                    {AUDIO_CONTENT_TYPES.includes(item.type) && (
+                      <button
+                        onClick={() => handleCopyFeed(item)}
+                        className="p-2 bg-slate-700 text-gray-400 hover:text-white rounded-lg transition-colors"
+                        title={`Copy ${item.creator}'s podcast feed`}
+                      >
+                        {copiedFeedId === item.id ? <Check className="w-4 h-4 text-green-400" /> : <Rss className="w-4 h-4" />}
+                      </button>
+                    )}
                     <button className="p-2 bg-slate-700 text-gray-400 hover:text-white rounded-lg transition-colors">
                       <Share2 className="w-4 h-4" />
                     </button>
@@ -686,6 +736,7 @@ export default function Media() {
           onLikeToggle={handleToggleLike}
           onFollowToggle={handleToggleFollow}
           isFollowing={userFollows.has(playingContent.creator)}
+          source="media"
         />
       )}
 
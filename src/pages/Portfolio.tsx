@@ -1,16 +1,17 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Camera, Edit3, Eye, EyeOff, Plus, Star, Award, MapPin, Phone, Mail, Globe, Instagram, Twitter, Linkedin, Save, Upload, X, Mic, Clock, Play, BookOpen, Trash2 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-import { usePortfolioViewTracking } from '../hooks/usePortfolioViewTracking';
 import { useContentDeletion } from '../hooks/useContentDeletion';
 import { useMediaPageEdit } from '../hooks/useMediaPageEdit';
-import { supabase } from '../lib/supabase';
+import { HIDDEN_STATUSES, deleteContent, fetchContent } from '../lib/contentRepository';
+import { formatDuration } from '../lib/formatDuration';
 import EditContentModal from '../components/EditContentModal';
+import PortfolioVisitorStats from '../components/PortfolioVisitorStats';
+import ResponsiveImage from '../components/ResponsiveImage';
 import ContentCountdownTimer from '../components/ContentCountdownTimer';
 
 export default function Portfolio() {
   const { user } = useAuth();
-  const { trackView } = usePortfolioViewTracking();
   const { deleteFromDestination, saveContent, getDeletionInfo } = useContentDeletion();
   const { editContent } = useMediaPageEdit();
   const [isEditing, setIsEditing] = useState(false);
@@ -29,17 +30,7 @@ export default function Portfolio() {
   const fetchPortfolioContent = useCallback(async () => {
     try {
       setLoadingContent(true);
-      const { data, error } = await supabase
-        .from('portfolio_page_content')
-        .select('*')
-        .neq('status', 'archived')
-        .neq('status', 'permanently_deleted')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      if (data) {
-        setPortfolioContent(data);
-      }
+      setPortfolioContent(await fetchContent('portfolio', { excludeStatuses: HIDDEN_STATUSES }));
     } catch (err) {
       console.error('Error fetching portfolio content:', err);
     } finally {
@@ -98,17 +89,7 @@ export default function Portfolio() {
     setEditError(undefined);
 
     try {
-      const { error } = await supabase
-        .from('portfolio_page_content')
-        .delete()
-        .eq('id', contentId);
-
-      if (error) {
-        setEditError(error.message || 'Failed to delete content');
-        setIsDeleting(false);
-        return;
-      }
-
+      await deleteContent('portfolio', contentId);
       setPortfolioContent((prev) => prev.filter((item) => item.id !== contentId));
       handleEditClose();
     } catch (err) {
@@ -125,11 +106,7 @@ export default function Portfolio() {
     if (result.success) {
       // Update the content to show pending deletion status
       setPortfolioContent((prev) =>
-        prev.map((item) =>
-          item.id === contentId
-            ? { ...item, status: 'pending_deletion', is_deleted_pending: true }
-            : item
-        )
+        prev.map((item) => (item.id === contentId ? { ...item, ...result.state } : item))
       );
     } else {
       setEditError(result.error || 'Failed to delete content');
@@ -142,30 +119,12 @@ export default function Portfolio() {
     const result = await saveContent(contentId, 'portfolio');
     if (result.success) {
       setPortfolioContent((prev) =>
-        prev.map((item) =>
-          item.id === contentId
-            ? {
-                ...item,
-                saved: true,
-                status: 'draft',
-                deleted_at: null,
-                auto_delete_at: null,
-                is_deleted_pending: false,
-              }
-            : item
-        )
+        prev.map((item) => (item.id === contentId ? { ...item, ...result.state } : item))
       );
     }
     setSavingContentId(null);
   };
 
-  // Track portfolio view on mount
-  useEffect(() => {
-    if (user) {
-      trackView();
-    }
-  }, [user?.id]);
-
   // Fetch portfolio content
   useEffect(() => {
     fetchPortfolioContent();
@@ -536,6 +495,8 @@ export default function Portfolio() {
 
           {/* Right Column - Portfolio Content */}
           <div className="lg:col-span-2 space-y-6">
+            {user && <PortfolioVisitorStats ownerId={user.id} />}
+
             {/* Bio */}
             <div className="glass-effect p-6 rounded-2xl">
               <h3 className="text-xl font-semibold text-white mb-4">About Me</h3>
@@ -612,7 +573,14 @@ export default function Portfolio() {
                         )}
 
                         <div className="aspect-video bg-gray-800 rounded-xl overflow-hidden relative">
-                          <img src={item.thumbnail_url} alt={item.title} className="w-full h-full object-cover" />
+                          <ResponsiveImage
+                            src={item.thumbnail_url}
+                            variants={item.thumbnail_variants}
+                            placeholder={item.thumbnail_placeholder}
+                            sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                            alt={item.title}
+                            className="w-full h-full object-cover"
+                          />
                           <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-3">
                             <button
                               onClick={() => handleEditOpen(item)}
@@ -642,10 +610,10 @@ export default function Portfolio() {
                             <p className="text-yellow-400 text-xs mt-2">Pending deletion</p>
                           )}
                           <div className="flex items-center gap-4 text-xs text-gray-400 mt-2">
-                            {item.duration && (
+                            {formatDuration(item.duration_seconds) && (
                               <div className="flex items-center gap-1">
                                 <Clock className="w-3 h-3" />
-                                <span>{item.duration}</span>
+                                <span>{formatDuration(item.duration_seconds)}</span>
                               </div>
                             )}
                             <div className="flex items-center gap-1">
@@ -744,6 +712,8 @@ export default function Portfolio() {
             isSaving={isSaving}
             isDeleting={isDeleting}
             error={editError}
+            contentId={editingContent.id}
+            source="portfolio"
           />
         )}
       </div>
@@ -23,6 +23,7 @@ import {
 import { useAuth } from '../context/AuthContext';
 import ImprovedAddProviderForm from '../components/ImprovedAddProviderForm';
 import ImprovedAddJobForm from '../components/ImprovedAddJobForm';
+import ResponsiveImage from '../components/ResponsiveImage';
 import { useProjectsPageProviders } from '../hooks/useProjectsPageProviders';
 import { useProjectsPageJobs } from '../hooks/useProjectsPageJobs';
 
@@ -873,7 +874,18 @@ export default function Projects() {
                     {userProviders.map((provider) => (
                       <div key={provider.id} className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10">
                         <div className="flex items-center gap-4">
-                          <div className="w-12 h-12 rounded-full bg-gray-700 flex-shrink-0" />
+                          <div className="w-12 h-12 rounded-full bg-gray-700 flex-shrink-0 overflow-hidden">
+                            {provider.avatar_url && (
+                              <ResponsiveImage
+                                src={provider.avatar_url}
+                                variants={provider.avatar_variants}
+                                placeholder={provider.avatar_placeholder}
+                                sizes="48px"
+                                alt={provider.name}
+                                className="w-full h-full object-cover"
+                              />
+                            )}
+                          </div>
                           <div className="flex-1">
                             <h4 className="text-white font-semibold">{provider.name}</h4>
                             <p className="text-gray-400 text-sm">{provider.title_or_type}</p>
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Clock, Eye, Play, User } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { fetchContent } from '../lib/contentRepository';
+import { formatDuration } from '../lib/formatDuration';
+import type { ImageVariant } from '../lib/responsiveImages';
+import { usePortfolioViewTracking } from '../hooks/usePortfolioViewTracking';
+import ResponsiveImage from '../components/ResponsiveImage';
+
+interface PublicProfile {
+  id: string;
+  name: string;
+  avatar_url: string | null;
+  bio: string | null;
+}
+
+interface PortfolioItem {
+  id: string;
+  title: string;
+  description?: string | null;
+  thumbnail_url: string;
+  thumbnail_variants?: ImageVariant[];
+  thumbnail_placeholder?: string | null;
+  content_url: string;
+  duration_seconds?: number | null;
+  views_count: number;
+}
+
+/**
+ * A creator's published portfolio as visitors see it, at
+ * /portfolio/<owner id>. Opening the page and each item counts as a
+ * portfolio view for the owner's analytics.
+ */
+export default function PublicPortfolio() {
+  const { userId } = useParams<{ userId: string }>();
+  const { trackView, trackItemView } = usePortfolioViewTracking(userId);
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [items, setItems] = useState<PortfolioItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchPortfolio = async () => {
+      try {
+        const [profileResult, items] = await Promise.all([
+          supabase.rpc('get_public_profile', { p_user_id: userId }),
+          fetchContent('portfolio', { userId, status: 'published' }),
+        ]);
+
+        if (profileResult.error) throw profileResult.error;
+
+        setProfile(((profileResult.data as PublicProfile[]) || [])[0] ?? null);
+        setItems(items as PortfolioItem[]);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load portfolio');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPortfolio();
+    trackView();
+  }, [userId, trackView]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-20 flex items-center justify-center">
+        <p className="text-gray-400">Loading portfolio...</p>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="min-h-screen pt-20 flex items-center justify-center">
+        <p className="text-gray-400">{error || 'This portfolio does not exist.'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4 bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950">
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div className="glass-effect p-6 rounded-2xl flex items-center gap-6">
+          <div className="w-20 h-20 rounded-full bg-gray-800 overflow-hidden flex items-center justify-center flex-shrink-0">
+            {profile.avatar_url ? (
+              <img src={profile.avatar_url} alt={profile.name} className="w-full h-full object-cover" />
+            ) : (
+              <User className="w-10 h-10 text-gray-500" />
+            )}
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-3xl font-playfair font-bold text-white">{profile.name}</h1>
+            {profile.bio && <p className="text-gray-300 mt-2">{profile.bio}</p>}
+          </div>
+        </div>
+
+        <div className="glass-effect p-6 rounded-2xl">
+          <h2 className="text-xl font-semibold text-white mb-6">Portfolio</h2>
+
+          {items.length > 0 ? (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {items.map((item) => (
+                <a
+                  key={item.id}
+                  href={item.content_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={() => trackItemView(item.id)}
+                  className="group block"
+                >
+                  <div className="aspect-video bg-gray-800 rounded-xl overflow-hidden relative">
+                    <ResponsiveImage
+                      src={item.thumbnail_url}
+                      variants={item.thumbnail_variants}
+                      placeholder={item.thumbnail_placeholder}
+                      sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                      alt={item.title}
+                      className="w-full h-full object-cover"
+                    />
+                    <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                      <Play className="w-12 h-12 text-white" />
+                    </div>
+                  </div>
+                  <div className="mt-3">
+                    <h3 className="text-white font-medium">{item.title}</h3>
+                    {item.description && (
+                      <p className="text-gray-400 text-sm mt-1 line-clamp-2">{item.description}</p>
+                    )}
+                    <div className="flex items-center gap-4 text-xs text-gray-400 mt-2">
+                      {formatDuration(item.duration_seconds) && (
+                        <div className="flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          <span>{formatDuration(item.duration_seconds)}</span>
+                        </div>
+                      )}
+                      <div className="flex items-center gap-1">
+                        <Eye className="w-3 h-3" />
+                        <span>{item.views_count.toLocaleString()} views</span>
+                      </div>
+                    </div>
+                  </div>
+                </a>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <p className="text-gray-400">Nothing published yet.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
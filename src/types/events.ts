@@ -1,3 +1,5 @@
+import type { ImageVariant } from '../lib/responsiveImages';
+
 export interface Event {
   id: string;
   title: string;
@@ -21,6 +23,10 @@ export interface Event {
   status: 'upcoming' | 'happening' | 'past';
   is_livestream: boolean;
   livestream_url?: string;
+  // Mux playback IDs of the live broadcast and of its recording
+  live_playback_id?: string;
+  replay_playback_id?: string;
+  replay_duration_seconds?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -32,6 +38,8 @@ export interface EventMemory {
   user_name: string;
   user_avatar?: string;
   image_url: string;
+  image_variants?: ImageVariant[];
+  image_placeholder?: string | null;
   caption: string;
   likes_count: number;
   comments_count: number;
@@ -0,0 +1,33 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+
+export type AccountTier = 'free' | 'premium' | 'professional' | 'elite';
+
+export interface AuthenticatedUser {
+  id: string;
+  tier: AccountTier;
+}
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+/**
+ * Resolve the caller from the request's Supabase JWT. Returns null for
+ * anonymous requests or invalid tokens.
+ */
+export async function getAuthenticatedUser(req: Request): Promise<AuthenticatedUser | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('tier')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  return { id: user.id, tier: (profile?.tier as AccountTier | undefined) ?? 'free' };
+}
@@ -0,0 +1,56 @@
+import { cuesToVtt } from './captions.ts';
+
+/**
+ * Auto-caption provider abstraction for creators without a caption file.
+ *
+ * A provider turns a media URL into WebVTT; manage-captions stores and
+ * registers the result like an uploaded file. The provider is chosen with
+ * AUTO_CAPTION_PROVIDER:
+ *   - local  stub that returns a single placeholder cue, for dev and test
+ *            runs without a speech-to-text service (default)
+ *
+ * Add a speech-to-text service by implementing AutoCaptionProvider and
+ * adding a case to getAutoCaptionProvider.
+ */
+
+export interface AutoCaptionRequest {
+  // Short-lived URL the provider can fetch the media from
+  sourceUrl: string;
+  language: string;
+  durationSeconds: number | null;
+}
+
+export interface AutoCaptionProvider {
+  readonly name: string;
+  transcribe(request: AutoCaptionRequest): Promise<string>;
+}
+
+class LocalAutoCaptionProvider implements AutoCaptionProvider {
+  readonly name = 'local';
+
+  transcribe({ durationSeconds }: AutoCaptionRequest) {
+    return Promise.resolve(cuesToVtt([{
+      start: 0,
+      end: durationSeconds && durationSeconds > 0 ? durationSeconds : 5,
+      text: '[Automatic captions are not available in this environment]'
+    }]));
+  }
+}
+
+let cachedProvider: AutoCaptionProvider | null = null;
+
+export function getAutoCaptionProvider(): AutoCaptionProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const providerName = (Deno.env.get('AUTO_CAPTION_PROVIDER') ?? 'local').toLowerCase();
+
+  switch (providerName) {
+    case 'local':
+      cachedProvider = new LocalAutoCaptionProvider();
+      break;
+    default:
+      throw new Error(`Unknown AUTO_CAPTION_PROVIDER: ${providerName}`);
+  }
+
+  return cachedProvider;
+}
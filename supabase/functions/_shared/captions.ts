@@ -0,0 +1,147 @@
+import { HttpError } from './middleware.ts';
+
+/**
+ * Caption file validation and SRT -> WebVTT conversion.
+ *
+ * Uploaded files are parsed into cues and written back out as clean VTT,
+ * so players and Mux only ever see one well-formed format whatever the
+ * creator's tool produced.
+ */
+
+export const MAX_CAPTION_BYTES = 1024 * 1024;
+const MAX_CUES = 20000;
+
+// BCP 47 language with an optional region, e.g. en, pt-BR, yue
+export const CAPTION_LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  // VTT cue settings such as `align:start line:0`, kept as written
+  settings?: string;
+}
+
+export class CaptionValidationError extends HttpError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super(422, 'INVALID_CAPTIONS', message, details);
+    this.name = 'CaptionValidationError';
+  }
+}
+
+const TIMING_PATTERN =
+  /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(.*)$/;
+
+function parseTimestamp(value: string): number {
+  const [clock, fraction] = value.split(/[.,]/);
+  const parts = clock.split(':').map(Number);
+  const [hours, minutes, seconds] = parts.length === 3 ? parts : [0, ...parts];
+  return hours * 3600 + minutes * 60 + seconds + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+function formatTimestamp(totalSeconds: number): string {
+  const ms = Math.round(totalSeconds * 1000);
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = ms % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(millis).padStart(3, '0')}`;
+}
+
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join('\n')
+    // SSA override tags some SRT exporters leave in, e.g. {\an8}
+    .replace(/\{\\[^}]*\}/g, '')
+    .trim();
+}
+
+/**
+ * Parse a WebVTT or SRT file into cues. Throws CaptionValidationError with
+ * the offending line for anything that isn't a readable caption file.
+ */
+export function parseCaptions(raw: string): CaptionCue[] {
+  const text = raw.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const isVtt = /^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(text);
+
+  if (!isVtt && !TIMING_PATTERN.test(text.split('\n').find((line) => line.includes('-->')) ?? '')) {
+    throw new CaptionValidationError('Caption files must be WebVTT or SRT');
+  }
+
+  const lines = text.split('\n');
+  const cues: CaptionCue[] = [];
+  let index = 0;
+
+  if (isVtt) {
+    // Skip the header block
+    while (index < lines.length && lines[index].trim() !== '') index++;
+  }
+
+  while (index < lines.length) {
+    while (index < lines.length && lines[index].trim() === '') index++;
+    if (index >= lines.length) break;
+
+    const blockStart = index;
+    const block: string[] = [];
+    while (index < lines.length && lines[index].trim() !== '') {
+      block.push(lines[index]);
+      index++;
+    }
+
+    if (isVtt && /^(NOTE|STYLE|REGION)(\s|$)/.test(block[0])) continue;
+
+    // Optional cue identifier (SRT sequence number or VTT cue ID)
+    const timingOffset = block[0].includes('-->') ? 0 : 1;
+    const match = block[timingOffset]?.trim().match(TIMING_PATTERN);
+    if (!match) {
+      throw new CaptionValidationError(`Invalid cue timing on line ${blockStart + timingOffset + 1}`, {
+        line: blockStart + timingOffset + 1
+      });
+    }
+
+    const start = parseTimestamp(match[1]);
+    const end = parseTimestamp(match[2]);
+    if (end <= start) {
+      throw new CaptionValidationError(`Cue on line ${blockStart + timingOffset + 1} ends before it starts`, {
+        line: blockStart + timingOffset + 1
+      });
+    }
+
+    const cueText = cleanCueText(block.slice(timingOffset + 1));
+    if (!cueText) continue;
+
+    const settings = isVtt ? match[3].trim() : '';
+    cues.push({ start, end, text: cueText, ...(settings ? { settings } : {}) });
+
+    if (cues.length > MAX_CUES) {
+      throw new CaptionValidationError(`Caption files may contain at most ${MAX_CUES} cues`);
+    }
+  }
+
+  if (cues.length === 0) {
+    throw new CaptionValidationError('The caption file has no cues');
+  }
+
+  return cues;
+}
+
+export function cuesToVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map((cue) => {
+      const timing = `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}`;
+      return `${cue.settings ? `${timing} ${cue.settings}` : timing}\n${cue.text}`;
+    })
+    .join('\n\n');
+
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * Validate an uploaded caption file and return it as WebVTT
+ */
+export function convertToVtt(raw: string): string {
+  if (new TextEncoder().encode(raw).length > MAX_CAPTION_BYTES) {
+    throw new CaptionValidationError('Caption files must be 1MB or smaller', { maxBytes: MAX_CAPTION_BYTES });
+  }
+  return cuesToVtt(parseCaptions(raw));
+}
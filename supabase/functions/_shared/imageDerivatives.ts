@@ -0,0 +1,155 @@
+import {
+  ImageMagick,
+  initializeImageMagick,
+  MagickFormat,
+  type IMagickImage
+} from 'npm:@imagemagick/magick-wasm@0.0.30';
+import type { StorageProvider } from './storage.ts';
+
+/**
+ * Responsive image derivatives for thumbnails, avatars and event photos.
+ *
+ * The stored original is rewritten upright and without metadata (EXIF, GPS,
+ * ICC comments), then AVIF and WebP copies are written next to it at fixed
+ * widths, never wider than the original:
+ *   thumbnails/<user>/cover.jpg -> thumbnails/<user>/cover-640w.avif
+ * A 16px wide WebP is returned as a data: URI to blur in while the real
+ * image loads.
+ */
+
+export type VariantFormat = 'webp' | 'avif';
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  key: string;
+  format: VariantFormat;
+}
+
+export interface ImageDerivatives {
+  variants: ImageVariant[];
+  placeholder: string;
+}
+
+export const VARIANT_WIDTHS = [320, 640, 960, 1280];
+// Originals above this are left alone instead of decoded in the function
+export const MAX_SOURCE_BYTES = 20 * 1024 * 1024;
+
+const PLACEHOLDER_WIDTH = 16;
+const VARIANT_QUALITY: Record<VariantFormat, number> = { avif: 55, webp: 75 };
+const VARIANT_FORMATS: VariantFormat[] = ['avif', 'webp'];
+
+// Formats rewritten in place after stripping; anything else (GIF, HEIC...)
+// keeps its original and only gets derivatives
+const REWRITABLE_FORMATS: Partial<Record<MagickFormat, string>> = {
+  [MagickFormat.Jpeg]: 'image/jpeg',
+  [MagickFormat.Jpg]: 'image/jpeg',
+  [MagickFormat.Png]: 'image/png',
+  [MagickFormat.WebP]: 'image/webp'
+};
+
+let magickReady: Promise<void> | null = null;
+
+function ensureMagick() {
+  if (!magickReady) {
+    const wasmUrl = new URL('magick.wasm', import.meta.resolve('npm:@imagemagick/magick-wasm@0.0.30'));
+    magickReady = Deno.readFile(wasmUrl).then((wasm) => initializeImageMagick(wasm));
+    magickReady.catch(() => {
+      magickReady = null;
+    });
+  }
+  return magickReady;
+}
+
+function encode(image: IMagickImage, format: MagickFormat, quality?: number): Uint8Array {
+  if (quality) image.quality = quality;
+  // The buffer handed to the callback is freed afterwards, so copy it
+  return image.write(format, (data) => data.slice());
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function variantWidths(sourceWidth: number) {
+  const largest = Math.min(sourceWidth, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]);
+  return [...VARIANT_WIDTHS.filter((width) => width < largest), largest];
+}
+
+export function variantKey(sourceKey: string, width: number, format: VariantFormat) {
+  const base = sourceKey.replace(/\.[^./]+$/, '');
+  return `${base}-${width}w.${format}`;
+}
+
+/**
+ * Strip and re-orient the original at `key`, then write its variants.
+ * Returns null when the object does not exist.
+ */
+export async function processStoredImage(storage: StorageProvider, key: string): Promise<ImageDerivatives | null> {
+  const head = await storage.head(key);
+  if (!head) return null;
+  if (head.size > MAX_SOURCE_BYTES) {
+    throw new Error(`Image too large to process (${head.size} bytes): ${key}`);
+  }
+
+  await ensureMagick();
+  const source = await storage.readRange(key, 0, head.size);
+
+  const uploads: Array<{ key: string; body: Uint8Array; contentType: string }> = [];
+  const variants: ImageVariant[] = [];
+
+  const placeholder = ImageMagick.read(source, (image) => {
+    image.autoOrient();
+    image.strip();
+
+    const originalType = REWRITABLE_FORMATS[image.format];
+    if (originalType) {
+      uploads.push({ key, body: encode(image, image.format), contentType: originalType });
+    }
+
+    for (const width of variantWidths(image.width)) {
+      image.clone((copy) => {
+        if (width < copy.width) copy.resize(width, 0);
+        for (const format of VARIANT_FORMATS) {
+          const variantKeyName = variantKey(key, width, format);
+          uploads.push({
+            key: variantKeyName,
+            body: encode(copy, format === 'avif' ? MagickFormat.Avif : MagickFormat.WebP, VARIANT_QUALITY[format]),
+            contentType: `image/${format}`
+          });
+          variants.push({ width: copy.width, height: copy.height, key: variantKeyName, format });
+        }
+      });
+    }
+
+    return image.clone((tiny) => {
+      tiny.resize(PLACEHOLDER_WIDTH, 0);
+      return `data:image/webp;base64,${toBase64(encode(tiny, MagickFormat.WebP, 40))}`;
+    });
+  });
+
+  for (const upload of uploads) {
+    await storage.put(upload.key, upload.body, upload.contentType);
+  }
+
+  return { variants, placeholder };
+}
+
+/**
+ * Storage key of an image column that may hold a public URL: either one
+ * served by the configured provider or a Backblaze B2 file URL (the shape
+ * storage_key_from_url() parses in SQL). Returns null for external images.
+ */
+export function storageKeyFromUrl(storage: StorageProvider, url: string | null | undefined): string | null {
+  if (!url) return null;
+
+  const base = storage.publicUrl('');
+  if (base && url.startsWith(base)) {
+    return decodeURIComponent(url.slice(base.length).split('?')[0]) || null;
+  }
+
+  const b2 = url.match(/^https?:\/\/[^/]*backblazeb2\.com\/file\/[^/]+\/([^?]+)/);
+  return b2 ? decodeURIComponent(b2[1]) : null;
+}
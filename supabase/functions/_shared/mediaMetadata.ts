@@ -0,0 +1,407 @@
+import type { StorageProvider } from './storage.ts';
+import { muxRequest } from './mux.ts';
+
+/**
+ * Media metadata (duration, dimensions, bitrate, codec) read once on the
+ * server and stored on upload and content rows, so the browser never has
+ * to download a file to learn how long it is.
+ *
+ * Mux-encoded videos take it from the asset; anything else is probed from
+ * the stored object's headers with a few ranged reads. Only the container
+ * headers are parsed: MP4/MOV, MP3, WAV and FLAC. Other formats still get
+ * a size but no duration.
+ */
+
+export interface MediaMetadata {
+  duration_seconds: number | null;
+  width: number | null;
+  height: number | null;
+  // Average bits per second over the whole file
+  bitrate: number | null;
+  codec: string | null;
+}
+
+const EMPTY_METADATA: MediaMetadata = {
+  duration_seconds: null,
+  width: null,
+  height: null,
+  bitrate: null,
+  codec: null
+};
+
+const PROBE_BYTES = 64 * 1024;
+// A moov box this large means a very long file with huge sample tables;
+// the fields we need sit at its start, so a partial read is fine
+const MAX_MOOV_BYTES = 4 * 1024 * 1024;
+const MAX_TOP_LEVEL_BOXES = 64;
+
+// Box types a MOV/MP4 file may open with (QuickTime files don't always
+// start with ftyp)
+const MP4_LEADING_BOXES = ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip'];
+
+const FOURCC_CODECS: Record<string, string> = {
+  avc1: 'h264',
+  avc3: 'h264',
+  hvc1: 'hevc',
+  hev1: 'hevc',
+  av01: 'av1',
+  vp08: 'vp8',
+  vp09: 'vp9',
+  mp4v: 'mpeg4',
+  apcn: 'prores',
+  apch: 'prores',
+  mp4a: 'aac',
+  'ac-3': 'ac3',
+  'ec-3': 'eac3',
+  Opus: 'opus',
+  fLaC: 'flac',
+  '.mp3': 'mp3'
+};
+
+export function bitrateFromSize(sizeBytes: number | null | undefined, durationSeconds: number | null) {
+  if (!sizeBytes || !durationSeconds || durationSeconds <= 0) return null;
+  return Math.round((sizeBytes * 8) / durationSeconds);
+}
+
+function roundDuration(seconds: number) {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+// ---------------------------------------------------------------------------
+// MP4 / MOV
+// ---------------------------------------------------------------------------
+
+interface Box {
+  type: string;
+  // Offsets of the payload within the buffer being walked
+  start: number;
+  end: number;
+}
+
+function readBoxes(bytes: Uint8Array, start = 0, end = bytes.length): Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    let header = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < header) break;
+    boxes.push({ type, start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function findBox(bytes: Uint8Array, parent: Box, ...path: string[]): Box | null {
+  let current: Box | null = parent;
+  for (const type of path) {
+    current = readBoxes(bytes, current.start, current.end).find((box) => box.type === type) ?? null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+function parseMoov(bytes: Uint8Array, moov: Box): MediaMetadata {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const metadata: MediaMetadata = { ...EMPTY_METADATA };
+
+  const mvhd = findBox(bytes, moov, 'mvhd');
+  if (mvhd) {
+    const version = bytes[mvhd.start];
+    const timescale = view.getUint32(mvhd.start + (version === 1 ? 20 : 12));
+    const duration = version === 1
+      ? Number(view.getBigUint64(mvhd.start + 24))
+      : view.getUint32(mvhd.start + 16);
+    if (timescale > 0 && duration > 0) {
+      metadata.duration_seconds = roundDuration(duration / timescale);
+    }
+  }
+
+  let audioCodec: string | null = null;
+  for (const trak of readBoxes(bytes, moov.start, moov.end).filter((box) => box.type === 'trak')) {
+    const hdlr = findBox(bytes, trak, 'mdia', 'hdlr');
+    const handler = hdlr ? ascii(bytes, hdlr.start + 8, 4) : '';
+    const stsd = findBox(bytes, trak, 'mdia', 'minf', 'stbl', 'stsd');
+    const fourcc = stsd && stsd.start + 16 <= stsd.end ? ascii(bytes, stsd.start + 12, 4) : null;
+    const codec = fourcc ? FOURCC_CODECS[fourcc] ?? fourcc.trim() : null;
+
+    if (handler === 'vide' && metadata.width === null) {
+      const tkhd = findBox(bytes, trak, 'tkhd');
+      if (tkhd) {
+        // Width and height are 16.16 fixed point at the end of tkhd
+        const offset = tkhd.start + (bytes[tkhd.start] === 1 ? 88 : 76);
+        if (offset + 8 <= tkhd.end) {
+          metadata.width = view.getUint32(offset) >>> 16 || null;
+          metadata.height = view.getUint32(offset + 4) >>> 16 || null;
+        }
+      }
+      metadata.codec = codec;
+    } else if (handler === 'soun' && !audioCodec) {
+      audioCodec = codec;
+    }
+  }
+
+  metadata.codec = metadata.codec ?? audioCodec;
+  return metadata;
+}
+
+async function probeMp4(storage: StorageProvider, key: string, size: number, prefix: Uint8Array) {
+  // moov is usually up front for web-optimised files and after mdat
+  // otherwise, so walk the top-level box headers until we reach it
+  let offset = 0;
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES && offset + 8 <= size; i++) {
+    const header = offset + 16 <= prefix.length
+      ? prefix.subarray(offset, offset + 16)
+      : await storage.readRange(key, offset, 16);
+    if (header.length < 8) break;
+
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    let boxSize = view.getUint32(0);
+    const type = ascii(header, 4, 4);
+    if (boxSize === 1 && header.length >= 16) boxSize = Number(view.getBigUint64(8));
+    if (boxSize === 0) boxSize = size - offset;
+    if (boxSize < 8) break;
+
+    if (type === 'moov') {
+      const length = Math.min(boxSize, MAX_MOOV_BYTES);
+      const moovBytes = offset + length <= prefix.length
+        ? prefix.subarray(offset, offset + length)
+        : await storage.readRange(key, offset, length);
+      const [moov] = readBoxes(moovBytes);
+      return moov ? parseMoov(moovBytes, moov) : null;
+    }
+
+    offset += boxSize;
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// MP3
+// ---------------------------------------------------------------------------
+
+// kbps by bitrate index, Layer III only
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000]
+};
+
+function id3TagLength(bytes: Uint8Array) {
+  if (ascii(bytes, 0, 3) !== 'ID3' || bytes.length < 10) return 0;
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+function parseMp3Frames(bytes: Uint8Array, audioBytes: number): MediaMetadata | null {
+  for (let i = 0; i + 4 <= bytes.length; i++) {
+    if (bytes[i] !== 0xff || (bytes[i + 1] & 0xe0) !== 0xe0) continue;
+
+    const versionBits = (bytes[i + 1] >> 3) & 0x03;
+    const layerBits = (bytes[i + 1] >> 1) & 0x03;
+    const bitrateIndex = bytes[i + 2] >> 4;
+    const sampleRateIndex = (bytes[i + 2] >> 2) & 0x03;
+    const channelMode = bytes[i + 3] >> 6;
+
+    // Layer III, valid version, bitrate and sample rate
+    if (layerBits !== 1 || versionBits === 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+      continue;
+    }
+
+    const isMpeg1 = versionBits === 3;
+    const kbps = (isMpeg1 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[bitrateIndex];
+    const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex];
+    const samplesPerFrame = isMpeg1 ? 1152 : 576;
+
+    // A Xing/Info header after the side information gives the real frame
+    // count for VBR files
+    const sideInfo = isMpeg1 ? (channelMode === 3 ? 17 : 32) : (channelMode === 3 ? 9 : 17);
+    const xing = i + 4 + sideInfo;
+    const tag = ascii(bytes, xing, 4);
+    if ((tag === 'Xing' || tag === 'Info') && xing + 12 <= bytes.length && (bytes[xing + 7] & 0x01)) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const frames = view.getUint32(xing + 8);
+      const duration = (frames * samplesPerFrame) / sampleRate;
+      return {
+        ...EMPTY_METADATA,
+        duration_seconds: roundDuration(duration),
+        bitrate: bitrateFromSize(audioBytes, duration),
+        codec: 'mp3'
+      };
+    }
+
+    return {
+      ...EMPTY_METADATA,
+      duration_seconds: roundDuration((audioBytes * 8) / (kbps * 1000)),
+      bitrate: kbps * 1000,
+      codec: 'mp3'
+    };
+  }
+
+  return null;
+}
+
+async function probeMp3(storage: StorageProvider, key: string, size: number, prefix: Uint8Array) {
+  const tagLength = id3TagLength(prefix);
+  const frames = tagLength + 4096 <= prefix.length
+    ? prefix.subarray(tagLength)
+    : await storage.readRange(key, tagLength, 4096);
+  return parseMp3Frames(frames, size - tagLength);
+}
+
+// ---------------------------------------------------------------------------
+// WAV and FLAC
+// ---------------------------------------------------------------------------
+
+function parseWav(bytes: Uint8Array): MediaMetadata | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let byteRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+
+    if (id === 'fmt ' && offset + 20 <= bytes.length) {
+      byteRate = view.getUint32(offset + 16, true);
+    } else if (id === 'data') {
+      if (!byteRate) return null;
+      return {
+        ...EMPTY_METADATA,
+        duration_seconds: roundDuration(chunkSize / byteRate),
+        bitrate: byteRate * 8,
+        codec: 'pcm'
+      };
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+function parseFlac(bytes: Uint8Array): MediaMetadata | null {
+  // STREAMINFO is always the first metadata block
+  if (bytes.length < 26 || (bytes[4] & 0x7f) !== 0) return null;
+
+  const info = 8;
+  const sampleRate = (bytes[info + 10] << 12) | (bytes[info + 11] << 4) | (bytes[info + 12] >> 4);
+  const totalSamples = (bytes[info + 13] & 0x0f) * 2 ** 32
+    + ((bytes[info + 14] << 24) >>> 0)
+    + (bytes[info + 15] << 16)
+    + (bytes[info + 16] << 8)
+    + bytes[info + 17];
+
+  if (!sampleRate || !totalSamples) return null;
+  return { ...EMPTY_METADATA, duration_seconds: roundDuration(totalSamples / sampleRate), codec: 'flac' };
+}
+
+/**
+ * Read metadata from a stored audio or video file. Returns null when the
+ * object doesn't exist.
+ */
+export async function probeStoredMedia(storage: StorageProvider, key: string): Promise<MediaMetadata | null> {
+  const head = await storage.head(key);
+  if (!head) return null;
+  if (head.size === 0) return { ...EMPTY_METADATA };
+
+  const prefix = await storage.readPrefix(key, Math.min(PROBE_BYTES, head.size));
+  let metadata: MediaMetadata | null = null;
+
+  if (MP4_LEADING_BOXES.includes(ascii(prefix, 4, 4))) {
+    metadata = await probeMp4(storage, key, head.size, prefix);
+  } else if (ascii(prefix, 0, 4) === 'RIFF' && ascii(prefix, 8, 4) === 'WAVE') {
+    metadata = parseWav(prefix);
+  } else if (ascii(prefix, 0, 4) === 'fLaC') {
+    metadata = parseFlac(prefix);
+  } else if (ascii(prefix, 0, 3) === 'ID3' || (prefix[0] === 0xff && (prefix[1] & 0xe0) === 0xe0)) {
+    metadata = await probeMp3(storage, key, head.size, prefix);
+  }
+
+  metadata = metadata ?? { ...EMPTY_METADATA };
+  return {
+    ...metadata,
+    bitrate: metadata.bitrate ?? bitrateFromSize(head.size, metadata.duration_seconds)
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mux
+// ---------------------------------------------------------------------------
+
+export interface MuxAssetTrack {
+  type: string;
+  max_width?: number;
+  max_height?: number;
+}
+
+interface MuxInputTrack {
+  type: string;
+  encoding?: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Codec of the file Mux ingested. The asset itself only describes the
+ * encoded renditions, so this comes from the asset's input info.
+ */
+async function fetchMuxInputCodec(assetId: string): Promise<string | null> {
+  const response = await muxRequest(`/video/v1/assets/${encodeURIComponent(assetId)}/input-info`);
+  if (!response.ok) return null;
+
+  const { data } = await response.json();
+  const tracks: MuxInputTrack[] = data?.[0]?.file?.tracks ?? [];
+  const track = tracks.find((t) => t.type === 'video') ?? tracks.find((t) => t.type === 'audio');
+  return track?.encoding ?? null;
+}
+
+/**
+ * Metadata for a ready Mux asset. `sourceSize` is the uploaded file's size
+ * in bytes, used for the bitrate.
+ */
+export async function muxAssetMetadata(
+  asset: { id: string; duration?: number; tracks?: MuxAssetTrack[] },
+  sourceSize?: number | null
+): Promise<MediaMetadata> {
+  const duration = typeof asset.duration === 'number' ? roundDuration(asset.duration) : null;
+  const videoTrack = asset.tracks?.find((track) => track.type === 'video');
+
+  let codec: string | null = null;
+  try {
+    codec = await fetchMuxInputCodec(asset.id);
+  } catch (error) {
+    console.error(`Failed to read input info for Mux asset ${asset.id}:`, error);
+  }
+
+  return {
+    duration_seconds: duration,
+    width: videoTrack?.max_width ?? null,
+    height: videoTrack?.max_height ?? null,
+    bitrate: bitrateFromSize(sourceSize, duration),
+    codec
+  };
+}
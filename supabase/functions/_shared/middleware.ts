@@ -0,0 +1,157 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getAuthenticatedUser, type AuthenticatedUser } from './auth.ts';
+
+/**
+ * Shared request handling for user-facing edge functions.
+ *
+ * `authenticatedHandler` answers CORS preflights, rejects other methods,
+ * verifies the Supabase JWT, applies the per-user rate limit and turns any
+ * thrown error into the standard `{ error, code, details }` envelope.
+ * Handlers get the caller from the token and must never read a user ID
+ * from the request body.
+ */
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'retry-after, x-ratelimit-limit, x-ratelimit-remaining'
+};
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  toBody() {
+    return { error: this.message, code: this.code, details: this.details };
+  }
+}
+
+export interface RateLimit {
+  // Counter name; functions that share a bucket share the allowance
+  bucket: string;
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface HandlerOptions {
+  methods?: string[];
+  rateLimit?: RateLimit;
+}
+
+export interface RequestContext {
+  user: AuthenticatedUser;
+}
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" }
+  });
+}
+
+export function errorResponse(error: unknown, fallbackMessage = 'Request failed') {
+  if (error instanceof HttpError) {
+    const headers: Record<string, string> = {};
+    if (typeof error.details.retryAfter === 'number') {
+      headers['Retry-After'] = String(error.details.retryAfter);
+    }
+    return jsonResponse(error.toBody(), error.status, headers);
+  }
+
+  return jsonResponse({
+    error: error instanceof Error ? error.message : fallbackMessage,
+    code: 'INTERNAL_ERROR',
+    details: {}
+  }, 500);
+}
+
+/**
+ * Count this request against the caller's allowance. Fails open if the
+ * counter itself is unavailable so an outage there doesn't block uploads.
+ */
+async function consumeRateLimit(userId: string, rateLimit: RateLimit) {
+  const { data, error } = await supabaseAdmin.rpc('check_rate_limit', {
+    p_user_id: userId,
+    p_bucket: rateLimit.bucket,
+    p_limit: rateLimit.limit,
+    p_window_seconds: rateLimit.windowSeconds
+  });
+
+  if (error) {
+    console.error(`Rate limit check failed for ${rateLimit.bucket}:`, error);
+    return null;
+  }
+
+  const result = (Array.isArray(data) ? data[0] : data) as
+    { allowed: boolean; remaining: number; reset_at: string } | null;
+  if (!result) return null;
+
+  if (!result.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((new Date(result.reset_at).getTime() - Date.now()) / 1000));
+    throw new HttpError(429, 'RATE_LIMITED', 'Too many requests. Please wait and try again.', {
+      limit: rateLimit.limit,
+      retryAfter
+    });
+  }
+
+  return {
+    'X-RateLimit-Limit': String(rateLimit.limit),
+    'X-RateLimit-Remaining': String(result.remaining)
+  };
+}
+
+export function authenticatedHandler(
+  handler: (req: Request, context: RequestContext) => Promise<Response>,
+  options: HandlerOptions = {}
+) {
+  const methods = options.methods ?? ['POST'];
+
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+      if (!methods.includes(req.method)) {
+        throw new HttpError(405, 'METHOD_NOT_ALLOWED', 'Method Not Allowed');
+      }
+
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        throw new HttpError(401, 'UNAUTHENTICATED', 'Sign in to continue');
+      }
+
+      const rateLimitHeaders = options.rateLimit
+        ? await consumeRateLimit(user.id, options.rateLimit)
+        : null;
+
+      const response = await handler(req, { user });
+
+      if (rateLimitHeaders) {
+        for (const [name, value] of Object.entries(rateLimitHeaders)) {
+          response.headers.set(name, value);
+        }
+      }
+
+      return response;
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        console.error(`Unhandled error in ${new URL(req.url).pathname}:`, error);
+      }
+      return errorResponse(error);
+    }
+  };
+}
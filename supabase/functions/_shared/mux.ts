@@ -0,0 +1,329 @@
+const MUX_TOKEN_ID = Deno.env.get("MUX_TOKEN_ID");
+const MUX_TOKEN_SECRET = Deno.env.get("MUX_TOKEN_SECRET");
+
+const MUX_API_BASE = "https://api.mux.com";
+
+/**
+ * Call the Mux REST API with the project's access token
+ */
+export function muxRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${MUX_API_BASE}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: "Basic " + btoa(`${MUX_TOKEN_ID}:${MUX_TOKEN_SECRET}`),
+      ...(init.headers ?? {})
+    }
+  });
+}
+
+/**
+ * Delete a Mux asset. An asset that is already gone counts as deleted.
+ */
+export async function deleteMuxAsset(assetId: string): Promise<void> {
+  const response = await muxRequest(`/video/v1/assets/${encodeURIComponent(assetId)}`, {
+    method: "DELETE"
+  });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Mux asset ${assetId} delete failed with status ${response.status}`);
+  }
+}
+
+export type MuxPlaybackPolicy = "public" | "signed";
+
+export interface MuxPlaybackId {
+  id: string;
+  policy: MuxPlaybackPolicy;
+}
+
+export async function getMuxAssetPlaybackIds(assetId: string): Promise<MuxPlaybackId[]> {
+  const response = await muxRequest(`/video/v1/assets/${encodeURIComponent(assetId)}`);
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.data) {
+    throw new Error(`Mux asset ${assetId} lookup failed with status ${response.status}`);
+  }
+
+  return result.data.playback_ids ?? [];
+}
+
+export async function createMuxPlaybackId(assetId: string, policy: MuxPlaybackPolicy): Promise<string> {
+  const response = await muxRequest(`/video/v1/assets/${encodeURIComponent(assetId)}/playback-ids`, {
+    method: "POST",
+    body: JSON.stringify({ policy })
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.data?.id) {
+    throw new Error(result.error?.messages?.join('; ') ?? `Mux playback ID create failed with status ${response.status}`);
+  }
+
+  return result.data.id;
+}
+
+/**
+ * Remove a playback ID. One that is already gone counts as deleted.
+ */
+export async function deleteMuxPlaybackId(assetId: string, playbackId: string): Promise<void> {
+  const response = await muxRequest(
+    `/video/v1/assets/${encodeURIComponent(assetId)}/playback-ids/${encodeURIComponent(playbackId)}`,
+    { method: "DELETE" }
+  );
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Mux playback ID ${playbackId} delete failed with status ${response.status}`);
+  }
+}
+
+// Playback, thumbnail and storyboard tokens are separate audiences
+export type MuxTokenAudience = "v" | "t" | "s";
+
+let cachedSigningKey: CryptoKey | null = null;
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining >>= 8) bytes.unshift(remaining & 0xff);
+  return [0x80 | bytes.length, ...bytes];
+}
+
+/**
+ * Wrap a PKCS#1 RSA key, the format Mux hands out, in the PKCS#8 envelope
+ * WebCrypto imports
+ */
+function pkcs1ToPkcs8(pkcs1: Uint8Array): Uint8Array {
+  const version = [0x02, 0x01, 0x00];
+  const rsaEncryption = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+  const privateKey = [0x04, ...derLength(pkcs1.length)];
+  const bodyLength = version.length + rsaEncryption.length + privateKey.length + pkcs1.length;
+
+  return new Uint8Array([0x30, ...derLength(bodyLength), ...version, ...rsaEncryption, ...privateKey, ...pkcs1]);
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  if (cachedSigningKey) return cachedSigningKey;
+
+  const configured = Deno.env.get("MUX_SIGNING_PRIVATE_KEY");
+  if (!configured) throw new Error("MUX_SIGNING_PRIVATE_KEY is not configured");
+
+  // The dashboard shows the PEM base64-encoded; accept either form
+  const pem = configured.includes("-----BEGIN") ? configured : atob(configured);
+  const der = Uint8Array.from(
+    atob(pem.replace(/-----[A-Z ]+-----/g, "").replace(/\s+/g, "")),
+    (char) => char.charCodeAt(0)
+  );
+
+  cachedSigningKey = await crypto.subtle.importKey(
+    "pkcs8",
+    pem.includes("BEGIN RSA PRIVATE KEY") ? pkcs1ToPkcs8(der) : der,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return cachedSigningKey;
+}
+
+/**
+ * Sign a JWT for a `signed` playback ID with the project's Mux signing key
+ * (MUX_SIGNING_KEY_ID / MUX_SIGNING_PRIVATE_KEY)
+ */
+export async function signMuxPlaybackToken(
+  playbackId: string,
+  audience: MuxTokenAudience,
+  expiresInSeconds: number
+): Promise<string> {
+  const keyId = Deno.env.get("MUX_SIGNING_KEY_ID");
+  if (!keyId) throw new Error("MUX_SIGNING_KEY_ID is not configured");
+
+  const encode = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+  const header = encode({ alg: "RS256", typ: "JWT", kid: keyId });
+  const payload = encode({
+    sub: playbackId,
+    aud: audience,
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+    kid: keyId
+  });
+
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    await getSigningKey(),
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+export interface MuxTextTrack {
+  // Where Mux fetches the WebVTT file from; must stay valid until the
+  // track is ready
+  url: string;
+  languageCode: string;
+  name: string;
+  passthrough?: string;
+}
+
+/**
+ * Add a subtitles track to an asset. Returns the track ID; the track is
+ * usable once Mux sends video.asset.track.ready.
+ */
+export async function createMuxTextTrack(assetId: string, track: MuxTextTrack): Promise<string> {
+  const response = await muxRequest(`/video/v1/assets/${encodeURIComponent(assetId)}/tracks`, {
+    method: "POST",
+    body: JSON.stringify({
+      url: track.url,
+      type: "text",
+      text_type: "subtitles",
+      language_code: track.languageCode,
+      name: track.name,
+      closed_captions: false,
+      passthrough: track.passthrough
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.data?.id) {
+    throw new Error(result.error?.messages?.join('; ') ?? `Mux track create failed with status ${response.status}`);
+  }
+
+  return result.data.id;
+}
+
+/**
+ * Remove a track from an asset. A track that is already gone counts as
+ * deleted.
+ */
+export async function deleteMuxTrack(assetId: string, trackId: string): Promise<void> {
+  const response = await muxRequest(
+    `/video/v1/assets/${encodeURIComponent(assetId)}/tracks/${encodeURIComponent(trackId)}`,
+    { method: "DELETE" }
+  );
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Mux track ${trackId} delete failed with status ${response.status}`);
+  }
+}
+
+// Encoders (OBS and friends) push to this ingest URL with the stream key
+export const MUX_RTMP_URL = "rtmps://global-live.mux.com:443/app";
+
+export interface MuxLiveStream {
+  id: string;
+  streamKey: string;
+  playbackId: string;
+}
+
+/**
+ * Create a public live stream whose broadcasts Mux records as public
+ * assets. `passthrough` comes back on the live stream and recording events.
+ */
+export async function createMuxLiveStream(passthrough: string): Promise<MuxLiveStream> {
+  const response = await muxRequest("/video/v1/live-streams", {
+    method: "POST",
+    body: JSON.stringify({
+      playback_policy: ["public"],
+      new_asset_settings: { playback_policy: ["public"], passthrough },
+      passthrough,
+      // Keep the broadcast going through short encoder drop-outs
+      reconnect_window: 60,
+      latency_mode: "standard"
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+  const playbackId = result.data?.playback_ids?.[0]?.id;
+  if (!response.ok || !result.data?.id || !playbackId) {
+    throw new Error(result.error?.messages?.join('; ') ?? `Mux live stream create failed with status ${response.status}`);
+  }
+
+  return { id: result.data.id, streamKey: result.data.stream_key, playbackId };
+}
+
+/**
+ * Issue a new stream key, cutting off anyone using the old one
+ */
+export async function resetMuxStreamKey(liveStreamId: string): Promise<string> {
+  const response = await muxRequest(
+    `/video/v1/live-streams/${encodeURIComponent(liveStreamId)}/reset-stream-key`,
+    { method: "POST" }
+  );
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.data?.stream_key) {
+    throw new Error(result.error?.messages?.join('; ') ?? `Mux stream key reset failed with status ${response.status}`);
+  }
+
+  return result.data.stream_key;
+}
+
+/**
+ * Delete a live stream. Its recordings stay as regular assets. A stream
+ * that is already gone counts as deleted.
+ */
+export async function deleteMuxLiveStream(liveStreamId: string): Promise<void> {
+  const response = await muxRequest(`/video/v1/live-streams/${encodeURIComponent(liveStreamId)}`, {
+    method: "DELETE"
+  });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Mux live stream ${liveStreamId} delete failed with status ${response.status}`);
+  }
+}
+
+// Mux signs `<timestamp>.<raw body>`; reject deliveries older than this to
+// stop replays of captured requests
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Verify a `mux-signature: t=<unix seconds>,v1=<hex hmac>` header against
+ * the raw request body
+ */
+export async function verifyMuxSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  secret: string,
+  toleranceSeconds = WEBHOOK_TOLERANCE_SECONDS
+): Promise<boolean> {
+  if (!signatureHeader) return false;
+
+  const fields = new Map<string, string[]>();
+  for (const part of signatureHeader.split(',')) {
+    const [name, value] = part.split('=', 2).map((s) => s.trim());
+    if (!name || !value) continue;
+    fields.set(name, [...(fields.get(name) ?? []), value]);
+  }
+
+  const timestamp = Number(fields.get('t')?.[0]);
+  const signatures = fields.get('v1') ?? [];
+  if (!Number.isFinite(timestamp) || signatures.length === 0) return false;
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(`${timestamp}.${rawBody}`));
+  const expected = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+  // Mux may send several v1 signatures while a secret is being rotated
+  return signatures.some((signature) => timingSafeEqual(signature, expected));
+}
@@ -0,0 +1,132 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getStorageProvider } from './storage.ts';
+import { muxRequest } from './mux.ts';
+import { HttpError, jsonResponse, type RequestContext } from './middleware.ts';
+import { assertOwnedUploadKey } from './uploadValidation.ts';
+import {
+  createProcessingJob,
+  transitionProcessingJob,
+  type ProcessingJob,
+  type UploadTable
+} from './processingJobs.ts';
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+async function loadRetryableJob(jobId: string, userId: string, uploadTable: UploadTable): Promise<ProcessingJob> {
+  const { data, error } = await supabaseAdmin
+    .from('video_processing_jobs')
+    .select('id, user_id, upload_table, storage_key, playback_policy, state, attempts')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .eq('upload_table', uploadTable)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, 'JOB_NOT_FOUND', 'Processing job not found');
+  if (data.state !== 'errored') {
+    throw new HttpError(409, 'JOB_NOT_RETRYABLE', `Only failed jobs can be retried (job is ${data.state})`);
+  }
+
+  return data as ProcessingJob;
+}
+
+/**
+ * Shared body of process-new-video and process-masterclass-video.
+ *
+ * Body: `{ filename, title?, premium? }` for a new upload or `{ jobId }` to
+ * retry a failed job. Premium uploads get a signed playback ID only. Creates (or reuses) a video_processing_jobs row, sends the
+ * stored file to Mux and records the upload row; the webhook takes the job
+ * the rest of the way.
+ */
+export async function submitVideoToMux(req: Request, { user }: RequestContext, uploadTable: UploadTable) {
+  const { filename, title, premium, jobId } = await req.json();
+
+  let job: ProcessingJob;
+  if (jobId) {
+    job = await loadRetryableJob(jobId, user.id, uploadTable);
+  } else {
+    if (!filename) {
+      throw new HttpError(400, 'MISSING_FILENAME', 'Missing filename');
+    }
+
+    // The upload row is attributed to the caller, so only their own files
+    // may be sent to Mux
+    assertOwnedUploadKey(user.id, filename);
+
+    job = await createProcessingJob(supabaseAdmin, {
+      userId: user.id,
+      uploadTable,
+      storageKey: filename,
+      title,
+      playbackPolicy: premium === true ? 'signed' : 'public'
+    });
+  }
+
+  const storageKey = job.storage_key;
+  const storage = getStorageProvider();
+
+  const fail = async (error: HttpError) => {
+    await transitionProcessingJob(supabaseAdmin, job.id, 'errored', {
+      error_message: error.message,
+      attempts: job.attempts + 1
+    });
+    throw error;
+  };
+
+  if (!(await storage.head(storageKey))) {
+    return fail(new HttpError(404, 'FILE_NOT_FOUND', 'Uploaded file not found'));
+  }
+
+  // Mux pulls the source over HTTP. A short-lived signed GET works for
+  // public and private buckets alike and for every storage provider.
+  const sourceUrl = await storage.presign(storageKey, { method: 'GET', expiresIn: 6 * 60 * 60 });
+
+  const muxResponse = await muxRequest("/video/v1/assets", {
+    method: "POST",
+    body: JSON.stringify({
+      input: { url: sourceUrl },
+      playback_policy: [job.playback_policy],
+      // Lets mux-webhook-handler route events for this asset to the right table
+      passthrough: uploadTable
+    })
+  });
+
+  const muxData = await muxResponse.json();
+
+  if (!muxData.data || !muxData.data.id) {
+    return fail(new HttpError(502, 'MUX_ERROR', 'Failed to create Mux asset'));
+  }
+
+  const assetId = muxData.data.id;
+
+  const { data: upload, error: dbError } = await supabaseAdmin
+    .from(uploadTable)
+    .insert([
+      {
+        user_id: user.id,
+        // filename is the storage key; URLs are derived from it on read
+        filename: storageKey,
+        asset_id: assetId,
+        status: 'processing'
+      }
+    ])
+    .select('id')
+    .single();
+
+  if (dbError) {
+    console.error("Database insert error:", dbError);
+    return fail(new HttpError(500, 'DATABASE_ERROR', dbError.message));
+  }
+
+  await transitionProcessingJob(supabaseAdmin, job.id, 'queued', {
+    asset_id: assetId,
+    upload_id: upload.id,
+    error_message: null,
+    attempts: job.attempts + 1
+  });
+
+  return jsonResponse({ ...muxData, jobId: job.id, uploadId: upload.id });
+}
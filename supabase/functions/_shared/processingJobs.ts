@@ -0,0 +1,100 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js';
+import type { MuxPlaybackPolicy } from './mux.ts';
+
+/**
+ * Server side of the video_processing_jobs state machine (see
+ * 018_video_processing_jobs.sql). The database trigger rejects invalid
+ * transitions; these helpers only move jobs out of the states the target
+ * state may follow, so a late or duplicate webhook is a no-op instead of
+ * an error.
+ */
+
+export type ProcessingJobState = 'uploaded' | 'queued' | 'processing' | 'ready' | 'errored' | 'cancelled';
+export type UploadTable = 'video_uploads' | 'masterclass_video_uploads';
+
+export const JOB_TRANSITIONS_FROM: Record<ProcessingJobState, ProcessingJobState[]> = {
+  uploaded: [],
+  queued: ['uploaded', 'errored'],
+  processing: ['queued'],
+  ready: ['queued', 'processing'],
+  errored: ['uploaded', 'queued', 'processing'],
+  cancelled: ['uploaded', 'queued', 'processing', 'errored']
+};
+
+export interface ProcessingJob {
+  id: string;
+  user_id: string;
+  upload_table: UploadTable;
+  storage_key: string;
+  playback_policy: MuxPlaybackPolicy;
+  state: ProcessingJobState;
+  attempts: number;
+}
+
+export async function createProcessingJob(
+  supabaseAdmin: SupabaseClient,
+  job: {
+    userId: string;
+    uploadTable: UploadTable;
+    storageKey: string;
+    title?: string | null;
+    playbackPolicy?: MuxPlaybackPolicy;
+  }
+): Promise<ProcessingJob> {
+  const { data, error } = await supabaseAdmin
+    .from('video_processing_jobs')
+    .insert({
+      user_id: job.userId,
+      upload_table: job.uploadTable,
+      storage_key: job.storageKey,
+      title: job.title ?? null,
+      playback_policy: job.playbackPolicy ?? 'public',
+      state: 'uploaded'
+    })
+    .select('id, user_id, upload_table, storage_key, playback_policy, state, attempts')
+    .single();
+
+  if (error) throw error;
+  return data as ProcessingJob;
+}
+
+/**
+ * Move one job to `state`. Returns false when the job was already past a
+ * state `state` may follow (e.g. cancelled by the user).
+ */
+export async function transitionProcessingJob(
+  supabaseAdmin: SupabaseClient,
+  jobId: string,
+  state: ProcessingJobState,
+  fields: Record<string, unknown> = {}
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('video_processing_jobs')
+    .update({ ...fields, state })
+    .eq('id', jobId)
+    .in('state', JOB_TRANSITIONS_FROM[state])
+    .select('id');
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Same as transitionProcessingJob for every job of a Mux asset
+ */
+export async function transitionJobsForAsset(
+  supabaseAdmin: SupabaseClient,
+  assetId: string,
+  state: ProcessingJobState,
+  fields: Record<string, unknown> = {}
+): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('video_processing_jobs')
+    .update({ ...fields, state })
+    .eq('asset_id', assetId)
+    .in('state', JOB_TRANSITIONS_FROM[state])
+    .select('id');
+
+  if (error) throw error;
+  return data?.length ?? 0;
+}
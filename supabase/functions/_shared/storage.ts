@@ -0,0 +1,656 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  CopyObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand
+} from "npm:@aws-sdk/client-s3";
+import { getSignedUrl } from "npm:@aws-sdk/s3-request-presigner";
+
+/**
+ * Storage provider abstraction shared by the edge functions.
+ *
+ * Content rows store the object key only. Absolute URLs are derived from the
+ * key at read time, so changing provider or URL shape never needs a data
+ * migration. The provider is chosen with STORAGE_PROVIDER:
+ *   - b2    Backblaze B2 (default), configured with the B2_* variables
+ *   - s3    any S3-compatible service such as MinIO, configured with S3_*
+ *   - local files on disk under LOCAL_STORAGE_DIR, served by the
+ *           `local-storage` function, for fully offline dev and test runs
+ */
+
+export interface ObjectMetadata {
+  size: number;
+  contentType: string | null;
+  lastModified: Date | null;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date | null;
+}
+
+export interface ListObjectsResult {
+  objects: StoredObject[];
+  nextCursor?: string;
+}
+
+export interface PresignOptions {
+  method: 'GET' | 'PUT';
+  expiresIn?: number;
+  contentType?: string;
+  contentLength?: number;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+export interface StorageProvider {
+  readonly name: 'b2' | 's3' | 'local';
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+  presign(key: string, options: PresignOptions): Promise<string>;
+  delete(key: string): Promise<void>;
+  copy(sourceKey: string, destinationKey: string): Promise<void>;
+  head(key: string): Promise<ObjectMetadata | null>;
+  readPrefix(key: string, length: number): Promise<Uint8Array>;
+  readRange(key: string, start: number, length: number): Promise<Uint8Array>;
+  list(prefix?: string, cursor?: string): Promise<ListObjectsResult>;
+  publicUrl(key: string): string;
+  createMultipartUpload(key: string, contentType: string): Promise<string>;
+  presignPart(key: string, uploadId: string, partNumber: number, expiresIn?: number): Promise<string>;
+  listParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+  completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+const DEFAULT_EXPIRY_SECONDS = 900;
+
+// Premium media lives under this prefix. The S3 providers keep these keys in
+// a separate private bucket (B2_PRIVATE_BUCKET_NAME / S3_PRIVATE_BUCKET) that
+// the public delivery URL can't reach; viewers get short-lived presigned GETs
+// from the playback-token function instead.
+export const PRIVATE_PREFIX = 'private/';
+
+export function isPrivateKey(key: string): boolean {
+  return key.startsWith(PRIVATE_PREFIX);
+}
+
+export function toPrivateKey(key: string): string {
+  return isPrivateKey(key) ? key : `${PRIVATE_PREFIX}${key}`;
+}
+
+export function toPublicKey(key: string): string {
+  return isPrivateKey(key) ? key.slice(PRIVATE_PREFIX.length) : key;
+}
+
+/**
+ * Reject keys that could escape the bucket prefix or the local storage root
+ */
+export function assertValidKey(key: string) {
+  if (!key || key.startsWith('/') || key.split('/').some((segment) => segment === '..' || segment === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+interface S3ProviderConfig {
+  name: 'b2' | 's3';
+  endpoint: string;
+  region: string;
+  bucket: string;
+  // Env variable naming the bucket for premium keys, read on first use so
+  // deployments without premium content don't need it
+  privateBucketEnv: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicBaseUrl: string;
+  forcePathStyle: boolean;
+}
+
+class S3StorageProvider implements StorageProvider {
+  readonly name: 'b2' | 's3';
+  private client: S3Client;
+  private bucket: string;
+  private privateBucketEnv: string;
+  private publicBaseUrl: string;
+
+  constructor(config: S3ProviderConfig) {
+    this.name = config.name;
+    this.bucket = config.bucket;
+    this.privateBucketEnv = config.privateBucketEnv;
+    this.publicBaseUrl = config.publicBaseUrl.replace(/\/$/, '');
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey
+      }
+    });
+  }
+
+  /**
+   * Premium keys never touch the public bucket. A missing private bucket
+   * fails the request rather than falling back to the public one.
+   */
+  private bucketFor(key: string) {
+    if (!isPrivateKey(key)) return this.bucket;
+
+    const privateBucket = requireEnv(this.privateBucketEnv);
+    if (privateBucket === this.bucket) {
+      throw new Error(`${this.privateBucketEnv} must name a different bucket from the public one`);
+    }
+    return privateBucket;
+  }
+
+  async put(key: string, body: Uint8Array, contentType: string) {
+    assertValidKey(key);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucketFor(key),
+      Key: key,
+      Body: body,
+      ContentType: contentType
+    }));
+  }
+
+  presign(key: string, options: PresignOptions) {
+    assertValidKey(key);
+    const command = options.method === 'PUT'
+      ? new PutObjectCommand({
+        Bucket: this.bucketFor(key),
+        Key: key,
+        ContentType: options.contentType,
+        ContentLength: options.contentLength
+      })
+      : new GetObjectCommand({ Bucket: this.bucketFor(key), Key: key });
+
+    return getSignedUrl(this.client, command, { expiresIn: options.expiresIn ?? DEFAULT_EXPIRY_SECONDS });
+  }
+
+  async delete(key: string) {
+    assertValidKey(key);
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucketFor(key), Key: key }));
+  }
+
+  async copy(sourceKey: string, destinationKey: string) {
+    assertValidKey(sourceKey);
+    assertValidKey(destinationKey);
+    await this.client.send(new CopyObjectCommand({
+      Bucket: this.bucketFor(destinationKey),
+      Key: destinationKey,
+      CopySource: `${this.bucketFor(sourceKey)}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`
+    }));
+  }
+
+  async head(key: string): Promise<ObjectMetadata | null> {
+    assertValidKey(key);
+    try {
+      const result = await this.client.send(new HeadObjectCommand({ Bucket: this.bucketFor(key), Key: key }));
+      return {
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType ?? null,
+        lastModified: result.LastModified ?? null
+      };
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NotFound') return null;
+      throw error;
+    }
+  }
+
+  readPrefix(key: string, length: number) {
+    return this.readRange(key, 0, length);
+  }
+
+  async readRange(key: string, start: number, length: number) {
+    assertValidKey(key);
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucketFor(key),
+      Key: key,
+      Range: `bytes=${start}-${start + length - 1}`
+    }));
+
+    return result.Body ? await result.Body.transformToByteArray() : new Uint8Array();
+  }
+
+  async list(prefix?: string, cursor?: string): Promise<ListObjectsResult> {
+    const result = await this.client.send(new ListObjectsV2Command({
+      Bucket: this.bucketFor(prefix ?? ''),
+      Prefix: prefix,
+      ContinuationToken: cursor
+    }));
+
+    return {
+      objects: (result.Contents ?? [])
+        .filter((object) => object.Key)
+        .map((object) => ({
+          key: object.Key!,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? null
+        })),
+      nextCursor: result.IsTruncated ? result.NextContinuationToken : undefined
+    };
+  }
+
+  publicUrl(key: string) {
+    return `${this.publicBaseUrl}/${key}`;
+  }
+
+  async createMultipartUpload(key: string, contentType: string) {
+    assertValidKey(key);
+    const result = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucketFor(key),
+      Key: key,
+      ContentType: contentType
+    }));
+
+    if (!result.UploadId) throw new Error('Failed to start multipart upload');
+    return result.UploadId;
+  }
+
+  presignPart(key: string, uploadId: string, partNumber: number, expiresIn = DEFAULT_EXPIRY_SECONDS) {
+    assertValidKey(key);
+    return getSignedUrl(this.client, new UploadPartCommand({
+      Bucket: this.bucketFor(key),
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber
+    }), { expiresIn });
+  }
+
+  async listParts(key: string, uploadId: string) {
+    assertValidKey(key);
+    const parts: UploadedPart[] = [];
+    let marker: string | undefined;
+
+    do {
+      const result = await this.client.send(new ListPartsCommand({
+        Bucket: this.bucketFor(key),
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: marker
+      }));
+
+      for (const part of result.Parts ?? []) {
+        if (part.PartNumber && part.ETag) {
+          parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size ?? 0 });
+        }
+      }
+
+      marker = result.IsTruncated ? result.NextPartNumberMarker : undefined;
+    } while (marker);
+
+    return parts;
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]) {
+    assertValidKey(key);
+    await this.client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucketFor(key),
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag }))
+      }
+    }));
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string) {
+    assertValidKey(key);
+    await this.client.send(new AbortMultipartUploadCommand({
+      Bucket: this.bucketFor(key),
+      Key: key,
+      UploadId: uploadId
+    }));
+  }
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Compare without an early exit so response times don't leak how much of a
+// forged signature matched
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Build the string a local presigned URL signs over. Shared with the
+ * `local-storage` function so both sides agree on the format.
+ */
+export function localSignaturePayload(
+  method: string,
+  key: string,
+  expires: number,
+  uploadId = '',
+  partNumber = ''
+) {
+  return [method, key, expires, uploadId, partNumber].join('\n');
+}
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local' as const;
+
+  constructor(
+    private rootDir: string,
+    private baseUrl: string,
+    private signingSecret: string
+  ) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  pathFor(key: string) {
+    assertValidKey(key);
+    return `${this.rootDir}/${key}`;
+  }
+
+  private partDir(uploadId: string) {
+    if (!/^[a-f0-9-]+$/.test(uploadId)) throw new Error('Invalid uploadId');
+    return `${this.rootDir}/.multipart/${uploadId}`;
+  }
+
+  private async ensureParentDir(path: string) {
+    await Deno.mkdir(path.substring(0, path.lastIndexOf('/')), { recursive: true });
+  }
+
+  private async signedUrl(method: string, key: string, expiresIn: number, uploadId = '', partNumber = '') {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = await hmacHex(
+      this.signingSecret,
+      localSignaturePayload(method, key, expires, uploadId, partNumber)
+    );
+    const params = new URLSearchParams({ method, expires: String(expires), signature });
+    if (uploadId) params.set('uploadId', uploadId);
+    if (partNumber) params.set('partNumber', partNumber);
+    return `${this.baseUrl}/${key}?${params.toString()}`;
+  }
+
+  async verifySignature(
+    method: string,
+    key: string,
+    expires: number,
+    signature: string,
+    uploadId = '',
+    partNumber = ''
+  ) {
+    if (!expires || expires < Math.floor(Date.now() / 1000)) return false;
+    const expected = await hmacHex(
+      this.signingSecret,
+      localSignaturePayload(method, key, expires, uploadId, partNumber)
+    );
+    return timingSafeEqual(expected, signature);
+  }
+
+  async put(key: string, body: Uint8Array) {
+    const path = this.pathFor(key);
+    await this.ensureParentDir(path);
+    await Deno.writeFile(path, body);
+  }
+
+  presign(key: string, options: PresignOptions) {
+    assertValidKey(key);
+    return this.signedUrl(options.method, key, options.expiresIn ?? DEFAULT_EXPIRY_SECONDS);
+  }
+
+  async delete(key: string) {
+    try {
+      await Deno.remove(this.pathFor(key));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+
+  async copy(sourceKey: string, destinationKey: string) {
+    const destination = this.pathFor(destinationKey);
+    await this.ensureParentDir(destination);
+    await Deno.copyFile(this.pathFor(sourceKey), destination);
+  }
+
+  async head(key: string): Promise<ObjectMetadata | null> {
+    try {
+      const info = await Deno.stat(this.pathFor(key));
+      return { size: info.size, contentType: null, lastModified: info.mtime };
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null;
+      throw error;
+    }
+  }
+
+  readPrefix(key: string, length: number) {
+    return this.readRange(key, 0, length);
+  }
+
+  async readRange(key: string, start: number, length: number) {
+    const file = await Deno.open(this.pathFor(key), { read: true });
+    try {
+      await file.seek(start, Deno.SeekMode.Start);
+      const buffer = new Uint8Array(length);
+      let offset = 0;
+      while (offset < length) {
+        const read = await file.read(buffer.subarray(offset));
+        if (read === null) break;
+        offset += read;
+      }
+      return buffer.subarray(0, offset);
+    } finally {
+      file.close();
+    }
+  }
+
+  /**
+   * Walk the storage directory. The local provider returns everything in a
+   * single page, which is fine at dev and test data sizes.
+   */
+  async list(prefix = ''): Promise<ListObjectsResult> {
+    const objects: StoredObject[] = [];
+
+    const walk = async (dir: string, relative: string) => {
+      for await (const entry of Deno.readDir(dir)) {
+        if (entry.name === '.multipart') continue;
+
+        const key = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory) {
+          await walk(`${dir}/${entry.name}`, key);
+        } else if (entry.isFile && key.startsWith(prefix)) {
+          const info = await Deno.stat(`${dir}/${entry.name}`);
+          objects.push({ key, size: info.size, lastModified: info.mtime });
+        }
+      }
+    };
+
+    try {
+      await walk(this.rootDir, '');
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+
+    return { objects };
+  }
+
+  publicUrl(key: string) {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  async createMultipartUpload(key: string) {
+    assertValidKey(key);
+    const uploadId = crypto.randomUUID();
+    await Deno.mkdir(this.partDir(uploadId), { recursive: true });
+    await Deno.writeTextFile(`${this.partDir(uploadId)}/.key`, key);
+    return uploadId;
+  }
+
+  presignPart(key: string, uploadId: string, partNumber: number, expiresIn = DEFAULT_EXPIRY_SECONDS) {
+    assertValidKey(key);
+    return this.signedUrl('PUT', key, expiresIn, uploadId, String(partNumber));
+  }
+
+  /**
+   * Store one part and return its ETag. Called by the `local-storage`
+   * function when the browser PUTs to a presigned part URL.
+   */
+  async writePart(uploadId: string, partNumber: number, body: Uint8Array) {
+    await Deno.writeFile(`${this.partDir(uploadId)}/${partNumber}`, body);
+    return `"${await sha256Hex(body)}"`;
+  }
+
+  async listParts(key: string, uploadId: string) {
+    assertValidKey(key);
+    const parts: UploadedPart[] = [];
+
+    for await (const entry of Deno.readDir(this.partDir(uploadId))) {
+      const partNumber = Number(entry.name);
+      if (!entry.isFile || !Number.isInteger(partNumber)) continue;
+
+      const data = await Deno.readFile(`${this.partDir(uploadId)}/${entry.name}`);
+      parts.push({ partNumber, etag: `"${await sha256Hex(data)}"`, size: data.length });
+    }
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]) {
+    const path = this.pathFor(key);
+    await this.ensureParentDir(path);
+
+    const file = await Deno.open(path, { write: true, create: true, truncate: true });
+    try {
+      for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+        const data = await Deno.readFile(`${this.partDir(uploadId)}/${part.partNumber}`);
+        if (`"${await sha256Hex(data)}"` !== part.etag) {
+          throw new Error(`ETag mismatch for part ${part.partNumber}`);
+        }
+        let written = 0;
+        while (written < data.length) {
+          written += await file.write(data.subarray(written));
+        }
+      }
+    } finally {
+      file.close();
+    }
+
+    await Deno.remove(this.partDir(uploadId), { recursive: true });
+  }
+
+  async abortMultipartUpload(_key: string, uploadId: string) {
+    try {
+      await Deno.remove(this.partDir(uploadId), { recursive: true });
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value || !value.trim()) {
+    throw new Error(`Missing required environment variable ${name}`);
+  }
+  return value;
+}
+
+function createB2Provider(): StorageProvider {
+  const endpoint = requireEnv('B2_S3_ENDPOINT');
+  const bucket = requireEnv('B2_BUCKET_NAME');
+  const region = Deno.env.get('B2_REGION')
+    ?? endpoint.match(/s3\.([a-z0-9-]+)\.backblazeb2\.com/)?.[1]
+    ?? 'eu-central-003';
+
+  // B2_PUBLIC_URL is the S3 endpoint used for public reads; objects live
+  // under the bucket name (path-hosted style)
+  const publicEndpoint = (Deno.env.get('B2_PUBLIC_URL') || endpoint).replace(/\/$/, '');
+
+  return new S3StorageProvider({
+    name: 'b2',
+    endpoint,
+    region,
+    bucket,
+    privateBucketEnv: 'B2_PRIVATE_BUCKET_NAME',
+    accessKeyId: requireEnv('B2_KEY_ID'),
+    secretAccessKey: requireEnv('B2_APPLICATION_KEY'),
+    publicBaseUrl: `${publicEndpoint}/${bucket}`,
+    forcePathStyle: false
+  });
+}
+
+function createS3Provider(): StorageProvider {
+  const endpoint = requireEnv('S3_ENDPOINT');
+  const bucket = requireEnv('S3_BUCKET');
+
+  return new S3StorageProvider({
+    name: 's3',
+    endpoint,
+    region: Deno.env.get('S3_REGION') ?? 'us-east-1',
+    bucket,
+    privateBucketEnv: 'S3_PRIVATE_BUCKET',
+    accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+    secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY'),
+    publicBaseUrl: Deno.env.get('S3_PUBLIC_URL') ?? `${endpoint.replace(/\/$/, '')}/${bucket}`,
+    // MinIO and most self-hosted services only support path-style addressing
+    forcePathStyle: Deno.env.get('S3_FORCE_PATH_STYLE') !== 'false'
+  });
+}
+
+export function createLocalProvider(): LocalStorageProvider {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? 'http://localhost:54321';
+
+  return new LocalStorageProvider(
+    (Deno.env.get('LOCAL_STORAGE_DIR') ?? './.storage').replace(/\/$/, ''),
+    Deno.env.get('LOCAL_STORAGE_PUBLIC_URL') ?? `${supabaseUrl}/functions/v1/local-storage`,
+    requireEnv('LOCAL_STORAGE_SIGNING_SECRET')
+  );
+}
+
+let cachedProvider: StorageProvider | null = null;
+
+export function getStorageProvider(): StorageProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const providerName = (Deno.env.get('STORAGE_PROVIDER') ?? 'b2').toLowerCase();
+
+  switch (providerName) {
+    case 'b2':
+      cachedProvider = createB2Provider();
+      break;
+    case 's3':
+      cachedProvider = createS3Provider();
+      break;
+    case 'local':
+      cachedProvider = createLocalProvider();
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER: ${providerName}`);
+  }
+
+  return cachedProvider;
+}
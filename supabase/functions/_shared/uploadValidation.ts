@@ -0,0 +1,276 @@
+import type { AccountTier } from './auth.ts';
+import { HttpError } from './middleware.ts';
+
+/**
+ * Server-side upload policy shared by every function that writes user files.
+ *
+ * The client `ALLOWED_TYPES` maps are only a convenience; these checks are
+ * the ones that count. Keys are rebuilt from an allowed folder, the caller's
+ * user ID and a sanitized filename, and file contents are sniffed so a
+ * renamed executable can't pass as `video/mp4`.
+ */
+
+export type UploadErrorCode =
+  | 'MISSING_FILE'
+  | 'INVALID_FILENAME'
+  | 'INVALID_FOLDER'
+  | 'FORBIDDEN_KEY'
+  | 'UNSUPPORTED_TYPE'
+  | 'TYPE_MISMATCH'
+  | 'FILE_TOO_LARGE';
+
+export type UploadKind = 'image' | 'video' | 'audio' | 'document';
+
+export class UploadValidationError extends HttpError {
+  constructor(
+    code: UploadErrorCode,
+    message: string,
+    status = 400,
+    details: Record<string, unknown> = {}
+  ) {
+    super(status, code, message, details);
+    this.name = 'UploadValidationError';
+  }
+}
+
+// Number of leading bytes needed to recognize every supported format
+export const SIGNATURE_SNIFF_BYTES = 64;
+
+const MB = 1024 * 1024;
+
+// No SVG: it can carry script, which would run when the file is opened
+// from the public storage URL
+export const UPLOAD_CONTENT_TYPES: Record<string, UploadKind> = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'video/mp4': 'video',
+  'video/webm': 'video',
+  'video/quicktime': 'video',
+  'video/x-msvideo': 'video',
+  'audio/mpeg': 'audio',
+  'audio/wav': 'audio',
+  'audio/ogg': 'audio',
+  'audio/webm': 'audio',
+  'audio/aac': 'audio',
+  'application/pdf': 'document',
+  'text/plain': 'document',
+  'application/msword': 'document',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'document'
+};
+
+// Folders the app uploads into and the kinds of file each one accepts
+const UPLOAD_FOLDERS: Record<string, { kinds: UploadKind[]; maxBytes?: number }> = {
+  uploads: { kinds: ['video'] },
+  masterclass_videos: { kinds: ['video'] },
+  media_page_content: { kinds: ['image', 'video', 'audio'] },
+  portfolio_page_content: { kinds: ['image', 'video', 'audio'] },
+  masterclass_page_content: { kinds: ['image', 'video', 'audio'] },
+  media: { kinds: ['image', 'video', 'audio', 'document'] },
+  projects_page_avatars: { kinds: ['image'], maxBytes: 5 * MB },
+  thumbnails: { kinds: ['image'] }
+};
+
+export const TIER_MAX_UPLOAD_BYTES: Record<AccountTier, number> = {
+  free: 500 * MB,
+  premium: 2 * 1024 * MB,
+  professional: 5 * 1024 * MB,
+  elite: 20 * 1024 * MB
+};
+
+// Images and documents never need the video-sized tier allowance
+const KIND_MAX_UPLOAD_BYTES: Partial<Record<UploadKind, number>> = {
+  image: 20 * MB,
+  document: 50 * MB
+};
+
+/**
+ * Make a filename safe for a storage key: ASCII only, no path separators,
+ * spaces or dot runs, lowercase extension
+ */
+export function sanitizeFilename(name: string): string {
+  const normalized = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[\\/]/)
+    .pop() ?? '';
+
+  const dot = normalized.lastIndexOf('.');
+  const base = dot > 0 ? normalized.slice(0, dot) : normalized;
+  const extension = dot > 0 ? normalized.slice(dot + 1).toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 10) : '';
+
+  const safeBase = base
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/[-.]{2,}/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .slice(0, 100);
+
+  if (!safeBase) return '';
+  return extension ? `${safeBase}.${extension}` : safeBase;
+}
+
+/**
+ * Rebuild a client-proposed key as `<folder>/<userId>/<sanitized filename>`.
+ * Whatever the client put between folder and filename is discarded, so a
+ * user can only ever write into their own folder.
+ */
+export function buildUserUploadKey(userId: string, requestedKey: string): string {
+  const segments = requestedKey.split('/').filter(Boolean);
+  const folder = segments[0];
+
+  if (!folder || !UPLOAD_FOLDERS[folder]) {
+    throw new UploadValidationError('INVALID_FOLDER', `Uploads are not allowed in "${folder ?? ''}"`, 400, {
+      allowedFolders: Object.keys(UPLOAD_FOLDERS)
+    });
+  }
+
+  const filename = sanitizeFilename(segments.length > 1 ? segments[segments.length - 1] : '');
+  if (!filename) {
+    throw new UploadValidationError('INVALID_FILENAME', 'The file name is empty or contains no usable characters');
+  }
+
+  return `${folder}/${userId}/${filename}`;
+}
+
+/**
+ * Reject follow-up requests (sign, complete, abort) for keys outside the
+ * caller's folder
+ */
+export function assertOwnedUploadKey(userId: string, key: string) {
+  const [folder, owner, filename, ...rest] = key.split('/');
+
+  if (!UPLOAD_FOLDERS[folder] || owner !== userId || !filename || rest.length > 0 || sanitizeFilename(filename) !== filename) {
+    throw new UploadValidationError('FORBIDDEN_KEY', 'This upload does not belong to you', 403);
+  }
+}
+
+/**
+ * Largest file the caller may store for this folder and content type
+ */
+export function getMaxUploadBytes(tier: AccountTier, folder: string, contentType: string): number {
+  const kind = UPLOAD_CONTENT_TYPES[contentType];
+  return Math.min(
+    TIER_MAX_UPLOAD_BYTES[tier] ?? TIER_MAX_UPLOAD_BYTES.free,
+    (kind && KIND_MAX_UPLOAD_BYTES[kind]) ?? Infinity,
+    UPLOAD_FOLDERS[folder]?.maxBytes ?? Infinity
+  );
+}
+
+/**
+ * Check the declared content type and size against the folder and tier.
+ * Runs before any bytes are accepted.
+ */
+export function validateUploadRequest(
+  key: string,
+  contentType: string | undefined,
+  size: number | undefined,
+  tier: AccountTier
+) {
+  const folder = key.split('/')[0];
+  const kind = contentType ? UPLOAD_CONTENT_TYPES[contentType] : undefined;
+
+  if (!contentType || !kind || !UPLOAD_FOLDERS[folder]?.kinds.includes(kind)) {
+    throw new UploadValidationError('UNSUPPORTED_TYPE', `${contentType || 'This file type'} is not allowed here`, 415, {
+      contentType,
+      allowedTypes: Object.keys(UPLOAD_CONTENT_TYPES).filter((type) =>
+        UPLOAD_FOLDERS[folder]?.kinds.includes(UPLOAD_CONTENT_TYPES[type])
+      )
+    });
+  }
+
+  if (typeof size !== 'number' || !Number.isFinite(size) || size <= 0) {
+    throw new UploadValidationError('MISSING_FILE', 'The file is empty or its size is unknown');
+  }
+
+  assertUploadSize(size, tier, folder, contentType);
+}
+
+export function assertUploadSize(size: number, tier: AccountTier, folder: string, contentType: string) {
+  const maxBytes = getMaxUploadBytes(tier, folder, contentType);
+  if (size > maxBytes) {
+    throw new UploadValidationError('FILE_TOO_LARGE', `File is larger than the ${Math.floor(maxBytes / MB)}MB limit`, 413, {
+      size,
+      maxBytes,
+      tier
+    });
+  }
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+function looksLikeText(bytes: Uint8Array) {
+  if (bytes.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    // Allow a multi-byte character cut off at the end of the sniffed prefix
+    if (bytes.length < SIGNATURE_SNIFF_BYTES) return false;
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, bytes.length - 3));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Content types the leading bytes are consistent with. Containers such as
+ * WebM or ISO-BMFF legitimately map to more than one type.
+ */
+export function sniffContentTypes(bytes: Uint8Array): string[] {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return ['image/jpeg'];
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return ['image/png'];
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return ['image/gif'];
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const format = ascii(bytes, 8, 12);
+    if (format === 'WEBP') return ['image/webp'];
+    if (format === 'WAVE') return ['audio/wav'];
+    if (format === 'AVI ') return ['video/x-msvideo'];
+    return [];
+  }
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    return ascii(bytes, 8, 12) === 'qt  '
+      ? ['video/quicktime', 'video/mp4']
+      : ['video/mp4', 'video/quicktime', 'audio/aac'];
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return ['video/webm', 'audio/webm'];
+  if (ascii(bytes, 0, 4) === 'OggS') return ['audio/ogg'];
+  if (ascii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe6) === 0xe2)) return ['audio/mpeg'];
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return ['audio/aac'];
+  if (ascii(bytes, 0, 5) === '%PDF-') return ['application/pdf'];
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return ['application/msword'];
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    return ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+  }
+
+  if (looksLikeText(bytes)) return ['text/plain'];
+
+  return [];
+}
+
+/**
+ * Confirm the file's real signature matches the declared content type
+ */
+export function assertFileSignature(bytes: Uint8Array, contentType: string) {
+  const detected = sniffContentTypes(bytes.subarray(0, SIGNATURE_SNIFF_BYTES));
+
+  if (detected.length === 0) {
+    throw new UploadValidationError('UNSUPPORTED_TYPE', 'The file format was not recognized', 415, { contentType });
+  }
+
+  if (!detected.includes(contentType)) {
+    throw new UploadValidationError('TYPE_MISMATCH', `The file content does not match ${contentType}`, 415, {
+      contentType,
+      detected: detected[0]
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import { getStorageProvider } from '../_shared/storage.ts';
+import { HttpError, authenticatedHandler, jsonResponse } from '../_shared/middleware.ts';
+import {
+  SIGNATURE_SNIFF_BYTES,
+  assertFileSignature,
+  assertOwnedUploadKey,
+  assertUploadSize,
+  buildUserUploadKey,
+  validateUploadRequest
+} from '../_shared/uploadValidation.ts';
+
+// Presigned part URLs are requested in small batches just before use,
+// so a short expiry is enough even for multi-GB uploads
+const PART_URL_EXPIRY_SECONDS = 3600;
+const MAX_PARTS_PER_SIGN_REQUEST = 100;
+
+/**
+ * Direct-to-storage multipart uploads.
+ *
+ * The browser never sends file bytes through this function. It asks for an
+ * upload ID, requests presigned UploadPart URLs in batches and PUTs each
+ * chunk straight to the configured storage provider, then asks us to
+ * complete (or abort) the upload. `list-parts` lets a client resume after a
+ * refresh or network drop.
+ *
+ * `create` rebuilds the key inside the caller's folder and checks the
+ * declared type and size; `complete` re-checks the stored size and sniffs
+ * the real file signature, deleting the object if either is wrong. Clients
+ * must use the key returned by `create`.
+ *
+ * The bucket CORS rules must allow PUT from the app origin and expose the
+ * `ETag` header, otherwise the browser cannot read part ETags.
+ */
+Deno.serve(authenticatedHandler(async (req, { user }) => {
+  const storage = getStorageProvider();
+  const body = await req.json();
+  const { action, key: requestedKey, uploadId } = body;
+
+  if (!requestedKey) {
+    throw new HttpError(400, 'MISSING_KEY', 'Missing key');
+  }
+
+  if (action === 'create') {
+    const key = buildUserUploadKey(user.id, requestedKey);
+    validateUploadRequest(key, body.contentType, body.size, user.tier);
+
+    const newUploadId = await storage.createMultipartUpload(key, body.contentType);
+
+    return jsonResponse({ uploadId: newUploadId, key });
+  }
+
+  const key = requestedKey as string;
+  assertOwnedUploadKey(user.id, key);
+
+  if (!uploadId) {
+    throw new HttpError(400, 'MISSING_UPLOAD_ID', 'Missing uploadId');
+  }
+
+  if (action === 'sign-parts') {
+    const partNumbers = (body.partNumbers ?? []) as number[];
+
+    if (partNumbers.length === 0 || partNumbers.length > MAX_PARTS_PER_SIGN_REQUEST) {
+      throw new HttpError(400, 'INVALID_PARTS', `Request between 1 and ${MAX_PARTS_PER_SIGN_REQUEST} parts`);
+    }
+
+    const urls: Record<number, string> = {};
+    for (const partNumber of partNumbers) {
+      if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+        throw new HttpError(400, 'INVALID_PARTS', `Invalid part number: ${partNumber}`);
+      }
+
+      urls[partNumber] = await storage.presignPart(key, uploadId, partNumber, PART_URL_EXPIRY_SECONDS);
+    }
+
+    return jsonResponse({ urls });
+  }
+
+  if (action === 'list-parts') {
+    const parts = await storage.listParts(key, uploadId);
+    return jsonResponse({ parts });
+  }
+
+  if (action === 'complete') {
+    const parts = (body.parts ?? []) as { partNumber: number; etag: string }[];
+
+    if (parts.length === 0) {
+      throw new HttpError(400, 'INVALID_PARTS', 'Missing parts');
+    }
+
+    await storage.completeMultipartUpload(key, uploadId, parts);
+
+    // The declared size and type were only claims; check the stored object
+    try {
+      const metadata = await storage.head(key);
+      const contentType = metadata?.contentType ?? body.contentType;
+      assertUploadSize(metadata?.size ?? 0, user.tier, key.split('/')[0], contentType);
+      assertFileSignature(await storage.readPrefix(key, SIGNATURE_SNIFF_BYTES), contentType);
+    } catch (validationError) {
+      await storage.delete(key);
+      throw validationError;
+    }
+
+    return jsonResponse({ success: true, key, publicUrl: storage.publicUrl(key) });
+  }
+
+  if (action === 'abort') {
+    await storage.abortMultipartUpload(key, uploadId);
+
+    return jsonResponse({ success: true });
+  }
+
+  throw new HttpError(400, 'UNKNOWN_ACTION', `Unknown action: ${action}`);
+}, {
+  // A multi-GB upload signs parts in batches of 20, so allow plenty of calls
+  rateLimit: { bucket: 'multipart-upload', limit: 600, windowSeconds: 10 * 60 }
+}));
@@ -0,0 +1,158 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getStorageProvider } from '../_shared/storage.ts';
+import { probeStoredMedia } from '../_shared/mediaMetadata.ts';
+
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const CONTENT_TABLES = ['media_page_content', 'portfolio_page_content', 'masterclass_page_content'] as const;
+type ContentTable = typeof CONTENT_TABLES[number];
+
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  SUPABASE_SERVICE_ROLE_KEY
+);
+
+interface PendingRow {
+  id: string;
+  content_key: string;
+  metadata_attempts: number;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+}
+
+/**
+ * Probe one row's stored file and save what was found. A row is marked as
+ * extracted even when its format has no readable duration, so it is only
+ * probed once; a missing object or a failed read is retried by the sweep.
+ */
+async function extractRow(table: ContentTable, row: PendingRow): Promise<boolean> {
+  try {
+    const metadata = await probeStoredMedia(getStorageProvider(), row.content_key);
+    if (!metadata) throw new Error(`Object not found: ${row.content_key}`);
+
+    const { error } = await supabaseAdmin
+      .from(table)
+      .update({ ...metadata, metadata_extracted_at: new Date().toISOString() })
+      .eq('id', row.id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error(`Metadata extraction failed for ${table}/${row.id}:`, error);
+    await supabaseAdmin
+      .from(table)
+      .update({ metadata_attempts: row.metadata_attempts + 1 })
+      .eq('id', row.id);
+    return false;
+  }
+}
+
+async function extractOne(table: ContentTable, id: string) {
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select('id, content_key, metadata_attempts')
+    .eq('id', id)
+    .is('metadata_extracted_at', null)
+    .not('content_key', 'is', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return { extracted: 0, failed: 0 };
+
+  const extracted = await extractRow(table, data as PendingRow);
+  return { extracted: extracted ? 1 : 0, failed: extracted ? 0 : 1 };
+}
+
+/**
+ * Work through rows that were never probed: new rows whose insert-time
+ * request failed and rows uploaded before metadata was extracted
+ */
+async function extractPending() {
+  let extracted = 0;
+  let failed = 0;
+
+  for (const table of CONTENT_TABLES) {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .select('id, content_key, metadata_attempts')
+      .is('metadata_extracted_at', null)
+      .not('content_key', 'is', null)
+      .lt('metadata_attempts', MAX_ATTEMPTS)
+      .order('created_at', { ascending: false })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    for (const row of (data ?? []) as PendingRow[]) {
+      if (await extractRow(table, row)) {
+        extracted++;
+      } else {
+        failed++;
+      }
+    }
+  }
+
+  return { extracted, failed };
+}
+
+/**
+ * Media metadata extractor.
+ *
+ * Called with the service role key only: by the request_media_metadata
+ * trigger with `{ table, id }` right after a row is inserted, and by the
+ * pg_cron sweep with `{ mode: "pending" }`.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method Not Allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!SUPABASE_SERVICE_ROLE_KEY || token !== SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body.table || body.id) {
+      if (!CONTENT_TABLES.includes(body.table) || typeof body.id !== 'string') {
+        return jsonResponse({ error: 'Invalid table or id' }, 400);
+      }
+      return jsonResponse({ success: true, ...(await extractOne(body.table, body.id)) });
+    }
+
+    const mode = body.mode ?? 'pending';
+    if (mode === 'pending') {
+      return jsonResponse({ success: true, mode, ...(await extractPending()) });
+    }
+
+    return jsonResponse({ error: `Unknown mode: ${mode}` }, 400);
+  } catch (error) {
+    console.error('Metadata extraction error:', error);
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Metadata extraction failed'
+    }, 500);
+  }
+});
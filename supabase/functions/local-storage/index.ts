@@ -0,0 +1,110 @@
+import { createLocalProvider, isPrivateKey } from '../_shared/storage.ts';
+
+// Serves the `local` storage provider for offline dev and test runs.
+// Deploy (or `supabase functions serve`) with --no-verify-jwt: browsers hit
+// presigned URLs without an Authorization header, exactly as they do on B2.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'ETag'
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  vtt: 'text/vtt',
+  pdf: 'application/pdf'
+};
+
+const provider = createLocalProvider();
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const marker = '/local-storage/';
+  const markerIndex = url.pathname.indexOf(marker);
+  const key = markerIndex >= 0 ? decodeURIComponent(url.pathname.slice(markerIndex + marker.length)) : '';
+
+  if (!key) {
+    return new Response('Missing key', { status: 400, headers: corsHeaders });
+  }
+
+  try {
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      // Premium media and in-progress multipart parts are only served
+      // through a presigned GET, like a private bucket
+      if (isPrivateKey(key) || key.startsWith('.multipart/')) {
+        const expires = Number(url.searchParams.get('expires'));
+        const signature = url.searchParams.get('signature') ?? '';
+        if (!(await provider.verifySignature('GET', key, expires, signature))) {
+          return new Response('Invalid or expired signature', { status: 403, headers: corsHeaders });
+        }
+      }
+
+      const path = provider.pathFor(key);
+      const extension = key.split('.').pop()?.toLowerCase() ?? '';
+      const headers = {
+        ...corsHeaders,
+        'Content-Type': CONTENT_TYPES[extension] ?? 'application/octet-stream'
+      };
+
+      try {
+        if (req.method === 'HEAD') {
+          const info = await Deno.stat(path);
+          return new Response(null, { headers: { ...headers, 'Content-Length': String(info.size) } });
+        }
+        const file = await Deno.open(path, { read: true });
+        return new Response(file.readable, { headers });
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          return new Response('Not Found', { status: 404, headers: corsHeaders });
+        }
+        throw error;
+      }
+    }
+
+    if (req.method === 'PUT') {
+      const expires = Number(url.searchParams.get('expires'));
+      const signature = url.searchParams.get('signature') ?? '';
+      const uploadId = url.searchParams.get('uploadId') ?? '';
+      const partNumber = url.searchParams.get('partNumber') ?? '';
+
+      const isValid = await provider.verifySignature('PUT', key, expires, signature, uploadId, partNumber);
+      if (!isValid) {
+        return new Response('Invalid or expired signature', { status: 403, headers: corsHeaders });
+      }
+
+      const body = new Uint8Array(await req.arrayBuffer());
+
+      if (uploadId) {
+        const etag = await provider.writePart(uploadId, Number(partNumber), body);
+        return new Response(null, { status: 200, headers: { ...corsHeaders, ETag: etag } });
+      }
+
+      await provider.put(key, body);
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+  } catch (error) {
+    console.error('Local storage error:', error);
+    return new Response(error instanceof Error ? error.message : 'Storage error', {
+      status: 500,
+      headers: corsHeaders
+    });
+  }
+});
@@ -0,0 +1,264 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getStorageProvider } from '../_shared/storage.ts';
+import { createMuxTextTrack, deleteMuxTrack } from '../_shared/mux.ts';
+import { HttpError, authenticatedHandler, jsonResponse } from '../_shared/middleware.ts';
+import { CAPTION_LANGUAGE_PATTERN, convertToVtt } from '../_shared/captions.ts';
+import { getAutoCaptionProvider } from '../_shared/autoCaptions.ts';
+
+const CONTENT_TABLES = {
+  media: 'media_page_content',
+  portfolio: 'portfolio_page_content',
+  masterclass: 'masterclass_page_content'
+} as const;
+type ContentSource = keyof typeof CONTENT_TABLES;
+type ContentTable = typeof CONTENT_TABLES[ContentSource];
+
+// Mux fetches the track file asynchronously, and auto-caption providers
+// may take a while to download long media
+const SOURCE_URL_EXPIRY_SECONDS = 6 * 60 * 60;
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+interface ContentRow {
+  id: string;
+  user_id: string;
+  content_url: string | null;
+  content_key: string | null;
+  duration_seconds: number | null;
+  video_upload_id?: string | null;
+}
+
+interface MuxSource {
+  assetId: string;
+  filename: string | null;
+}
+
+async function loadOwnedContent(source: unknown, contentId: unknown, userId: string) {
+  if (typeof source !== 'string' || !(source in CONTENT_TABLES)) {
+    throw new HttpError(400, 'INVALID_CONTENT', 'Unknown content source');
+  }
+  if (typeof contentId !== 'string' || !contentId) {
+    throw new HttpError(400, 'INVALID_CONTENT', 'Missing contentId');
+  }
+
+  const table = CONTENT_TABLES[source as ContentSource];
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select('*')
+    .eq('id', contentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, 'CONTENT_NOT_FOUND', 'Content not found');
+  if (data.user_id !== userId) {
+    throw new HttpError(403, 'FORBIDDEN', 'Only the creator can manage captions');
+  }
+
+  return { table, row: data as ContentRow };
+}
+
+function assertLanguage(language: unknown): string {
+  if (typeof language !== 'string' || !CAPTION_LANGUAGE_PATTERN.test(language)) {
+    throw new HttpError(400, 'INVALID_LANGUAGE', 'Choose a valid caption language');
+  }
+  return language;
+}
+
+/**
+ * The ready Mux asset behind a content row, if it plays from Mux
+ */
+async function findMuxSource(row: ContentRow): Promise<MuxSource | null> {
+  const playbackId = row.content_url?.match(/^https:\/\/stream\.mux\.com\/([^/.?]+)/)?.[1];
+  if (!playbackId && !row.video_upload_id) return null;
+
+  for (const table of ['video_uploads', 'masterclass_video_uploads']) {
+    let query = supabaseAdmin
+      .from(table)
+      .select('asset_id, filename')
+      .eq('status', 'ready');
+
+    query = table === 'masterclass_video_uploads' && row.video_upload_id
+      ? query.or(`playback_id.eq.${playbackId ?? ''},id.eq.${row.video_upload_id}`)
+      : query.eq('playback_id', playbackId ?? '');
+
+    const { data, error } = await query.limit(1).maybeSingle();
+    if (error) throw error;
+    if (data?.asset_id) return { assetId: data.asset_id, filename: data.filename };
+  }
+
+  return null;
+}
+
+/**
+ * Store a VTT track and attach it to the player source: as a Mux text
+ * track for Mux content, otherwise served from storage as-is. Replaces any
+ * existing track in the same language.
+ */
+async function saveTrack(
+  userId: string,
+  table: ContentTable,
+  row: ContentRow,
+  track: { language: string; label: string; source: 'upload' | 'auto'; vtt: string }
+) {
+  const storage = getStorageProvider();
+  const key = `captions/${userId}/${row.id}/${track.language}.vtt`;
+  await storage.put(key, new TextEncoder().encode(track.vtt), 'text/vtt');
+
+  const { data: existing } = await supabaseAdmin
+    .from('content_captions')
+    .select('mux_asset_id, mux_track_id')
+    .eq('content_table', table)
+    .eq('content_id', row.id)
+    .eq('language_code', track.language)
+    .maybeSingle();
+
+  if (existing?.mux_asset_id && existing.mux_track_id) {
+    await deleteMuxTrack(existing.mux_asset_id, existing.mux_track_id);
+  }
+
+  const mux = await findMuxSource(row);
+
+  const { data: caption, error } = await supabaseAdmin
+    .from('content_captions')
+    .upsert({
+      content_table: table,
+      content_id: row.id,
+      user_id: userId,
+      language_code: track.language,
+      label: track.label,
+      source: track.source,
+      storage_key: key,
+      mux_asset_id: mux?.assetId ?? null,
+      mux_track_id: null,
+      status: mux ? 'processing' : 'ready',
+      error_message: null,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'content_table,content_id,language_code' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  if (!mux) return caption;
+
+  try {
+    const trackId = await createMuxTextTrack(mux.assetId, {
+      url: await storage.presign(key, { method: 'GET', expiresIn: SOURCE_URL_EXPIRY_SECONDS }),
+      languageCode: track.language,
+      name: track.label,
+      passthrough: caption.id
+    });
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('content_captions')
+      .update({ mux_track_id: trackId })
+      .eq('id', caption.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+    return updated;
+  } catch (muxError) {
+    const message = muxError instanceof Error ? muxError.message : String(muxError);
+    await supabaseAdmin
+      .from('content_captions')
+      .update({ status: 'failed', error_message: message })
+      .eq('id', caption.id);
+    throw new HttpError(502, 'MUX_ERROR', 'Mux could not add the caption track', { reason: message });
+  }
+}
+
+async function deleteTrack(userId: string, captionId: unknown) {
+  if (typeof captionId !== 'string' || !captionId) {
+    throw new HttpError(400, 'INVALID_CAPTION', 'Missing captionId');
+  }
+
+  const { data: caption, error } = await supabaseAdmin
+    .from('content_captions')
+    .select('id, storage_key, mux_asset_id, mux_track_id')
+    .eq('id', captionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!caption) throw new HttpError(404, 'CAPTION_NOT_FOUND', 'Caption track not found');
+
+  if (caption.mux_asset_id && caption.mux_track_id) {
+    await deleteMuxTrack(caption.mux_asset_id, caption.mux_track_id);
+  }
+  await getStorageProvider().delete(caption.storage_key);
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('content_captions')
+    .delete()
+    .eq('id', caption.id);
+
+  if (deleteError) throw deleteError;
+}
+
+/**
+ * Caption tracks for the creator's own content.
+ *
+ * Actions:
+ *   upload  `{ source, contentId, language, label, content }` where content
+ *           is the text of a WebVTT or SRT file; stored as VTT
+ *   auto    `{ source, contentId, language, label }` runs the configured
+ *           auto-caption provider over the media
+ *   delete  `{ captionId }`
+ */
+Deno.serve(authenticatedHandler(async (req, { user }) => {
+  const body = await req.json();
+  const { action } = body;
+
+  if (action === 'delete') {
+    await deleteTrack(user.id, body.captionId);
+    return jsonResponse({ success: true });
+  }
+
+  if (action !== 'upload' && action !== 'auto') {
+    throw new HttpError(400, 'INVALID_ACTION', 'Invalid action');
+  }
+
+  const { table, row } = await loadOwnedContent(body.source, body.contentId, user.id);
+  const language = assertLanguage(body.language);
+  const label = typeof body.label === 'string' && body.label.trim()
+    ? body.label.trim().slice(0, 64)
+    : language;
+
+  if (action === 'upload') {
+    if (typeof body.content !== 'string' || !body.content) {
+      throw new HttpError(400, 'MISSING_FILE', 'Missing caption file');
+    }
+
+    const caption = await saveTrack(user.id, table, row, {
+      language,
+      label,
+      source: 'upload',
+      vtt: convertToVtt(body.content)
+    });
+    return jsonResponse({ caption });
+  }
+
+  const mux = await findMuxSource(row);
+  const mediaKey = mux?.filename ?? row.content_key;
+  if (!mediaKey) {
+    throw new HttpError(400, 'NO_MEDIA', 'This content has no audio or video to caption');
+  }
+
+  const storage = getStorageProvider();
+  const vtt = await getAutoCaptionProvider().transcribe({
+    sourceUrl: await storage.presign(mediaKey, { method: 'GET', expiresIn: SOURCE_URL_EXPIRY_SECONDS }),
+    language,
+    durationSeconds: row.duration_seconds
+  });
+
+  const caption = await saveTrack(user.id, table, row, {
+    language,
+    label,
+    source: 'auto',
+    vtt: convertToVtt(vtt)
+  });
+  return jsonResponse({ caption });
+}, { rateLimit: { bucket: 'captions', limit: 60, windowSeconds: 60 * 60 } }));
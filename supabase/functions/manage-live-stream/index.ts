@@ -0,0 +1,179 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import {
+  MUX_RTMP_URL,
+  createMuxLiveStream,
+  deleteMuxLiveStream,
+  resetMuxStreamKey
+} from '../_shared/mux.ts';
+import { HttpError, authenticatedHandler, jsonResponse } from '../_shared/middleware.ts';
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+interface LiveStreamRow {
+  event_id: string;
+  mux_live_stream_id: string;
+  stream_key: string;
+  playback_id: string;
+  status: string;
+}
+
+function toResponse(row: LiveStreamRow) {
+  return {
+    eventId: row.event_id,
+    liveStreamId: row.mux_live_stream_id,
+    streamKey: row.stream_key,
+    rtmpUrl: MUX_RTMP_URL,
+    playbackId: row.playback_id,
+    status: row.status
+  };
+}
+
+async function loadOwnedEvent(eventId: unknown, userId: string) {
+  if (typeof eventId !== 'string' || !eventId) {
+    throw new HttpError(400, 'INVALID_EVENT', 'Missing eventId');
+  }
+
+  const { data: event, error } = await supabaseAdmin
+    .from('events')
+    .select('id, organizer_id, status')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!event) throw new HttpError(404, 'EVENT_NOT_FOUND', 'Event not found');
+  if (event.organizer_id !== userId) {
+    throw new HttpError(403, 'FORBIDDEN', 'Only the organizer can manage the live stream');
+  }
+
+  return event;
+}
+
+async function loadLiveStream(eventId: string): Promise<LiveStreamRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('event_live_streams')
+    .select('event_id, mux_live_stream_id, stream_key, playback_id, status')
+    .eq('event_id', eventId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function createLiveStream(eventId: string, userId: string, eventStatus: string) {
+  // Creating twice hands back the existing stream
+  const existing = await loadLiveStream(eventId);
+  if (existing) return existing;
+
+  if (eventStatus === 'completed' || eventStatus === 'cancelled') {
+    throw new HttpError(409, 'EVENT_CLOSED', `Can't go live on a ${eventStatus} event`);
+  }
+
+  let stream;
+  try {
+    stream = await createMuxLiveStream(eventId);
+  } catch (muxError) {
+    const message = muxError instanceof Error ? muxError.message : String(muxError);
+    throw new HttpError(502, 'MUX_ERROR', 'Mux could not create the live stream', { reason: message });
+  }
+
+  const { data: row, error } = await supabaseAdmin
+    .from('event_live_streams')
+    .insert({
+      event_id: eventId,
+      organizer_id: userId,
+      mux_live_stream_id: stream.id,
+      stream_key: stream.streamKey,
+      playback_id: stream.playbackId
+    })
+    .select('event_id, mux_live_stream_id, stream_key, playback_id, status')
+    .single();
+
+  if (error) {
+    // Lost a race with a concurrent create; drop our stream, keep theirs
+    await deleteMuxLiveStream(stream.id);
+    const winner = await loadLiveStream(eventId);
+    if (winner) return winner;
+    throw error;
+  }
+
+  const { error: eventError } = await supabaseAdmin
+    .from('events')
+    .update({
+      is_livestream: true,
+      livestream_url: `https://stream.mux.com/${stream.playbackId}.m3u8`,
+      live_playback_id: stream.playbackId
+    })
+    .eq('id', eventId);
+
+  if (eventError) throw eventError;
+  return row;
+}
+
+/**
+ * Live streaming for the organizer's own events.
+ *
+ * Actions, all `{ eventId }`:
+ *   create     create the event's Mux live stream, or return the existing
+ *              one; answers with the RTMP URL and stream key
+ *   reset_key  issue a new stream key
+ *   delete     remove the live stream; a published replay stays
+ */
+Deno.serve(authenticatedHandler(async (req, { user }) => {
+  const { action, eventId } = await req.json();
+
+  if (action !== 'create' && action !== 'reset_key' && action !== 'delete') {
+    throw new HttpError(400, 'INVALID_ACTION', 'Invalid action');
+  }
+
+  const event = await loadOwnedEvent(eventId, user.id);
+
+  if (action === 'create') {
+    const row = await createLiveStream(event.id, user.id, event.status);
+    return jsonResponse({ stream: toResponse(row) });
+  }
+
+  const existing = await loadLiveStream(event.id);
+  if (!existing) {
+    throw new HttpError(404, 'STREAM_NOT_FOUND', 'This event has no live stream');
+  }
+
+  if (action === 'reset_key') {
+    if (existing.status === 'active') {
+      throw new HttpError(409, 'STREAM_ACTIVE', "Can't reset the stream key while the event is live");
+    }
+
+    const streamKey = await resetMuxStreamKey(existing.mux_live_stream_id);
+    const { data: row, error } = await supabaseAdmin
+      .from('event_live_streams')
+      .update({ stream_key: streamKey })
+      .eq('event_id', event.id)
+      .select('event_id, mux_live_stream_id, stream_key, playback_id, status')
+      .single();
+
+    if (error) throw error;
+    return jsonResponse({ stream: toResponse(row) });
+  }
+
+  if (existing.status === 'active') {
+    throw new HttpError(409, 'STREAM_ACTIVE', "Can't remove the live stream while the event is live");
+  }
+
+  await deleteMuxLiveStream(existing.mux_live_stream_id);
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('event_live_streams')
+    .delete()
+    .eq('event_id', event.id);
+  if (deleteError) throw deleteError;
+
+  const { error: eventError } = await supabaseAdmin
+    .from('events')
+    .update({ livestream_url: null, live_playback_id: null })
+    .eq('id', event.id);
+  if (eventError) throw eventError;
+
+  return jsonResponse({ success: true });
+}, { rateLimit: { bucket: 'live-streams', limit: 30, windowSeconds: 60 * 60 } }));
@@ -1,48 +1,444 @@
 import { createClient } from 'npm:@supabase/supabase-js';
+import { verifyMuxSignature } from '../_shared/mux.ts';
+import { transitionJobsForAsset } from '../_shared/processingJobs.ts';
+import { muxAssetMetadata, type MuxAssetTrack } from '../_shared/mediaMetadata.ts';
+import { getStorageProvider } from '../_shared/storage.ts';
 
 const MUX_WEBHOOK_SECRET = Deno.env.get("MUX_WEBHOOK_SECRET");
 
+const UPLOAD_TABLES = ['video_uploads', 'masterclass_video_uploads'] as const;
+type UploadTable = typeof UPLOAD_TABLES[number];
+
 const supabaseAdmin = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
+// The fields we read from asset and direct upload payloads
+interface MuxEventData {
+  id: string;
+  passthrough?: string;
+  playback_ids?: { id: string; policy: string }[];
+  duration?: number;
+  aspect_ratio?: string;
+  resolution_tier?: string;
+  max_stored_resolution?: string;
+  tracks?: MuxAssetTrack[];
+  static_renditions?: unknown;
+  errors?: { type?: string; messages?: string[] };
+  asset_id?: string;
+  // Track events: text, audio or video
+  type?: string;
+  new_asset_settings?: { passthrough?: string };
+  error?: { type?: string; message?: string };
+  // Live stream events, and assets recorded from a live stream
+  active_asset_id?: string;
+  live_stream_id?: string;
+}
+
+interface MuxEvent {
+  id: string;
+  type: string;
+  object?: { type: string; id: string };
+  data: MuxEventData;
+}
+
+interface EventResult {
+  table: UploadTable | null;
+  matched: boolean;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+/**
+ * Find the upload table that owns a Mux asset or direct upload. Assets we
+ * create carry the table name in `passthrough`; anything else is looked up.
+ */
+async function resolveUploadTable(
+  column: 'asset_id' | 'mux_upload_id',
+  value: string,
+  passthrough?: string
+): Promise<UploadTable | null> {
+  if (passthrough && (UPLOAD_TABLES as readonly string[]).includes(passthrough)) {
+    return passthrough as UploadTable;
+  }
+
+  for (const table of UPLOAD_TABLES) {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .select('id')
+      .eq(column, value)
+      .limit(1);
+
+    if (error) throw error;
+    if (data && data.length > 0) return table;
+  }
+
+  return null;
+}
+
+async function updateUploads(
+  column: 'asset_id' | 'mux_upload_id',
+  value: string,
+  passthrough: string | undefined,
+  updates: Record<string, unknown>
+): Promise<EventResult> {
+  const table = await resolveUploadTable(column, value, passthrough);
+  if (!table) return { table: null, matched: false };
+
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq(column, value)
+    .select('id');
+
+  if (error) throw error;
+  return { table, matched: (data?.length ?? 0) > 0 };
+}
+
+/**
+ * Size of the uploaded source file, for the bitrate. Best effort: the
+ * asset is still marked ready without it.
+ */
+async function sourceFileSize(assetId: string, passthrough?: string): Promise<number | null> {
+  try {
+    const table = await resolveUploadTable('asset_id', assetId, passthrough);
+    if (!table) return null;
+
+    const { data } = await supabaseAdmin
+      .from(table)
+      .select('filename')
+      .eq('asset_id', assetId)
+      .limit(1)
+      .maybeSingle();
+
+    if (!data?.filename) return null;
+    return (await getStorageProvider().head(data.filename))?.size ?? null;
+  } catch (error) {
+    console.error(`Failed to read source size for asset ${assetId}:`, error);
+    return null;
+  }
+}
+
+function primaryPlaybackId(data: MuxEventData): string | null {
+  return data.playback_ids?.find((playback) => playback.policy === 'public')?.id
+    ?? data.playback_ids?.[0]?.id
+    ?? null;
+}
+
+function errorMessages(data: MuxEventData): string | null {
+  const messages = data.errors?.messages;
+  if (messages?.length) return messages.join('; ');
+  return data.errors?.type ?? null;
+}
+
+/**
+ * Mark a caption track added by manage-captions as ready or failed
+ */
+async function updateCaptionTrack(event: MuxEvent): Promise<EventResult | null> {
+  if (event.data.type !== 'text') return null;
+
+  const ready = event.type === 'video.asset.track.ready';
+  const { data, error } = await supabaseAdmin
+    .from('content_captions')
+    .update({
+      status: ready ? 'ready' : 'failed',
+      error_message: ready ? null : errorMessages(event.data) ?? 'Mux could not process this caption track',
+      updated_at: new Date().toISOString()
+    })
+    .eq('mux_track_id', event.data.id)
+    .select('id');
+
+  if (error) throw error;
+  return { table: null, matched: (data?.length ?? 0) > 0 };
+}
+
+/**
+ * Follow an event's live stream: going active puts the event on air,
+ * going idle after a broadcast ends it (021_event_live_streams.sql)
+ */
+async function updateLiveStream(event: MuxEvent): Promise<EventResult> {
+  const { data } = event;
+  const status = event.type.slice('video.live_stream.'.length);
+
+  const { data: streams, error } = await supabaseAdmin
+    .from('event_live_streams')
+    .update({
+      status,
+      ...(data.active_asset_id ? { active_asset_id: data.active_asset_id } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq('mux_live_stream_id', data.id)
+    .select('event_id');
+
+  if (error) throw error;
+  const eventId = streams?.[0]?.event_id;
+  if (!eventId) return { table: null, matched: false };
+
+  const now = new Date().toISOString();
+  if (status === 'active') {
+    const { error: eventError } = await supabaseAdmin
+      .from('events')
+      .update({ status: 'ongoing', live_started_at: now, live_ended_at: null })
+      .eq('id', eventId)
+      .in('status', ['upcoming', 'ongoing']);
+    if (eventError) throw eventError;
+  } else if (status === 'idle') {
+    // Idle also follows creation; only a stream that was on air ends the event
+    const { error: eventError } = await supabaseAdmin
+      .from('events')
+      .update({ status: 'completed', live_ended_at: now })
+      .eq('id', eventId)
+      .eq('status', 'ongoing');
+    if (eventError) throw eventError;
+  }
+
+  return { table: null, matched: true };
+}
+
+/**
+ * Publish the recording of a finished broadcast as the event's replay
+ */
+async function publishReplay(data: MuxEventData): Promise<EventResult> {
+  if (!data.live_stream_id) return { table: null, matched: false };
+
+  const { data: stream, error } = await supabaseAdmin
+    .from('event_live_streams')
+    .select('event_id')
+    .eq('mux_live_stream_id', data.live_stream_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!stream) return { table: null, matched: false };
+
+  const { error: eventError } = await supabaseAdmin
+    .from('events')
+    .update({
+      replay_asset_id: data.id,
+      replay_playback_id: primaryPlaybackId(data),
+      replay_duration_seconds: data.duration ?? null
+    })
+    .eq('id', stream.event_id);
+
+  if (eventError) throw eventError;
+  return { table: null, matched: true };
+}
+
+async function handleEvent(event: MuxEvent): Promise<EventResult | null> {
+  const { data } = event;
+
+  switch (event.type) {
+    case 'video.asset.ready': {
+      const playbackId = primaryPlaybackId(data);
+
+      if (!playbackId) {
+        throw new Error(`Asset ${data.id} is ready but has no playback ID`);
+      }
+
+      // Duration, dimensions, bitrate and codec; content rows copy these
+      // from the upload (019_media_metadata.sql)
+      const metadata = await muxAssetMetadata(data, await sourceFileSize(data.id, data.passthrough));
+
+      return updateUploads('asset_id', data.id, data.passthrough, {
+        playback_id: playbackId,
+        status: 'ready',
+        ...metadata,
+        aspect_ratio: data.aspect_ratio ?? null,
+        max_resolution: data.resolution_tier ?? data.max_stored_resolution ?? null,
+        error_message: null
+      });
+    }
+
+    case 'video.asset.errored':
+      return updateUploads('asset_id', data.id, data.passthrough, {
+        status: 'failed',
+        error_message: errorMessages(data) ?? 'Mux could not process this video'
+      });
+
+    case 'video.asset.deleted':
+      return updateUploads('asset_id', data.id, data.passthrough, {
+        status: 'deleted'
+      });
+
+    case 'video.asset.static_renditions.ready':
+      return updateUploads('asset_id', data.id, data.passthrough, {
+        static_renditions: data.static_renditions ?? null
+      });
+
+    case 'video.upload.asset_created':
+      return updateUploads('mux_upload_id', data.id, data.new_asset_settings?.passthrough, {
+        asset_id: data.asset_id,
+        status: 'processing'
+      });
+
+    case 'video.upload.cancelled':
+      return updateUploads('mux_upload_id', data.id, data.new_asset_settings?.passthrough, {
+        status: 'failed',
+        error_message: 'Upload was cancelled'
+      });
+
+    case 'video.upload.errored':
+      return updateUploads('mux_upload_id', data.id, data.new_asset_settings?.passthrough, {
+        status: 'failed',
+        error_message: data.error?.message ?? 'Upload failed'
+      });
+
+    case 'video.asset.track.ready':
+    case 'video.asset.track.errored':
+      return updateCaptionTrack(event);
+
+    case 'video.live_stream.active':
+    case 'video.live_stream.idle':
+    case 'video.live_stream.disconnected':
+    case 'video.live_stream.disabled':
+      return updateLiveStream(event);
+
+    case 'video.asset.live_stream_completed':
+      return publishReplay(data);
+
+    case 'video.asset.created':
+    case 'video.upload.created':
+      // Upload rows don't change until Mux has an asset or finishes it;
+      // the processing job is advanced in syncProcessingJobs
+      return { table: null, matched: true };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Advance the video_processing_jobs rows the uploads tray listens to
+ */
+async function syncProcessingJobs(event: MuxEvent) {
+  const { data } = event;
+
+  switch (event.type) {
+    case 'video.asset.created':
+      await transitionJobsForAsset(supabaseAdmin, data.id, 'processing');
+      break;
+    case 'video.asset.ready':
+      await transitionJobsForAsset(supabaseAdmin, data.id, 'ready', {
+        playback_id: primaryPlaybackId(data),
+        error_message: null
+      });
+      break;
+    case 'video.asset.errored':
+      await transitionJobsForAsset(supabaseAdmin, data.id, 'errored', {
+        error_message: errorMessages(data) ?? 'Mux could not process this video'
+      });
+      break;
+    case 'video.upload.cancelled':
+      if (data.asset_id) {
+        await transitionJobsForAsset(supabaseAdmin, data.asset_id, 'cancelled');
+      }
+      break;
+  }
+}
+
+/**
+ * Mux webhook receiver.
+ *
+ * Every delivery must carry a valid `mux-signature`. Events are stored by
+ * their Mux ID before processing, so redeliveries of an event that already
+ * went through are acknowledged without touching the upload rows again.
+ * A processing failure answers 500 so Mux retries it.
+ */
 Deno.serve(async (req) => {
   if (req.method !== 'POST') {
     return new Response('Method Not Allowed', { status: 405 });
   }
 
-  const data = await req.json();
+  if (!MUX_WEBHOOK_SECRET) {
+    console.error('MUX_WEBHOOK_SECRET is not configured');
+    return jsonResponse({ error: 'Webhook secret not configured' }, 500);
+  }
 
-  if (data.type === 'video.asset.ready') {
-    const assetId = data.data.id;
-    const playbackId = data.data.playback_ids?.[0]?.id;
+  const rawBody = await req.text();
 
-    if (!playbackId) {
-      return new Response(JSON.stringify({ error: 'Missing playback ID' }), { status: 400 });
-    }
+  if (!(await verifyMuxSignature(rawBody, req.headers.get('mux-signature'), MUX_WEBHOOK_SECRET))) {
+    return jsonResponse({ error: 'Invalid signature' }, 401);
+  }
+
+  let event: MuxEvent;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON' }, 400);
+  }
+
+  if (!event.id || !event.type) {
+    return jsonResponse({ error: 'Missing event id or type' }, 400);
+  }
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('mux_webhook_events')
+    .select('status, attempts')
+    .eq('id', event.id)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error('Failed to load webhook event:', fetchError);
+    return jsonResponse({ error: fetchError.message }, 500);
+  }
 
-    const { error } = await supabaseAdmin
-      .from('video_uploads')
+  // 'received' means an earlier attempt died mid-way; process it again
+  if (existing && (existing.status === 'processed' || existing.status === 'unmatched')) {
+    return jsonResponse({ status: 'duplicate', eventId: event.id });
+  }
+
+  const attempts = (existing?.attempts ?? 0) + 1;
+  const { error: storeError } = await supabaseAdmin
+    .from('mux_webhook_events')
+    .upsert({
+      id: event.id,
+      type: event.type,
+      object_id: event.object?.id ?? event.data?.id ?? null,
+      payload: event,
+      status: 'received',
+      attempts
+    });
+
+  if (storeError) {
+    console.error('Failed to store webhook event:', storeError);
+    return jsonResponse({ error: storeError.message }, 500);
+  }
+
+  try {
+    const result = await handleEvent(event);
+    await syncProcessingJobs(event);
+
+    const status = result === null || result.matched ? 'processed' : 'unmatched';
+    await supabaseAdmin
+      .from('mux_webhook_events')
       .update({
-        playback_id: playbackId,
-        status: 'ready'
+        status,
+        upload_table: result?.table ?? null,
+        error: null,
+        processed_at: new Date().toISOString()
       })
-      .eq('asset_id', assetId);
+      .eq('id', event.id);
 
-    if (error) {
-      console.error("Database update error:", error);
-      return new Response(JSON.stringify({ error: error.message }), { status: 500 });
+    if (result === null) {
+      return jsonResponse({ status: `ignored event type: ${event.type}`, eventId: event.id });
     }
 
-    console.log(`Video Asset ${assetId} is ready with playback ID ${playbackId}.`);
+    console.log(`Mux event ${event.type} for ${event.data?.id} ${status} (${result.table ?? 'no table'})`);
+    return jsonResponse({ status, eventId: event.id, table: result.table });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to process Mux event ${event.id}:`, error);
 
-    return new Response(JSON.stringify({
-      status: 'success',
-      assetId,
-      playbackId
-    }), { status: 200 });
-  }
+    await supabaseAdmin
+      .from('mux_webhook_events')
+      .update({ status: 'failed', error: message, processed_at: new Date().toISOString() })
+      .eq('id', event.id);
 
-  return new Response(JSON.stringify({ status: `ignored event type: ${data.type}` }), { status: 200 });
+    return jsonResponse({ error: message }, 500);
+  }
 });
@@ -0,0 +1,141 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getStorageProvider } from '../_shared/storage.ts';
+import { HttpError, errorResponse } from '../_shared/middleware.ts';
+
+// Deploy with --no-verify-jwt: platforms unfurling a link call this
+// without an Authorization header
+
+const SITE_URL = (Deno.env.get('SITE_URL') ?? '').replace(/\/$/, '');
+const PROVIDER_NAME = Deno.env.get('SITE_NAME') ?? 'Talent Connections';
+const DEFAULT_WIDTH = 640;
+// Text and images have nothing to play in an embed
+const NON_EMBEDDABLE_TYPES = ['blog', 'image'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const oembedHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+interface EmbedRow {
+  id: string;
+  user_id: string;
+  title: string;
+  creator: string;
+  type: string;
+  thumbnail_url: string | null;
+  thumbnail_key: string | null;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Content ID of a link to this site: the embed route itself, or a
+ * Media/Masterclass link opening an item (`?play=<id>`)
+ */
+function contentIdFromUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  if (SITE_URL && url.origin !== new URL(SITE_URL).origin) return null;
+
+  const id = url.pathname.match(/^\/embed\/([^/]+)\/?$/)?.[1] ?? url.searchParams.get('play');
+  return id && UUID_PATTERN.test(id) ? id : null;
+}
+
+// Largest 16:9 frame within the consumer's limits
+function frameSize(maxWidth: number, maxHeight: number) {
+  let width = Math.min(DEFAULT_WIDTH, maxWidth || DEFAULT_WIDTH);
+  let height = Math.round((width * 9) / 16);
+  if (maxHeight && height > maxHeight) {
+    height = maxHeight;
+    width = Math.round((height * 16) / 9);
+  }
+  return { width, height };
+}
+
+/**
+ * oEmbed (https://oembed.com) provider for published videos and audio.
+ *
+ * `GET ?url=<link>[&maxwidth=][&maxheight=][&format=json]` answers a
+ * `video` response whose HTML is an iframe of the /embed/:contentId route.
+ * Premium gating happens inside the embed, so premium items unfurl too.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: oembedHeaders });
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      throw new HttpError(405, 'METHOD_NOT_ALLOWED', 'Method Not Allowed');
+    }
+
+    const params = new URL(req.url).searchParams;
+    const format = params.get('format') ?? 'json';
+    if (format !== 'json') {
+      throw new HttpError(501, 'FORMAT_NOT_SUPPORTED', 'Only the json format is supported');
+    }
+
+    const contentId = contentIdFromUrl(params.get('url') ?? '');
+    if (!contentId) {
+      throw new HttpError(404, 'CONTENT_NOT_FOUND', 'Not a link to embeddable content');
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('get_embed_content', { p_content_id: contentId });
+    if (error) throw error;
+
+    const row = (data as EmbedRow[] | null)?.[0];
+    if (!row || NON_EMBEDDABLE_TYPES.includes(row.type)) {
+      throw new HttpError(404, 'CONTENT_NOT_FOUND', 'Content not found');
+    }
+
+    const siteUrl = SITE_URL || new URL(params.get('url')!).origin;
+    const { width, height } = frameSize(Number(params.get('maxwidth')), Number(params.get('maxheight')));
+    const thumbnailUrl = row.thumbnail_key ? getStorageProvider().publicUrl(row.thumbnail_key) : row.thumbnail_url;
+
+    const body = {
+      version: '1.0',
+      type: 'video',
+      provider_name: PROVIDER_NAME,
+      provider_url: siteUrl,
+      title: row.title,
+      author_name: row.creator,
+      author_url: `${siteUrl}/portfolio/${row.user_id}`,
+      width,
+      height,
+      html: `<iframe src="${escapeHtml(`${siteUrl}/embed/${row.id}`)}" width="${width}" height="${height}" title="${escapeHtml(row.title)}" frameborder="0" allow="autoplay; fullscreen; picture-in-picture" allowfullscreen></iframe>`,
+      ...(thumbnailUrl ? { thumbnail_url: thumbnailUrl } : {}),
+      cache_age: 3600
+    };
+
+    return new Response(JSON.stringify(body), {
+      headers: {
+        ...oembedHeaders,
+        'Content-Type': 'application/json; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600'
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof HttpError)) {
+      console.error('oEmbed error:', error);
+    }
+    return errorResponse(error, 'Could not build the embed');
+  }
+});
@@ -0,0 +1,102 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getStorageProvider } from '../_shared/storage.ts';
+import { signMuxPlaybackToken } from '../_shared/mux.ts';
+import { HttpError, authenticatedHandler, jsonResponse } from '../_shared/middleware.ts';
+
+const CONTENT_TABLES = {
+  media: 'media_page_content',
+  portfolio: 'portfolio_page_content',
+  masterclass: 'masterclass_page_content'
+} as const;
+type ContentSource = keyof typeof CONTENT_TABLES;
+
+// Long enough to start watching; the client asks again before expiry and
+// HLS segments already fetched keep playing
+const TOKEN_EXPIRY_SECONDS = 60 * 60;
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+interface ContentRow {
+  id: string;
+  user_id: string;
+  is_premium: boolean;
+  playback_policy: 'public' | 'signed';
+  content_url: string | null;
+  content_key: string | null;
+}
+
+/**
+ * Short-lived playback credentials for premium content.
+ *
+ * Body: `{ source, contentId }`. Free content, and premium content whose
+ * move to signed delivery hasn't finished, answers `{ policy: "public" }`
+ * and plays from its stored URL. Otherwise the creator and paid tiers get
+ * Mux playback/thumbnail/storyboard tokens, or a presigned GET for files
+ * stored directly in B2.
+ */
+Deno.serve(authenticatedHandler(async (req, { user }) => {
+  const { source, contentId } = await req.json();
+
+  if (typeof source !== 'string' || !(source in CONTENT_TABLES)) {
+    throw new HttpError(400, 'INVALID_CONTENT', 'Unknown content source');
+  }
+  if (typeof contentId !== 'string' || !contentId) {
+    throw new HttpError(400, 'INVALID_CONTENT', 'Missing contentId');
+  }
+
+  // Drafts, scheduled releases and items pending deletion only play for
+  // their creator
+  const { data, error } = await supabaseAdmin
+    .from(CONTENT_TABLES[source as ContentSource])
+    .select('id, user_id, is_premium, playback_policy, content_url, content_key')
+    .eq('id', contentId)
+    .or(`status.eq.published,user_id.eq.${user.id}`)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, 'CONTENT_NOT_FOUND', 'Content not found');
+
+  const row = data as ContentRow;
+  if (!row.is_premium || row.playback_policy !== 'signed') {
+    return jsonResponse({ policy: 'public' });
+  }
+
+  if (row.user_id !== user.id && user.tier === 'free') {
+    throw new HttpError(403, 'PREMIUM_REQUIRED', 'Upgrade your plan to watch premium content', {
+      currentTier: user.tier
+    });
+  }
+
+  const expiresAt = new Date(Date.now() + TOKEN_EXPIRY_SECONDS * 1000).toISOString();
+  const playbackId = row.content_url?.match(/stream\.mux\.com\/([A-Za-z0-9]+)/)?.[1];
+
+  if (playbackId) {
+    let tokens;
+    try {
+      const [playback, thumbnail, storyboard] = await Promise.all([
+        signMuxPlaybackToken(playbackId, 'v', TOKEN_EXPIRY_SECONDS),
+        signMuxPlaybackToken(playbackId, 't', TOKEN_EXPIRY_SECONDS),
+        signMuxPlaybackToken(playbackId, 's', TOKEN_EXPIRY_SECONDS)
+      ]);
+      tokens = { playback, thumbnail, storyboard };
+    } catch (signError) {
+      const message = signError instanceof Error ? signError.message : String(signError);
+      throw new HttpError(500, 'SIGNING_ERROR', 'Could not sign the playback token', { reason: message });
+    }
+
+    return jsonResponse({ policy: 'signed', playbackId, tokens, expiresAt });
+  }
+
+  if (!row.content_key) {
+    throw new HttpError(404, 'CONTENT_NOT_FOUND', 'This content has no playable file');
+  }
+
+  const url = await getStorageProvider().presign(row.content_key, {
+    method: 'GET',
+    expiresIn: TOKEN_EXPIRY_SECONDS
+  });
+  return jsonResponse({ policy: 'signed', url, expiresAt });
+}, { rateLimit: { bucket: 'playback-tokens', limit: 600, windowSeconds: 60 * 60 } }));
@@ -0,0 +1,370 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getStorageProvider, isPrivateKey } from '../_shared/storage.ts';
+import { HttpError, errorResponse } from '../_shared/middleware.ts';
+
+// Deploy with --no-verify-jwt: podcast apps fetch feeds without an
+// Authorization header
+
+const AUDIO_CONTENT_TYPES = ['audio-music', 'podcast'];
+const MAX_EPISODES = 300;
+// Presigned enclosures of premium episodes last the S3 maximum. Private
+// feeds are re-validated daily (see feedVersion), well before they expire.
+const ENCLOSURE_URL_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+const PRIVATE_FEED_REFRESH_MS = 24 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/x-m4a',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime'
+};
+
+const feedHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, if-none-match, if-modified-since',
+  'Access-Control-Expose-Headers': 'ETag, Last-Modified'
+};
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+interface Channel {
+  ownerId: string;
+  title: string;
+  author: string;
+  description: string;
+  artworkUrl: string | null;
+  category: string | null;
+  language: string;
+  isExplicit: boolean;
+  updatedAt: string;
+}
+
+interface EpisodeRow {
+  id: string;
+  user_id: string;
+  title: string;
+  creator: string;
+  description: string | null;
+  thumbnail_url: string | null;
+  thumbnail_key: string | null;
+  content_key: string;
+  duration_seconds: number | null;
+  is_premium: boolean;
+  is_explicit: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Enclosure {
+  url: string;
+  length: number;
+  type: string;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function element(name: string, value: string | null | undefined) {
+  return value ? `<${name}>${escapeXml(value)}</${name}>` : '';
+}
+
+function artworkUrl(key: string | null, url: string | null) {
+  return key ? getStorageProvider().publicUrl(key) : url;
+}
+
+async function loadSubscriber(token: string) {
+  const { data, error } = await supabaseAdmin
+    .from('podcast_feed_tokens')
+    .select('user_id')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(401, 'INVALID_FEED_TOKEN', 'This private feed link is no longer valid');
+
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('tier')
+    .eq('id', data.user_id)
+    .maybeSingle();
+
+  // Only a hint for the subscriber's settings page, so not awaited
+  supabaseAdmin
+    .from('podcast_feed_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('token', token)
+    .then(({ error: updateError }) => {
+      if (updateError) console.error('Could not record feed token use:', updateError);
+    });
+
+  return { id: data.user_id as string, tier: (profile?.tier as string | undefined) ?? 'free' };
+}
+
+async function loadCreatorChannel(creatorId: string): Promise<Channel> {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('id, name, bio, avatar_url, updated_at')
+    .eq('id', creatorId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, 'FEED_NOT_FOUND', 'Creator not found');
+
+  return {
+    ownerId: data.id,
+    title: data.name,
+    author: data.name,
+    description: data.bio || `Audio from ${data.name}`,
+    artworkUrl: data.avatar_url,
+    category: null,
+    language: 'en',
+    isExplicit: false,
+    updatedAt: data.updated_at
+  };
+}
+
+async function loadSeriesChannel(seriesId: string): Promise<Channel> {
+  const { data, error } = await supabaseAdmin
+    .from('podcast_series')
+    .select('id, user_id, title, description, artwork_url, category, language, is_explicit, updated_at')
+    .eq('id', seriesId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, 'FEED_NOT_FOUND', 'Series not found');
+
+  const { data: owner } = await supabaseAdmin
+    .from('profiles')
+    .select('name')
+    .eq('id', data.user_id)
+    .maybeSingle();
+
+  return {
+    ownerId: data.user_id,
+    title: data.title,
+    author: owner?.name ?? data.title,
+    description: data.description || data.title,
+    artworkUrl: data.artwork_url,
+    category: data.category,
+    language: data.language,
+    isExplicit: data.is_explicit,
+    updatedAt: data.updated_at
+  };
+}
+
+/**
+ * Published audio stored in our bucket, newest first. Mux-only items have
+ * no downloadable file for an enclosure and are left out. A series only
+ * lists its owner's episodes.
+ */
+async function loadEpisodes(filter: { creatorId: string; seriesId?: string | null }) {
+  let query = supabaseAdmin
+    .from('media_page_content')
+    .select('id, user_id, title, creator, description, thumbnail_url, thumbnail_key, content_key, duration_seconds, is_premium, is_explicit, created_at, updated_at')
+    .eq('status', 'published')
+    .in('type', AUDIO_CONTENT_TYPES)
+    .not('content_key', 'is', null)
+    .order('created_at', { ascending: false })
+    .eq('user_id', filter.creatorId)
+    .limit(MAX_EPISODES);
+
+  if (filter.seriesId) query = query.eq('series_id', filter.seriesId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as EpisodeRow[];
+}
+
+async function enclosureFor(episode: EpisodeRow): Promise<Enclosure | null> {
+  const storage = getStorageProvider();
+  const head = await storage.head(episode.content_key);
+  if (!head) return null;
+
+  const extension = episode.content_key.split('.').pop()?.toLowerCase() ?? '';
+  const url = isPrivateKey(episode.content_key)
+    ? await storage.presign(episode.content_key, { method: 'GET', expiresIn: ENCLOSURE_URL_EXPIRY_SECONDS })
+    : storage.publicUrl(episode.content_key);
+
+  return {
+    url,
+    length: head.size,
+    type: head.contentType && head.contentType !== 'application/octet-stream'
+      ? head.contentType
+      : AUDIO_MIME_TYPES[extension] ?? 'audio/mpeg'
+  };
+}
+
+/**
+ * Validator for conditional GETs, computed from the rows alone so a
+ * matching request is answered before any storage lookup. Private feeds
+ * with premium episodes also change daily, so the presigned enclosures a
+ * podcast app holds on to are renewed before they expire.
+ */
+async function feedVersion(channel: Channel, episodes: EpisodeRow[], isPrivate: boolean) {
+  const timestamps = [channel.updatedAt, ...episodes.map((episode) => episode.updated_at)]
+    .map((value) => new Date(value).getTime())
+    .filter((value) => !isNaN(value));
+  let lastModified = Math.max(0, ...timestamps);
+
+  const renewsDaily = isPrivate && episodes.some((episode) => isPrivateKey(episode.content_key));
+  if (renewsDaily) {
+    lastModified = Math.max(lastModified, Math.floor(Date.now() / PRIVATE_FEED_REFRESH_MS) * PRIVATE_FEED_REFRESH_MS);
+  }
+
+  const fingerprint = JSON.stringify([
+    channel,
+    episodes.map((episode) => [episode.id, episode.updated_at]),
+    isPrivate,
+    renewsDaily ? lastModified : null
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fingerprint));
+  const etag = `"${Array.from(new Uint8Array(digest).slice(0, 16), (byte) => byte.toString(16).padStart(2, '0')).join('')}"`;
+
+  // HTTP dates have second precision
+  return { etag, lastModified: new Date(Math.floor(lastModified / 1000) * 1000) };
+}
+
+function isNotModified(req: Request, etag: string, lastModified: Date) {
+  const ifNoneMatch = req.headers.get('If-None-Match');
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag || tag.trim() === '*');
+  }
+
+  const ifModifiedSince = Date.parse(req.headers.get('If-Modified-Since') ?? '');
+  return !isNaN(ifModifiedSince) && lastModified.getTime() <= ifModifiedSince;
+}
+
+function renderFeed(channel: Channel, feedUrl: string, episodes: Array<{ row: EpisodeRow; enclosure: Enclosure }>) {
+  const siteUrl = Deno.env.get('SITE_URL');
+  const link = siteUrl ? `${siteUrl.replace(/\/$/, '')}/media` : feedUrl;
+
+  const items = episodes.map(({ row, enclosure }) => {
+    const image = artworkUrl(row.thumbnail_key, row.thumbnail_url);
+    return [
+      '<item>',
+      element('title', row.title),
+      element('description', row.description),
+      `<guid isPermaLink="false">${escapeXml(row.id)}</guid>`,
+      `<pubDate>${new Date(row.created_at).toUTCString()}</pubDate>`,
+      `<enclosure url="${escapeXml(enclosure.url)}" length="${enclosure.length}" type="${escapeXml(enclosure.type)}"/>`,
+      element('itunes:author', row.creator),
+      row.duration_seconds ? `<itunes:duration>${Math.round(row.duration_seconds)}</itunes:duration>` : '',
+      image ? `<itunes:image href="${escapeXml(image)}"/>` : '',
+      `<itunes:explicit>${row.is_explicit || channel.isExplicit ? 'true' : 'false'}</itunes:explicit>`,
+      '</item>'
+    ].filter(Boolean).join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    element('title', channel.title),
+    element('link', link),
+    `<atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    element('description', channel.description),
+    element('language', channel.language),
+    element('itunes:author', channel.author),
+    element('itunes:summary', channel.description),
+    channel.artworkUrl ? `<itunes:image href="${escapeXml(channel.artworkUrl)}"/>` : '',
+    channel.artworkUrl
+      ? `<image><url>${escapeXml(channel.artworkUrl)}</url>${element('title', channel.title)}${element('link', link)}</image>`
+      : '',
+    channel.category ? `<itunes:category text="${escapeXml(channel.category)}"/>` : '',
+    `<itunes:explicit>${channel.isExplicit ? 'true' : 'false'}</itunes:explicit>`,
+    '<itunes:type>episodic</itunes:type>',
+    ...items,
+    '</channel>',
+    '</rss>'
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * RSS 2.0 feed with the iTunes namespace of a creator's (`?creator=<id>`)
+ * or a series' (`?series=<id>`) published audio.
+ *
+ * Premium episodes are only listed with `&token=<feed token>` of a paid
+ * subscriber or of the creator, and their enclosures are presigned.
+ * Answers If-None-Match / If-Modified-Since with 304.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: feedHeaders });
+  }
+
+  try {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      throw new HttpError(405, 'METHOD_NOT_ALLOWED', 'Method Not Allowed');
+    }
+
+    const url = new URL(req.url);
+    const creatorId = url.searchParams.get('creator');
+    const seriesId = url.searchParams.get('series');
+    const token = url.searchParams.get('token');
+
+    const feedId = seriesId ?? creatorId;
+    if (!feedId || (creatorId && seriesId) || !UUID_PATTERN.test(feedId)) {
+      throw new HttpError(400, 'INVALID_FEED', 'Pass either a creator or a series ID');
+    }
+
+    const subscriber = token ? await loadSubscriber(token) : null;
+    const channel = seriesId ? await loadSeriesChannel(seriesId) : await loadCreatorChannel(creatorId!);
+    const canListPremium = !!subscriber && (subscriber.tier !== 'free' || subscriber.id === channel.ownerId);
+
+    const episodes = (await loadEpisodes({ creatorId: channel.ownerId, seriesId }))
+      .filter((episode) => canListPremium || !episode.is_premium);
+
+    const { etag, lastModified } = await feedVersion(channel, episodes, !!subscriber);
+    const cacheHeaders = {
+      ...feedHeaders,
+      'ETag': etag,
+      'Last-Modified': lastModified.toUTCString(),
+      // Private feeds carry the subscriber's token and presigned URLs
+      'Cache-Control': subscriber ? 'private, max-age=300' : 'public, max-age=300'
+    };
+
+    if (isNotModified(req, etag, lastModified)) {
+      return new Response(null, { status: 304, headers: cacheHeaders });
+    }
+
+    // Episodes whose file is gone or unreadable are left out rather than
+    // failing the whole feed
+    const withEnclosures = await Promise.all(episodes.map(async (row) => {
+      try {
+        const enclosure = await enclosureFor(row);
+        return enclosure ? [{ row, enclosure }] : [];
+      } catch (error) {
+        console.error(`Could not build the enclosure for ${row.id}:`, error);
+        return [];
+      }
+    }));
+
+    const feedUrl = `${url.origin}${url.pathname}${url.search}`;
+    const body = renderFeed(channel, feedUrl, withEnclosures.flat());
+
+    return new Response(req.method === 'HEAD' ? null : body, {
+      headers: { ...cacheHeaders, 'Content-Type': 'application/rss+xml; charset=utf-8' }
+    });
+  } catch (error) {
+    if (!(error instanceof HttpError)) {
+      console.error('Podcast feed error:', error);
+    }
+    return errorResponse(error, 'Could not build the feed');
+  }
+});
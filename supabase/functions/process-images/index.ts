@@ -0,0 +1,184 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getStorageProvider, isPrivateKey } from '../_shared/storage.ts';
+import { processStoredImage, storageKeyFromUrl } from '../_shared/imageDerivatives.ts';
+
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+interface ImageTarget {
+  // Column prefix: <prefix>_variants, <prefix>_placeholder, ...
+  prefix: 'thumbnail' | 'avatar' | 'image';
+  keyColumn?: string;
+  urlColumn: string;
+}
+
+const IMAGE_TARGETS: Record<string, ImageTarget> = {
+  media_page_content: { prefix: 'thumbnail', keyColumn: 'thumbnail_key', urlColumn: 'thumbnail_url' },
+  portfolio_page_content: { prefix: 'thumbnail', keyColumn: 'thumbnail_key', urlColumn: 'thumbnail_url' },
+  masterclass_page_content: { prefix: 'thumbnail', keyColumn: 'thumbnail_key', urlColumn: 'thumbnail_url' },
+  projects_page_providers: { prefix: 'avatar', urlColumn: 'avatar_url' },
+  event_memories: { prefix: 'image', urlColumn: 'image_url' }
+};
+
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  SUPABASE_SERVICE_ROLE_KEY
+);
+
+type PendingRow = Record<string, unknown> & { id: string };
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+}
+
+function selectColumns(target: ImageTarget) {
+  return ['id', target.keyColumn, target.urlColumn, `${target.prefix}_processing_attempts`]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Process one row's image and save the derivatives. Rows without an image
+ * in our storage (none set, Mux thumbnails, external or private URLs) are
+ * marked processed with no variants so they are not picked up again; a
+ * missing object or a failed conversion is retried by the sweep.
+ */
+async function processRow(table: string, target: ImageTarget, row: PendingRow): Promise<boolean> {
+  const { prefix } = target;
+
+  try {
+    const storage = getStorageProvider();
+    const key = (target.keyColumn ? row[target.keyColumn] as string | null : null)
+      ?? storageKeyFromUrl(storage, row[target.urlColumn] as string | null);
+
+    const derivatives = key && !isPrivateKey(key) ? await processStoredImage(storage, key) : { variants: [], placeholder: null };
+    if (!derivatives) throw new Error(`Object not found: ${key}`);
+
+    const { error } = await supabaseAdmin
+      .from(table)
+      .update({
+        [`${prefix}_variants`]: derivatives.variants,
+        [`${prefix}_placeholder`]: derivatives.placeholder,
+        [`${prefix}_processed_at`]: new Date().toISOString()
+      })
+      .eq('id', row.id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error(`Image processing failed for ${table}/${row.id}:`, error);
+    await supabaseAdmin
+      .from(table)
+      .update({ [`${prefix}_processing_attempts`]: ((row[`${prefix}_processing_attempts`] as number) ?? 0) + 1 })
+      .eq('id', row.id);
+    return false;
+  }
+}
+
+async function processOne(table: string, id: string) {
+  const target = IMAGE_TARGETS[table];
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select(selectColumns(target))
+    .eq('id', id)
+    .is(`${target.prefix}_processed_at`, null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return { processed: 0, failed: 0 };
+
+  const processed = await processRow(table, target, data as unknown as PendingRow);
+  return { processed: processed ? 1 : 0, failed: processed ? 0 : 1 };
+}
+
+/**
+ * Work through rows never processed: new rows whose trigger request failed
+ * and images uploaded before derivatives existed
+ */
+async function processPending() {
+  let processed = 0;
+  let failed = 0;
+
+  for (const [table, target] of Object.entries(IMAGE_TARGETS)) {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .select(selectColumns(target))
+      .is(`${target.prefix}_processed_at`, null)
+      .lt(`${target.prefix}_processing_attempts`, MAX_ATTEMPTS)
+      .order('created_at', { ascending: false })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    for (const row of (data ?? []) as unknown as PendingRow[]) {
+      if (await processRow(table, target, row)) {
+        processed++;
+      } else {
+        failed++;
+      }
+    }
+  }
+
+  return { processed, failed };
+}
+
+/**
+ * Responsive image processor: strips metadata from uploaded thumbnails,
+ * provider avatars and event memory photos and writes their AVIF/WebP
+ * variants and blur placeholder.
+ *
+ * Called with the service role key only: by the request_image_processing
+ * triggers with `{ table, id }` whenever a row's image is set, and by the
+ * pg_cron sweep with `{ mode: "pending" }`.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method Not Allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!SUPABASE_SERVICE_ROLE_KEY || token !== SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body.table || body.id) {
+      if (!Object.hasOwn(IMAGE_TARGETS, body.table) || typeof body.id !== 'string') {
+        return jsonResponse({ error: 'Invalid table or id' }, 400);
+      }
+      return jsonResponse({ success: true, ...(await processOne(body.table, body.id)) });
+    }
+
+    const mode = body.mode ?? 'pending';
+    if (mode === 'pending') {
+      return jsonResponse({ success: true, mode, ...(await processPending()) });
+    }
+
+    return jsonResponse({ error: `Unknown mode: ${mode}` }, 400);
+  } catch (error) {
+    console.error('Image processing error:', error);
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Image processing failed'
+    }, 500);
+  }
+});
@@ -0,0 +1,304 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getStorageProvider } from '../_shared/storage.ts';
+import { deleteMuxAsset } from '../_shared/mux.ts';
+
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const JOB_BATCH_SIZE = 50;
+// PostgREST caps a select at max_rows (1000 by default), so the reference
+// views are read in pages of this size
+const REFERENCE_PAGE_SIZE = 1000;
+const MAX_JOB_ATTEMPTS = 5;
+
+// Uploads land in storage before their content row is saved, so give
+// in-flight drafts a week before the orphan sweep may remove them
+const ORPHAN_GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Every folder the app uploads into (see uploadToB2 callers)
+const SWEEP_PREFIXES = [
+  'uploads/',
+  'masterclass_videos/',
+  'media_page_content/',
+  'portfolio_page_content/',
+  'masterclass_page_content/',
+  'media/',
+  'projects_page_avatars/',
+  'thumbnails/',
+  'private/'
+];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  SUPABASE_SERVICE_ROLE_KEY
+);
+
+interface PurgeJob {
+  id: string;
+  storage_keys: string[];
+  mux_asset_ids: string[];
+  purged_keys: string[];
+  purged_assets: string[];
+  skipped_keys: string[];
+  skipped_assets: string[];
+  attempts: number;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+}
+
+/**
+ * Keys that live content still points at. Read page by page: a key missing
+ * from a truncated result would look like an orphan and be deleted.
+ */
+async function loadReferencedKeys(keys?: string[]): Promise<Set<string>> {
+  const referenced = new Set<string>();
+
+  for (let from = 0; ; from += REFERENCE_PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('storage_object_references')
+      .select('key')
+      .not('key', 'is', null)
+      .order('key')
+      .range(from, from + REFERENCE_PAGE_SIZE - 1);
+    if (keys) {
+      query = query.in('key', keys);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    for (const row of (data ?? []) as { key: string }[]) referenced.add(row.key);
+    if (!data || data.length < REFERENCE_PAGE_SIZE) return referenced;
+  }
+}
+
+/**
+ * Mux assets that live content still plays
+ */
+async function loadReferencedAssets(assetIds: string[]): Promise<Set<string>> {
+  const { data, error } = await supabaseAdmin
+    .from('mux_asset_references')
+    .select('asset_id')
+    .in('asset_id', assetIds);
+
+  if (error) throw error;
+
+  return new Set((data ?? []).map((row: { asset_id: string }) => row.asset_id));
+}
+
+/**
+ * Work through queued jobs written by the enqueue_content_purge trigger.
+ * A job that fails part-way keeps what it already removed and is retried
+ * on the next run until MAX_JOB_ATTEMPTS.
+ */
+async function processQueue() {
+  const { data: jobs, error } = await supabaseAdmin
+    .from('storage_purge_jobs')
+    .select('id, storage_keys, mux_asset_ids, purged_keys, purged_assets, skipped_keys, skipped_assets, attempts')
+    .in('status', ['pending', 'partial'])
+    .lt('attempts', MAX_JOB_ATTEMPTS)
+    .order('created_at', { ascending: true })
+    .limit(JOB_BATCH_SIZE);
+
+  if (error) throw error;
+
+  const storage = getStorageProvider();
+  const summary = { jobs: 0, purgedKeys: 0, purgedAssets: 0, skippedKeys: 0, skippedAssets: 0, failed: 0 };
+
+  for (const job of (jobs ?? []) as PurgeJob[]) {
+    summary.jobs++;
+    const purgedKeys = new Set(job.purged_keys);
+    const purgedAssets = new Set(job.purged_assets);
+    const skippedKeys = new Set(job.skipped_keys);
+    const skippedAssets = new Set(job.skipped_assets);
+    const errors: string[] = [];
+
+    const remainingKeys = job.storage_keys.filter((key) => !purgedKeys.has(key) && !skippedKeys.has(key));
+    const stillReferenced = remainingKeys.length > 0
+      ? await loadReferencedKeys(remainingKeys)
+      : new Set<string>();
+
+    for (const key of remainingKeys) {
+      // Restored or duplicated content can share a file with the deleted row
+      if (stillReferenced.has(key)) {
+        summary.skippedKeys++;
+        skippedKeys.add(key);
+        continue;
+      }
+
+      try {
+        await storage.delete(key);
+        purgedKeys.add(key);
+        summary.purgedKeys++;
+      } catch (deleteError) {
+        errors.push(`${key}: ${deleteError instanceof Error ? deleteError.message : String(deleteError)}`);
+      }
+    }
+
+    const remainingAssets = job.mux_asset_ids.filter((id) => !purgedAssets.has(id) && !skippedAssets.has(id));
+    const assetsInUse = remainingAssets.length > 0
+      ? await loadReferencedAssets(remainingAssets)
+      : new Set<string>();
+
+    for (const assetId of remainingAssets) {
+      // Another row can still play the same asset or playback ID
+      if (assetsInUse.has(assetId)) {
+        summary.skippedAssets++;
+        skippedAssets.add(assetId);
+        continue;
+      }
+
+      try {
+        await deleteMuxAsset(assetId);
+        purgedAssets.add(assetId);
+        summary.purgedAssets++;
+      } catch (muxError) {
+        errors.push(`${assetId}: ${muxError instanceof Error ? muxError.message : String(muxError)}`);
+      }
+    }
+
+    const attempts = job.attempts + 1;
+    const status = errors.length === 0
+      ? 'purged'
+      : attempts >= MAX_JOB_ATTEMPTS ? 'failed' : 'partial';
+
+    if (errors.length > 0) summary.failed++;
+
+    const { error: updateError } = await supabaseAdmin
+      .from('storage_purge_jobs')
+      .update({
+        status,
+        attempts,
+        last_error: errors.length > 0 ? errors.join('\n') : null,
+        purged_keys: [...purgedKeys],
+        purged_assets: [...purgedAssets],
+        skipped_keys: [...skippedKeys],
+        skipped_assets: [...skippedAssets],
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', job.id);
+
+    if (updateError) {
+      console.error(`Failed to update purge job ${job.id}:`, updateError);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Remove objects no row references, e.g. uploads abandoned before the
+ * content was saved or thumbnails that were replaced
+ */
+async function sweepOrphans(dryRun: boolean) {
+  const storage = getStorageProvider();
+  const referenced = await loadReferencedKeys();
+  const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+  const orphans: string[] = [];
+  let scanned = 0;
+
+  for (const prefix of SWEEP_PREFIXES) {
+    let cursor: string | undefined;
+
+    do {
+      const page = await storage.list(prefix, cursor);
+      cursor = page.nextCursor;
+
+      for (const object of page.objects) {
+        scanned++;
+        if (referenced.has(object.key)) continue;
+        if (!object.lastModified || object.lastModified.getTime() > cutoff) continue;
+        orphans.push(object.key);
+      }
+    } while (cursor);
+  }
+
+  if (orphans.length === 0) {
+    return { scanned, orphans: 0, purged: 0, dryRun };
+  }
+
+  if (dryRun) {
+    return { scanned, orphans: orphans.length, purged: 0, dryRun, keys: orphans };
+  }
+
+  const purged: string[] = [];
+  const errors: string[] = [];
+  for (const key of orphans) {
+    try {
+      await storage.delete(key);
+      purged.push(key);
+    } catch (deleteError) {
+      errors.push(`${key}: ${deleteError instanceof Error ? deleteError.message : String(deleteError)}`);
+    }
+  }
+
+  // Keep a record of what the sweep removed
+  await supabaseAdmin.from('storage_purge_jobs').insert({
+    source_table: 'storage',
+    reason: 'orphan_sweep',
+    storage_keys: orphans,
+    purged_keys: purged,
+    status: errors.length === 0 ? 'purged' : 'partial',
+    attempts: 1,
+    last_error: errors.length > 0 ? errors.join('\n') : null,
+    processed_at: new Date().toISOString()
+  });
+
+  return { scanned, orphans: orphans.length, purged: purged.length, dryRun };
+}
+
+/**
+ * Garbage collection for storage objects and Mux assets.
+ *
+ * Called by pg_cron (see 015_storage_garbage_collection.sql) with the
+ * service role key. `{ "mode": "queue" }` drains storage_purge_jobs;
+ * `{ "mode": "orphans", "dryRun": true }` reports unreferenced objects
+ * without deleting them.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method Not Allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!SUPABASE_SERVICE_ROLE_KEY || token !== SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const mode = body.mode ?? 'queue';
+
+    if (mode === 'queue') {
+      return jsonResponse({ success: true, mode, ...(await processQueue()) });
+    }
+
+    if (mode === 'orphans') {
+      return jsonResponse({ success: true, mode, ...(await sweepOrphans(body.dryRun === true)) });
+    }
+
+    return jsonResponse({ error: `Unknown mode: ${mode}` }, 400);
+  } catch (error) {
+    console.error('Purge error:', error);
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Purge failed'
+    }, 500);
+  }
+});
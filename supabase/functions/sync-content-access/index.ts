@@ -0,0 +1,289 @@
+import { createClient } from 'npm:@supabase/supabase-js';
+import { getStorageProvider, toPrivateKey, toPublicKey } from '../_shared/storage.ts';
+import {
+  createMuxPlaybackId,
+  deleteMuxPlaybackId,
+  getMuxAssetPlaybackIds,
+  type MuxPlaybackPolicy
+} from '../_shared/mux.ts';
+import type { UploadTable } from '../_shared/processingJobs.ts';
+
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const CONTENT_TABLES = ['media_page_content', 'portfolio_page_content', 'masterclass_page_content'] as const;
+type ContentTable = typeof CONTENT_TABLES[number];
+
+const UPLOAD_TABLES: UploadTable[] = ['video_uploads', 'masterclass_video_uploads'];
+
+const BATCH_SIZE = 25;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  SUPABASE_SERVICE_ROLE_KEY
+);
+
+interface ContentRow {
+  id: string;
+  user_id: string;
+  is_premium: boolean;
+  playback_policy: MuxPlaybackPolicy;
+  content_url: string | null;
+  content_key: string | null;
+  thumbnail_url: string | null;
+  thumbnail_key: string | null;
+  video_upload_id?: string | null;
+}
+
+interface UploadRow {
+  id: string;
+  filename: string | null;
+  asset_id: string | null;
+  playback_id: string | null;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+}
+
+function muxPlaybackIdFromUrl(url: string | null): string | null {
+  return url?.match(/stream\.mux\.com\/([A-Za-z0-9]+)/)?.[1] ?? null;
+}
+
+function columnsFor(table: ContentTable) {
+  const columns = 'id, user_id, is_premium, playback_policy, content_url, content_key, thumbnail_url, thumbnail_key';
+  return table === 'masterclass_page_content' ? `${columns}, video_upload_id` : columns;
+}
+
+async function findUpload(row: ContentRow, playbackId: string): Promise<{ table: UploadTable; upload: UploadRow } | null> {
+  for (const table of UPLOAD_TABLES) {
+    let query = supabaseAdmin.from(table).select('id, filename, asset_id, playback_id');
+    query = table === 'masterclass_video_uploads' && row.video_upload_id
+      ? query.eq('id', row.video_upload_id)
+      : query.eq('playback_id', playbackId);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    if (data) return { table, upload: data as UploadRow };
+  }
+  return null;
+}
+
+/**
+ * Move a stored object between the public and private prefixes. The copy
+ * lands before the original is removed, so a failure leaves the old key
+ * intact and the row still pointing at it.
+ */
+async function moveObject(key: string, policy: MuxPlaybackPolicy): Promise<string> {
+  const destination = policy === 'signed' ? toPrivateKey(key) : toPublicKey(key);
+  if (destination === key) return key;
+
+  const storage = getStorageProvider();
+  if (!(await storage.head(key))) {
+    // Already moved by an earlier attempt that failed before the row update
+    if (await storage.head(destination)) return destination;
+    throw new Error(`Object not found: ${key}`);
+  }
+
+  await storage.copy(key, destination);
+  return destination;
+}
+
+/**
+ * Mux's poster for a public playback ID stops working once that ID is
+ * removed, and signed thumbnails need a token that listing pages don't
+ * have. Keep a copy in storage so the card image survives the switch.
+ */
+async function copyMuxPoster(table: ContentTable, row: ContentRow) {
+  if (!row.thumbnail_url?.includes('image.mux.com')) return null;
+
+  const response = await fetch(row.thumbnail_url);
+  if (!response.ok) throw new Error(`Poster download failed with status ${response.status}`);
+
+  const storage = getStorageProvider();
+  const key = `thumbnails/${row.user_id}/${table}-${row.id}-poster.jpg`;
+  await storage.put(key, new Uint8Array(await response.arrayBuffer()), response.headers.get('Content-Type') ?? 'image/jpeg');
+
+  return { thumbnail_key: key, thumbnail_url: storage.publicUrl(key) };
+}
+
+async function syncMuxContent(table: ContentTable, row: ContentRow, playbackId: string, policy: MuxPlaybackPolicy) {
+  const found = await findUpload(row, playbackId);
+  if (!found?.upload.asset_id) throw new Error(`No Mux upload found for playback ID ${playbackId}`);
+  const { table: uploadTable, upload } = found;
+  const assetId = upload.asset_id!;
+
+  const existing = await getMuxAssetPlaybackIds(assetId);
+  const nextPlaybackId = existing.find((id) => id.policy === policy)?.id ?? await createMuxPlaybackId(assetId, policy);
+
+  const sourceKey = upload.filename ? await moveObject(upload.filename, policy) : null;
+
+  const { error: uploadError } = await supabaseAdmin
+    .from(uploadTable)
+    .update({ playback_id: nextPlaybackId, filename: sourceKey })
+    .eq('id', upload.id);
+  if (uploadError) throw uploadError;
+
+  const poster = policy === 'signed' ? await copyMuxPoster(table, row) : null;
+
+  const { error: contentError } = await supabaseAdmin
+    .from(table)
+    .update({
+      content_url: `https://stream.mux.com/${nextPlaybackId}.m3u8`,
+      playback_policy: policy,
+      ...(poster ?? {})
+    })
+    .eq('id', row.id);
+  if (contentError) throw contentError;
+
+  if (upload.filename && sourceKey !== upload.filename) {
+    await getStorageProvider().delete(upload.filename);
+  }
+
+  // Only now is nothing pointing at the other policy's IDs
+  for (const stale of existing.filter((id) => id.policy !== policy)) {
+    await deleteMuxPlaybackId(assetId, stale.id);
+  }
+}
+
+async function syncStoredContent(table: ContentTable, row: ContentRow, policy: MuxPlaybackPolicy) {
+  const contentKey = row.content_key ? await moveObject(row.content_key, policy) : null;
+  const storage = getStorageProvider();
+
+  const { error } = await supabaseAdmin
+    .from(table)
+    .update({
+      content_key: contentKey,
+      content_url: contentKey ? storage.publicUrl(contentKey) : row.content_url,
+      playback_policy: policy
+    })
+    .eq('id', row.id);
+  if (error) throw error;
+
+  if (row.content_key && contentKey !== row.content_key) {
+    await storage.delete(row.content_key);
+  }
+}
+
+/**
+ * Bring one row's delivery in line with its premium flag
+ */
+async function syncRow(table: ContentTable, row: ContentRow): Promise<boolean> {
+  const policy: MuxPlaybackPolicy = row.is_premium ? 'signed' : 'public';
+  if (row.playback_policy === policy) return true;
+
+  try {
+    const playbackId = muxPlaybackIdFromUrl(row.content_url);
+    if (playbackId) {
+      await syncMuxContent(table, row, playbackId, policy);
+    } else {
+      await syncStoredContent(table, row, policy);
+    }
+    return true;
+  } catch (error) {
+    console.error(`Access sync failed for ${table}/${row.id}:`, error);
+    return false;
+  }
+}
+
+async function syncOne(table: ContentTable, id: string) {
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select(columnsFor(table))
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return { synced: 0, failed: 0 };
+
+  const synced = await syncRow(table, data as unknown as ContentRow);
+  return { synced: synced ? 1 : 0, failed: synced ? 0 : 1 };
+}
+
+/**
+ * Work through rows whose premium flag and delivery disagree: rows whose
+ * trigger request failed and content that was premium before signing
+ */
+async function syncPending() {
+  let synced = 0;
+  let failed = 0;
+
+  for (const table of CONTENT_TABLES) {
+    const [premium, unpremium] = await Promise.all([
+      supabaseAdmin.from(table).select(columnsFor(table))
+        .eq('is_premium', true).eq('playback_policy', 'public').limit(BATCH_SIZE),
+      supabaseAdmin.from(table).select(columnsFor(table))
+        .eq('is_premium', false).eq('playback_policy', 'signed').limit(BATCH_SIZE)
+    ]);
+
+    if (premium.error) throw premium.error;
+    if (unpremium.error) throw unpremium.error;
+
+    const rows = [...(premium.data ?? []), ...(unpremium.data ?? [])] as unknown as ContentRow[];
+    for (const row of rows) {
+      if (await syncRow(table, row)) {
+        synced++;
+      } else {
+        failed++;
+      }
+    }
+  }
+
+  return { synced, failed };
+}
+
+/**
+ * Premium access sync.
+ *
+ * Called with the service role key only: by the request_content_access_sync
+ * trigger with `{ table, id }` when a row's premium flag changes, and by the
+ * pg_cron sweep with `{ mode: "pending" }`.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method Not Allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!SUPABASE_SERVICE_ROLE_KEY || token !== SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body.table || body.id) {
+      if (!CONTENT_TABLES.includes(body.table) || typeof body.id !== 'string') {
+        return jsonResponse({ error: 'Invalid table or id' }, 400);
+      }
+      return jsonResponse({ success: true, ...(await syncOne(body.table, body.id)) });
+    }
+
+    const mode = body.mode ?? 'pending';
+    if (mode === 'pending') {
+      return jsonResponse({ success: true, mode, ...(await syncPending()) });
+    }
+
+    return jsonResponse({ error: `Unknown mode: ${mode}` }, 400);
+  } catch (error) {
+    console.error('Access sync error:', error);
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Access sync failed'
+    }, 500);
+  }
+});